@@ -7,9 +7,21 @@ import swaggerUi from 'swagger-ui-express';
 import { expressjwt } from 'express-jwt';
 import { tripRouter } from './controller/trip.routes';
 import { eventRouter } from './controller/event.routes';
-import { userRouter, tokenBlacklist } from './controller/user.routes';
+import { userRouter } from './controller/user.routes';
+import { roleRouter } from './controller/role.routes';
+import { adminRouter } from './controller/admin.routes';
+import { organiserApplicationRouter } from './controller/organiserApplication.routes';
 import helmet from 'helmet';
 import { httpLogger, logger } from './util/logger';
+import sessionService from './service/session.service';
+import jwtKeyring from './util/jwt.keyring';
+import rateLimiter from './util/rate.limiter';
+import securityAudit from './util/security.audit';
+import privacyService from './service/privacy.service';
+import tokenBlacklist from './util/token.blacklist';
+import breachedPasswords from './util/breached.passwords';
+import secretBox from './util/secret.box';
+import { getPasswordPolicy } from './util/password.policy';
 
 const app = express();
 
@@ -67,50 +79,100 @@ const allowedOrigins = process.env.ALLOWED_ORIGINS?.split(',') || ['http://local
 app.use(cors({ origin: allowedOrigins }));
 app.use(bodyParser.json());
 
-// Token blacklist middleware - check if token is logged out
-app.use((req: Request, res: Response, next: NextFunction) => {
-    const token = req.headers.authorization?.split(' ')[1];
-    if (token && tokenBlacklist.has(token)) {
-        return res.status(401).json({ status: 'unauthorized', message: 'Token has been revoked' });
-    }
-    next();
-});
-
-// Fail-fast on missing JWT_SECRET — never silently fall back to a known default
-if (!process.env.JWT_SECRET) {
-    logger.error('JWT_SECRET is not set. Refusing to start.');
-    throw new Error('JWT_SECRET is required');
+// Fail-fast on a missing DATA_ENCRYPTION_KEY (encrypts the signing keys and TOTP secrets at rest) — never silently fall back to a known default
+try {
+    secretBox.assertConfigured();
+} catch (error) {
+    logger.error({ error: error instanceof Error ? error.message : 'Unknown error' }, 'DATA_ENCRYPTION_KEY is not valid. Refusing to start.');
+    throw error;
 }
 
+// Read PASSWORD_POLICY_FILE now, so an invalid policy stops the server instead of the first signup
+getPasswordPolicy();
+
+// Create the first signing key if needed and rotate on schedule
+jwtKeyring.startRotation();
+
 app.use(
     expressjwt({
-        secret: process.env.JWT_SECRET,
-        algorithms: ['HS256'],
+        // Verification key is looked up by the token's kid; unknown or expired kids are rejected
+        secret: (req, token) => jwtKeyring.getVerificationKey(token?.header.kid),
+        algorithms: jwtKeyring.getSupportedAlgorithms(),
     }).unless({
         // Pre-authentication endpoints (must be reachable without a JWT):
-        //   login, signup, email verification (+ resend), password reset (forgot + reset),
-        //   MFA verification (post-password, pre-token), remember-me login.
+        //   login, signup (and its password policy), email verification (+ resend), password reset (forgot + reset),
+        //   MFA verification and email fallback (post-password, pre-token), passkey login,
+        //   access token refresh.
         // Logout is intentionally NOT in this list so the JWT middleware
-        // populates req.auth and remember-me tokens get revoked server-side.
+        // populates req.auth and refresh tokens get revoked server-side.
         path: [
             '/api-docs', /^\/api-docs\/.*/,
+            '/.well-known/jwks.json',
             '/users/login',
             '/users/signup',
+            '/users/password-policy',
             '/users/verify-email',
             '/users/resend-verification',
             '/users/forgot-password',
             '/users/reset-password',
+            '/users/unlock-account',
+            '/users/magic-link',
+            '/users/magic-link/verify',
+            '/users/email-change/confirm',
+            '/users/email-change/revert',
             '/users/verify-mfa',
-            '/users/login-with-token',
+            '/users/mfa/email-fallback',
+            '/users/webauthn/login/options',
+            '/users/webauthn/login/verify',
+            '/users/refresh',
             '/status',
             '/trips', /^\/trips\/.*/,
         ],
     })
 );
 
+// Token revocation middleware - reject access tokens revoked by logout or whose session
+// was logged out (runs after JWT verification)
+app.use(async (req: Request, res: Response, next: NextFunction) => {
+    const auth = (req as { auth?: { userId?: number; sid?: number; jti?: string; act?: { sub?: string } } }).auth;
+    if (!auth) {
+        return next();
+    }
+
+    try {
+        // Every token we issue carries a jti and a session id; one without them cannot be revoked, so don't accept it
+        if (!auth.jti || (await tokenBlacklist.isRevoked(auth.jti))) {
+            return res.status(401).json({ status: 'unauthorized', message: 'Token has been revoked' });
+        }
+        // An impersonation token lives in the administrator's session, so logging the administrator out ends it too
+        const sessionOwnerId = auth.act ? Number(auth.act.sub) : auth.userId;
+        if (!sessionOwnerId || !auth.sid || !(await sessionService.validateSession({ sessionId: auth.sid, userId: sessionOwnerId }))) {
+            return res.status(401).json({ status: 'unauthorized', message: 'Session has been logged out' });
+        }
+        next();
+    } catch (error) {
+        next(error);
+    }
+});
+
+// Revoked tokens only need to be kept until they expire
+tokenBlacklist.startPurging();
+// Same for rate limit counters once their window has ended
+rateLimiter.startPurging();
+// Keep each user's security events for their data export
+securityAudit.startRecording();
+securityAudit.startPurging();
+// Carry out account deletions whose grace period has ended
+privacyService.startDeletionJob();
+// Load or build the breached password index now rather than during a signup
+breachedPasswords.prepareIndex();
+
 app.use('/trips', tripRouter);
 app.use('/events', eventRouter);
 app.use('/users', userRouter);
+app.use('/roles', roleRouter);
+app.use('/admin', adminRouter);
+app.use('/organiser-applications', organiserApplicationRouter);
 
 /**
  * @swagger
@@ -136,6 +198,27 @@ app.get('/status', (req, res) => {
     res.json({ message: 'Travel Booking API is running...' });
 });
 
+/**
+ * @swagger
+ * /.well-known/jwks.json:
+ *   get:
+ *     summary: Public keys for verifying access tokens
+ *     description: JSON Web Key Set with every key that can still verify tokens, matched by the token's kid header
+ *     tags:
+ *       - System
+ *     responses:
+ *       200:
+ *         description: JSON Web Key Set
+ */
+app.get('/.well-known/jwks.json', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        res.set('Cache-Control', 'public, max-age=300');
+        res.json(await jwtKeyring.getJwks());
+    } catch (error) {
+        next(error);
+    }
+});
+
 const swaggerOpts = {
     definition: {
         openapi: '3.0.0',
@@ -0,0 +1,470 @@
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     UserAccountStatus:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: number
+ *           format: int64
+ *         firstName:
+ *           type: string
+ *         lastName:
+ *           type: string
+ *         email:
+ *           type: string
+ *         role:
+ *           type: string
+ *           example: "CLIENT"
+ *         emailVerified:
+ *           type: boolean
+ *         failedLoginAttempts:
+ *           type: number
+ *         lockedUntil:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         locked:
+ *           type: boolean
+ *           description: Whether a lockout is currently in effect.
+ *         mfaEnabled:
+ *           type: boolean
+ *         mfaMethods:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [EMAIL, TOTP]
+ *         passwordResetRequired:
+ *           type: boolean
+ *         disabledAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+import express, { NextFunction, Request, Response } from 'express';
+import adminService from '../service/admin.service';
+import { requirePermission, requireStepUp } from '../util/authorization';
+
+const adminRouter = express.Router();
+
+const getAdminId = (req: Request): number => (req as { auth?: { userId: number } }).auth!.userId;
+
+/**
+ * @swagger
+ * /admin/users:
+ *   get:
+ *     summary: List and search users
+ *     description: Requires the user:read permission.
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Admin
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Matches first name, last name or email (case-insensitive).
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: A page of users
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 users:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/UserAccountStatus'
+ *                 total:
+ *                   type: number
+ *                 page:
+ *                   type: number
+ *                 pageSize:
+ *                   type: number
+ *       403:
+ *         description: Missing permission
+ */
+adminRouter.get('/users', requirePermission('user:read'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await adminService.listUsers({
+            adminId: getAdminId(req),
+            search: typeof req.query.search === 'string' ? req.query.search : undefined,
+            page: Number(req.query.page) || undefined,
+            pageSize: Number(req.query.pageSize) || undefined,
+        });
+        res.status(200).json(result);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /admin/users/{id}:
+ *   get:
+ *     summary: View a user's account status
+ *     description: Lockout, MFA, email verification and disabled state. Requires the user:read permission.
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Admin
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Account status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UserAccountStatus'
+ *       400:
+ *         description: User not found
+ *       403:
+ *         description: Missing permission
+ */
+adminRouter.get('/users/:id', requirePermission('user:read'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const status = await adminService.getUserStatus({ adminId: getAdminId(req), userId: Number(req.params.id) });
+        res.status(200).json(status);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /admin/users/{id}/unlock:
+ *   post:
+ *     summary: Unlock a locked account
+ *     description: Clears the failed login counter and lockout. Requires the user:lock permission.
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Admin
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Account unlocked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UserAccountStatus'
+ *       403:
+ *         description: Missing permission
+ */
+adminRouter.post('/users/:id/unlock', requirePermission('user:lock'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const status = await adminService.unlockUser({ adminId: getAdminId(req), userId: Number(req.params.id) });
+        res.status(200).json(status);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /admin/users/{id}/force-password-reset:
+ *   post:
+ *     summary: Force a password reset
+ *     description: The current password stops working, all sessions are logged out and the user is emailed a reset link valid for 24 hours. Requires the user:update permission.
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Admin
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Reset required and email sent
+ *       403:
+ *         description: Missing permission
+ */
+adminRouter.post(
+    '/users/:id/force-password-reset',
+    requirePermission('user:update'),
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const result = await adminService.forcePasswordReset({ adminId: getAdminId(req), userId: Number(req.params.id) });
+            res.status(200).json(result);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /admin/users/{id}/reset-mfa:
+ *   post:
+ *     summary: Reset a user's MFA
+ *     description: Removes the authenticator app, recovery codes and passkeys, and turns MFA off. Requires the user:update permission.
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Admin
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: MFA reset
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UserAccountStatus'
+ *       403:
+ *         description: Missing permission
+ */
+adminRouter.post('/users/:id/reset-mfa', requirePermission('user:update'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const status = await adminService.resetMfa({ adminId: getAdminId(req), userId: Number(req.params.id) });
+        res.status(200).json(status);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /admin/users/{id}/disable:
+ *   post:
+ *     summary: Disable an account
+ *     description: Blocks every login method and logs out all sessions. Admins cannot disable themselves. Requires the user:lock permission.
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Admin
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: "Reported for fraud"
+ *     responses:
+ *       200:
+ *         description: Account disabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UserAccountStatus'
+ *       403:
+ *         description: Missing permission
+ */
+adminRouter.post('/users/:id/disable', requirePermission('user:lock'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const status = await adminService.disableUser({
+            adminId: getAdminId(req),
+            userId: Number(req.params.id),
+            reason: typeof req.body?.reason === 'string' ? req.body.reason.slice(0, 500) : undefined,
+        });
+        res.status(200).json(status);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /admin/users/{id}/enable:
+ *   post:
+ *     summary: Re-enable a disabled account
+ *     description: Requires the user:lock permission.
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Admin
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Account enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UserAccountStatus'
+ *       403:
+ *         description: Missing permission
+ */
+adminRouter.post('/users/:id/enable', requirePermission('user:lock'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const status = await adminService.enableUser({ adminId: getAdminId(req), userId: Number(req.params.id) });
+        res.status(200).json(status);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /admin/users/{id}/role:
+ *   put:
+ *     summary: Change a user's role
+ *     description: Applies from the user's next request. Admins cannot change their own role and the last ADMIN cannot be demoted. Requires the role:assign permission.
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Admin
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 example: "ORGANISER"
+ *     responses:
+ *       200:
+ *         description: Role changed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UserAccountStatus'
+ *       400:
+ *         description: Unknown role, own account, last administrator, or the user still organises experiences or trips
+ *       403:
+ *         description: Missing permission
+ */
+adminRouter.put('/users/:id/role', requirePermission('role:assign'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const status = await adminService.changeRole({
+            adminId: getAdminId(req),
+            userId: Number(req.params.id),
+            roleName: req.body.role,
+        });
+        res.status(200).json(status);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /admin/users/{id}/impersonate:
+ *   post:
+ *     summary: Act as a user to see what they see
+ *     description: >-
+ *       Returns a short-lived access token for the user whose `act` claim names the administrator. It cannot be
+ *       refreshed and ends when the administrator's session does (or on POST /users/logout with the token).
+ *       Requests made with it are tagged in the logs, and changing credentials, MFA, sessions, exporting or deleting
+ *       the account are refused. Administrators cannot be impersonated. Requires the user:impersonate permission and a
+ *       recent step-up (POST /users/step-up).
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Admin
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: "Ticket 4821: organiser cannot see their events"
+ *     responses:
+ *       200:
+ *         description: Impersonation token issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 token:
+ *                   type: string
+ *                 expiresAt:
+ *                   type: string
+ *                   format: date-time
+ *                 user:
+ *                   $ref: '#/components/schemas/UserAccountStatus'
+ *       400:
+ *         description: Missing reason, own account, disabled account or administrator
+ *       401:
+ *         description: Step-up required
+ *       403:
+ *         description: Missing permission, or already impersonating
+ */
+adminRouter.post(
+    '/users/:id/impersonate',
+    requirePermission('user:impersonate'),
+    requireStepUp(),
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const result = await adminService.impersonateUser({
+                adminId: getAdminId(req),
+                sessionId: (req as { auth?: { sid: number } }).auth!.sid,
+                userId: Number(req.params.id),
+                reason: typeof req.body?.reason === 'string' ? req.body.reason.slice(0, 500) : undefined,
+            });
+            res.status(200).json(result);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+export { adminRouter };
@@ -65,7 +65,8 @@
 import express, { NextFunction, Request, Response } from 'express';
 import eventService from '../service/event.service';
 import userService from '../service/user.service';
-import { logger, logSecurityEvent } from '../util/logger';
+import { forbidImpersonation, requirePermission } from '../util/authorization';
+import { logger } from '../util/logger';
 
 const eventRouter = express.Router();
 
@@ -102,7 +103,7 @@ const eventRouter = express.Router();
  *                   type: string
  *                   example: "No authorization token was found"
  */
-eventRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+eventRouter.get('/', requirePermission('event:read'), async (req: Request, res: Response, next: NextFunction) => {
     try {
         const events = await eventService.getAllEvents();
         res.status(200).json(events);
@@ -157,6 +158,7 @@ eventRouter.get('/', async (req: Request, res: Response, next: NextFunction) =>
  */
 eventRouter.get(
     '/organiser/:organiserId',
+    requirePermission('event:read'),
     async (req: Request, res: Response, next: NextFunction) => {
         try {
             const organiserId = Number(req.params.organiserId);
@@ -208,7 +210,7 @@ eventRouter.get(
  *                   type: string
  *                   example: "Experience date must be in the future"
  *       401:
- *         description: Unauthorized - Authentication required or user is not an organiser
+ *         description: Unauthorized - Authentication required
  *         content:
  *           application/json:
  *             schema:
@@ -217,31 +219,18 @@ eventRouter.get(
  *                 message:
  *                   type: string
  *                   example: "Authentication required"
+ *       403:
+ *         description: Forbidden - the user's role lacks the event:create permission, or an administrator is impersonating the user
  */
-eventRouter.post('/', async (req: Request, res: Response, next: NextFunction) => {
+eventRouter.post('/', requirePermission('event:create'), forbidImpersonation(), async (req: Request, res: Response, next: NextFunction) => {
     try {
         const { name, description, date, location } = req.body;
-        const auth = (req as { auth?: { userId?: number } }).auth;
-
-        if (!auth || !auth.userId) {
-            logger.warn({ url: req.url }, '🔓 Unauthorized event creation attempt');
-            return res.status(401).json({ message: 'Authentication required' });
-        }
-
-        // Get user by ID from JWT (preferred over email)
-        const userId = auth.userId; // TypeScript now knows userId is not undefined
+        // requirePermission has already checked the JWT and the user's role
+        const userId = (req as { auth?: { userId?: number } }).auth!.userId!;
         const user = await userService.getUserById({ id: userId });
 
-        if (!user || !user.getIsOrganiser()) {
-            logSecurityEvent('PRIVILEGE_ESCALATION', {
-                userId: auth.userId,
-                reason: 'Non-organiser attempted to create experience',
-            });
-            return res.status(401).json({ message: 'Only organisers can create experiences' });
-        }
-
         logger.info(
-            { userId: auth.userId, eventName: name, organiser: user.getFullName() },
+            { userId, eventName: name, organiser: user.getFullName() },
             '✨ Creating new experience'
         );
 
@@ -0,0 +1,280 @@
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     OrganiserApplication:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: number
+ *           format: int64
+ *         userId:
+ *           type: number
+ *           format: int64
+ *         businessName:
+ *           type: string
+ *         motivation:
+ *           type: string
+ *         contactEmail:
+ *           type: string
+ *         contactPhone:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [PENDING, APPROVED, REJECTED]
+ *         reviewNote:
+ *           type: string
+ *           description: Note or rejection reason from the reviewing administrator.
+ *         reviewedAt:
+ *           type: string
+ *           format: date-time
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     OrganiserApplicationInput:
+ *       type: object
+ *       required:
+ *         - businessName
+ *         - motivation
+ *         - contactEmail
+ *       properties:
+ *         businessName:
+ *           type: string
+ *           example: "Ardennen Avonturen"
+ *         motivation:
+ *           type: string
+ *           description: At least 20 characters.
+ *           example: "We have been organising hiking weekends in the Ardennes for ten years."
+ *         contactEmail:
+ *           type: string
+ *           example: "info@ardennen-avonturen.be"
+ *         contactPhone:
+ *           type: string
+ *           example: "+32 470 12 34 56"
+ */
+import express, { NextFunction, Request, Response } from 'express';
+import organiserApplicationService from '../service/organiserApplication.service';
+import { OrganiserApplicationInput } from '../types';
+import { forbidImpersonation, requirePermission } from '../util/authorization';
+
+const organiserApplicationRouter = express.Router();
+
+/**
+ * @swagger
+ * /organiser-applications:
+ *   post:
+ *     summary: Apply to become an organiser
+ *     description: Clients can have one pending application at a time. An administrator approves or rejects it and the outcome is emailed.
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Organiser applications
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/OrganiserApplicationInput'
+ *     responses:
+ *       201:
+ *         description: Application submitted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OrganiserApplication'
+ *       400:
+ *         description: Invalid input, already an organiser or an application is already pending
+ *       403:
+ *         description: Not allowed while impersonating the user
+ */
+organiserApplicationRouter.post('/', forbidImpersonation(), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { userId } = (req as { auth?: { userId: number } }).auth!;
+        const application = await organiserApplicationService.submitApplication({
+            userId,
+            application: req.body as OrganiserApplicationInput,
+        });
+        res.status(201).json(application);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /organiser-applications/me:
+ *   get:
+ *     summary: Get my organiser applications
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Organiser applications
+ *     responses:
+ *       200:
+ *         description: The user's applications, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/OrganiserApplication'
+ */
+organiserApplicationRouter.get('/me', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { userId } = (req as { auth?: { userId: number } }).auth!;
+        const applications = await organiserApplicationService.getMyApplications({ userId });
+        res.status(200).json(applications);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /organiser-applications:
+ *   get:
+ *     summary: List organiser applications for review
+ *     description: Requires the role:assign permission.
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Organiser applications
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, APPROVED, REJECTED]
+ *     responses:
+ *       200:
+ *         description: Applications, oldest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/OrganiserApplication'
+ *       403:
+ *         description: Missing permission
+ */
+organiserApplicationRouter.get('/', requirePermission('role:assign'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const applications = await organiserApplicationService.getApplications({
+            status: typeof req.query.status === 'string' ? req.query.status : undefined,
+        });
+        res.status(200).json(applications);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /organiser-applications/{id}/approve:
+ *   post:
+ *     summary: Approve an organiser application
+ *     description: Grants the applicant the ORGANISER role, effective on their next request. Requires the role:assign permission.
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Organiser applications
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Application approved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OrganiserApplication'
+ *       400:
+ *         description: Application not found or already reviewed
+ *       403:
+ *         description: Missing permission
+ */
+organiserApplicationRouter.post(
+    '/:id/approve',
+    requirePermission('role:assign'),
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const { userId } = (req as { auth?: { userId: number } }).auth!;
+            const application = await organiserApplicationService.approveApplication({
+                adminId: userId,
+                applicationId: Number(req.params.id),
+                note: typeof req.body?.note === 'string' ? req.body.note.slice(0, 1000) : undefined,
+            });
+            res.status(200).json(application);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /organiser-applications/{id}/reject:
+ *   post:
+ *     summary: Reject an organiser application
+ *     description: The reason, if given, is included in the email to the applicant. Requires the role:assign permission.
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Organiser applications
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: "We could not verify your business details."
+ *     responses:
+ *       200:
+ *         description: Application rejected
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OrganiserApplication'
+ *       400:
+ *         description: Application not found or already reviewed
+ *       403:
+ *         description: Missing permission
+ */
+organiserApplicationRouter.post(
+    '/:id/reject',
+    requirePermission('role:assign'),
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const { userId } = (req as { auth?: { userId: number } }).auth!;
+            const application = await organiserApplicationService.rejectApplication({
+                adminId: userId,
+                applicationId: Number(req.params.id),
+                reason: typeof req.body?.reason === 'string' ? req.body.reason.slice(0, 1000) : undefined,
+            });
+            res.status(200).json(application);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+export { organiserApplicationRouter };
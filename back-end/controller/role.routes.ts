@@ -0,0 +1,210 @@
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Role:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: number
+ *           format: int64
+ *           description: Role ID.
+ *         name:
+ *           type: string
+ *           description: Role name.
+ *           example: "SUPPORT"
+ *         description:
+ *           type: string
+ *           description: What the role is for.
+ *         permissions:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: ["event:read", "user:read"]
+ *         isSystem:
+ *           type: boolean
+ *           description: Built-in roles (ADMIN, ORGANISER, CLIENT) cannot be changed or deleted.
+ *     RoleInput:
+ *       type: object
+ *       required:
+ *         - name
+ *         - permissions
+ *       properties:
+ *         name:
+ *           type: string
+ *           description: 2-32 uppercase letters, digits or underscores.
+ *           example: "SUPPORT"
+ *         description:
+ *           type: string
+ *           example: "Helpdesk staff"
+ *         permissions:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: ["event:read", "user:read"]
+ */
+import express, { NextFunction, Request, Response } from 'express';
+import roleService from '../service/role.service';
+import { RoleInput } from '../types';
+import { requirePermission } from '../util/authorization';
+
+const roleRouter = express.Router();
+
+/**
+ * @swagger
+ * /roles:
+ *   get:
+ *     summary: List roles
+ *     description: Lists system and custom roles with their permissions. Requires the role:manage permission.
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Roles
+ *     responses:
+ *       200:
+ *         description: Roles
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Role'
+ *       403:
+ *         description: Missing permission
+ */
+roleRouter.get('/', requirePermission('role:manage'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const roles = await roleService.getAllRoles();
+        res.status(200).json(roles);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /roles:
+ *   post:
+ *     summary: Create a custom role
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Roles
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RoleInput'
+ *     responses:
+ *       201:
+ *         description: Role created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Role'
+ *       400:
+ *         description: Invalid name, unknown permission or name already taken
+ *       403:
+ *         description: Missing permission
+ */
+roleRouter.post('/', requirePermission('role:manage'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { userId } = (req as { auth?: { userId: number } }).auth!;
+        const role = await roleService.createRole({ actorId: userId, role: req.body as RoleInput });
+        res.status(201).json(role);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /roles/{id}:
+ *   put:
+ *     summary: Update a custom role
+ *     description: Changes the description and/or permissions of a custom role. System roles cannot be changed. Users holding the role are affected on their next request.
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Roles
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               description:
+ *                 type: string
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Role updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Role'
+ *       400:
+ *         description: Role not found, system role or unknown permission
+ *       403:
+ *         description: Missing permission
+ */
+roleRouter.put('/:id', requirePermission('role:manage'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { userId } = (req as { auth?: { userId: number } }).auth!;
+        const role = await roleService.updateRole({
+            actorId: userId,
+            id: Number(req.params.id),
+            role: { description: req.body.description, permissions: req.body.permissions },
+        });
+        res.status(200).json(role);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /roles/{id}:
+ *   delete:
+ *     summary: Delete a custom role
+ *     description: System roles and roles still assigned to users cannot be deleted.
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Roles
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Role deleted
+ *       400:
+ *         description: Role not found, system role or still in use
+ *       403:
+ *         description: Missing permission
+ */
+roleRouter.delete('/:id', requirePermission('role:manage'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { userId } = (req as { auth?: { userId: number } }).auth!;
+        const result = await roleService.deleteRole({ actorId: userId, id: Number(req.params.id) });
+        res.status(200).json(result);
+    } catch (error) {
+        next(error);
+    }
+});
+
+export { roleRouter };
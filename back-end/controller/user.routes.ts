@@ -15,7 +15,10 @@
  *              description: Authentication response.
  *            token:
  *              type: string
- *              description: JWT access token.
+ *              description: Short-lived JWT access token.
+ *            refreshToken:
+ *              type: string
+ *              description: One-time refresh token used to obtain the next access token.
  *            email:
  *              type: string
  *              description: User email.
@@ -25,6 +28,18 @@
  *            lastName:
  *              type: string
  *              description: User last name.
+ *            requiresMFA:
+ *              type: boolean
+ *              description: True when a second factor must be verified before a token is issued.
+ *            mfaMethods:
+ *              type: array
+ *              items:
+ *                type: string
+ *                enum: [EMAIL, TOTP]
+ *            mfaChallengeId:
+ *              type: string
+ *              description: Opaque id of the pending second-factor step. Send it to /users/verify-mfa with the code; valid for 10 minutes and a limited number of wrong codes.
+ *              description: Second factors the user can complete the login with.
  *      AuthenticationRequest:
  *          type: object
  *          properties:
@@ -49,9 +64,9 @@
  *            lastName:
  *              type: string
  *              description: User last name.
- *            isOrganiser:
- *              type: boolean
- *              description: Whether the user is an organiser.
+ *            role:
+ *              type: string
+ *              description: Name of the user's role (e.g. ADMIN, ORGANISER, CLIENT).
  *            createdAt:
  *              type: string
  *              format: date-time
@@ -75,65 +90,186 @@
  *            lastName:
  *              type: string
  *              description: User last name.
- *            isOrganiser:
+ *      Session:
+ *          type: object
+ *          properties:
+ *            id:
+ *              type: number
+ *              format: int64
+ *            userAgent:
+ *              type: string
+ *              description: Browser or device the login came from.
+ *            ipAddress:
+ *              type: string
+ *              description: IP address the login came from.
+ *            createdAt:
+ *              type: string
+ *              format: date-time
+ *              description: Login time.
+ *            lastSeenAt:
+ *              type: string
+ *              format: date-time
+ *              description: Last time the session was used.
+ *            current:
+ *              type: boolean
+ *              description: Whether this is the session making the request.
+ *      UserProfile:
+ *          type: object
+ *          properties:
+ *            id:
+ *              type: number
+ *              format: int64
+ *            firstName:
+ *              type: string
+ *            lastName:
+ *              type: string
+ *            email:
+ *              type: string
+ *            role:
+ *              type: string
+ *            emailVerified:
  *              type: boolean
- *              description: Whether the user is an organiser.
- *              default: false
+ *            mfaEnabled:
+ *              type: boolean
+ *            mfaMethods:
+ *              type: array
+ *              items:
+ *                type: string
+ *                enum: [EMAIL, TOTP]
+ *            pendingEmail:
+ *              type: string
+ *              nullable: true
+ *              description: New address of an email change waiting for confirmation.
+ *            deletionScheduledAt:
+ *              type: string
+ *              format: date-time
+ *              nullable: true
+ *              description: When the account will be deleted, if deletion was requested.
+ *            createdAt:
+ *              type: string
+ *              format: date-time
  */
 import express, { NextFunction, Request, Response } from 'express';
-import rateLimit from 'express-rate-limit';
+import sessionService from '../service/session.service';
+import privacyService from '../service/privacy.service';
+import profileService from '../service/profile.service';
 import userService from '../service/user.service';
-import { UserInput } from '../types/index';
+import webauthnService from '../service/webauthn.service';
+import { SessionContext, UserInput } from '../types/index';
 import { logger, logSecurityEvent } from '../util/logger';
+import { forbidImpersonation, requireStepUp } from '../util/authorization';
+import rateLimiter from '../util/rate.limiter';
 
 const userRouter = express.Router();
 
-// In-memory token blacklist (in production, use Redis or database)
-const tokenBlacklist = new Set<string>();
-
-// Rate limiting for login endpoint - 5 attempts per 15 minutes
-const loginLimiter = rateLimit({
-    windowMs: 15 * 60 * 1000, // 15 minutes
-    max: 5, // 5 attempts per IP
+// Login - 20 attempts per IP and 5 per email address from one IP per 15 minutes. Not counted per
+// email address alone: anyone could then keep the owner from logging in. Guessing a password
+// from many addresses is slowed down by the account's progressive lockout instead.
+const loginLimiter = rateLimiter.create('login', {
+    windowMs: 15 * 60 * 1000,
+    limits: { ip: 20, ipEmail: 5 },
     message: 'Too many login attempts, please try again later',
-    standardHeaders: true,
-    legacyHeaders: false,
 });
 
-// Rate limiting for signup - 10 attempts per hour
-const signupLimiter = rateLimit({
-    windowMs: 60 * 60 * 1000, // 1 hour
-    max: 10, // 10 attempts per IP
+// Signup - 10 attempts per IP and 3 per email address per hour
+const signupLimiter = rateLimiter.create('signup', {
+    windowMs: 60 * 60 * 1000,
+    limits: { ip: 10, email: 3 },
     message: 'Too many signup attempts, please try again later',
-    standardHeaders: true,
-    legacyHeaders: false,
 });
 
-// Rate limiting for password reset - 5 attempts per hour
-const passwordResetLimiter = rateLimit({
-    windowMs: 60 * 60 * 1000, // 1 hour
-    max: 5, // 5 attempts per IP
+// Password reset - 5 attempts per IP and 3 per email address per hour
+const passwordResetLimiter = rateLimiter.create('password-reset', {
+    windowMs: 60 * 60 * 1000,
+    limits: { ip: 5, email: 3 },
     message: 'Too many password reset attempts, please try again later',
-    standardHeaders: true,
-    legacyHeaders: false,
 });
 
-// Rate limiting for email verification - 10 attempts per hour
-const verificationLimiter = rateLimit({
-    windowMs: 60 * 60 * 1000, // 1 hour
-    max: 10, // 10 attempts per IP
+// Magic link requests - 5 per IP and 3 per email address per hour
+const magicLinkLimiter = rateLimiter.create('magic-link', {
+    windowMs: 60 * 60 * 1000,
+    limits: { ip: 5, email: 3 },
+    message: 'Too many login link requests, please try again later',
+});
+
+// Email verification - 10 attempts per IP and 5 per email address per hour
+const verificationLimiter = rateLimiter.create('verification', {
+    windowMs: 60 * 60 * 1000,
+    limits: { ip: 10, email: 5 },
     message: 'Too many verification attempts, please try again later',
-    standardHeaders: true,
-    legacyHeaders: false,
 });
 
-// Rate limiting for MFA verification - 5 attempts per 10 minutes
-const mfaLimiter = rateLimit({
-    windowMs: 10 * 60 * 1000, // 10 minutes
-    max: 5, // 5 attempts per IP
+// MFA verification - 5 attempts per IP and per account per 10 minutes (before sign-in, the
+// account the MFA challenge belongs to)
+const mfaLimiter = rateLimiter.create('mfa', {
+    windowMs: 10 * 60 * 1000,
+    limits: { ip: 5, account: 5 },
     message: 'Too many MFA verification attempts, please try again later',
-    standardHeaders: true,
-    legacyHeaders: false,
+});
+
+// Token refresh - 60 per IP per 15 minutes; clients refresh once per access token lifetime
+const refreshLimiter = rateLimiter.create('refresh', {
+    windowMs: 15 * 60 * 1000,
+    limits: { ip: 60 },
+    message: 'Too many token refresh attempts, please try again later',
+});
+
+// Email change requests - 10 per IP and 5 per account per hour
+const emailChangeLimiter = rateLimiter.create('email-change', {
+    windowMs: 60 * 60 * 1000,
+    limits: { ip: 10, account: 5 },
+    message: 'Too many email change requests, please try again later',
+});
+
+// Data exports - 5 per account per day
+const dataExportLimiter = rateLimiter.create('data-export', {
+    windowMs: 24 * 60 * 60 * 1000,
+    limits: { ip: 20, account: 5 },
+    message: 'Too many data export requests, please try again later',
+});
+
+// Account deletion - 10 attempts per IP and 5 per account per hour
+const accountDeletionLimiter = rateLimiter.create('account-deletion', {
+    windowMs: 60 * 60 * 1000,
+    limits: { ip: 10, account: 5 },
+    message: 'Too many account deletion attempts, please try again later',
+});
+
+// Device details recorded on the session a login creates
+const getSessionContext = (req: Request): SessionContext => ({
+    userAgent: req.get('user-agent'),
+    ipAddress: req.ip,
+});
+
+/**
+ * @swagger
+ * /users/password-policy:
+ *   get:
+ *      summary: Get the password rules, so forms can show and check them while the user types
+ *      tags:
+ *        - Authentication
+ *      parameters:
+ *        - in: query
+ *          name: profile
+ *          required: false
+ *          schema:
+ *            type: string
+ *            enum: [standard, privileged]
+ *            default: standard
+ *          description: standard applies to clients (and signup), privileged to organisers and administrators
+ *      responses:
+ *         200:
+ *            description: Length limits, required character classes, minimum strength score, password history size and whether breached passwords are rejected
+ *         400:
+ *            description: Unknown profile
+ */
+userRouter.get('/password-policy', (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const profile = typeof req.query.profile === 'string' ? req.query.profile : undefined;
+        res.status(200).json(userService.getPasswordPolicyRules({ profile }));
+    } catch (error) {
+        next(error);
+    }
 });
 
 /**
@@ -158,8 +294,6 @@ const mfaLimiter = rateLimit({
  *                  type: string
  *                password:
  *                  type: string
- *                isOrganiser:
- *                  type: boolean
  *      responses:
  *         201:
  *            description: User registered successfully
@@ -169,9 +303,9 @@ const mfaLimiter = rateLimit({
 userRouter.post('/signup', signupLimiter, async (req: Request, res: Response, next: NextFunction) => {
     try {
         logger.info('📝 Signup request received');
-        // SECURITY: any isOrganiser flag in the request body is ignored.
-        // New accounts are always created as clients; the organiser role
-        // is privileged (can create experiences) and must be granted
+        // SECURITY: any role in the request body is ignored.
+        // New accounts are always created as clients; other roles are
+        // privileged (e.g. can create experiences) and must be granted
         // server-side, not by the client.
         const { firstName, lastName, email, password } = req.body;
         logger.info({ email }, '🔄 Processing signup...');
@@ -180,7 +314,6 @@ userRouter.post('/signup', signupLimiter, async (req: Request, res: Response, ne
             lastName,
             email,
             password,
-            isOrganiser: false,
         });
         logger.info({ email }, '✅ Signup successful');
         res.status(201).json(response);
@@ -291,7 +424,7 @@ userRouter.post('/resend-verification', verificationLimiter, async (req: Request
 userRouter.post('/login', loginLimiter, async (req: Request, res: Response, next: NextFunction) => {
     try {
         const userInput = <UserInput>req.body;
-        const response = await userService.authenticate(userInput);
+        const response = await userService.authenticate(userInput, getSessionContext(req));
         res.status(200).json({ message: 'Authentication successful', ...response });
     } catch (error) {
         next(error);
@@ -302,7 +435,7 @@ userRouter.post('/login', loginLimiter, async (req: Request, res: Response, next
  * @swagger
  * /users/verify-mfa:
  *   post:
- *      summary: Verify MFA code sent via email
+ *      summary: Verify MFA code from the authenticator app or sent via email
  *      tags:
  *        - Authentication
  *      requestBody:
@@ -312,20 +445,22 @@ userRouter.post('/login', loginLimiter, async (req: Request, res: Response, next
  *            schema:
  *              type: object
  *              properties:
- *                userId:
- *                  type: number
+ *                mfaChallengeId:
+ *                  type: string
+ *                  description: Challenge id returned by /users/login
  *                mfaCode:
  *                  type: string
+ *                  description: Authenticator app code, emailed code, or a one-time recovery code
  *      responses:
  *         200:
  *            description: MFA verified successfully
  *         400:
- *            description: Invalid or expired MFA code
+ *            description: Invalid or expired MFA code or challenge. After too many wrong codes the challenge is destroyed and the user has to log in again.
  */
 userRouter.post('/verify-mfa', mfaLimiter, async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const { userId, mfaCode } = req.body;
-        const response = await userService.verifyMFA({ userId, mfaCode });
+        const { mfaChallengeId, mfaCode } = req.body;
+        const response = await userService.verifyMFA({ mfaChallengeId, mfaCode, context: getSessionContext(req) });
         res.status(200).json({ message: 'MFA verified successfully', ...response });
     } catch (error) {
         next(error);
@@ -334,9 +469,9 @@ userRouter.post('/verify-mfa', mfaLimiter, async (req: Request, res: Response, n
 
 /**
  * @swagger
- * /users/forgot-password:
+ * /users/mfa/email-fallback:
  *   post:
- *      summary: Initiate password reset process
+ *      summary: Send the pending login code by email when the authenticator app is unavailable
  *      tags:
  *        - Authentication
  *      requestBody:
@@ -346,18 +481,19 @@ userRouter.post('/verify-mfa', mfaLimiter, async (req: Request, res: Response, n
  *            schema:
  *              type: object
  *              properties:
- *                email:
+ *                mfaChallengeId:
  *                  type: string
+ *                  description: Challenge id returned by /users/login
  *      responses:
  *         200:
- *            description: Password reset email sent
+ *            description: MFA code sent to email
  *         400:
- *            description: Invalid request
+ *            description: No login in progress
  */
-userRouter.post('/forgot-password', passwordResetLimiter, async (req: Request, res: Response, next: NextFunction) => {
+userRouter.post('/mfa/email-fallback', mfaLimiter, async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const { email } = req.body;
-        const response = await userService.forgotPassword({ email });
+        const { mfaChallengeId } = req.body;
+        const response = await userService.sendMFAEmailFallback({ mfaChallengeId });
         res.status(200).json(response);
     } catch (error) {
         next(error);
@@ -366,32 +502,73 @@ userRouter.post('/forgot-password', passwordResetLimiter, async (req: Request, r
 
 /**
  * @swagger
- * /users/reset-password:
+ * /users/mfa:
+ *   get:
+ *      summary: Get the MFA status of the current user
+ *      tags:
+ *        - Authentication
+ *      security:
+ *        - bearerAuth: []
+ *      responses:
+ *         200:
+ *            description: MFA status
+ *            content:
+ *              application/json:
+ *                schema:
+ *                  type: object
+ *                  properties:
+ *                    mfaEnabled:
+ *                      type: boolean
+ *                    mfaMethods:
+ *                      type: array
+ *                      items:
+ *                        type: string
+ *                        enum: [EMAIL, TOTP]
+ *                    recoveryCodesRemaining:
+ *                      type: number
+ *         401:
+ *            description: Unauthorized
+ */
+userRouter.get('/mfa', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = (req as { auth?: { userId?: number } }).auth?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const response = await userService.getMfaStatus({ userId });
+        res.status(200).json(response);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /users/mfa/enable:
  *   post:
- *      summary: Reset password with valid reset token
+ *      summary: Start enabling MFA with emailed codes. A code is sent to confirm the change.
+ *      description: To use an authenticator app instead, use /users/mfa/totp/enroll.
  *      tags:
  *        - Authentication
- *      requestBody:
- *        required: true
- *        content:
- *          application/json:
- *            schema:
- *              type: object
- *              properties:
- *                token:
- *                  type: string
- *                newPassword:
- *                  type: string
+ *      security:
+ *        - bearerAuth: []
  *      responses:
  *         200:
- *            description: Password reset successfully
+ *            description: MFA code sent to email. The response contains the mfaChallengeId to send to /users/mfa/enable/confirm.
  *         400:
- *            description: Invalid or expired token
+ *            description: MFA is already enabled
+ *         401:
+ *            description: Unauthorized
  */
-userRouter.post('/reset-password', passwordResetLimiter, async (req: Request, res: Response, next: NextFunction) => {
+userRouter.post('/mfa/enable', mfaLimiter, forbidImpersonation(), async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const { token, newPassword } = req.body;
-        const response = await userService.resetPassword({ token, newPassword });
+        const userId = (req as { auth?: { userId?: number } }).auth?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const response = await userService.startMfaEnable({ userId });
         res.status(200).json(response);
     } catch (error) {
         next(error);
@@ -400,9 +577,9 @@ userRouter.post('/reset-password', passwordResetLimiter, async (req: Request, re
 
 /**
  * @swagger
- * /users/change-password:
+ * /users/mfa/enable/confirm:
  *   post:
- *      summary: Change password while logged in (initiates MFA)
+ *      summary: Enable MFA with the emailed code
  *      tags:
  *        - Authentication
  *      security:
@@ -414,31 +591,29 @@ userRouter.post('/reset-password', passwordResetLimiter, async (req: Request, re
  *            schema:
  *              type: object
  *              properties:
- *                currentPassword:
+ *                mfaChallengeId:
  *                  type: string
- *                newPassword:
+ *                  description: Challenge id returned by /users/mfa/enable
+ *                mfaCode:
  *                  type: string
+ *                  description: Code sent via email
  *      responses:
  *         200:
- *            description: MFA code sent to email
+ *            description: MFA enabled. Returns one-time recovery codes, shown only once.
  *         400:
- *            description: Invalid current password
+ *            description: Invalid code or challenge
  *         401:
  *            description: Unauthorized
  */
-userRouter.post('/change-password', async (req: Request, res: Response, next: NextFunction) => {
+userRouter.post('/mfa/enable/confirm', mfaLimiter, forbidImpersonation(), async (req: Request, res: Response, next: NextFunction) => {
     try {
         const userId = (req as { auth?: { userId?: number } }).auth?.userId;
         if (!userId) {
             return res.status(401).json({ message: 'Unauthorized' });
         }
 
-        const { currentPassword, newPassword } = req.body;
-        const response = await userService.changePassword({
-            userId,
-            currentPassword,
-            newPassword,
-        });
+        const { mfaChallengeId, mfaCode } = req.body;
+        const response = await userService.confirmMfaEnable({ userId, mfaChallengeId, mfaCode });
         res.status(200).json(response);
     } catch (error) {
         next(error);
@@ -447,45 +622,30 @@ userRouter.post('/change-password', async (req: Request, res: Response, next: Ne
 
 /**
  * @swagger
- * /users/verify-change-password:
+ * /users/mfa/disable:
  *   post:
- *      summary: Verify MFA and complete password change
+ *      summary: Disable MFA. The authenticator app and recovery codes are forgotten.
+ *      description: Requires a recent step-up (POST /users/step-up), i.e. the password plus a current code.
  *      tags:
  *        - Authentication
  *      security:
  *        - bearerAuth: []
- *      requestBody:
- *        required: true
- *        content:
- *          application/json:
- *            schema:
- *              type: object
- *              properties:
- *                mfaCode:
- *                  type: string
- *                newPassword:
- *                  type: string
  *      responses:
  *         200:
- *            description: Password changed successfully
+ *            description: MFA disabled
  *         400:
- *            description: Invalid MFA code
+ *            description: MFA is not enabled
  *         401:
- *            description: Unauthorized
+ *            description: Unauthorized, or step-up required
  */
-userRouter.post('/verify-change-password', mfaLimiter, async (req: Request, res: Response, next: NextFunction) => {
+userRouter.post('/mfa/disable', requireStepUp(), async (req: Request, res: Response, next: NextFunction) => {
     try {
         const userId = (req as { auth?: { userId?: number } }).auth?.userId;
         if (!userId) {
             return res.status(401).json({ message: 'Unauthorized' });
         }
 
-        const { mfaCode, newPassword } = req.body;
-        const response = await userService.verifyChangePassword({
-            userId,
-            mfaCode,
-            newPassword,
-        });
+        const response = await userService.disableMfa({ userId });
         res.status(200).json(response);
     } catch (error) {
         next(error);
@@ -494,27 +654,38 @@ userRouter.post('/verify-change-password', mfaLimiter, async (req: Request, res:
 
 /**
  * @swagger
- * /users/remember-me:
+ * /users/mfa/totp/enroll:
  *   post:
- *      summary: Create remember me token for persistent login
+ *      summary: Start authenticator app (TOTP) enrollment. Returns the shared secret and otpauth URI.
  *      tags:
  *        - Authentication
  *      security:
  *        - bearerAuth: []
  *      responses:
  *         200:
- *            description: Remember me token created
+ *            description: Enrollment started
+ *            content:
+ *              application/json:
+ *                schema:
+ *                  type: object
+ *                  properties:
+ *                    secret:
+ *                      type: string
+ *                    otpauthUri:
+ *                      type: string
+ *         400:
+ *            description: Authenticator app already enabled
  *         401:
  *            description: Unauthorized
  */
-userRouter.post('/remember-me', async (req: Request, res: Response, next: NextFunction) => {
+userRouter.post('/mfa/totp/enroll', forbidImpersonation(), async (req: Request, res: Response, next: NextFunction) => {
     try {
         const userId = (req as { auth?: { userId?: number } }).auth?.userId;
         if (!userId) {
             return res.status(401).json({ message: 'Unauthorized' });
         }
 
-        const response = await userService.createRememberMeToken({ userId });
+        const response = await userService.enrollTotp({ userId });
         res.status(200).json(response);
     } catch (error) {
         next(error);
@@ -523,11 +694,13 @@ userRouter.post('/remember-me', async (req: Request, res: Response, next: NextFu
 
 /**
  * @swagger
- * /users/login-with-token:
+ * /users/mfa/totp/confirm:
  *   post:
- *      summary: Login using remember me token
+ *      summary: Confirm authenticator app enrollment with a first code and enable MFA
  *      tags:
  *        - Authentication
+ *      security:
+ *        - bearerAuth: []
  *      requestBody:
  *        required: true
  *        content:
@@ -535,19 +708,37 @@ userRouter.post('/remember-me', async (req: Request, res: Response, next: NextFu
  *            schema:
  *              type: object
  *              properties:
- *                rememberMeToken:
+ *                code:
  *                  type: string
  *      responses:
  *         200:
- *            description: Login successful
+ *            description: Authenticator app enabled. Returns one-time recovery codes, shown only once.
+ *            content:
+ *              application/json:
+ *                schema:
+ *                  type: object
+ *                  properties:
+ *                    message:
+ *                      type: string
+ *                    recoveryCodes:
+ *                      type: array
+ *                      items:
+ *                        type: string
  *         400:
- *            description: Invalid or expired token
+ *            description: Invalid code or no enrollment in progress
+ *         401:
+ *            description: Unauthorized
  */
-userRouter.post('/login-with-token', async (req: Request, res: Response, next: NextFunction) => {
+userRouter.post('/mfa/totp/confirm', mfaLimiter, forbidImpersonation(), async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const { rememberMeToken } = req.body;
-        const response = await userService.verifyRememberMeToken({ token: rememberMeToken });
-        res.status(200).json({ message: 'Login successful', ...response });
+        const userId = (req as { auth?: { userId?: number } }).auth?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const { code } = req.body;
+        const response = await userService.confirmTotp({ userId, code });
+        res.status(200).json(response);
     } catch (error) {
         next(error);
     }
@@ -555,30 +746,966 @@ userRouter.post('/login-with-token', async (req: Request, res: Response, next: N
 
 /**
  * @swagger
- * /users/logout:
+ * /users/mfa/recovery-codes:
  *   post:
- *      summary: Logout the current user. Invalidates the JWT token and revokes remember me tokens.
+ *      summary: Replace all MFA recovery codes with a new set
+ *      description: Requires a recent step-up (POST /users/step-up), i.e. the password plus a current code.
  *      tags:
  *        - Authentication
  *      security:
  *        - bearerAuth: []
  *      responses:
  *         200:
- *            description: Logout successful
+ *            description: New recovery codes, shown only once
+ *         400:
+ *            description: MFA is not enabled
+ *         401:
+ *            description: Unauthorized, or step-up required
+ */
+userRouter.post('/mfa/recovery-codes', requireStepUp(), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = (req as { auth?: { userId?: number } }).auth?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const response = await userService.regenerateRecoveryCodes({ userId });
+        res.status(200).json(response);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /users/webauthn/register/options:
+ *   post:
+ *      summary: Get WebAuthn creation options to register a passkey for the logged in user
+ *      tags:
+ *        - Authentication
+ *      security:
+ *        - bearerAuth: []
+ *      responses:
+ *         200:
+ *            description: PublicKeyCredentialCreationOptions to pass to navigator.credentials.create(), plus the challengeId to send back
  *         401:
  *            description: Unauthorized
  */
-userRouter.post('/logout', async (req: Request, res: Response, next: NextFunction) => {
+userRouter.post('/webauthn/register/options', forbidImpersonation(), async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const token = req.headers.authorization?.split(' ')[1];
         const userId = (req as { auth?: { userId?: number } }).auth?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const response = await webauthnService.getRegistrationOptions({ userId });
+        res.status(200).json(response);
+    } catch (error) {
+        next(error);
+    }
+});
 
-        if (token) {
-            tokenBlacklist.add(token);
+/**
+ * @swagger
+ * /users/webauthn/register/verify:
+ *   post:
+ *      summary: Verify the authenticator's registration response and store the passkey
+ *      tags:
+ *        - Authentication
+ *      security:
+ *        - bearerAuth: []
+ *      requestBody:
+ *        required: true
+ *        content:
+ *          application/json:
+ *            schema:
+ *              type: object
+ *              properties:
+ *                challengeId:
+ *                  type: string
+ *                  description: The challengeId returned with the creation options
+ *                response:
+ *                  type: object
+ *                  description: RegistrationResponseJSON returned by the browser
+ *      responses:
+ *         200:
+ *            description: Passkey registered
+ *         400:
+ *            description: Registration could not be verified
+ *         401:
+ *            description: Unauthorized
+ */
+userRouter.post('/webauthn/register/verify', forbidImpersonation(), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = (req as { auth?: { userId?: number } }).auth?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
         }
 
-        if (userId) {
-            await userService.logout({ userId });
+        const { challengeId, response: registrationResponse } = req.body;
+        const response = await webauthnService.verifyRegistration({
+            userId,
+            challengeId,
+            response: registrationResponse,
+        });
+        res.status(200).json(response);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /users/webauthn/login/options:
+ *   post:
+ *      summary: Get WebAuthn request options to log in with a passkey
+ *      tags:
+ *        - Authentication
+ *      requestBody:
+ *        required: true
+ *        content:
+ *          application/json:
+ *            schema:
+ *              type: object
+ *              properties:
+ *                email:
+ *                  type: string
+ *      responses:
+ *         200:
+ *            description: PublicKeyCredentialRequestOptions to pass to navigator.credentials.get(), plus the challengeId to send back
+ */
+userRouter.post('/webauthn/login/options', loginLimiter, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { email } = req.body;
+        const response = await webauthnService.getAuthenticationOptions({ email });
+        res.status(200).json(response);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /users/webauthn/login/verify:
+ *   post:
+ *      summary: Log in with a passkey. Returns the same response as a password login.
+ *      tags:
+ *        - Authentication
+ *      requestBody:
+ *        required: true
+ *        content:
+ *          application/json:
+ *            schema:
+ *              type: object
+ *              properties:
+ *                email:
+ *                  type: string
+ *                challengeId:
+ *                  type: string
+ *                  description: The challengeId returned with the request options
+ *                response:
+ *                  type: object
+ *                  description: AuthenticationResponseJSON returned by the browser
+ *      responses:
+ *         200:
+ *            description: Authentication successful
+ *            content:
+ *              application/json:
+ *                schema:
+ *                  $ref: '#/components/schemas/AuthenticationResponse'
+ *         400:
+ *            description: Passkey login failed
+ */
+userRouter.post('/webauthn/login/verify', loginLimiter, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { email, challengeId, response } = req.body;
+        const authResponse = await webauthnService.verifyAuthentication({
+            email,
+            challengeId,
+            response,
+            context: getSessionContext(req),
+        });
+        res.status(200).json({ message: 'Authentication successful', ...authResponse });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /users/magic-link:
+ *   post:
+ *      summary: Email a single-use link that logs in without the password
+ *      description: The response is the same whether or not an account exists for the address.
+ *      tags:
+ *        - Authentication
+ *      requestBody:
+ *        required: true
+ *        content:
+ *          application/json:
+ *            schema:
+ *              type: object
+ *              properties:
+ *                email:
+ *                  type: string
+ *      responses:
+ *         200:
+ *            description: Login link sent if the account exists
+ *         429:
+ *            description: Too many login link requests
+ */
+userRouter.post('/magic-link', magicLinkLimiter, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { email } = req.body;
+        const response = await userService.requestMagicLink({ email });
+        res.status(200).json(response);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /users/magic-link/verify:
+ *   post:
+ *      summary: Log in with the token from an emailed login link
+ *      description: Returns the same response as /users/login, including the MFA step when it applies.
+ *      tags:
+ *        - Authentication
+ *      requestBody:
+ *        required: true
+ *        content:
+ *          application/json:
+ *            schema:
+ *              type: object
+ *              properties:
+ *                token:
+ *                  type: string
+ *      responses:
+ *         200:
+ *            description: Authentication successful, or MFA required
+ *            content:
+ *              application/json:
+ *                schema:
+ *                  $ref: '#/components/schemas/AuthenticationResponse'
+ *         400:
+ *            description: Invalid, used or expired link, or the account cannot log in
+ */
+userRouter.post('/magic-link/verify', loginLimiter, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { token } = req.body;
+        const response = await userService.loginWithMagicLink({ token, context: getSessionContext(req) });
+        res.status(200).json({ message: 'Authentication successful', ...response });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /users/forgot-password:
+ *   post:
+ *      summary: Initiate password reset process
+ *      tags:
+ *        - Authentication
+ *      requestBody:
+ *        required: true
+ *        content:
+ *          application/json:
+ *            schema:
+ *              type: object
+ *              properties:
+ *                email:
+ *                  type: string
+ *      responses:
+ *         200:
+ *            description: Password reset email sent
+ *         400:
+ *            description: Invalid request
+ */
+userRouter.post('/forgot-password', passwordResetLimiter, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { email } = req.body;
+        const response = await userService.forgotPassword({ email });
+        res.status(200).json(response);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /users/reset-password:
+ *   post:
+ *      summary: Reset password with valid reset token
+ *      tags:
+ *        - Authentication
+ *      requestBody:
+ *        required: true
+ *        content:
+ *          application/json:
+ *            schema:
+ *              type: object
+ *              properties:
+ *                token:
+ *                  type: string
+ *                newPassword:
+ *                  type: string
+ *      responses:
+ *         200:
+ *            description: Password reset successfully
+ *         400:
+ *            description: Invalid or expired token
+ */
+userRouter.post('/reset-password', passwordResetLimiter, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { token, newPassword } = req.body;
+        const response = await userService.resetPassword({ token, newPassword });
+        res.status(200).json(response);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /users/unlock-account:
+ *   post:
+ *      summary: Unlock an account with the link emailed when it was locked
+ *      description: Lifts the lockout after too many failed logins without waiting it out. Owning the mailbox is the proof.
+ *      tags:
+ *        - Authentication
+ *      requestBody:
+ *        required: true
+ *        content:
+ *          application/json:
+ *            schema:
+ *              type: object
+ *              properties:
+ *                token:
+ *                  type: string
+ *      responses:
+ *         200:
+ *            description: Account unlocked
+ *         400:
+ *            description: Invalid or expired token
+ */
+userRouter.post('/unlock-account', verificationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { token } = req.body;
+        const response = await userService.unlockAccount({ token });
+        res.status(200).json(response);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /users/step-up:
+ *   post:
+ *      summary: Start re-authenticating before a sensitive operation. Requires the current password.
+ *      description: Users with an authenticator app confirm with a code from the app (or a recovery code); everyone else gets a code by email.
+ *      tags:
+ *        - Authentication
+ *      security:
+ *        - bearerAuth: []
+ *      requestBody:
+ *        required: true
+ *        content:
+ *          application/json:
+ *            schema:
+ *              type: object
+ *              properties:
+ *                currentPassword:
+ *                  type: string
+ *      responses:
+ *         200:
+ *            description: The response contains the mfaChallengeId to send to /users/step-up/verify.
+ *         400:
+ *            description: Invalid current password
+ *         401:
+ *            description: Unauthorized
+ */
+userRouter.post('/step-up', mfaLimiter, forbidImpersonation(), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = (req as { auth?: { userId?: number } }).auth?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const { currentPassword } = req.body;
+        const response = await userService.startStepUp({ userId, currentPassword });
+        res.status(200).json(response);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /users/step-up/verify:
+ *   post:
+ *      summary: Complete the step-up with a second-factor code
+ *      description: Returns an access token for the same session that carries a step-up claim for a few minutes. Send it to sensitive endpoints (password and email change, MFA disable, account deletion).
+ *      tags:
+ *        - Authentication
+ *      security:
+ *        - bearerAuth: []
+ *      requestBody:
+ *        required: true
+ *        content:
+ *          application/json:
+ *            schema:
+ *              type: object
+ *              properties:
+ *                mfaChallengeId:
+ *                  type: string
+ *                  description: Challenge id returned by /users/step-up
+ *                mfaCode:
+ *                  type: string
+ *                  description: Authenticator app code, emailed code, or a one-time recovery code
+ *      responses:
+ *         200:
+ *            description: Step-up complete
+ *            content:
+ *              application/json:
+ *                schema:
+ *                  allOf:
+ *                    - $ref: '#/components/schemas/AuthenticationResponse'
+ *                    - type: object
+ *                      properties:
+ *                        stepUpUntil:
+ *                          type: string
+ *                          format: date-time
+ *         400:
+ *            description: Invalid MFA code or challenge
+ *         401:
+ *            description: Unauthorized
+ */
+userRouter.post('/step-up/verify', mfaLimiter, forbidImpersonation(), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const auth = (req as { auth?: { userId?: number; sid?: number } }).auth;
+        if (!auth?.userId || !auth.sid) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const { mfaChallengeId, mfaCode } = req.body;
+        const response = await userService.verifyStepUp({
+            userId: auth.userId,
+            sessionId: auth.sid,
+            mfaChallengeId,
+            mfaCode,
+        });
+        res.status(200).json({ message: 'Step-up successful', ...response });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /users/change-password:
+ *   post:
+ *      summary: Change password while logged in
+ *      description: Requires a recent step-up (POST /users/step-up).
+ *      tags:
+ *        - Authentication
+ *      security:
+ *        - bearerAuth: []
+ *      requestBody:
+ *        required: true
+ *        content:
+ *          application/json:
+ *            schema:
+ *              type: object
+ *              properties:
+ *                newPassword:
+ *                  type: string
+ *      responses:
+ *         200:
+ *            description: Password changed successfully
+ *         400:
+ *            description: New password does not meet the password policy
+ *         401:
+ *            description: Unauthorized, or step-up required
+ */
+userRouter.post('/change-password', requireStepUp(), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = (req as { auth?: { userId?: number } }).auth?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const { newPassword } = req.body;
+        const response = await userService.changePassword({ userId, newPassword });
+        res.status(200).json(response);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /users/refresh:
+ *   post:
+ *      summary: Exchange a refresh token for a new access token. The refresh token is rotated and can only be used once.
+ *      tags:
+ *        - Authentication
+ *      requestBody:
+ *        required: true
+ *        content:
+ *          application/json:
+ *            schema:
+ *              type: object
+ *              properties:
+ *                refreshToken:
+ *                  type: string
+ *      responses:
+ *         200:
+ *            description: New access token and refresh token
+ *            content:
+ *              application/json:
+ *                schema:
+ *                  $ref: '#/components/schemas/AuthenticationResponse'
+ *         400:
+ *            description: Invalid, expired, revoked or reused refresh token
+ */
+userRouter.post('/refresh', refreshLimiter, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { refreshToken } = req.body;
+        const response = await userService.refreshAccessToken({ refreshToken });
+        res.status(200).json({ message: 'Token refreshed', ...response });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /users/me:
+ *   get:
+ *      summary: Get the profile of the current user
+ *      tags:
+ *        - Profile
+ *      security:
+ *        - bearerAuth: []
+ *      responses:
+ *         200:
+ *            description: The user's profile
+ *            content:
+ *              application/json:
+ *                schema:
+ *                  $ref: '#/components/schemas/UserProfile'
+ *         401:
+ *            description: Unauthorized
+ */
+userRouter.get('/me', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = (req as { auth?: { userId?: number } }).auth?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const profile = await profileService.getProfile({ userId });
+        res.status(200).json(profile);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /users/me:
+ *   patch:
+ *      summary: Update the first and/or last name of the current user
+ *      description: The email address cannot be changed here; use POST /users/me/email.
+ *      tags:
+ *        - Profile
+ *      security:
+ *        - bearerAuth: []
+ *      requestBody:
+ *        required: true
+ *        content:
+ *          application/json:
+ *            schema:
+ *              type: object
+ *              properties:
+ *                firstName:
+ *                  type: string
+ *                lastName:
+ *                  type: string
+ *      responses:
+ *         200:
+ *            description: The updated profile
+ *            content:
+ *              application/json:
+ *                schema:
+ *                  $ref: '#/components/schemas/UserProfile'
+ *         400:
+ *            description: Invalid or unsupported fields
+ *         401:
+ *            description: Unauthorized
+ *         403:
+ *            description: Not allowed while impersonating the user
+ */
+userRouter.patch('/me', forbidImpersonation(), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = (req as { auth?: { userId?: number } }).auth?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const profile = await profileService.updateProfile({ userId, input: req.body ?? {} });
+        res.status(200).json(profile);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /users/me/email:
+ *   post:
+ *      summary: Request a change of email address
+ *      description: Emails a confirmation link to the new address and a notice with a revert link to the current one. The address only changes once confirmed. Requires a recent step-up (POST /users/step-up).
+ *      tags:
+ *        - Profile
+ *      security:
+ *        - bearerAuth: []
+ *      requestBody:
+ *        required: true
+ *        content:
+ *          application/json:
+ *            schema:
+ *              type: object
+ *              properties:
+ *                newEmail:
+ *                  type: string
+ *      responses:
+ *         200:
+ *            description: Confirmation link sent to the new address
+ *         400:
+ *            description: Invalid or already registered email address, or a recent change can still be reverted
+ *         401:
+ *            description: Unauthorized, or step-up required
+ */
+userRouter.post('/me/email', emailChangeLimiter, requireStepUp(), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = (req as { auth?: { userId?: number } }).auth?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const { newEmail } = req.body;
+        const response = await profileService.requestEmailChange({ userId, newEmail });
+        res.status(200).json(response);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /users/me/export:
+ *   get:
+ *      summary: Download everything stored about the current user
+ *      description: A JSON archive of the profile, bookings, organised experiences, sessions and remember-me token metadata, passkeys, known devices and networks, and security events. Passwords, token hashes and MFA secrets are never included.
+ *      tags:
+ *        - Profile
+ *      security:
+ *        - bearerAuth: []
+ *      responses:
+ *         200:
+ *            description: The account data, as a JSON attachment
+ *         401:
+ *            description: Unauthorized
+ *         429:
+ *            description: Too many export requests
+ */
+userRouter.get('/me/export', dataExportLimiter, forbidImpersonation(), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = (req as { auth?: { userId?: number } }).auth?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const data = await privacyService.exportAccountData({ userId });
+        res.setHeader('Content-Disposition', `attachment; filename="account-export-${userId}.json"`);
+        res.setHeader('Cache-Control', 'no-store');
+        res.status(200).json(data);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /users/me:
+ *   delete:
+ *      summary: Request deletion of the current user's account
+ *      description: Requires a recent step-up (POST /users/step-up). The account is deleted after a grace period, during which the deletion can be cancelled; other sessions are logged out. Refused while the user organises upcoming events or trips.
+ *      tags:
+ *        - Profile
+ *      security:
+ *        - bearerAuth: []
+ *      responses:
+ *         200:
+ *            description: Deletion scheduled
+ *         400:
+ *            description: The user still organises upcoming experiences
+ *         401:
+ *            description: Unauthorized, or step-up required
+ */
+userRouter.delete('/me', accountDeletionLimiter, requireStepUp(), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const auth = (req as { auth?: { userId?: number; sid?: number } }).auth;
+        if (!auth?.userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const response = await privacyService.requestAccountDeletion({
+            userId: auth.userId,
+            currentSessionId: auth.sid,
+        });
+        res.status(200).json(response);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /users/me/deletion:
+ *   delete:
+ *      summary: Cancel a scheduled deletion of the current user's account
+ *      tags:
+ *        - Profile
+ *      security:
+ *        - bearerAuth: []
+ *      responses:
+ *         200:
+ *            description: Deletion cancelled
+ *         400:
+ *            description: The account is not scheduled for deletion
+ *         401:
+ *            description: Unauthorized
+ */
+userRouter.delete('/me/deletion', forbidImpersonation(), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = (req as { auth?: { userId?: number } }).auth?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const response = await privacyService.cancelAccountDeletion({ userId });
+        res.status(200).json(response);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /users/email-change/confirm:
+ *   post:
+ *      summary: Confirm an email change with the link sent to the new address
+ *      tags:
+ *        - Profile
+ *      requestBody:
+ *        required: true
+ *        content:
+ *          application/json:
+ *            schema:
+ *              type: object
+ *              properties:
+ *                token:
+ *                  type: string
+ *      responses:
+ *         200:
+ *            description: Email address changed
+ *         400:
+ *            description: Invalid or expired token
+ */
+userRouter.post('/email-change/confirm', verificationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { token } = req.body;
+        const response = await profileService.confirmEmailChange({ token });
+        res.status(200).json(response);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /users/email-change/revert:
+ *   post:
+ *      summary: Undo an email change with the link sent to the previous address
+ *      description: Cancels a pending change. A confirmed change is rolled back, every session is logged out and a password reset is required.
+ *      tags:
+ *        - Profile
+ *      requestBody:
+ *        required: true
+ *        content:
+ *          application/json:
+ *            schema:
+ *              type: object
+ *              properties:
+ *                token:
+ *                  type: string
+ *      responses:
+ *         200:
+ *            description: Email change cancelled or reverted
+ *         400:
+ *            description: Invalid or expired token
+ */
+userRouter.post('/email-change/revert', verificationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { token } = req.body;
+        const response = await profileService.revertEmailChange({ token });
+        res.status(200).json(response);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /users/sessions:
+ *   get:
+ *      summary: List the active sessions (logged in devices) of the current user
+ *      tags:
+ *        - Sessions
+ *      security:
+ *        - bearerAuth: []
+ *      responses:
+ *         200:
+ *            description: Active sessions, most recently used first
+ *            content:
+ *              application/json:
+ *                schema:
+ *                  type: array
+ *                  items:
+ *                    $ref: '#/components/schemas/Session'
+ *         401:
+ *            description: Unauthorized
+ */
+userRouter.get('/sessions', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const auth = (req as { auth?: { userId?: number; sid?: number } }).auth;
+        if (!auth?.userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const sessions = await sessionService.getSessions({ userId: auth.userId, currentSessionId: auth.sid });
+        res.status(200).json(sessions);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /users/sessions:
+ *   delete:
+ *      summary: Log out all other sessions. The session making the request stays logged in.
+ *      tags:
+ *        - Sessions
+ *      security:
+ *        - bearerAuth: []
+ *      responses:
+ *         200:
+ *            description: Other sessions logged out
+ *         401:
+ *            description: Unauthorized
+ */
+userRouter.delete('/sessions', forbidImpersonation(), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const auth = (req as { auth?: { userId?: number; sid?: number } }).auth;
+        if (!auth?.userId || !auth.sid) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const result = await sessionService.revokeOtherSessions({
+            userId: auth.userId,
+            currentSessionId: auth.sid,
+        });
+        res.status(200).json(result);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /users/sessions/{id}:
+ *   delete:
+ *      summary: Log out a single session. Its access and refresh tokens stop working immediately.
+ *      tags:
+ *        - Sessions
+ *      security:
+ *        - bearerAuth: []
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          required: true
+ *          schema:
+ *            type: integer
+ *      responses:
+ *         200:
+ *            description: Session logged out
+ *         400:
+ *            description: Session not found
+ *         401:
+ *            description: Unauthorized
+ */
+userRouter.delete('/sessions/:id', forbidImpersonation(), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = (req as { auth?: { userId?: number } }).auth?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const result = await sessionService.revokeSession({ userId, sessionId: Number(req.params.id) });
+        res.status(200).json(result);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /users/logout:
+ *   post:
+ *      summary: Logout the current session. Invalidates the JWT token and revokes the session's refresh tokens.
+ *      description: With an impersonation token this only ends the impersonation; the administrator's own session stays logged in.
+ *      tags:
+ *        - Authentication
+ *      security:
+ *        - bearerAuth: []
+ *      responses:
+ *         200:
+ *            description: Logout successful
+ *         401:
+ *            description: Unauthorized
+ */
+userRouter.post('/logout', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const auth = (req as {
+            auth?: { userId?: number; sid?: number; jti?: string; exp?: number; act?: { sub?: string } };
+        }).auth;
+        const userId = auth?.userId;
+
+        if (userId && auth?.act) {
+            // The session belongs to the administrator; only this token is revoked
+            await userService.logout({ userId, jti: auth.jti, exp: auth.exp });
+            logSecurityEvent('ADMIN_IMPERSONATION_ENDED', {
+                adminId: Number(auth.act.sub),
+                targetUserId: userId,
+            });
+        } else if (userId) {
+            await userService.logout({ userId, sessionId: auth?.sid, jti: auth?.jti, exp: auth?.exp });
             logSecurityEvent('LOGOUT', {
                 userId,
             });
@@ -591,4 +1718,4 @@ userRouter.post('/logout', async (req: Request, res: Response, next: NextFunctio
     }
 });
 
-export { userRouter, tokenBlacklist };
+export { userRouter };
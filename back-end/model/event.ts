@@ -1,4 +1,4 @@
-import { Event as EventPrisma, User as UserPrisma } from '@prisma/client';
+import { Event as EventPrisma, Role as RolePrisma, User as UserPrisma } from '@prisma/client';
 import { User } from './user';
 
 export class Event {
@@ -61,9 +61,8 @@ export class Event {
         if (!event.organiser) {
             throw new Error('Event organiser is required');
         }
-        if (!event.organiser.getIsOrganiser()) {
-            throw new Error('User must have organiser role to organise events');
-        }
+        // Whether the organiser may create events is checked when an event is created
+        // (event.service), not here: an organiser can lose that permission later
     }
 
     getId(): number | undefined {
@@ -136,7 +135,10 @@ export class Event {
         location,
         organiser,
         attendees,
-    }: EventPrisma & { organiser: UserPrisma; attendees?: UserPrisma[] }) {
+    }: EventPrisma & {
+        organiser: UserPrisma & { role: RolePrisma };
+        attendees?: (UserPrisma & { role: RolePrisma })[];
+    }) {
         return new Event({
             id,
             createdAt,
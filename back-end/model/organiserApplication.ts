@@ -0,0 +1,158 @@
+import {
+    OrganiserApplication as OrganiserApplicationPrisma,
+    OrganiserApplicationStatus,
+} from '@prisma/client';
+
+export class OrganiserApplication {
+    private id?: number;
+    private userId: number;
+    private businessName: string;
+    private motivation: string;
+    private contactEmail: string;
+    private contactPhone?: string;
+    private status: OrganiserApplicationStatus;
+    private reviewedById?: number;
+    private reviewNote?: string;
+    private reviewedAt?: Date;
+    private createdAt?: Date;
+
+    constructor(application: {
+        id?: number;
+        userId: number;
+        businessName: string;
+        motivation: string;
+        contactEmail: string;
+        contactPhone?: string;
+        status?: OrganiserApplicationStatus;
+        reviewedById?: number;
+        reviewNote?: string;
+        reviewedAt?: Date;
+        createdAt?: Date;
+    }) {
+        this.validate(application);
+
+        this.id = application.id;
+        this.userId = application.userId;
+        this.businessName = application.businessName.trim();
+        this.motivation = application.motivation.trim();
+        this.contactEmail = application.contactEmail.trim();
+        this.contactPhone = application.contactPhone?.trim() || undefined;
+        this.status = application.status ?? 'PENDING';
+        this.reviewedById = application.reviewedById;
+        this.reviewNote = application.reviewNote;
+        this.reviewedAt = application.reviewedAt;
+        this.createdAt = application.createdAt;
+    }
+
+    validate(application: { businessName: string; motivation: string; contactEmail: string; contactPhone?: string }) {
+        if (!application.businessName?.trim()) {
+            throw new Error('Business name is required');
+        }
+        if (application.businessName.trim().length > 200) {
+            throw new Error('Business name must be at most 200 characters long');
+        }
+        if (!application.motivation?.trim() || application.motivation.trim().length < 20) {
+            throw new Error('Motivation must be at least 20 characters long');
+        }
+        if (application.motivation.trim().length > 2000) {
+            throw new Error('Motivation must be at most 2000 characters long');
+        }
+        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(application.contactEmail?.trim() ?? '')) {
+            throw new Error('A valid contact email is required');
+        }
+        if (application.contactPhone?.trim() && !/^\+?[0-9 ()-]{6,20}$/.test(application.contactPhone.trim())) {
+            throw new Error('Contact phone number is invalid');
+        }
+    }
+
+    getId(): number | undefined {
+        return this.id;
+    }
+
+    getUserId(): number {
+        return this.userId;
+    }
+
+    getBusinessName(): string {
+        return this.businessName;
+    }
+
+    getMotivation(): string {
+        return this.motivation;
+    }
+
+    getContactEmail(): string {
+        return this.contactEmail;
+    }
+
+    getContactPhone(): string | undefined {
+        return this.contactPhone;
+    }
+
+    getStatus(): OrganiserApplicationStatus {
+        return this.status;
+    }
+
+    getReviewedById(): number | undefined {
+        return this.reviewedById;
+    }
+
+    getReviewNote(): string | undefined {
+        return this.reviewNote;
+    }
+
+    getReviewedAt(): Date | undefined {
+        return this.reviewedAt;
+    }
+
+    getCreatedAt(): Date | undefined {
+        return this.createdAt;
+    }
+
+    isPending(): boolean {
+        return this.status === 'PENDING';
+    }
+
+    toJSON() {
+        return {
+            id: this.id,
+            userId: this.userId,
+            businessName: this.businessName,
+            motivation: this.motivation,
+            contactEmail: this.contactEmail,
+            contactPhone: this.contactPhone,
+            status: this.status,
+            reviewNote: this.reviewNote,
+            reviewedAt: this.reviewedAt,
+            createdAt: this.createdAt,
+        };
+    }
+
+    static from({
+        id,
+        userId,
+        businessName,
+        motivation,
+        contactEmail,
+        contactPhone,
+        status,
+        reviewedById,
+        reviewNote,
+        reviewedAt,
+        createdAt,
+    }: OrganiserApplicationPrisma) {
+        return new OrganiserApplication({
+            id,
+            userId,
+            businessName,
+            motivation,
+            contactEmail,
+            contactPhone: contactPhone ?? undefined,
+            status,
+            reviewedById: reviewedById ?? undefined,
+            reviewNote: reviewNote ?? undefined,
+            reviewedAt: reviewedAt ?? undefined,
+            createdAt,
+        });
+    }
+}
@@ -0,0 +1,120 @@
+import { Role as RolePrisma } from '@prisma/client';
+
+/**
+ * Every permission the API checks. Roles are sets of these; custom roles may combine them freely.
+ */
+export const PERMISSIONS = [
+    'event:read',
+    'event:create',
+    'event:update',
+    'event:delete',
+    'trip:create',
+    'trip:update',
+    'trip:delete',
+    'user:read',
+    'user:update',
+    'user:lock',
+    'user:impersonate',
+    'role:assign',
+    'role:manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * Built-in roles. They are created by migration and cannot be changed through the API.
+ */
+export const SYSTEM_ROLES = {
+    ADMIN: [...PERMISSIONS],
+    ORGANISER: ['event:read', 'event:create', 'event:update', 'trip:create', 'trip:update'],
+    CLIENT: ['event:read'],
+} as const satisfies Record<string, readonly Permission[]>;
+
+export type SystemRoleName = keyof typeof SYSTEM_ROLES;
+
+export class Role {
+    private id?: number;
+    private name: string;
+    private description?: string;
+    private permissions: Permission[];
+    private isSystem: boolean;
+
+    constructor(role: {
+        id?: number;
+        name: string;
+        description?: string;
+        permissions: string[];
+        isSystem?: boolean;
+    }) {
+        this.validate(role);
+
+        this.id = role.id;
+        this.name = role.name;
+        this.description = role.description;
+        this.permissions = role.permissions as Permission[];
+        this.isSystem = role.isSystem ?? false;
+    }
+
+    validate(role: { name: string; permissions: string[] }) {
+        if (!/^[A-Z][A-Z0-9_]{1,31}$/.test(role.name ?? '')) {
+            throw new Error('Role name must be 2-32 uppercase letters, digits or underscores');
+        }
+        const unknown = role.permissions.filter((permission) => !Role.isPermission(permission));
+        if (unknown.length > 0) {
+            throw new Error(`Unknown permission(s): ${unknown.join(', ')}`);
+        }
+    }
+
+    getId(): number | undefined {
+        return this.id;
+    }
+
+    getName(): string {
+        return this.name;
+    }
+
+    getDescription(): string | undefined {
+        return this.description;
+    }
+
+    getPermissions(): Permission[] {
+        return this.permissions;
+    }
+
+    getIsSystem(): boolean {
+        return this.isSystem;
+    }
+
+    hasPermission(permission: Permission): boolean {
+        return this.permissions.includes(permission);
+    }
+
+    toJSON() {
+        return {
+            id: this.id,
+            name: this.name,
+            description: this.description,
+            permissions: this.permissions,
+            isSystem: this.isSystem,
+        };
+    }
+
+    static isPermission(value: string): value is Permission {
+        return (PERMISSIONS as readonly string[]).includes(value);
+    }
+
+    /**
+     * Permissions are only validated when a role is written. A stored permission this version
+     * doesn't know (e.g. after a rollback or a removed permission) is ignored, so loading the
+     * role, and every user holding it, keeps working.
+     */
+    static from({ id, name, description, permissions, isSystem }: RolePrisma) {
+        return new Role({
+            id,
+            name,
+            description: description ?? undefined,
+            permissions: permissions.filter((permission) => Role.isPermission(permission)),
+            isSystem,
+        });
+    }
+}
@@ -0,0 +1,91 @@
+import { Session as SessionPrisma } from '@prisma/client';
+
+export class Session {
+    private id?: number;
+    private userId: number;
+    private userAgent: string | null;
+    private ipAddress: string | null;
+    private createdAt: Date;
+    private lastSeenAt: Date;
+    private expiresAt: Date;
+    private revokedAt: Date | null;
+
+    constructor(session: {
+        id?: number;
+        userId: number;
+        userAgent?: string | null;
+        ipAddress?: string | null;
+        createdAt: Date;
+        lastSeenAt: Date;
+        expiresAt: Date;
+        revokedAt?: Date | null;
+    }) {
+        this.id = session.id;
+        this.userId = session.userId;
+        this.userAgent = session.userAgent ?? null;
+        this.ipAddress = session.ipAddress ?? null;
+        this.createdAt = session.createdAt;
+        this.lastSeenAt = session.lastSeenAt;
+        this.expiresAt = session.expiresAt;
+        this.revokedAt = session.revokedAt ?? null;
+    }
+
+    getId(): number | undefined {
+        return this.id;
+    }
+
+    getUserId(): number {
+        return this.userId;
+    }
+
+    getUserAgent(): string | null {
+        return this.userAgent;
+    }
+
+    getIpAddress(): string | null {
+        return this.ipAddress;
+    }
+
+    getCreatedAt(): Date {
+        return this.createdAt;
+    }
+
+    getLastSeenAt(): Date {
+        return this.lastSeenAt;
+    }
+
+    getExpiresAt(): Date {
+        return this.expiresAt;
+    }
+
+    getRevokedAt(): Date | null {
+        return this.revokedAt;
+    }
+
+    isActive(): boolean {
+        return !this.revokedAt && this.expiresAt > new Date();
+    }
+
+    toJSON() {
+        return {
+            id: this.id,
+            userAgent: this.userAgent,
+            ipAddress: this.ipAddress,
+            createdAt: this.createdAt,
+            lastSeenAt: this.lastSeenAt,
+        };
+    }
+
+    static from({ id, userId, userAgent, ipAddress, createdAt, lastSeenAt, expiresAt, revokedAt }: SessionPrisma) {
+        return new Session({
+            id,
+            userId,
+            userAgent,
+            ipAddress,
+            createdAt,
+            lastSeenAt,
+            expiresAt,
+            revokedAt,
+        });
+    }
+}
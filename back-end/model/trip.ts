@@ -1,4 +1,4 @@
-import { Trip as TripPrisma, User as UserPrisma } from '@prisma/client';
+import { Trip as TripPrisma, Role as RolePrisma, User as UserPrisma } from '@prisma/client';
 import { User } from './user';
 
 export class Trip {
@@ -61,9 +61,7 @@ export class Trip {
         if (!trip.organiser) {
             throw new Error('Organiser is required');
         }
-        if (!trip.organiser.getIsOrganiser()) {
-            throw new Error('User must be an organiser to organise trips');
-        }
+        // The organiser may have lost trip:create since, so that is not checked on stored trips
     }
 
     getId(): number | undefined {
@@ -136,7 +134,10 @@ export class Trip {
         description,
         organiser,
         attendees,
-    }: TripPrisma & { organiser: UserPrisma; attendees?: UserPrisma[] }) {
+    }: TripPrisma & {
+        organiser: UserPrisma & { role: RolePrisma };
+        attendees?: (UserPrisma & { role: RolePrisma })[];
+    }) {
         return new Trip({
             id,
             createdAt,
@@ -1,4 +1,6 @@
 import { User as UserPrisma } from '@prisma/client';
+import { MfaMethod } from '../types';
+import { Permission, Role } from './role';
 
 export class User {
     private id?: number;
@@ -6,25 +8,40 @@ export class User {
     private lastName: string;
     private email: string;
     private password: string;
-    private isOrganiser: boolean;
+    private role: Role;
 
     // Email verification
     private emailVerified: boolean;
-    private emailVerificationToken?: string;
+    private emailVerificationTokenHash?: string;
     private emailVerificationTokenExp?: Date;
 
     // Password reset
-    private passwordResetToken?: string;
+    private passwordResetTokenHash?: string;
     private passwordResetTokenExp?: Date;
+    private passwordResetRequired: boolean;
 
     // Account security
     private failedLoginAttempts: number;
     private lockedUntil?: Date;
+    private lastFailedLoginAt?: Date;
+    private lockoutCount: number;
+    private unlockTokenHash?: string;
+    private unlockTokenExp?: Date;
+    private magicLinkTokenHash?: string;
+    private magicLinkTokenExp?: Date;
+    private disabledAt?: Date;
+    private deletionScheduledAt?: Date;
+    private deletedAt?: Date;
 
     // MFA
     private mfaEnabled: boolean;
-    private mfaCode?: string;
-    private mfaCodeExp?: Date;
+    private mfaMethods: MfaMethod[];
+
+    // TOTP (authenticator app)
+    private totpSecret?: string;
+    private totpLastUsedStep?: number;
+
+    // WebAuthn / passkeys
 
     private createdAt?: Date;
     private updatedAt?: Date;
@@ -35,17 +52,28 @@ export class User {
         lastName: string;
         email: string;
         password: string;
-        isOrganiser: boolean;
+        role: Role;
         emailVerified?: boolean;
-        emailVerificationToken?: string;
+        emailVerificationTokenHash?: string;
         emailVerificationTokenExp?: Date;
-        passwordResetToken?: string;
+        passwordResetTokenHash?: string;
         passwordResetTokenExp?: Date;
+        passwordResetRequired?: boolean;
         failedLoginAttempts?: number;
         lockedUntil?: Date;
+        lastFailedLoginAt?: Date;
+        lockoutCount?: number;
+        unlockTokenHash?: string;
+        unlockTokenExp?: Date;
+        magicLinkTokenHash?: string;
+        magicLinkTokenExp?: Date;
+        disabledAt?: Date;
+        deletionScheduledAt?: Date;
+        deletedAt?: Date;
         mfaEnabled?: boolean;
-        mfaCode?: string;
-        mfaCodeExp?: Date;
+        mfaMethods?: MfaMethod[];
+        totpSecret?: string;
+        totpLastUsedStep?: number;
         createdAt?: Date;
         updatedAt?: Date;
     }) {
@@ -56,17 +84,28 @@ export class User {
         this.lastName = user.lastName;
         this.email = user.email;
         this.password = user.password;
-        this.isOrganiser = user.isOrganiser;
+        this.role = user.role;
         this.emailVerified = user.emailVerified ?? false;
-        this.emailVerificationToken = user.emailVerificationToken;
+        this.emailVerificationTokenHash = user.emailVerificationTokenHash;
         this.emailVerificationTokenExp = user.emailVerificationTokenExp;
-        this.passwordResetToken = user.passwordResetToken;
+        this.passwordResetTokenHash = user.passwordResetTokenHash;
         this.passwordResetTokenExp = user.passwordResetTokenExp;
+        this.passwordResetRequired = user.passwordResetRequired ?? false;
         this.failedLoginAttempts = user.failedLoginAttempts ?? 0;
         this.lockedUntil = user.lockedUntil;
+        this.lastFailedLoginAt = user.lastFailedLoginAt;
+        this.lockoutCount = user.lockoutCount ?? 0;
+        this.unlockTokenHash = user.unlockTokenHash;
+        this.unlockTokenExp = user.unlockTokenExp;
+        this.magicLinkTokenHash = user.magicLinkTokenHash;
+        this.magicLinkTokenExp = user.magicLinkTokenExp;
+        this.disabledAt = user.disabledAt;
+        this.deletionScheduledAt = user.deletionScheduledAt;
+        this.deletedAt = user.deletedAt;
         this.mfaEnabled = user.mfaEnabled ?? false;
-        this.mfaCode = user.mfaCode;
-        this.mfaCodeExp = user.mfaCodeExp;
+        this.mfaMethods = user.mfaMethods ?? [];
+        this.totpSecret = user.totpSecret;
+        this.totpLastUsedStep = user.totpLastUsedStep;
         this.createdAt = user.createdAt;
         this.updatedAt = user.updatedAt;
     }
@@ -133,30 +172,38 @@ export class User {
         return this.updatedAt;
     }
 
-    getIsOrganiser(): boolean {
-        return this.isOrganiser;
+    getRole(): Role {
+        return this.role;
+    }
+
+    hasPermission(permission: Permission): boolean {
+        return this.role.hasPermission(permission);
     }
 
     getEmailVerified(): boolean {
         return this.emailVerified;
     }
 
-    getEmailVerificationToken(): string | undefined {
-        return this.emailVerificationToken;
+    getEmailVerificationTokenHash(): string | undefined {
+        return this.emailVerificationTokenHash;
     }
 
     getEmailVerificationTokenExp(): Date | undefined {
         return this.emailVerificationTokenExp;
     }
 
-    getPasswordResetToken(): string | undefined {
-        return this.passwordResetToken;
+    getPasswordResetTokenHash(): string | undefined {
+        return this.passwordResetTokenHash;
     }
 
     getPasswordResetTokenExp(): Date | undefined {
         return this.passwordResetTokenExp;
     }
 
+    getPasswordResetRequired(): boolean {
+        return this.passwordResetRequired;
+    }
+
     getFailedLoginAttempts(): number {
         return this.failedLoginAttempts;
     }
@@ -165,16 +212,56 @@ export class User {
         return this.lockedUntil;
     }
 
+    getLastFailedLoginAt(): Date | undefined {
+        return this.lastFailedLoginAt;
+    }
+
+    getLockoutCount(): number {
+        return this.lockoutCount;
+    }
+
+    getUnlockTokenHash(): string | undefined {
+        return this.unlockTokenHash;
+    }
+
+    getUnlockTokenExp(): Date | undefined {
+        return this.unlockTokenExp;
+    }
+
+    getMagicLinkTokenHash(): string | undefined {
+        return this.magicLinkTokenHash;
+    }
+
+    getMagicLinkTokenExp(): Date | undefined {
+        return this.magicLinkTokenExp;
+    }
+
+    getDisabledAt(): Date | undefined {
+        return this.disabledAt;
+    }
+
+    getDeletionScheduledAt(): Date | undefined {
+        return this.deletionScheduledAt;
+    }
+
+    getDeletedAt(): Date | undefined {
+        return this.deletedAt;
+    }
+
     getMfaEnabled(): boolean {
         return this.mfaEnabled;
     }
 
-    getMfaCode(): string | undefined {
-        return this.mfaCode;
+    getMfaMethods(): MfaMethod[] {
+        return this.mfaMethods;
+    }
+
+    getTotpSecret(): string | undefined {
+        return this.totpSecret;
     }
 
-    getMfaCodeExp(): Date | undefined {
-        return this.mfaCodeExp;
+    getTotpLastUsedStep(): number | undefined {
+        return this.totpLastUsedStep;
     }
 
     // Setters
@@ -182,13 +269,13 @@ export class User {
         this.emailVerified = verified;
     }
 
-    setEmailVerificationToken(token: string | undefined, exp: Date | undefined): void {
-        this.emailVerificationToken = token;
+    setEmailVerificationTokenHash(tokenHash: string | undefined, exp: Date | undefined): void {
+        this.emailVerificationTokenHash = tokenHash;
         this.emailVerificationTokenExp = exp;
     }
 
-    setPasswordResetToken(token: string | undefined, exp: Date | undefined): void {
-        this.passwordResetToken = token;
+    setPasswordResetTokenHash(tokenHash: string | undefined, exp: Date | undefined): void {
+        this.passwordResetTokenHash = tokenHash;
         this.passwordResetTokenExp = exp;
     }
 
@@ -211,23 +298,30 @@ export class User {
         this.mfaEnabled = enabled;
     }
 
-    setMfaCode(code: string | undefined, exp: Date | undefined): void {
-        this.mfaCode = code;
-        this.mfaCodeExp = exp;
-    }
-
     // Helper methods
     isAccountLocked(): boolean {
         if (!this.lockedUntil) return false;
         return new Date() < this.lockedUntil;
     }
 
+    isDisabled(): boolean {
+        return !!this.disabledAt;
+    }
+
+    /**
+     * Whether the user has a confirmed authenticator app. Users who turned MFA on
+     * before TOTP existed have no methods recorded and keep using the email code.
+     */
+    hasTotpEnabled(): boolean {
+        return this.mfaMethods.includes('TOTP') && !!this.totpSecret;
+    }
+
     equals(other: User): boolean {
         return (
             this.firstName === other.firstName &&
             this.lastName === other.lastName &&
             this.email === other.email &&
-            this.isOrganiser === other.isOrganiser &&
+            this.role.getName() === other.role.getName() &&
             this.id === other.id
         );
     }
@@ -239,8 +333,8 @@ export class User {
      * `JSON.stringify` (and therefore Express's `res.json`) automatically calls
      * this method when present. TypeScript's `private` keyword is compile-time
      * only and does NOT prevent serialisation, so without this method the
-     * stored bcrypt password hash and internal account-security state
-     * (emailVerificationToken, passwordResetToken, mfaCode, mfaEnabled,
+     * stored password hash and internal account-security state
+     * (emailVerificationTokenHash, passwordResetTokenHash, totpSecret, mfaEnabled,
      * failedLoginAttempts, lockedUntil, ...) would all leak to clients.
      *
      * Only safe, public fields are exposed here.
@@ -251,7 +345,7 @@ export class User {
             firstName: this.firstName,
             lastName: this.lastName,
             email: this.email,
-            isOrganiser: this.isOrganiser,
+            role: this.role.getName(),
             createdAt: this.createdAt,
         };
     }
@@ -263,17 +357,28 @@ export class User {
             lastName,
             email,
             password,
-            isOrganiser,
+            role,
             emailVerified,
-            emailVerificationToken,
+            emailVerificationTokenHash,
             emailVerificationTokenExp,
-            passwordResetToken,
+            passwordResetTokenHash,
             passwordResetTokenExp,
+            passwordResetRequired,
             failedLoginAttempts,
             lockedUntil,
+            lastFailedLoginAt,
+            lockoutCount,
+            unlockTokenHash,
+            unlockTokenExp,
+            magicLinkTokenHash,
+            magicLinkTokenExp,
+            disabledAt,
+            deletionScheduledAt,
+            deletedAt,
             mfaEnabled,
-            mfaCode,
-            mfaCodeExp,
+            mfaMethods,
+            totpSecret,
+            totpLastUsedStep,
             createdAt,
             updatedAt,
         } = userObj;
@@ -284,17 +389,28 @@ export class User {
             lastName,
             email,
             password,
-            isOrganiser,
+            role: role instanceof Role ? role : Role.from(role),
             emailVerified: emailVerified ?? false,
-            emailVerificationToken: emailVerificationToken ?? undefined,
+            emailVerificationTokenHash: emailVerificationTokenHash ?? undefined,
             emailVerificationTokenExp: emailVerificationTokenExp ?? undefined,
-            passwordResetToken: passwordResetToken ?? undefined,
+            passwordResetTokenHash: passwordResetTokenHash ?? undefined,
             passwordResetTokenExp: passwordResetTokenExp ?? undefined,
+            passwordResetRequired: passwordResetRequired ?? false,
             failedLoginAttempts: failedLoginAttempts ?? 0,
             lockedUntil: lockedUntil ?? undefined,
+            lastFailedLoginAt: lastFailedLoginAt ?? undefined,
+            lockoutCount: lockoutCount ?? 0,
+            unlockTokenHash: unlockTokenHash ?? undefined,
+            unlockTokenExp: unlockTokenExp ?? undefined,
+            magicLinkTokenHash: magicLinkTokenHash ?? undefined,
+            magicLinkTokenExp: magicLinkTokenExp ?? undefined,
+            disabledAt: disabledAt ?? undefined,
+            deletionScheduledAt: deletionScheduledAt ?? undefined,
+            deletedAt: deletedAt ?? undefined,
             mfaEnabled: mfaEnabled ?? false,
-            mfaCode: mfaCode ?? undefined,
-            mfaCodeExp: mfaCodeExp ?? undefined,
+            mfaMethods: mfaMethods ?? [],
+            totpSecret: totpSecret ?? undefined,
+            totpLastUsedStep: totpLastUsedStep ?? undefined,
             createdAt,
             updatedAt,
         });
@@ -0,0 +1,178 @@
+import database from './database';
+
+/**
+ * Everything stored about a user, for the data export. Secrets (password and token hashes,
+ * TOTP secret, passkey public keys, recovery codes) are left out.
+ */
+const getAccountData = async ({ userId }: { userId: number }) => {
+    try {
+        return await database.user.findUnique({
+            where: { id: userId },
+            select: {
+                id: true,
+                firstName: true,
+                lastName: true,
+                email: true,
+                emailVerified: true,
+                createdAt: true,
+                updatedAt: true,
+                role: { select: { name: true } },
+                mfaEnabled: true,
+                mfaMethods: true,
+                deletionScheduledAt: true,
+                eventsAsClient: { select: { id: true, name: true, date: true, location: true }, orderBy: { date: 'asc' } },
+                tripsAsClient: { select: { id: true, destination: true, startDate: true, endDate: true }, orderBy: { startDate: 'asc' } },
+                eventsAsOrganiser: { select: { id: true, name: true, date: true, location: true }, orderBy: { date: 'asc' } },
+                tripsAsOrganiser: { select: { id: true, destination: true, startDate: true, endDate: true }, orderBy: { startDate: 'asc' } },
+                sessions: {
+                    select: {
+                        id: true,
+                        userAgent: true,
+                        ipAddress: true,
+                        createdAt: true,
+                        lastSeenAt: true,
+                        expiresAt: true,
+                        revokedAt: true,
+                        refreshTokens: {
+                            select: { createdAt: true, expiresAt: true, usedAt: true, revokedAt: true },
+                            orderBy: { createdAt: 'asc' },
+                        },
+                    },
+                    orderBy: { createdAt: 'asc' },
+                },
+                knownDevices: { select: { userAgent: true, firstSeenAt: true, lastSeenAt: true } },
+                knownNetworks: { select: { ipPrefix: true, country: true, firstSeenAt: true, lastSeenAt: true } },
+                webauthnCredentials: { select: { deviceType: true, backedUp: true, transports: true, createdAt: true, lastUsedAt: true } },
+                passwordHistory: { select: { createdAt: true }, orderBy: { createdAt: 'asc' } },
+                emailChangeRequests: { select: { oldEmail: true, newEmail: true, createdAt: true, confirmedAt: true } },
+                organiserApplications: {
+                    select: {
+                        businessName: true,
+                        motivation: true,
+                        contactEmail: true,
+                        contactPhone: true,
+                        status: true,
+                        reviewNote: true,
+                        reviewedAt: true,
+                        createdAt: true,
+                    },
+                },
+            },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Events and trips the user organises that haven't started yet
+ */
+const countUpcomingOrganisedExperiences = async ({ userId }: { userId: number }): Promise<{ events: number; trips: number }> => {
+    try {
+        const now = new Date();
+        const [events, trips] = await Promise.all([
+            database.event.count({ where: { organiserId: userId, date: { gt: now } } }),
+            database.trip.count({ where: { organiserId: userId, startDate: { gt: now } } }),
+        ]);
+        return { events, trips };
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Users whose deletion grace period has ended
+ */
+const getUserIdsDueForDeletion = async (): Promise<number[]> => {
+    try {
+        const users = await database.user.findMany({
+            where: { deletionScheduledAt: { lte: new Date() }, deletedAt: null },
+            select: { id: true },
+        });
+        return users.map((user) => user.id);
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Erase a user's personal data. The row itself stays, as an anonymous placeholder, because past
+ * events and trips keep referring to it as organiser or attendee. Bookings of experiences that
+ * haven't happened yet are given up, and everything else about the user is deleted.
+ */
+const anonymiseUser = async ({ id, passwordHash }: { id: number; passwordHash: string }): Promise<void> => {
+    try {
+        await database.$transaction(async (tx) => {
+            const now = new Date();
+            const where = { userId: id };
+
+            await tx.refreshToken.deleteMany({ where });
+            await tx.session.deleteMany({ where });
+            await tx.webAuthnCredential.deleteMany({ where });
+            await tx.webAuthnChallenge.deleteMany({ where });
+            await tx.mfaRecoveryCode.deleteMany({ where });
+            await tx.mfaChallenge.deleteMany({ where });
+            await tx.knownDevice.deleteMany({ where });
+            await tx.knownNetwork.deleteMany({ where });
+            await tx.passwordHistory.deleteMany({ where });
+            await tx.emailChangeRequest.deleteMany({ where });
+            await tx.organiserApplication.deleteMany({ where });
+            await tx.securityEvent.deleteMany({ where });
+
+            const upcomingEvents = await tx.event.findMany({
+                where: { date: { gt: now }, attendees: { some: { id } } },
+                select: { id: true },
+            });
+            const upcomingTrips = await tx.trip.findMany({
+                where: { startDate: { gt: now }, attendees: { some: { id } } },
+                select: { id: true },
+            });
+
+            await tx.user.update({
+                where: { id },
+                data: {
+                    firstName: 'Deleted',
+                    lastName: 'User',
+                    email: `deleted-user-${id}@deleted.invalid`,
+                    password: passwordHash,
+                    emailVerified: false,
+                    emailVerificationTokenHash: null,
+                    emailVerificationTokenExp: null,
+                    passwordResetTokenHash: null,
+                    passwordResetTokenExp: null,
+                    passwordResetRequired: false,
+                    failedLoginAttempts: 0,
+                    lockedUntil: null,
+                    lastFailedLoginAt: null,
+                    lockoutCount: 0,
+                    unlockTokenHash: null,
+                    unlockTokenExp: null,
+                    magicLinkTokenHash: null,
+                    magicLinkTokenExp: null,
+                    mfaEnabled: false,
+                    mfaMethods: [],
+                    totpSecret: null,
+                    totpLastUsedStep: null,
+                    disabledAt: now,
+                    deletionScheduledAt: null,
+                    deletedAt: now,
+                    eventsAsClient: { disconnect: upcomingEvents },
+                    tripsAsClient: { disconnect: upcomingTrips },
+                },
+            });
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+export default {
+    getAccountData,
+    countUpcomingOrganisedExperiences,
+    getUserIdsDueForDeletion,
+    anonymiseUser,
+};
@@ -0,0 +1,148 @@
+import { EmailChangeRequest } from '@prisma/client';
+import database from './database';
+
+/**
+ * Store a new email change, replacing any earlier change of the user that was never confirmed.
+ * Confirmed changes are kept so their revert link keeps working.
+ */
+const createEmailChangeRequest = async ({
+    userId,
+    oldEmail,
+    newEmail,
+    confirmTokenHash,
+    revertTokenHash,
+    expiresAt,
+    revertExpiresAt,
+}: {
+    userId: number;
+    oldEmail: string;
+    newEmail: string;
+    confirmTokenHash: string;
+    revertTokenHash: string;
+    expiresAt: Date;
+    revertExpiresAt: Date;
+}): Promise<EmailChangeRequest> => {
+    try {
+        const [, request] = await database.$transaction([
+            database.emailChangeRequest.deleteMany({ where: { userId, confirmedAt: null } }),
+            database.emailChangeRequest.create({
+                data: { userId, oldEmail, newEmail, confirmTokenHash, revertTokenHash, expiresAt, revertExpiresAt },
+            }),
+        ]);
+        return request;
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+const getEmailChangeByConfirmTokenHash = async ({ confirmTokenHash }: { confirmTokenHash: string }): Promise<EmailChangeRequest | null> => {
+    try {
+        return await database.emailChangeRequest.findUnique({
+            where: { confirmTokenHash },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+const getEmailChangeByRevertTokenHash = async ({ revertTokenHash }: { revertTokenHash: string }): Promise<EmailChangeRequest | null> => {
+    try {
+        return await database.emailChangeRequest.findUnique({
+            where: { revertTokenHash },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * The user's unconfirmed change that can still be confirmed, if any
+ */
+const getPendingEmailChange = async ({ userId }: { userId: number }): Promise<EmailChangeRequest | null> => {
+    try {
+        return await database.emailChangeRequest.findFirst({
+            where: { userId, confirmedAt: null, expiresAt: { gt: new Date() } },
+            orderBy: { createdAt: 'desc' },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * The user's confirmed change whose revert link still works, if any
+ */
+const getRevertibleEmailChange = async ({ userId }: { userId: number }): Promise<EmailChangeRequest | null> => {
+    try {
+        return await database.emailChangeRequest.findFirst({
+            where: { userId, confirmedAt: { not: null }, revertExpiresAt: { gt: new Date() } },
+            orderBy: { createdAt: 'desc' },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Switch the user's email to the confirmed new address. A login link sent to the old address stops working.
+ */
+const confirmEmailChange = async ({ id, userId, newEmail }: { id: number; userId: number; newEmail: string }): Promise<void> => {
+    try {
+        await database.$transaction([
+            database.user.update({
+                where: { id: userId },
+                data: { email: newEmail, emailVerified: true, magicLinkTokenHash: null, magicLinkTokenExp: null },
+            }),
+            database.emailChangeRequest.update({
+                where: { id },
+                data: { confirmedAt: new Date() },
+            }),
+        ]);
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Put the old address back and forget the change. A login link sent to the reverted address stops working.
+ */
+const revertEmailChange = async ({ id, userId, oldEmail }: { id: number; userId: number; oldEmail: string }): Promise<void> => {
+    try {
+        await database.$transaction([
+            database.user.update({
+                where: { id: userId },
+                data: { email: oldEmail, magicLinkTokenHash: null, magicLinkTokenExp: null },
+            }),
+            database.emailChangeRequest.delete({ where: { id } }),
+        ]);
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+const deleteEmailChangeRequest = async ({ id }: { id: number }): Promise<void> => {
+    try {
+        await database.emailChangeRequest.deleteMany({ where: { id } });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+export default {
+    createEmailChangeRequest,
+    getEmailChangeByConfirmTokenHash,
+    getEmailChangeByRevertTokenHash,
+    getPendingEmailChange,
+    getRevertibleEmailChange,
+    confirmEmailChange,
+    revertEmailChange,
+    deleteEmailChangeRequest,
+};
@@ -9,8 +9,8 @@ const getAllEvents = async (): Promise<Event[]> => {
 	// 	The related organiser (e.g. the user or entity who created the event)
 	// 	The related attendees (e.g. list of users attending)
             include: {
-                organiser: true,
-                attendees: true,
+                organiser: { include: { role: true } },
+                attendees: { include: { role: true } },
             },
         });
         //Take each raw event from the database, convert it to a proper Event object using the from() method, and return the array of those.
@@ -27,8 +27,8 @@ const getEventById = async ({ id }: { id: number }): Promise<Event | null> => {
             // filter by event ID
             where: { id },
             include: {
-                organiser: true,
-                attendees: true,
+                organiser: { include: { role: true } },
+                attendees: { include: { role: true } },
             },
         });
         // If no event is found, return null
@@ -48,8 +48,8 @@ const getEventsByOrganiserId = async ({
         const eventsPrisma = await database.event.findMany({
             where: { organiserId },
             include: {
-                organiser: true,
-                attendees: true,
+                organiser: { include: { role: true } },
+                attendees: { include: { role: true } },
             },
         });
         return eventsPrisma.map((eventPrisma) => Event.from(eventPrisma));
@@ -59,6 +59,17 @@ const getEventsByOrganiserId = async ({
     }
 };
 
+const countEventsByOrganiserId = async ({ organiserId }: { organiserId: number }): Promise<number> => {
+    try {
+        return await database.event.count({
+            where: { organiserId },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
 const createEvent = async ({
     name,
     description,
@@ -82,8 +93,8 @@ const createEvent = async ({
                 organiserId,
             },
             include: {
-                organiser: true,
-                attendees: true,
+                organiser: { include: { role: true } },
+                attendees: { include: { role: true } },
             },
         });
         return Event.from(eventPrisma);
@@ -97,5 +108,6 @@ export default {
     getAllEvents,
     getEventById,
     getEventsByOrganiserId,
+    countEventsByOrganiserId,
     createEvent,
 };
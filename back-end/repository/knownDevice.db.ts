@@ -0,0 +1,55 @@
+import database from './database';
+
+/**
+ * Number of devices a user has logged in from
+ */
+const countKnownDevices = async ({ userId }: { userId: number }): Promise<number> => {
+    try {
+        return await database.knownDevice.count({ where: { userId } });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+const isKnownDevice = async ({ userId, fingerprintHash }: { userId: number; fingerprintHash: string }): Promise<boolean> => {
+    try {
+        const device = await database.knownDevice.findUnique({
+            where: { userId_fingerprintHash: { userId, fingerprintHash } },
+        });
+        return device !== null;
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Remember a device, or update when it was last seen
+ */
+const recordKnownDevice = async ({
+    userId,
+    fingerprintHash,
+    userAgent,
+}: {
+    userId: number;
+    fingerprintHash: string;
+    userAgent?: string;
+}): Promise<void> => {
+    try {
+        await database.knownDevice.upsert({
+            where: { userId_fingerprintHash: { userId, fingerprintHash } },
+            create: { userId, fingerprintHash, userAgent },
+            update: { lastSeenAt: new Date() },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+export default {
+    countKnownDevices,
+    isKnownDevice,
+    recordKnownDevice,
+};
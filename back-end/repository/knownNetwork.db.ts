@@ -0,0 +1,63 @@
+import { KnownNetwork } from '@prisma/client';
+import database from './database';
+
+const isKnownNetwork = async ({ userId, ipPrefix }: { userId: number; ipPrefix: string }): Promise<boolean> => {
+    try {
+        const network = await database.knownNetwork.findUnique({
+            where: { userId_ipPrefix: { userId, ipPrefix } },
+        });
+        return network !== null;
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * The network of the user's most recent login
+ */
+const getLastKnownNetwork = async ({ userId }: { userId: number }): Promise<KnownNetwork | null> => {
+    try {
+        return await database.knownNetwork.findFirst({
+            where: { userId },
+            orderBy: { lastSeenAt: 'desc' },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Remember a network with its approximate location, or update when it was last seen
+ */
+const recordKnownNetwork = async ({
+    userId,
+    ipPrefix,
+    country,
+    latitude,
+    longitude,
+}: {
+    userId: number;
+    ipPrefix: string;
+    country?: string;
+    latitude?: number;
+    longitude?: number;
+}): Promise<void> => {
+    try {
+        await database.knownNetwork.upsert({
+            where: { userId_ipPrefix: { userId, ipPrefix } },
+            create: { userId, ipPrefix, country, latitude, longitude },
+            update: { lastSeenAt: new Date(), country, latitude, longitude },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+export default {
+    isKnownNetwork,
+    getLastKnownNetwork,
+    recordKnownNetwork,
+};
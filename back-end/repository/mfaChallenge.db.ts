@@ -0,0 +1,112 @@
+import { MfaChallenge, MfaChallengePurpose } from '@prisma/client';
+import database from './database';
+
+/**
+ * Store a new challenge, replacing any earlier challenge of the user for the same purpose
+ */
+const createChallenge = async ({
+    challengeIdHash,
+    userId,
+    purpose,
+    codeHash,
+    expiresAt,
+}: {
+    challengeIdHash: string;
+    userId: number;
+    purpose: MfaChallengePurpose;
+    codeHash?: string;
+    expiresAt: Date;
+}): Promise<MfaChallenge> => {
+    try {
+        const [, challenge] = await database.$transaction([
+            database.mfaChallenge.deleteMany({ where: { userId, purpose } }),
+            database.mfaChallenge.create({
+                data: { challengeIdHash, userId, purpose, codeHash, expiresAt },
+            }),
+        ]);
+        return challenge;
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+const getChallengeByIdHash = async ({ challengeIdHash }: { challengeIdHash: string }): Promise<MfaChallenge | null> => {
+    try {
+        return await database.mfaChallenge.findUnique({
+            where: { challengeIdHash },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Replace the emailed code of a challenge (e.g. when the email fallback is requested)
+ */
+const setChallengeCode = async ({ id, codeHash }: { id: number; codeHash: string }): Promise<void> => {
+    try {
+        await database.mfaChallenge.update({
+            where: { id },
+            data: { codeHash },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Take one of the challenge's attempts before a code is checked. The check and increment
+ * are one statement, so parallel guesses can't get past the cap.
+ * Returns false when no attempts are left.
+ */
+const reserveChallengeAttempt = async ({ id, maxAttempts }: { id: number; maxAttempts: number }): Promise<boolean> => {
+    try {
+        const result = await database.mfaChallenge.updateMany({
+            where: { id, attempts: { lt: maxAttempts } },
+            data: { attempts: { increment: 1 } },
+        });
+        return result.count === 1;
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Delete a challenge. Returns false when it was already gone,
+ * so a challenge can only be completed once.
+ */
+const deleteChallenge = async ({ id }: { id: number }): Promise<boolean> => {
+    try {
+        const result = await database.mfaChallenge.deleteMany({
+            where: { id },
+        });
+        return result.count === 1;
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+const deleteChallengesForUser = async ({ userId }: { userId: number }): Promise<void> => {
+    try {
+        await database.mfaChallenge.deleteMany({
+            where: { userId },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+export default {
+    createChallenge,
+    getChallengeByIdHash,
+    setChallengeCode,
+    reserveChallengeAttempt,
+    deleteChallenge,
+    deleteChallengesForUser,
+};
@@ -0,0 +1,148 @@
+import { OrganiserApplicationStatus } from '@prisma/client';
+import { OrganiserApplication } from '../model/organiserApplication';
+import database from './database';
+
+const createApplication = async (application: OrganiserApplication): Promise<OrganiserApplication> => {
+    try {
+        const applicationPrisma = await database.organiserApplication.create({
+            data: {
+                userId: application.getUserId(),
+                businessName: application.getBusinessName(),
+                motivation: application.getMotivation(),
+                contactEmail: application.getContactEmail(),
+                contactPhone: application.getContactPhone(),
+            },
+        });
+        return OrganiserApplication.from(applicationPrisma);
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+const getApplicationById = async ({ id }: { id: number }): Promise<OrganiserApplication | null> => {
+    try {
+        const applicationPrisma = await database.organiserApplication.findUnique({
+            where: { id },
+        });
+        return applicationPrisma ? OrganiserApplication.from(applicationPrisma) : null;
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * All applications of one user, newest first
+ */
+const getApplicationsByUserId = async ({ userId }: { userId: number }): Promise<OrganiserApplication[]> => {
+    try {
+        const applicationsPrisma = await database.organiserApplication.findMany({
+            where: { userId },
+            orderBy: { createdAt: 'desc' },
+        });
+        return applicationsPrisma.map((applicationPrisma) => OrganiserApplication.from(applicationPrisma));
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Applications for review, oldest first so they are handled in order
+ */
+const getApplicationsByStatus = async ({
+    status,
+}: {
+    status?: OrganiserApplicationStatus;
+}): Promise<OrganiserApplication[]> => {
+    try {
+        const applicationsPrisma = await database.organiserApplication.findMany({
+            where: status ? { status } : {},
+            orderBy: { createdAt: 'asc' },
+        });
+        return applicationsPrisma.map((applicationPrisma) => OrganiserApplication.from(applicationPrisma));
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Record a rejection. Only a still pending application is updated, so two admins
+ * reviewing at the same time can't both decide; returns null when it was already reviewed.
+ * Approvals go through approveApplication, which also grants the role.
+ */
+const reviewApplication = async ({
+    id,
+    status,
+    reviewedById,
+    reviewNote,
+}: {
+    id: number;
+    status: 'REJECTED';
+    reviewedById: number;
+    reviewNote?: string;
+}): Promise<OrganiserApplication | null> => {
+    try {
+        const result = await database.organiserApplication.updateMany({
+            where: { id, status: 'PENDING' },
+            data: { status, reviewedById, reviewNote, reviewedAt: new Date() },
+        });
+        if (result.count === 0) {
+            return null;
+        }
+        return getApplicationById({ id });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Approve a still pending application and give the applicant the new role in one transaction,
+ * so an application is never marked approved without the role being granted (or the other way round).
+ * Without a roleId only the application is updated. Returns null when it was already reviewed.
+ */
+const approveApplication = async ({
+    id,
+    reviewedById,
+    reviewNote,
+    roleId,
+}: {
+    id: number;
+    reviewedById: number;
+    reviewNote?: string;
+    roleId?: number;
+}): Promise<OrganiserApplication | null> => {
+    try {
+        const applicationPrisma = await database.$transaction(async (tx) => {
+            const result = await tx.organiserApplication.updateMany({
+                where: { id, status: 'PENDING' },
+                data: { status: 'APPROVED', reviewedById, reviewNote, reviewedAt: new Date() },
+            });
+            if (result.count === 0) {
+                return null;
+            }
+
+            const application = await tx.organiserApplication.findUniqueOrThrow({ where: { id } });
+            if (roleId !== undefined) {
+                await tx.user.update({ where: { id: application.userId }, data: { roleId } });
+            }
+            return application;
+        });
+        return applicationPrisma ? OrganiserApplication.from(applicationPrisma) : null;
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+export default {
+    createApplication,
+    getApplicationById,
+    getApplicationsByUserId,
+    getApplicationsByStatus,
+    reviewApplication,
+    approveApplication,
+};
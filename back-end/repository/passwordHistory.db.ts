@@ -0,0 +1,28 @@
+import database from './database';
+
+/**
+ * Hashes of a user's most recent earlier passwords, newest first
+ */
+const getRecentPasswordHashes = async ({ userId, take }: { userId: number; take: number }): Promise<string[]> => {
+    try {
+        if (take <= 0) {
+            return [];
+        }
+
+        const entries = await database.passwordHistory.findMany({
+            where: { userId },
+            orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+            take,
+            select: { passwordHash: true },
+        });
+
+        return entries.map((entry) => entry.passwordHash);
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+export default {
+    getRecentPasswordHashes,
+};
@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "MfaMethod" AS ENUM ('EMAIL', 'TOTP');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "mfaMethods" "MfaMethod"[] DEFAULT ARRAY[]::"MfaMethod"[],
+ADD COLUMN "totpSecret" TEXT,
+ADD COLUMN "totpLastUsedStep" INTEGER;
+
+-- Users who already had MFA on were using the email code
+UPDATE "User" SET "mfaMethods" = ARRAY['EMAIL']::"MfaMethod"[] WHERE "mfaEnabled" = true;
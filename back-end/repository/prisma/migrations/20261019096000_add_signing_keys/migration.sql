@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "SigningKey" (
+    "id" SERIAL NOT NULL,
+    "kid" TEXT NOT NULL,
+    "algorithm" TEXT NOT NULL,
+    "publicKey" TEXT NOT NULL,
+    "privateKey" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "retiresAt" TIMESTAMP(3) NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SigningKey_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SigningKey_kid_key" ON "SigningKey"("kid");
+
+-- CreateIndex
+CREATE INDEX "SigningKey_expiresAt_idx" ON "SigningKey"("expiresAt");
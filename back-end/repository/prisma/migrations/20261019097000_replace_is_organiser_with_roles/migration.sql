@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "Role" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "permissions" TEXT[],
+    "isSystem" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Role_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Role_name_key" ON "Role"("name");
+
+-- Built-in roles (keep in sync with SYSTEM_ROLES in model/role.ts)
+INSERT INTO "Role" ("name", "description", "permissions", "isSystem", "updatedAt") VALUES
+    ('ADMIN', 'Full access, including user and role management',
+     ARRAY['event:read', 'event:create', 'event:update', 'event:delete', 'trip:create', 'trip:update', 'trip:delete',
+           'user:read', 'user:update', 'user:lock', 'role:assign', 'role:manage'], true, CURRENT_TIMESTAMP),
+    ('ORGANISER', 'Creates and manages experiences and trips',
+     ARRAY['event:read', 'event:create', 'event:update', 'trip:create', 'trip:update'], true, CURRENT_TIMESTAMP),
+    ('CLIENT', 'Books experiences and trips',
+     ARRAY['event:read'], true, CURRENT_TIMESTAMP);
+
+-- Map existing users onto the new roles
+ALTER TABLE "User" ADD COLUMN "roleId" INTEGER;
+
+UPDATE "User" SET "roleId" = (
+    SELECT "id" FROM "Role" WHERE "name" = CASE WHEN "User"."isOrganiser" THEN 'ORGANISER' ELSE 'CLIENT' END
+);
+
+ALTER TABLE "User" ALTER COLUMN "roleId" SET NOT NULL;
+
+ALTER TABLE "User" DROP COLUMN "isOrganiser";
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_roleId_fkey" FOREIGN KEY ("roleId") REFERENCES "Role"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "OrganiserApplicationStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "OrganiserApplication" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "businessName" TEXT NOT NULL,
+    "motivation" TEXT NOT NULL,
+    "contactEmail" TEXT NOT NULL,
+    "contactPhone" TEXT,
+    "status" "OrganiserApplicationStatus" NOT NULL DEFAULT 'PENDING',
+    "reviewedById" INTEGER,
+    "reviewNote" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OrganiserApplication_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrganiserApplication_userId_idx" ON "OrganiserApplication"("userId");
+
+-- CreateIndex
+CREATE INDEX "OrganiserApplication_status_idx" ON "OrganiserApplication"("status");
+
+-- AddForeignKey
+ALTER TABLE "OrganiserApplication" ADD CONSTRAINT "OrganiserApplication_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrganiserApplication" ADD CONSTRAINT "OrganiserApplication_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
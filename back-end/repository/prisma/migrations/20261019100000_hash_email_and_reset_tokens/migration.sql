@@ -0,0 +1,18 @@
+-- Email verification and password reset tokens are now stored as SHA-256 hashes.
+-- The plaintext tokens still stored are dropped with their columns, so every pending link stops working:
+-- affected users request a new verification email or password reset.
+
+-- AlterTable
+ALTER TABLE "User" DROP COLUMN "emailVerificationToken",
+DROP COLUMN "passwordResetToken",
+ADD COLUMN     "emailVerificationTokenHash" TEXT,
+ADD COLUMN     "passwordResetTokenHash" TEXT;
+
+-- Expiry dates of the dropped tokens are meaningless now
+UPDATE "User" SET "emailVerificationTokenExp" = NULL, "passwordResetTokenExp" = NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_emailVerificationTokenHash_key" ON "User"("emailVerificationTokenHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_passwordResetTokenHash_key" ON "User"("passwordResetTokenHash");
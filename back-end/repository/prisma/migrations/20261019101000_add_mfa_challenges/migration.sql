@@ -0,0 +1,32 @@
+-- MFA codes move from plaintext columns on "User" to hashed, per-attempt challenges.
+-- Logins waiting for their second factor have to start again.
+
+-- CreateEnum
+CREATE TYPE "MfaChallengePurpose" AS ENUM ('LOGIN', 'CHANGE_PASSWORD');
+
+-- AlterTable
+ALTER TABLE "User" DROP COLUMN "mfaCode",
+DROP COLUMN "mfaCodeExp";
+
+-- CreateTable
+CREATE TABLE "MfaChallenge" (
+    "id" SERIAL NOT NULL,
+    "challengeIdHash" TEXT NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "purpose" "MfaChallengePurpose" NOT NULL,
+    "codeHash" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MfaChallenge_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MfaChallenge_challengeIdHash_key" ON "MfaChallenge"("challengeIdHash");
+
+-- CreateIndex
+CREATE INDEX "MfaChallenge_userId_idx" ON "MfaChallenge"("userId");
+
+-- AddForeignKey
+ALTER TABLE "MfaChallenge" ADD CONSTRAINT "MfaChallenge_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
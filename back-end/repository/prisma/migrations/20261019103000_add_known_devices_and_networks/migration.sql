@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "KnownDevice" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "fingerprintHash" TEXT NOT NULL,
+    "userAgent" TEXT,
+    "firstSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "KnownDevice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "KnownNetwork" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "ipPrefix" TEXT NOT NULL,
+    "country" TEXT,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "firstSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "KnownNetwork_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "KnownDevice_userId_fingerprintHash_key" ON "KnownDevice"("userId", "fingerprintHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "KnownNetwork_userId_ipPrefix_key" ON "KnownNetwork"("userId", "ipPrefix");
+
+-- CreateIndex
+CREATE INDEX "KnownNetwork_userId_lastSeenAt_idx" ON "KnownNetwork"("userId", "lastSeenAt");
+
+-- AddForeignKey
+ALTER TABLE "KnownDevice" ADD CONSTRAINT "KnownDevice_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "KnownNetwork" ADD CONSTRAINT "KnownNetwork_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
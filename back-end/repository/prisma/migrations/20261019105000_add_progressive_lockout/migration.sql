@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "lastFailedLoginAt" TIMESTAMP(3),
+ADD COLUMN     "lockoutCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "unlockTokenExp" TIMESTAMP(3),
+ADD COLUMN     "unlockTokenHash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_unlockTokenHash_key" ON "User"("unlockTokenHash");
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "EmailChangeRequest" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "oldEmail" TEXT NOT NULL,
+    "newEmail" TEXT NOT NULL,
+    "confirmTokenHash" TEXT NOT NULL,
+    "revertTokenHash" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revertExpiresAt" TIMESTAMP(3) NOT NULL,
+    "confirmedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EmailChangeRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmailChangeRequest_confirmTokenHash_key" ON "EmailChangeRequest"("confirmTokenHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmailChangeRequest_revertTokenHash_key" ON "EmailChangeRequest"("revertTokenHash");
+
+-- CreateIndex
+CREATE INDEX "EmailChangeRequest_userId_idx" ON "EmailChangeRequest"("userId");
+
+-- AddForeignKey
+ALTER TABLE "EmailChangeRequest" ADD CONSTRAINT "EmailChangeRequest_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
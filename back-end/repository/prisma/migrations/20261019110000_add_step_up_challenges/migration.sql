@@ -0,0 +1,11 @@
+-- Pending password change and MFA disable challenges are replaced by step-up challenges
+DELETE FROM "MfaChallenge" WHERE "purpose" IN ('CHANGE_PASSWORD', 'DISABLE_MFA');
+
+-- AlterEnum
+BEGIN;
+CREATE TYPE "MfaChallengePurpose_new" AS ENUM ('LOGIN', 'ENABLE_MFA', 'STEP_UP');
+ALTER TABLE "MfaChallenge" ALTER COLUMN "purpose" TYPE "MfaChallengePurpose_new" USING ("purpose"::text::"MfaChallengePurpose_new");
+ALTER TYPE "MfaChallengePurpose" RENAME TO "MfaChallengePurpose_old";
+ALTER TYPE "MfaChallengePurpose_new" RENAME TO "MfaChallengePurpose";
+DROP TYPE "MfaChallengePurpose_old";
+COMMIT;
@@ -0,0 +1,4 @@
+-- Administrators may impersonate users (keep in sync with SYSTEM_ROLES in model/role.ts)
+UPDATE "Role"
+SET "permissions" = array_append("permissions", 'user:impersonate'), "updatedAt" = CURRENT_TIMESTAMP
+WHERE "name" = 'ADMIN' AND NOT ('user:impersonate' = ANY("permissions"));
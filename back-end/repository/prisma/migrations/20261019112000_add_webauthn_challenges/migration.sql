@@ -0,0 +1,34 @@
+-- WebAuthn challenges move from one column on "User", shared by every ceremony, to one row
+-- per ceremony. Passkey registrations and logins in progress have to start again.
+
+-- CreateEnum
+CREATE TYPE "WebAuthnCeremony" AS ENUM ('REGISTRATION', 'AUTHENTICATION');
+
+-- AlterTable
+ALTER TABLE "User" DROP COLUMN "webauthnChallenge",
+DROP COLUMN "webauthnChallengeExp";
+
+-- CreateTable
+CREATE TABLE "WebAuthnChallenge" (
+    "id" SERIAL NOT NULL,
+    "challengeIdHash" TEXT NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "ceremony" "WebAuthnCeremony" NOT NULL,
+    "challenge" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WebAuthnChallenge_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WebAuthnChallenge_challengeIdHash_key" ON "WebAuthnChallenge"("challengeIdHash");
+
+-- CreateIndex
+CREATE INDEX "WebAuthnChallenge_userId_idx" ON "WebAuthnChallenge"("userId");
+
+-- CreateIndex
+CREATE INDEX "WebAuthnChallenge_expiresAt_idx" ON "WebAuthnChallenge"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "WebAuthnChallenge" ADD CONSTRAINT "WebAuthnChallenge_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
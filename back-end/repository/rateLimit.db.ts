@@ -0,0 +1,69 @@
+import database from './database';
+
+/**
+ * Count a hit for a key, starting a new window when the previous one has ended.
+ * A single upsert keeps this atomic when several API instances count the same key.
+ */
+const incrementCounter = async ({ key, windowMs }: { key: string; windowMs: number }): Promise<{ hits: number; resetAt: Date }> => {
+    try {
+        const resetAt = new Date(Date.now() + windowMs);
+        const [counter] = await database.$queryRaw<Array<{ hits: number; resetAt: Date }>>`
+            INSERT INTO "RateLimitCounter" ("key", "hits", "resetAt")
+            VALUES (${key}, 1, ${resetAt})
+            ON CONFLICT ("key") DO UPDATE SET
+                "hits" = CASE WHEN "RateLimitCounter"."resetAt" <= NOW() THEN 1 ELSE "RateLimitCounter"."hits" + 1 END,
+                "resetAt" = CASE WHEN "RateLimitCounter"."resetAt" <= NOW() THEN EXCLUDED."resetAt" ELSE "RateLimitCounter"."resetAt" END
+            RETURNING "hits", "resetAt"
+        `;
+        return counter;
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Take back a hit (e.g. for a request that shouldn't count after all)
+ */
+const decrementCounter = async ({ key }: { key: string }): Promise<void> => {
+    try {
+        await database.rateLimitCounter.updateMany({
+            where: { key, hits: { gt: 0 } },
+            data: { hits: { decrement: 1 } },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+const deleteCounter = async ({ key }: { key: string }): Promise<void> => {
+    try {
+        await database.rateLimitCounter.deleteMany({ where: { key } });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Remove counters whose window has ended
+ */
+const deleteExpiredCounters = async (): Promise<number> => {
+    try {
+        const result = await database.rateLimitCounter.deleteMany({
+            where: { resetAt: { lt: new Date() } },
+        });
+        return result.count;
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+export default {
+    incrementCounter,
+    decrementCounter,
+    deleteCounter,
+    deleteExpiredCounters,
+};
@@ -0,0 +1,62 @@
+import database from './database';
+
+/**
+ * Replace all recovery codes of a user with a fresh set (only hashes are stored)
+ */
+const replaceRecoveryCodes = async ({
+    userId,
+    codeHashes,
+}: {
+    userId: number;
+    codeHashes: string[];
+}): Promise<void> => {
+    try {
+        await database.$transaction([
+            database.mfaRecoveryCode.deleteMany({ where: { userId } }),
+            database.mfaRecoveryCode.createMany({
+                data: codeHashes.map((codeHash) => ({ userId, codeHash })),
+            }),
+        ]);
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Mark an unused recovery code as used.
+ * The conditional update makes this atomic: a code can only be burned once.
+ */
+const useRecoveryCode = async ({ userId, codeHash }: { userId: number; codeHash: string }): Promise<boolean> => {
+    try {
+        const result = await database.mfaRecoveryCode.updateMany({
+            where: { userId, codeHash, usedAt: null },
+            data: { usedAt: new Date() },
+        });
+
+        return result.count === 1;
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Count the recovery codes a user has left
+ */
+const countUnusedRecoveryCodes = async ({ userId }: { userId: number }): Promise<number> => {
+    try {
+        return await database.mfaRecoveryCode.count({
+            where: { userId, usedAt: null },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+export default {
+    replaceRecoveryCodes,
+    useRecoveryCode,
+    countUnusedRecoveryCodes,
+};
@@ -0,0 +1,116 @@
+import { RefreshToken, Session } from '@prisma/client';
+import database from './database';
+
+/**
+ * Store a new refresh token (only its hash is persisted)
+ */
+const createRefreshToken = async ({
+    userId,
+    sessionId,
+    tokenHash,
+    expiresAt,
+}: {
+    userId: number;
+    sessionId: number;
+    tokenHash: string;
+    expiresAt: Date;
+}): Promise<RefreshToken> => {
+    try {
+        return await database.refreshToken.create({
+            data: {
+                userId,
+                sessionId,
+                tokenHash,
+                expiresAt,
+            },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Find refresh token by hash, together with its session
+ */
+const getRefreshTokenByHash = async ({
+    tokenHash,
+}: {
+    tokenHash: string;
+}): Promise<(RefreshToken & { session: Session }) | null> => {
+    try {
+        return await database.refreshToken.findUnique({
+            where: { tokenHash },
+            include: { session: true },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Mark a refresh token as used.
+ * Returns false when it was already used, so two concurrent refreshes cannot both succeed.
+ */
+const markRefreshTokenUsed = async ({ id }: { id: number }): Promise<boolean> => {
+    try {
+        const result = await database.refreshToken.updateMany({
+            where: { id, usedAt: null, revokedAt: null },
+            data: { usedAt: new Date() },
+        });
+
+        return result.count === 1;
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Revoke all refresh tokens of a session
+ */
+const revokeRefreshTokensForSession = async ({ sessionId }: { sessionId: number }): Promise<void> => {
+    try {
+        await database.refreshToken.updateMany({
+            where: { sessionId, revokedAt: null },
+            data: { revokedAt: new Date() },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Revoke all refresh tokens of a user, optionally keeping those of one session
+ */
+const revokeRefreshTokensForUser = async ({
+    userId,
+    exceptSessionId,
+}: {
+    userId: number;
+    exceptSessionId?: number;
+}): Promise<void> => {
+    try {
+        await database.refreshToken.updateMany({
+            where: {
+                userId,
+                revokedAt: null,
+                ...(exceptSessionId !== undefined && { sessionId: { not: exceptSessionId } }),
+            },
+            data: { revokedAt: new Date() },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+export default {
+    createRefreshToken,
+    getRefreshTokenByHash,
+    markRefreshTokenUsed,
+    revokeRefreshTokensForSession,
+    revokeRefreshTokensForUser,
+};
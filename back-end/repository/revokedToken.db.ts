@@ -0,0 +1,55 @@
+import database from './database';
+
+/**
+ * Record a revoked access token by its jti
+ */
+const revokeToken = async ({ jti, expiresAt }: { jti: string; expiresAt: Date }): Promise<void> => {
+    try {
+        // Revoking the same token twice (e.g. double logout) is not an error
+        await database.revokedToken.upsert({
+            where: { jti },
+            create: { jti, expiresAt },
+            update: {},
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Check whether a jti has been revoked
+ */
+const isTokenRevoked = async ({ jti }: { jti: string }): Promise<boolean> => {
+    try {
+        const revokedToken = await database.revokedToken.findUnique({
+            where: { jti },
+        });
+        return !!revokedToken;
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Delete entries for tokens that have expired anyway.
+ * Returns the number of deleted entries.
+ */
+const deleteExpiredRevokedTokens = async (): Promise<number> => {
+    try {
+        const result = await database.revokedToken.deleteMany({
+            where: { expiresAt: { lt: new Date() } },
+        });
+        return result.count;
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+export default {
+    revokeToken,
+    isTokenRevoked,
+    deleteExpiredRevokedTokens,
+};
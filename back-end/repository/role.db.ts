@@ -0,0 +1,117 @@
+import { Role } from '../model/role';
+import database from './database';
+
+const getAllRoles = async (): Promise<Role[]> => {
+    try {
+        const rolesPrisma = await database.role.findMany({
+            orderBy: { name: 'asc' },
+        });
+        return rolesPrisma.map((rolePrisma) => Role.from(rolePrisma));
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+const getRoleById = async ({ id }: { id: number }): Promise<Role | null> => {
+    try {
+        const rolePrisma = await database.role.findUnique({
+            where: { id },
+        });
+        return rolePrisma ? Role.from(rolePrisma) : null;
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+const getRoleByName = async ({ name }: { name: string }): Promise<Role | null> => {
+    try {
+        const rolePrisma = await database.role.findUnique({
+            where: { name },
+        });
+        return rolePrisma ? Role.from(rolePrisma) : null;
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Create a custom role
+ */
+const createRole = async (role: Role): Promise<Role> => {
+    try {
+        const rolePrisma = await database.role.create({
+            data: {
+                name: role.getName(),
+                description: role.getDescription(),
+                permissions: role.getPermissions(),
+                isSystem: false,
+            },
+        });
+        return Role.from(rolePrisma);
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Update the description and permissions of a role
+ */
+const updateRole = async ({
+    id,
+    description,
+    permissions,
+}: {
+    id: number;
+    description?: string;
+    permissions: string[];
+}): Promise<Role> => {
+    try {
+        const rolePrisma = await database.role.update({
+            where: { id },
+            data: { description, permissions },
+        });
+        return Role.from(rolePrisma);
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+const deleteRole = async ({ id }: { id: number }): Promise<void> => {
+    try {
+        await database.role.delete({
+            where: { id },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Number of users that currently have a role
+ */
+const countUsersWithRole = async ({ id }: { id: number }): Promise<number> => {
+    try {
+        return await database.user.count({
+            where: { roleId: id },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+export default {
+    getAllRoles,
+    getRoleById,
+    getRoleByName,
+    createRole,
+    updateRole,
+    deleteRole,
+    countUsersWithRole,
+};
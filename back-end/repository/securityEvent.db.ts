@@ -0,0 +1,59 @@
+import { Prisma, SecurityEvent } from '@prisma/client';
+import database from './database';
+
+const recordSecurityEvent = async ({
+    userId,
+    eventType,
+    details,
+    createdAt,
+}: {
+    userId: number;
+    eventType: string;
+    details: Prisma.InputJsonValue;
+    createdAt: Date;
+}): Promise<void> => {
+    try {
+        await database.securityEvent.create({
+            data: { userId, eventType, details, createdAt },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * All recorded events about a user, oldest first
+ */
+const getSecurityEventsForUser = async ({ userId }: { userId: number }): Promise<SecurityEvent[]> => {
+    try {
+        return await database.securityEvent.findMany({
+            where: { userId },
+            orderBy: { createdAt: 'asc' },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Remove events recorded before the given date
+ */
+const deleteSecurityEventsBefore = async ({ before }: { before: Date }): Promise<number> => {
+    try {
+        const result = await database.securityEvent.deleteMany({
+            where: { createdAt: { lt: before } },
+        });
+        return result.count;
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+export default {
+    recordSecurityEvent,
+    getSecurityEventsForUser,
+    deleteSecurityEventsBefore,
+};
@@ -0,0 +1,129 @@
+import { Session } from '../model/session';
+import database from './database';
+
+/**
+ * Start a new session for a login
+ */
+const createSession = async ({
+    userId,
+    userAgent,
+    ipAddress,
+    expiresAt,
+}: {
+    userId: number;
+    userAgent?: string;
+    ipAddress?: string;
+    expiresAt: Date;
+}): Promise<Session> => {
+    try {
+        const sessionPrisma = await database.session.create({
+            data: {
+                userId,
+                userAgent,
+                ipAddress,
+                expiresAt,
+            },
+        });
+        return Session.from(sessionPrisma);
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Find session by id
+ */
+const getSessionById = async ({ id }: { id: number }): Promise<Session | null> => {
+    try {
+        const sessionPrisma = await database.session.findUnique({
+            where: { id },
+        });
+        return sessionPrisma ? Session.from(sessionPrisma) : null;
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Get the sessions of a user that are neither revoked nor expired, most recently used first
+ */
+const getActiveSessionsByUserId = async ({ userId }: { userId: number }): Promise<Session[]> => {
+    try {
+        const sessionsPrisma = await database.session.findMany({
+            where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+            orderBy: { lastSeenAt: 'desc' },
+        });
+        return sessionsPrisma.map((sessionPrisma) => Session.from(sessionPrisma));
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Record activity on a session
+ */
+const updateSessionLastSeen = async ({ id }: { id: number }): Promise<void> => {
+    try {
+        await database.session.update({
+            where: { id },
+            data: { lastSeenAt: new Date() },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Revoke a single session
+ */
+const revokeSession = async ({ id }: { id: number }): Promise<void> => {
+    try {
+        await database.session.updateMany({
+            where: { id, revokedAt: null },
+            data: { revokedAt: new Date() },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Revoke every session of a user, optionally keeping one (the caller's own session).
+ * Returns the number of revoked sessions.
+ */
+const revokeSessionsForUser = async ({
+    userId,
+    exceptSessionId,
+}: {
+    userId: number;
+    exceptSessionId?: number;
+}): Promise<number> => {
+    try {
+        const result = await database.session.updateMany({
+            where: {
+                userId,
+                revokedAt: null,
+                ...(exceptSessionId !== undefined && { id: { not: exceptSessionId } }),
+            },
+            data: { revokedAt: new Date() },
+        });
+        return result.count;
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+export default {
+    createSession,
+    getSessionById,
+    getActiveSessionsByUserId,
+    updateSessionLastSeen,
+    revokeSession,
+    revokeSessionsForUser,
+};
@@ -0,0 +1,73 @@
+import { SigningKey } from '@prisma/client';
+import database from './database';
+
+/**
+ * Store a new JWT signing key (the private key is stored encrypted)
+ */
+const createSigningKey = async ({
+    kid,
+    algorithm,
+    publicKey,
+    privateKey,
+    retiresAt,
+    expiresAt,
+}: {
+    kid: string;
+    algorithm: string;
+    publicKey: string;
+    privateKey: string;
+    retiresAt: Date;
+    expiresAt: Date;
+}): Promise<SigningKey> => {
+    try {
+        return await database.signingKey.create({
+            data: {
+                kid,
+                algorithm,
+                publicKey,
+                privateKey,
+                retiresAt,
+                expiresAt,
+            },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Get all keys that can still verify tokens, newest first
+ */
+const getUnexpiredSigningKeys = async (): Promise<SigningKey[]> => {
+    try {
+        return await database.signingKey.findMany({
+            where: { expiresAt: { gt: new Date() } },
+            orderBy: { createdAt: 'desc' },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Delete keys that no unexpired token can have been signed with
+ */
+const deleteExpiredSigningKeys = async (): Promise<number> => {
+    try {
+        const result = await database.signingKey.deleteMany({
+            where: { expiresAt: { lt: new Date() } },
+        });
+        return result.count;
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+export default {
+    createSigningKey,
+    getUnexpiredSigningKeys,
+    deleteExpiredSigningKeys,
+};
@@ -8,8 +8,8 @@ const getAllTrips = async () => {
     try {
         const tripsPrisma = await database.trip.findMany({
             include: {
-                organiser: true,
-                attendees: true,
+                organiser: { include: { role: true } },
+                attendees: { include: { role: true } },
             },
         });
         return tripsPrisma.map((tripPrisma) => Trip.from(tripPrisma));
@@ -24,8 +24,8 @@ const getTripById = async ({ id }: { id: number }) => {
         const tripPrisma = await database.trip.findUnique({
             where: { id },
             include: {
-                organiser: true,
-                attendees: true,
+                organiser: { include: { role: true } },
+                attendees: { include: { role: true } },
             },
         });
         if (!tripPrisma) throw new Error('Trip not found');
@@ -36,7 +36,19 @@ const getTripById = async ({ id }: { id: number }) => {
     }
 };
 
+const countTripsByOrganiserId = async ({ organiserId }: { organiserId: number }): Promise<number> => {
+    try {
+        return await database.trip.count({
+            where: { organiserId },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
 export default {
     getAllTrips,
     getTripById,
+    countTripsByOrganiserId,
 };
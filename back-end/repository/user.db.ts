@@ -1,11 +1,13 @@
 import { User } from '../model/user';
 import database from './database';
-import bcrypt from 'bcrypt';
+import passwordHasher from '../util/password.hasher';
+import tokenGenerator from '../util/token.generator';
 
 const getUserById = async ({ id }: { id: number }): Promise<User | null> => {
     try {
         const userPrisma = await database.user.findUnique({
             where: { id },
+            include: { role: true },
         });
 
         return userPrisma ? User.from(userPrisma) : null;
@@ -19,6 +21,7 @@ const getUserByEmail = async ({ email }: { email: string }): Promise<User | null
     try {
         const userPrisma = await database.user.findUnique({
             where: { email },
+            include: { role: true },
         });
 
         return userPrisma ? User.from(userPrisma) : null;
@@ -29,14 +32,13 @@ const getUserByEmail = async ({ email }: { email: string }): Promise<User | null
 };
 
 /**
- * Create a new user with hashed password
+ * Create a new user with hashed password and verification token (new accounts always get the CLIENT role)
  */
 const createUser = async ({
     firstName,
     lastName,
     email,
     password,
-    isOrganiser,
     emailVerificationToken,
     emailVerificationTokenExp,
 }: {
@@ -44,13 +46,12 @@ const createUser = async ({
     lastName: string;
     email: string;
     password: string;
-    isOrganiser: boolean;
     emailVerificationToken: string;
     emailVerificationTokenExp: Date;
 }): Promise<User> => {
     try {
         // Hash password
-        const hashedPassword = await bcrypt.hash(password, 10);
+        const hashedPassword = await passwordHasher.hash(password);
 
         const userPrisma = await database.user.create({
             data: {
@@ -58,11 +59,12 @@ const createUser = async ({
                 lastName,
                 email,
                 password: hashedPassword,
-                isOrganiser,
-                emailVerificationToken,
+                role: { connect: { name: 'CLIENT' } },
+                emailVerificationTokenHash: tokenGenerator.hashToken(emailVerificationToken),
                 emailVerificationTokenExp,
                 emailVerified: false,
             },
+            include: { role: true },
         });
 
         return User.from(userPrisma);
@@ -73,12 +75,13 @@ const createUser = async ({
 };
 
 /**
- * Find user by email verification token
+ * Find user by email verification token (looked up by its hash)
  */
 const getUserByVerificationToken = async ({ token }: { token: string }): Promise<User | null> => {
     try {
         const userPrisma = await database.user.findUnique({
-            where: { emailVerificationToken: token },
+            where: { emailVerificationTokenHash: tokenGenerator.hashToken(token) },
+            include: { role: true },
         });
 
         return userPrisma ? User.from(userPrisma) : null;
@@ -89,12 +92,13 @@ const getUserByVerificationToken = async ({ token }: { token: string }): Promise
 };
 
 /**
- * Find user by password reset token
+ * Find user by password reset token (looked up by its hash)
  */
 const getUserByPasswordResetToken = async ({ token }: { token: string }): Promise<User | null> => {
     try {
         const userPrisma = await database.user.findUnique({
-            where: { passwordResetToken: token },
+            where: { passwordResetTokenHash: tokenGenerator.hashToken(token) },
+            include: { role: true },
         });
 
         return userPrisma ? User.from(userPrisma) : null;
@@ -113,9 +117,10 @@ const verifyEmail = async ({ id }: { id: number }): Promise<User | null> => {
             where: { id },
             data: {
                 emailVerified: true,
-                emailVerificationToken: null,
+                emailVerificationTokenHash: null,
                 emailVerificationTokenExp: null,
             },
+            include: { role: true },
         });
 
         return User.from(userPrisma);
@@ -126,21 +131,54 @@ const verifyEmail = async ({ id }: { id: number }): Promise<User | null> => {
 };
 
 /**
- * Update user's password
+ * Update user's password.
+ * The replaced hash goes into the password history, which is trimmed to the newest `historySize` entries.
  */
-const updatePassword = async ({ id, password }: { id: number; password: string }): Promise<User | null> => {
+const updatePassword = async ({
+    id,
+    password,
+    historySize = 0,
+}: {
+    id: number;
+    password: string;
+    historySize?: number;
+}): Promise<User | null> => {
     try {
-        const hashedPassword = await bcrypt.hash(password, 10);
-
-        const userPrisma = await database.user.update({
-            where: { id },
-            data: {
-                password: hashedPassword,
-                passwordResetToken: null,
-                passwordResetTokenExp: null,
-                failedLoginAttempts: 0,
-                lockedUntil: null,
-            },
+        const hashedPassword = await passwordHasher.hash(password);
+
+        const userPrisma = await database.$transaction(async (tx) => {
+            const previous = await tx.user.findUniqueOrThrow({ where: { id }, select: { password: true } });
+
+            if (historySize > 0) {
+                await tx.passwordHistory.create({ data: { userId: id, passwordHash: previous.password } });
+            }
+
+            const expired = await tx.passwordHistory.findMany({
+                where: { userId: id },
+                orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+                skip: historySize,
+                select: { id: true },
+            });
+            if (expired.length > 0) {
+                await tx.passwordHistory.deleteMany({ where: { id: { in: expired.map((entry) => entry.id) } } });
+            }
+
+            return tx.user.update({
+                where: { id },
+                data: {
+                    password: hashedPassword,
+                    passwordResetTokenHash: null,
+                    passwordResetTokenExp: null,
+                    passwordResetRequired: false,
+                    failedLoginAttempts: 0,
+                    lockedUntil: null,
+                    lockoutCount: 0,
+                    lastFailedLoginAt: null,
+                    unlockTokenHash: null,
+                    unlockTokenExp: null,
+                },
+                include: { role: true },
+            });
         });
 
         return User.from(userPrisma);
@@ -151,7 +189,22 @@ const updatePassword = async ({ id, password }: { id: number; password: string }
 };
 
 /**
- * Update email verification token
+ * Replace the stored hash of an unchanged password, e.g. to upgrade it to the current hashing settings
+ */
+const updatePasswordHash = async ({ id, passwordHash }: { id: number; passwordHash: string }): Promise<void> => {
+    try {
+        await database.user.update({
+            where: { id },
+            data: { password: passwordHash },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Update email verification token (only its hash is stored)
  */
 const updateEmailVerificationToken = async ({
     id,
@@ -166,9 +219,10 @@ const updateEmailVerificationToken = async ({
         const userPrisma = await database.user.update({
             where: { id },
             data: {
-                emailVerificationToken: token,
+                emailVerificationTokenHash: tokenGenerator.hashToken(token),
                 emailVerificationTokenExp: expiresAt,
             },
+            include: { role: true },
         });
 
         return User.from(userPrisma);
@@ -179,7 +233,7 @@ const updateEmailVerificationToken = async ({
 };
 
 /**
- * Set password reset token
+ * Set password reset token (only its hash is stored)
  */
 const setPasswordResetToken = async ({
     id,
@@ -194,9 +248,10 @@ const setPasswordResetToken = async ({
         const userPrisma = await database.user.update({
             where: { id },
             data: {
-                passwordResetToken: token,
+                passwordResetTokenHash: tokenGenerator.hashToken(token),
                 passwordResetTokenExp: expiresAt,
             },
+            include: { role: true },
         });
 
         return User.from(userPrisma);
@@ -206,6 +261,23 @@ const setPasswordResetToken = async ({
     }
 };
 
+/**
+ * Find user by account unlock token (looked up by its hash)
+ */
+const getUserByUnlockToken = async ({ token }: { token: string }): Promise<User | null> => {
+    try {
+        const userPrisma = await database.user.findUnique({
+            where: { unlockTokenHash: tokenGenerator.hashToken(token) },
+            include: { role: true },
+        });
+
+        return userPrisma ? User.from(userPrisma) : null;
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
 /**
  * Update failed login attempts and account lockout
  */
@@ -213,10 +285,14 @@ const updateFailedLoginAttempts = async ({
     id,
     attempts,
     lockedUntil,
+    lockoutCount,
+    lastFailedLoginAt = new Date(),
 }: {
     id: number;
     attempts: number;
     lockedUntil: Date | null;
+    lockoutCount: number;
+    lastFailedLoginAt?: Date;
 }): Promise<User | null> => {
     try {
         const userPrisma = await database.user.update({
@@ -224,7 +300,39 @@ const updateFailedLoginAttempts = async ({
             data: {
                 failedLoginAttempts: attempts,
                 lockedUntil,
+                lockoutCount,
+                lastFailedLoginAt,
+            },
+            include: { role: true },
+        });
+
+        return User.from(userPrisma);
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Set the emailed account unlock token (only its hash is stored)
+ */
+const setUnlockToken = async ({
+    id,
+    token,
+    expiresAt,
+}: {
+    id: number;
+    token: string;
+    expiresAt: Date;
+}): Promise<User | null> => {
+    try {
+        const userPrisma = await database.user.update({
+            where: { id },
+            data: {
+                unlockTokenHash: tokenGenerator.hashToken(token),
+                unlockTokenExp: expiresAt,
             },
+            include: { role: true },
         });
 
         return User.from(userPrisma);
@@ -235,7 +343,7 @@ const updateFailedLoginAttempts = async ({
 };
 
 /**
- * Reset failed login attempts
+ * Reset failed login attempts, the lockout escalation and any unlock token
  */
 const resetFailedLoginAttempts = async ({ id }: { id: number }): Promise<User | null> => {
     try {
@@ -244,7 +352,12 @@ const resetFailedLoginAttempts = async ({ id }: { id: number }): Promise<User |
             data: {
                 failedLoginAttempts: 0,
                 lockedUntil: null,
+                lockoutCount: 0,
+                lastFailedLoginAt: null,
+                unlockTokenHash: null,
+                unlockTokenExp: null,
             },
+            include: { role: true },
         });
 
         return User.from(userPrisma);
@@ -255,24 +368,110 @@ const resetFailedLoginAttempts = async ({ id }: { id: number }): Promise<User |
 };
 
 /**
- * Set MFA code
+ * Set the emailed passwordless login token, replacing any earlier one (only its hash is stored)
  */
-const setMFACode = async ({
+const setMagicLinkToken = async ({
     id,
-    code,
+    token,
     expiresAt,
 }: {
     id: number;
-    code: string;
+    token: string;
     expiresAt: Date;
 }): Promise<User | null> => {
     try {
         const userPrisma = await database.user.update({
             where: { id },
             data: {
-                mfaCode: code,
-                mfaCodeExp: expiresAt,
+                magicLinkTokenHash: tokenGenerator.hashToken(token),
+                magicLinkTokenExp: expiresAt,
+            },
+            include: { role: true },
+        });
+
+        return User.from(userPrisma);
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Find user by passwordless login token (looked up by its hash)
+ */
+const getUserByMagicLinkToken = async ({ token }: { token: string }): Promise<User | null> => {
+    try {
+        const userPrisma = await database.user.findUnique({
+            where: { magicLinkTokenHash: tokenGenerator.hashToken(token) },
+            include: { role: true },
+        });
+
+        return userPrisma ? User.from(userPrisma) : null;
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Use up a passwordless login token. Returns false when another request used it first,
+ * so the same link can never log in twice.
+ */
+const consumeMagicLinkToken = async ({ id, token }: { id: number; token: string }): Promise<boolean> => {
+    try {
+        const { count } = await database.user.updateMany({
+            where: { id, magicLinkTokenHash: tokenGenerator.hashToken(token) },
+            data: {
+                magicLinkTokenHash: null,
+                magicLinkTokenExp: null,
+            },
+        });
+
+        return count === 1;
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Update the user's own profile fields
+ */
+const updateProfile = async ({
+    id,
+    firstName,
+    lastName,
+}: {
+    id: number;
+    firstName?: string;
+    lastName?: string;
+}): Promise<User | null> => {
+    try {
+        const userPrisma = await database.user.update({
+            where: { id },
+            data: { firstName, lastName },
+            include: { role: true },
+        });
+
+        return User.from(userPrisma);
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Store a TOTP secret that is awaiting confirmation (already encrypted by the caller)
+ */
+const setTotpSecret = async ({ id, secret }: { id: number; secret: string }): Promise<User | null> => {
+    try {
+        const userPrisma = await database.user.update({
+            where: { id },
+            data: {
+                totpSecret: secret,
+                totpLastUsedStep: null,
             },
+            include: { role: true },
         });
 
         return User.from(userPrisma);
@@ -283,16 +482,18 @@ const setMFACode = async ({
 };
 
 /**
- * Clear MFA code
+ * Enable TOTP after the first code was confirmed. Email stays enabled as a fallback.
  */
-const clearMFACode = async ({ id }: { id: number }): Promise<User | null> => {
+const enableTotp = async ({ id, lastUsedStep }: { id: number; lastUsedStep: number }): Promise<User | null> => {
     try {
         const userPrisma = await database.user.update({
             where: { id },
             data: {
-                mfaCode: null,
-                mfaCodeExp: null,
+                mfaEnabled: true,
+                mfaMethods: ['EMAIL', 'TOTP'],
+                totpLastUsedStep: lastUsedStep,
             },
+            include: { role: true },
         });
 
         return User.from(userPrisma);
@@ -303,25 +504,160 @@ const clearMFACode = async ({ id }: { id: number }): Promise<User | null> => {
 };
 
 /**
- * Create remember me token
+ * Enable MFA with emailed codes
+ */
+const enableEmailMfa = async ({ id }: { id: number }): Promise<User | null> => {
+    try {
+        const userPrisma = await database.user.update({
+            where: { id },
+            data: {
+                mfaEnabled: true,
+                mfaMethods: ['EMAIL'],
+            },
+            include: { role: true },
+        });
+
+        return User.from(userPrisma);
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Turn MFA off at the user's request: forget the authenticator app and recovery codes.
+ * Passkeys are a login method of their own and stay registered.
+ */
+const disableMfa = async ({ id }: { id: number }): Promise<User | null> => {
+    try {
+        const [, userPrisma] = await database.$transaction([
+            database.mfaRecoveryCode.deleteMany({ where: { userId: id } }),
+            database.user.update({
+                where: { id },
+                data: {
+                    mfaEnabled: false,
+                    mfaMethods: [],
+                    totpSecret: null,
+                    totpLastUsedStep: null,
+                },
+                include: { role: true },
+            }),
+        ]);
+
+        return User.from(userPrisma);
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Replace the stored form of an enabled TOTP secret (e.g. a plain text secret with its encrypted form)
+ */
+const updateTotpSecret = async ({ id, secret }: { id: number; secret: string }): Promise<User | null> => {
+    try {
+        const userPrisma = await database.user.update({
+            where: { id },
+            data: {
+                totpSecret: secret,
+            },
+            include: { role: true },
+        });
+
+        return User.from(userPrisma);
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Remember the last accepted TOTP time step so a code cannot be replayed.
+ * Only moves forward, in one statement: returns false when this or a later step was
+ * already used (e.g. by a parallel request with the same code).
+ */
+const updateTotpLastUsedStep = async ({ id, step }: { id: number; step: number }): Promise<boolean> => {
+    try {
+        const result = await database.user.updateMany({
+            where: {
+                id,
+                OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+            },
+            data: {
+                totpLastUsedStep: step,
+            },
+        });
+
+        return result.count === 1;
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Search users by name or email (case-insensitive), newest first
  */
-const createRememberMeToken = async ({
-    userId,
+const searchUsers = async ({
+    search,
+    skip,
+    take,
+}: {
+    search?: string;
+    skip: number;
+    take: number;
+}): Promise<{ users: User[]; total: number }> => {
+    try {
+        const where = search
+            ? {
+                  OR: ['firstName', 'lastName', 'email'].map((field) => ({
+                      [field]: { contains: search, mode: 'insensitive' as const },
+                  })),
+              }
+            : {};
+
+        const [usersPrisma, total] = await database.$transaction([
+            database.user.findMany({
+                where,
+                include: { role: true },
+                orderBy: { createdAt: 'desc' },
+                skip,
+                take,
+            }),
+            database.user.count({ where }),
+        ]);
+
+        return { users: usersPrisma.map((userPrisma) => User.from(userPrisma)), total };
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Require a password reset: store a reset token hash and refuse password login until it is used
+ */
+const requirePasswordReset = async ({
+    id,
     token,
     expiresAt,
 }: {
-    userId: number;
+    id: number;
     token: string;
     expiresAt: Date;
-}): Promise<void> => {
+}): Promise<User | null> => {
     try {
-        await database.rememberMeToken.create({
+        const userPrisma = await database.user.update({
+            where: { id },
             data: {
-                userId,
-                token,
-                expiresAt,
+                passwordResetTokenHash: tokenGenerator.hashToken(token),
+                passwordResetTokenExp: expiresAt,
+                passwordResetRequired: true,
             },
+            include: { role: true },
         });
+
+        return User.from(userPrisma);
     } catch (error) {
         console.error(error);
         throw new Error('Database error. See server log for details.');
@@ -329,13 +665,23 @@ const createRememberMeToken = async ({
 };
 
 /**
- * Get remember me token
+ * Schedule the account for deletion, or cancel a scheduled deletion with null
  */
-const getRememberMeToken = async ({ token }: { token: string }): Promise<any> => {
+const setDeletionScheduledAt = async ({
+    id,
+    deletionScheduledAt,
+}: {
+    id: number;
+    deletionScheduledAt: Date | null;
+}): Promise<User | null> => {
     try {
-        return await database.rememberMeToken.findUnique({
-            where: { token },
+        const userPrisma = await database.user.update({
+            where: { id },
+            data: { deletionScheduledAt },
+            include: { role: true },
         });
+
+        return User.from(userPrisma);
     } catch (error) {
         console.error(error);
         throw new Error('Database error. See server log for details.');
@@ -343,13 +689,47 @@ const getRememberMeToken = async ({ token }: { token: string }): Promise<any> =>
 };
 
 /**
- * Delete remember me token
+ * Disable an account (disabledAt set) or enable it again (disabledAt null)
  */
-const deleteRememberMeToken = async ({ token }: { token: string }): Promise<void> => {
+const setDisabledAt = async ({ id, disabledAt }: { id: number; disabledAt: Date | null }): Promise<User | null> => {
     try {
-        await database.rememberMeToken.delete({
-            where: { token },
+        const userPrisma = await database.user.update({
+            where: { id },
+            data: { disabledAt },
+            include: { role: true },
         });
+
+        return User.from(userPrisma);
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Remove every second factor of a user: authenticator app, recovery codes and passkeys,
+ * along with any MFA challenge in progress
+ */
+const resetMfa = async ({ id }: { id: number }): Promise<User | null> => {
+    try {
+        const [, , , , userPrisma] = await database.$transaction([
+            database.mfaChallenge.deleteMany({ where: { userId: id } }),
+            database.webAuthnChallenge.deleteMany({ where: { userId: id } }),
+            database.mfaRecoveryCode.deleteMany({ where: { userId: id } }),
+            database.webAuthnCredential.deleteMany({ where: { userId: id } }),
+            database.user.update({
+                where: { id },
+                data: {
+                    mfaEnabled: false,
+                    mfaMethods: [],
+                    totpSecret: null,
+                    totpLastUsedStep: null,
+                },
+                include: { role: true },
+            }),
+        ]);
+
+        return User.from(userPrisma);
     } catch (error) {
         console.error(error);
         throw new Error('Database error. See server log for details.');
@@ -357,13 +737,17 @@ const deleteRememberMeToken = async ({ token }: { token: string }): Promise<void
 };
 
 /**
- * Delete all remember me tokens for user
+ * Give a user another role
  */
-const deleteAllRememberMeTokens = async ({ userId }: { userId: number }): Promise<void> => {
+const updateUserRole = async ({ id, roleId }: { id: number; roleId: number }): Promise<User | null> => {
     try {
-        await database.rememberMeToken.deleteMany({
-            where: { userId },
+        const userPrisma = await database.user.update({
+            where: { id },
+            data: { roleId },
+            include: { role: true },
         });
+
+        return User.from(userPrisma);
     } catch (error) {
         console.error(error);
         throw new Error('Database error. See server log for details.');
@@ -379,13 +763,26 @@ export default {
     verifyEmail,
     updateEmailVerificationToken,
     updatePassword,
+    updatePasswordHash,
     setPasswordResetToken,
+    getUserByUnlockToken,
+    updateProfile,
     updateFailedLoginAttempts,
+    setUnlockToken,
     resetFailedLoginAttempts,
-    setMFACode,
-    clearMFACode,
-    createRememberMeToken,
-    getRememberMeToken,
-    deleteRememberMeToken,
-    deleteAllRememberMeTokens,
+    setMagicLinkToken,
+    getUserByMagicLinkToken,
+    consumeMagicLinkToken,
+    setTotpSecret,
+    enableTotp,
+    enableEmailMfa,
+    disableMfa,
+    updateTotpSecret,
+    updateTotpLastUsedStep,
+    searchUsers,
+    requirePasswordReset,
+    setDisabledAt,
+    setDeletionScheduledAt,
+    resetMfa,
+    updateUserRole,
 };
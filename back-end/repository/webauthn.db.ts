@@ -0,0 +1,97 @@
+import { WebAuthnCredential } from '@prisma/client';
+import database from './database';
+
+/**
+ * Store a newly registered passkey
+ */
+const createCredential = async ({
+    userId,
+    credentialId,
+    publicKey,
+    counter,
+    transports,
+    deviceType,
+    backedUp,
+}: {
+    userId: number;
+    credentialId: string;
+    publicKey: Uint8Array;
+    counter: number;
+    transports: string[];
+    deviceType: string;
+    backedUp: boolean;
+}): Promise<WebAuthnCredential> => {
+    try {
+        return await database.webAuthnCredential.create({
+            data: {
+                userId,
+                credentialId,
+                publicKey: Buffer.from(publicKey),
+                counter,
+                transports,
+                deviceType,
+                backedUp,
+            },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Get all passkeys registered by a user
+ */
+const getCredentialsByUserId = async ({ userId }: { userId: number }): Promise<WebAuthnCredential[]> => {
+    try {
+        return await database.webAuthnCredential.findMany({
+            where: { userId },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Get a passkey by its base64url credential id
+ */
+const getCredentialByCredentialId = async ({
+    credentialId,
+}: {
+    credentialId: string;
+}): Promise<WebAuthnCredential | null> => {
+    try {
+        return await database.webAuthnCredential.findUnique({
+            where: { credentialId },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Store the new sign counter after a successful assertion
+ */
+const updateCredentialCounter = async ({ id, counter }: { id: number; counter: number }): Promise<void> => {
+    try {
+        await database.webAuthnCredential.update({
+            where: { id },
+            data: {
+                counter,
+                lastUsedAt: new Date(),
+            },
+        });
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+export default {
+    createCredential,
+    getCredentialsByUserId,
+    getCredentialByCredentialId,
+    updateCredentialCounter,
+};
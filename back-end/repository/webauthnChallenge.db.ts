@@ -0,0 +1,63 @@
+import { WebAuthnCeremony, WebAuthnChallenge } from '@prisma/client';
+import database from './database';
+
+/**
+ * Store a new challenge. Other ceremonies of the user are left alone, so an unauthenticated
+ * login request can't cancel a pending registration. Expired challenges are cleaned up here.
+ */
+const createChallenge = async ({
+    challengeIdHash,
+    userId,
+    ceremony,
+    challenge,
+    expiresAt,
+}: {
+    challengeIdHash: string;
+    userId: number;
+    ceremony: WebAuthnCeremony;
+    challenge: string;
+    expiresAt: Date;
+}): Promise<WebAuthnChallenge> => {
+    try {
+        const [, created] = await database.$transaction([
+            database.webAuthnChallenge.deleteMany({ where: { expiresAt: { lt: new Date() } } }),
+            database.webAuthnChallenge.create({
+                data: { challengeIdHash, userId, ceremony, challenge, expiresAt },
+            }),
+        ]);
+        return created;
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+/**
+ * Look up a challenge and delete it. Returns null when it doesn't exist or was already
+ * used, so every challenge can only be answered once.
+ */
+const consumeChallenge = async ({
+    challengeIdHash,
+}: {
+    challengeIdHash: string;
+}): Promise<WebAuthnChallenge | null> => {
+    try {
+        const challenge = await database.webAuthnChallenge.findUnique({
+            where: { challengeIdHash },
+        });
+        if (!challenge) return null;
+
+        const result = await database.webAuthnChallenge.deleteMany({
+            where: { id: challenge.id },
+        });
+        return result.count === 1 ? challenge : null;
+    } catch (error) {
+        console.error(error);
+        throw new Error('Database error. See server log for details.');
+    }
+};
+
+export default {
+    createChallenge,
+    consumeChallenge,
+};
@@ -0,0 +1,348 @@
+import { User } from '../model/user';
+import eventDB from '../repository/event.db';
+import refreshTokenDB from '../repository/refreshToken.db';
+import roleDB from '../repository/role.db';
+import sessionDB from '../repository/session.db';
+import tripDB from '../repository/trip.db';
+import userDB from '../repository/user.db';
+import { UserAccountStatus } from '../types';
+import emailService from '../util/email.service';
+import { generateJwtToken } from '../util/jwt';
+import { logger, logSecurityEvent } from '../util/logger';
+import tokenGenerator from '../util/token.generator';
+
+const MAX_PAGE_SIZE = 100;
+
+// Lifetime of an impersonation token; it cannot be refreshed
+const IMPERSONATION_MINUTES = parseInt(process.env.IMPERSONATION_MINUTES || '15');
+
+const getTargetUser = async (userId: number): Promise<User> => {
+    const user = await userDB.getUserById({ id: userId });
+    if (!user) {
+        throw new Error('User not found.');
+    }
+    return user;
+};
+
+const toAccountStatus = (user: User): UserAccountStatus => ({
+    id: user.getId()!,
+    firstName: user.getFirstName(),
+    lastName: user.getLastName(),
+    email: user.getEmail(),
+    role: user.getRole().getName(),
+    emailVerified: user.getEmailVerified(),
+    failedLoginAttempts: user.getFailedLoginAttempts(),
+    lockedUntil: user.getLockedUntil() ?? null,
+    locked: user.isAccountLocked(),
+    mfaEnabled: user.getMfaEnabled(),
+    mfaMethods: user.getMfaMethods(),
+    passwordResetRequired: user.getPasswordResetRequired(),
+    disabledAt: user.getDisabledAt() ?? null,
+    createdAt: user.getCreatedAt(),
+});
+
+// Log the user out everywhere: access tokens die with their session on the next request
+const endAllSessions = async (userId: number): Promise<number> => {
+    const revoked = await sessionDB.revokeSessionsForUser({ userId });
+    await refreshTokenDB.revokeRefreshTokensForUser({ userId });
+    return revoked;
+};
+
+/**
+ * LIST USERS - Page through accounts, optionally filtered by name or email
+ */
+const listUsers = async ({
+    adminId,
+    search,
+    page = 1,
+    pageSize = 20,
+}: {
+    adminId: number;
+    search?: string;
+    page?: number;
+    pageSize?: number;
+}): Promise<{ users: UserAccountStatus[]; total: number; page: number; pageSize: number }> => {
+    try {
+        const safePage = Math.max(1, Math.floor(page) || 1);
+        const safePageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(pageSize) || 20));
+        const trimmedSearch = search?.trim() || undefined;
+
+        const { users, total } = await userDB.searchUsers({
+            search: trimmedSearch,
+            skip: (safePage - 1) * safePageSize,
+            take: safePageSize,
+        });
+
+        logSecurityEvent('ADMIN_USERS_LISTED', {
+            adminId,
+            search: trimmedSearch,
+            page: safePage,
+        });
+
+        return { users: users.map(toAccountStatus), total, page: safePage, pageSize: safePageSize };
+    } catch (error) {
+        logger.error({ adminId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Admin list users error');
+        throw error;
+    }
+};
+
+/**
+ * GET USER STATUS - Lockout, MFA, verification and disabled state of one account
+ */
+const getUserStatus = async ({ adminId, userId }: { adminId: number; userId: number }): Promise<UserAccountStatus> => {
+    try {
+        const user = await getTargetUser(userId);
+
+        logSecurityEvent('ADMIN_USER_VIEWED', { adminId, targetUserId: userId });
+
+        return toAccountStatus(user);
+    } catch (error) {
+        logger.error({ adminId, userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Admin get user error');
+        throw error;
+    }
+};
+
+/**
+ * UNLOCK USER - Lift a lockout caused by failed login attempts
+ */
+const unlockUser = async ({ adminId, userId }: { adminId: number; userId: number }): Promise<UserAccountStatus> => {
+    try {
+        await getTargetUser(userId);
+        const user = await userDB.resetFailedLoginAttempts({ id: userId });
+
+        logSecurityEvent('ADMIN_USER_UNLOCKED', { adminId, targetUserId: userId });
+
+        return toAccountStatus(user!);
+    } catch (error) {
+        logger.error({ adminId, userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Admin unlock user error');
+        throw error;
+    }
+};
+
+/**
+ * FORCE PASSWORD RESET - Invalidate the current password and email the user a reset link
+ * Threat mitigated: A password known to be compromised stops working immediately,
+ * and every existing session is logged out
+ */
+const forcePasswordReset = async ({ adminId, userId }: { adminId: number; userId: number }): Promise<{ message: string }> => {
+    try {
+        const target = await getTargetUser(userId);
+
+        const resetToken = tokenGenerator.generateSecureToken();
+        await userDB.requirePasswordReset({
+            id: userId,
+            token: resetToken,
+            expiresAt: tokenGenerator.getExpirationTime(24 * 60), // 24 hours
+        });
+        const revokedSessions = await endAllSessions(userId);
+
+        emailService.sendPasswordResetEmail(target.getEmail(), resetToken, target.getFirstName())
+            .catch((err: any) => {
+                logger.error({ userId, error: err instanceof Error ? err.message : 'Unknown error' }, '📧 Failed to send forced password reset email');
+            });
+
+        logSecurityEvent('ADMIN_PASSWORD_RESET_FORCED', { adminId, targetUserId: userId, revokedSessions });
+
+        return {
+            message: 'Password reset required. The user has been logged out and emailed a reset link.',
+        };
+    } catch (error) {
+        logger.error({ adminId, userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Admin force password reset error');
+        throw error;
+    }
+};
+
+/**
+ * RESET MFA - Remove the authenticator app, recovery codes and passkeys of a user who lost them
+ */
+const resetMfa = async ({ adminId, userId }: { adminId: number; userId: number }): Promise<UserAccountStatus> => {
+    try {
+        await getTargetUser(userId);
+        const user = await userDB.resetMfa({ id: userId });
+
+        logSecurityEvent('ADMIN_MFA_RESET', { adminId, targetUserId: userId });
+
+        return toAccountStatus(user!);
+    } catch (error) {
+        logger.error({ adminId, userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Admin reset MFA error');
+        throw error;
+    }
+};
+
+/**
+ * DISABLE USER - Block every login to an account and log out its sessions
+ * Threat mitigated: A compromised or abusive account is cut off at once
+ */
+const disableUser = async ({
+    adminId,
+    userId,
+    reason,
+}: {
+    adminId: number;
+    userId: number;
+    reason?: string;
+}): Promise<UserAccountStatus> => {
+    try {
+        if (adminId === userId) {
+            throw new Error('You cannot disable your own account.');
+        }
+        await getTargetUser(userId);
+
+        const user = await userDB.setDisabledAt({ id: userId, disabledAt: new Date() });
+        const revokedSessions = await endAllSessions(userId);
+
+        logSecurityEvent('ADMIN_USER_DISABLED', { adminId, targetUserId: userId, reason, revokedSessions });
+
+        return toAccountStatus(user!);
+    } catch (error) {
+        logger.error({ adminId, userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Admin disable user error');
+        throw error;
+    }
+};
+
+/**
+ * ENABLE USER - Allow a disabled account to log in again
+ */
+const enableUser = async ({ adminId, userId }: { adminId: number; userId: number }): Promise<UserAccountStatus> => {
+    try {
+        await getTargetUser(userId);
+        const user = await userDB.setDisabledAt({ id: userId, disabledAt: null });
+
+        logSecurityEvent('ADMIN_USER_ENABLED', { adminId, targetUserId: userId });
+
+        return toAccountStatus(user!);
+    } catch (error) {
+        logger.error({ adminId, userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Admin enable user error');
+        throw error;
+    }
+};
+
+/**
+ * CHANGE ROLE - Assign another role to a user
+ * Takes effect on the user's next request, as permissions are read from the database.
+ * Threat mitigated: Admins can't change their own role, and the last ADMIN can't be demoted
+ */
+const changeRole = async ({
+    adminId,
+    userId,
+    roleName,
+}: {
+    adminId: number;
+    userId: number;
+    roleName: string;
+}): Promise<UserAccountStatus> => {
+    try {
+        if (adminId === userId) {
+            throw new Error('You cannot change your own role.');
+        }
+
+        const target = await getTargetUser(userId);
+        const role = await roleDB.getRoleByName({ name: roleName });
+        if (!role) {
+            throw new Error(`Role ${roleName} does not exist.`);
+        }
+
+        const previousRole = target.getRole();
+        if (previousRole.getName() === 'ADMIN' && role.getName() !== 'ADMIN') {
+            const admins = await roleDB.countUsersWithRole({ id: previousRole.getId()! });
+            if (admins <= 1) {
+                throw new Error('The last administrator cannot be demoted.');
+            }
+        }
+
+        // Experiences keep their organiser, so someone who still organises any must keep the permission
+        if (!role.hasPermission('event:create') && (await eventDB.countEventsByOrganiserId({ organiserId: userId })) > 0) {
+            throw new Error('This user still organises experiences. Reassign them before removing the organiser permission.');
+        }
+        if (!role.hasPermission('trip:create') && (await tripDB.countTripsByOrganiserId({ organiserId: userId })) > 0) {
+            throw new Error('This user still organises trips. Reassign them before removing the organiser permission.');
+        }
+
+        const user = await userDB.updateUserRole({ id: userId, roleId: role.getId()! });
+
+        logSecurityEvent('ADMIN_ROLE_CHANGED', {
+            adminId,
+            targetUserId: userId,
+            previousRole: previousRole.getName(),
+            role: role.getName(),
+        });
+
+        return toAccountStatus(user!);
+    } catch (error) {
+        logger.error({ adminId, userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Admin change role error');
+        throw error;
+    }
+};
+
+/**
+ * IMPERSONATE USER - Issue a short-lived access token for the user, for support staff to see
+ * what the user sees (e.g. an organiser's experiences)
+ * Threat mitigated: Covert access to accounts. The token names the administrator in its `act`
+ * claim, every request made with it is tagged in the logs, the start is recorded in the user's
+ * own security events, and credential, MFA, session and deletion endpoints refuse it.
+ * Accounts that can administer users or roles cannot be impersonated.
+ */
+const impersonateUser = async ({
+    adminId,
+    sessionId,
+    userId,
+    reason,
+}: {
+    adminId: number;
+    sessionId: number;
+    userId: number;
+    reason?: string;
+}): Promise<{ token: string; expiresAt: Date; user: UserAccountStatus }> => {
+    try {
+        if (adminId === userId) {
+            throw new Error('You cannot impersonate yourself.');
+        }
+        if (!reason?.trim()) {
+            throw new Error('Please give a reason for impersonating this user.');
+        }
+
+        const [admin, target] = await Promise.all([getTargetUser(adminId), getTargetUser(userId)]);
+        if (target.isDisabled()) {
+            throw new Error('Disabled accounts cannot be impersonated.');
+        }
+        if (target.getRole().getPermissions().some((permission) => /^(user|role):/.test(permission))) {
+            throw new Error('Administrators cannot be impersonated.');
+        }
+
+        const expiresAt = new Date(Date.now() + IMPERSONATION_MINUTES * 60 * 1000);
+        const token = await generateJwtToken({
+            userId,
+            email: target.getEmail(),
+            role: target.getRole().getName(),
+            permissions: target.getRole().getPermissions(),
+            sessionId,
+            actor: { userId: adminId, email: admin.getEmail() },
+            expiresInMinutes: IMPERSONATION_MINUTES,
+        });
+
+        logSecurityEvent('ADMIN_IMPERSONATION_STARTED', {
+            adminId,
+            adminEmail: admin.getEmail(),
+            targetUserId: userId,
+            reason: reason.trim(),
+            expiresAt,
+        });
+
+        return { token, expiresAt, user: toAccountStatus(target) };
+    } catch (error) {
+        logger.error({ adminId, userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Admin impersonate user error');
+        throw error;
+    }
+};
+
+export default {
+    listUsers,
+    getUserStatus,
+    unlockUser,
+    forcePasswordReset,
+    resetMfa,
+    disableUser,
+    enableUser,
+    changeRole,
+    impersonateUser,
+};
@@ -40,7 +40,7 @@ const createEvent = async ({
     // Check organiser
     const organiser = await userDB.getUserById({ id: organiserId });
     if (!organiser) throw new Error('Organiser not found');
-    if (!organiser.getIsOrganiser()) throw new Error('Only organisers can create experiences');
+    if (!organiser.hasPermission('event:create')) throw new Error('Only organisers can create experiences');
     // Validate date
     const eventDate = new Date(date);
     if (eventDate <= new Date()) throw new Error('Experience date must be in the future');
@@ -0,0 +1,145 @@
+import net from 'net';
+import { User } from '../model/user';
+import knownDeviceDB from '../repository/knownDevice.db';
+import knownNetworkDB from '../repository/knownNetwork.db';
+import { LoginRiskAssessment, LoginRiskLevel, LoginRiskReason, SessionContext } from '../types';
+import geoip, { distanceKm } from '../util/geoip';
+import { logger, logSecurityEvent } from '../util/logger';
+import tokenGenerator from '../util/token.generator';
+
+const RISK_WEIGHTS: Record<LoginRiskReason, number> = {
+    NEW_DEVICE: 30,
+    NEW_NETWORK: 30,
+    IMPOSSIBLE_TRAVEL: 60,
+    FAILED_ATTEMPTS: 30,
+};
+
+// Medium risk alerts the user by email; high risk also forces an email MFA step
+const MEDIUM_RISK_SCORE = 30;
+const HIGH_RISK_SCORE = 60;
+
+// Faster than a commercial flight between the previous login and this one
+const MAX_TRAVEL_SPEED_KMH = 900;
+// GeoIP locations are approximate; ignore jumps shorter than this
+const MIN_TRAVEL_DISTANCE_KM = 500;
+
+// Failed password attempts since the last successful login that count as a burst
+const FAILED_ATTEMPTS_THRESHOLD = 3;
+
+/**
+ * The network an address belongs to: /24 for IPv4, /48 for IPv6.
+ * IPv4-mapped IPv6 addresses (::ffff:1.2.3.4) are treated as IPv4.
+ */
+const getIpPrefix = (ipAddress: string | undefined): string | undefined => {
+    const address = ipAddress?.replace(/^::ffff:/i, '');
+    if (!address) {
+        return undefined;
+    }
+
+    if (net.isIPv4(address)) {
+        return `${address.split('.').slice(0, 3).join('.')}.0/24`;
+    }
+
+    if (net.isIPv6(address)) {
+        const [head, tail = ''] = address.split('::');
+        const headGroups = head ? head.split(':') : [];
+        const tailGroups = tail ? tail.split(':') : [];
+        const groups = address.includes('::')
+            ? [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups]
+            : headGroups;
+        return `${groups.slice(0, 3).map((group) => parseInt(group, 16).toString(16)).join(':')}::/48`;
+    }
+
+    return undefined;
+};
+
+const getDeviceFingerprint = (userAgent: string | undefined): string => {
+    return tokenGenerator.hashToken((userAgent ?? '').trim().toLowerCase());
+};
+
+/**
+ * ASSESS LOGIN - Score a login whose password was correct, before any session is created
+ * Threat mitigated: Stolen credentials used from an unfamiliar device, network or place
+ */
+const assessLogin = async ({ user, context = {} }: { user: User; context?: SessionContext }): Promise<LoginRiskAssessment> => {
+    const userId = user.getId()!;
+    const reasons: LoginRiskReason[] = [];
+    const ipPrefix = getIpPrefix(context.ipAddress);
+
+    // Without any history (first login) every device and network would be "new"
+    const hasHistory = (await knownDeviceDB.countKnownDevices({ userId })) > 0;
+
+    if (hasHistory && !(await knownDeviceDB.isKnownDevice({ userId, fingerprintHash: getDeviceFingerprint(context.userAgent) }))) {
+        reasons.push('NEW_DEVICE');
+    }
+
+    if (hasHistory && ipPrefix && !(await knownNetworkDB.isKnownNetwork({ userId, ipPrefix }))) {
+        reasons.push('NEW_NETWORK');
+
+        const [location, previous] = await Promise.all([
+            geoip.lookup(context.ipAddress),
+            knownNetworkDB.getLastKnownNetwork({ userId }),
+        ]);
+        if (location && previous?.latitude != null && previous.longitude != null) {
+            const distance = distanceKm({ latitude: previous.latitude, longitude: previous.longitude }, location);
+            const hours = Math.max((Date.now() - previous.lastSeenAt.getTime()) / (60 * 60 * 1000), 1 / 60);
+            if (distance > MIN_TRAVEL_DISTANCE_KM && distance / hours > MAX_TRAVEL_SPEED_KMH) {
+                reasons.push('IMPOSSIBLE_TRAVEL');
+            }
+        }
+    }
+
+    if (user.getFailedLoginAttempts() >= FAILED_ATTEMPTS_THRESHOLD) {
+        reasons.push('FAILED_ATTEMPTS');
+    }
+
+    const score = reasons.reduce((total, reason) => total + RISK_WEIGHTS[reason], 0);
+    const level: LoginRiskLevel = score >= HIGH_RISK_SCORE ? 'high' : score >= MEDIUM_RISK_SCORE ? 'medium' : 'low';
+
+    if (level !== 'low') {
+        logSecurityEvent('SUSPICIOUS_LOGIN', {
+            userId,
+            email: user.getEmail(),
+            ipAddress: context.ipAddress,
+            riskLevel: level,
+            riskScore: score,
+            reasons,
+        });
+    }
+
+    return { level, score, reasons };
+};
+
+/**
+ * RECORD LOGIN - Remember the device and network of a completed login.
+ * Never fails the login it is called for.
+ */
+const recordLogin = async ({ userId, context = {} }: { userId: number; context?: SessionContext }): Promise<void> => {
+    try {
+        await knownDeviceDB.recordKnownDevice({
+            userId,
+            fingerprintHash: getDeviceFingerprint(context.userAgent),
+            userAgent: context.userAgent?.slice(0, 512),
+        });
+
+        const ipPrefix = getIpPrefix(context.ipAddress);
+        if (ipPrefix) {
+            const location = await geoip.lookup(context.ipAddress);
+            await knownNetworkDB.recordKnownNetwork({
+                userId,
+                ipPrefix,
+                country: location?.country,
+                latitude: location?.latitude,
+                longitude: location?.longitude,
+            });
+        }
+    } catch (error) {
+        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Record login error');
+    }
+};
+
+export default {
+    getIpPrefix,
+    assessLogin,
+    recordLogin,
+};
@@ -0,0 +1,142 @@
+import { MfaChallenge, MfaChallengePurpose } from '@prisma/client';
+import mfaChallengeDB from '../repository/mfaChallenge.db';
+import { logSecurityEvent } from '../util/logger';
+import tokenGenerator from '../util/token.generator';
+
+const CHALLENGE_EXPIRES_MINUTES = 10;
+
+// Wrong codes accepted per challenge before it is destroyed and the user has to start over
+const MAX_CHALLENGE_ATTEMPTS = parseInt(process.env.MFA_MAX_ATTEMPTS || '5');
+
+const INVALID_CHALLENGE = 'Invalid or expired MFA challenge. Please start again.';
+
+// The code hash is keyed with the challenge id, which is itself only stored hashed:
+// a database reader cannot brute-force the six digits offline.
+const hashCode = (challengeId: string, code: string): string => tokenGenerator.hashToken(`${challengeId}:${code}`);
+
+/**
+ * CREATE CHALLENGE - Start a second-factor step and return its opaque id
+ * Pass `withEmailCode` to also generate a code to email to the user.
+ */
+const createChallenge = async ({
+    userId,
+    purpose,
+    withEmailCode,
+}: {
+    userId: number;
+    purpose: MfaChallengePurpose;
+    withEmailCode: boolean;
+}): Promise<{ challengeId: string; expiresAt: Date; code?: string }> => {
+    const challengeId = tokenGenerator.generateSecureToken();
+    const code = withEmailCode ? tokenGenerator.generateMFACode() : undefined;
+    const expiresAt = tokenGenerator.getExpirationTime(CHALLENGE_EXPIRES_MINUTES);
+
+    await mfaChallengeDB.createChallenge({
+        challengeIdHash: tokenGenerator.hashToken(challengeId),
+        userId,
+        purpose,
+        codeHash: code ? hashCode(challengeId, code) : undefined,
+        expiresAt,
+    });
+
+    return { challengeId, expiresAt, code };
+};
+
+/**
+ * GET CHALLENGE - Resolve an opaque challenge id; expired challenges are removed
+ */
+const getChallenge = async ({
+    challengeId,
+    purpose,
+}: {
+    challengeId: string;
+    purpose: MfaChallengePurpose;
+}): Promise<MfaChallenge> => {
+    if (typeof challengeId !== 'string' || !challengeId) {
+        throw new Error(INVALID_CHALLENGE);
+    }
+
+    const challenge = await mfaChallengeDB.getChallengeByIdHash({
+        challengeIdHash: tokenGenerator.hashToken(challengeId),
+    });
+    if (!challenge || challenge.purpose !== purpose) {
+        throw new Error(INVALID_CHALLENGE);
+    }
+
+    if (tokenGenerator.isTokenExpired(challenge.expiresAt)) {
+        await mfaChallengeDB.deleteChallenge({ id: challenge.id });
+        throw new Error('MFA code has expired. Please start again.');
+    }
+
+    return challenge;
+};
+
+/**
+ * Generate a new emailed code for a challenge, replacing the previous one
+ */
+const issueEmailCode = async (challengeId: string, challenge: MfaChallenge): Promise<string> => {
+    const code = tokenGenerator.generateMFACode();
+    await mfaChallengeDB.setChallengeCode({ id: challenge.id, codeHash: hashCode(challengeId, code) });
+    return code;
+};
+
+/**
+ * Check the emailed code of a challenge in constant time
+ */
+const isEmailCodeValid = (challengeId: string, challenge: MfaChallenge, code: string): boolean => {
+    if (!challenge.codeHash || typeof code !== 'string') {
+        return false;
+    }
+    return tokenGenerator.verifyToken(`${challengeId}:${code}`, challenge.codeHash);
+};
+
+const lockChallenge = async (challenge: MfaChallenge, attempts: number): Promise<never> => {
+    await mfaChallengeDB.deleteChallenge({ id: challenge.id });
+    logSecurityEvent('MFA_CHALLENGE_LOCKED', {
+        userId: challenge.userId,
+        purpose: challenge.purpose,
+        attempts,
+    });
+    throw new Error('Too many invalid codes. Please start again.');
+};
+
+/**
+ * RESERVE ATTEMPT - Count an attempt before its code is checked; refused once the cap is reached
+ * Threat mitigated: Brute-forcing the code from many IPs, which per-IP rate limits don't stop,
+ * including by sending the guesses in parallel. A successful attempt completes the challenge,
+ * so its reservation doesn't matter.
+ */
+const reserveAttempt = async (challenge: MfaChallenge): Promise<void> => {
+    if (!(await mfaChallengeDB.reserveChallengeAttempt({ id: challenge.id, maxAttempts: MAX_CHALLENGE_ATTEMPTS }))) {
+        await lockChallenge(challenge, MAX_CHALLENGE_ATTEMPTS);
+    }
+};
+
+/**
+ * RECORD FAILED ATTEMPT - The reserved attempt had a wrong code; destroy the challenge once it was the last one
+ */
+const recordFailedAttempt = async (challenge: MfaChallenge): Promise<void> => {
+    const attempts = challenge.attempts + 1;
+    if (attempts >= MAX_CHALLENGE_ATTEMPTS) {
+        await lockChallenge(challenge, attempts);
+    }
+};
+
+/**
+ * COMPLETE CHALLENGE - Consume a challenge after a valid code; it cannot be used twice
+ */
+const completeChallenge = async (challenge: MfaChallenge): Promise<void> => {
+    if (!(await mfaChallengeDB.deleteChallenge({ id: challenge.id }))) {
+        throw new Error(INVALID_CHALLENGE);
+    }
+};
+
+export default {
+    createChallenge,
+    getChallenge,
+    issueEmailCode,
+    isEmailCodeValid,
+    reserveAttempt,
+    recordFailedAttempt,
+    completeChallenge,
+};
@@ -0,0 +1,190 @@
+import { OrganiserApplicationStatus } from '@prisma/client';
+import { OrganiserApplication } from '../model/organiserApplication';
+import organiserApplicationDB from '../repository/organiserApplication.db';
+import roleDB from '../repository/role.db';
+import userDB from '../repository/user.db';
+import { OrganiserApplicationInput } from '../types';
+import emailService from '../util/email.service';
+import { logger, logSecurityEvent } from '../util/logger';
+
+const getApplicant = async (userId: number) => {
+    const user = await userDB.getUserById({ id: userId });
+    if (!user) {
+        throw new Error('User not found.');
+    }
+    return user;
+};
+
+/**
+ * SUBMIT APPLICATION - A client asks to become an organiser
+ * Threat mitigated: Organiser rights are only ever granted by an administrator, never self-assigned
+ */
+const submitApplication = async ({
+    userId,
+    application: { businessName, motivation, contactEmail, contactPhone },
+}: {
+    userId: number;
+    application: OrganiserApplicationInput;
+}): Promise<OrganiserApplication> => {
+    try {
+        const user = await getApplicant(userId);
+        if (user.hasPermission('event:create')) {
+            throw new Error('You can already organise experiences.');
+        }
+
+        const existing = await organiserApplicationDB.getApplicationsByUserId({ userId });
+        if (existing.some((application) => application.isPending())) {
+            throw new Error('You already have an application waiting for review.');
+        }
+
+        const application = await organiserApplicationDB.createApplication(
+            new OrganiserApplication({ userId, businessName, motivation, contactEmail, contactPhone })
+        );
+
+        logSecurityEvent('ORGANISER_APPLICATION_SUBMITTED', {
+            userId,
+            applicationId: application.getId(),
+        });
+
+        return application;
+    } catch (error) {
+        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Submit organiser application error');
+        throw error;
+    }
+};
+
+/**
+ * GET MY APPLICATIONS - The applicant's own applications and their outcome
+ */
+const getMyApplications = async ({ userId }: { userId: number }): Promise<OrganiserApplication[]> =>
+    organiserApplicationDB.getApplicationsByUserId({ userId });
+
+/**
+ * GET APPLICATIONS - Applications for administrators to review
+ */
+const getApplications = async ({ status }: { status?: string }): Promise<OrganiserApplication[]> => {
+    if (status && !Object.values(OrganiserApplicationStatus).includes(status as OrganiserApplicationStatus)) {
+        throw new Error(`Unknown application status ${status}.`);
+    }
+    return organiserApplicationDB.getApplicationsByStatus({ status: status as OrganiserApplicationStatus | undefined });
+};
+
+/**
+ * APPROVE APPLICATION - Grant the applicant the ORGANISER role
+ * Permissions are read from the database on every request, so the new role applies to the
+ * applicant's next request without logging in again; the next token refresh carries it too.
+ */
+const approveApplication = async ({
+    adminId,
+    applicationId,
+    note,
+}: {
+    adminId: number;
+    applicationId: number;
+    note?: string;
+}): Promise<OrganiserApplication> => {
+    try {
+        const application = await organiserApplicationDB.getApplicationById({ id: applicationId });
+        if (!application) {
+            throw new Error('Application not found.');
+        }
+
+        const applicant = await getApplicant(application.getUserId());
+        const organiserRole = await roleDB.getRoleByName({ name: 'ORGANISER' });
+        if (!organiserRole) {
+            throw new Error('Role ORGANISER does not exist.');
+        }
+
+        // Never downgrade someone who meanwhile got a more powerful role
+        const reviewed = await organiserApplicationDB.approveApplication({
+            id: applicationId,
+            reviewedById: adminId,
+            reviewNote: note,
+            roleId: applicant.hasPermission('event:create') ? undefined : organiserRole.getId()!,
+        });
+        if (!reviewed) {
+            throw new Error('Application has already been reviewed.');
+        }
+
+        emailService
+            .sendOrganiserApplicationApprovedEmail(applicant.getEmail(), applicant.getFirstName(), reviewed.getBusinessName())
+            .catch((err: any) => {
+                logger.error({ userId: applicant.getId(), error: err instanceof Error ? err.message : 'Unknown error' }, '📧 Failed to send application approved email');
+            });
+
+        logSecurityEvent('ORGANISER_APPLICATION_APPROVED', {
+            adminId,
+            targetUserId: applicant.getId(),
+            applicationId,
+            previousRole: applicant.getRole().getName(),
+            role: 'ORGANISER',
+        });
+
+        return reviewed;
+    } catch (error) {
+        logger.error({ adminId, applicationId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Approve organiser application error');
+        throw error;
+    }
+};
+
+/**
+ * REJECT APPLICATION - Decline an application, emailing the reason to the applicant
+ */
+const rejectApplication = async ({
+    adminId,
+    applicationId,
+    reason,
+}: {
+    adminId: number;
+    applicationId: number;
+    reason?: string;
+}): Promise<OrganiserApplication> => {
+    try {
+        const application = await organiserApplicationDB.getApplicationById({ id: applicationId });
+        if (!application) {
+            throw new Error('Application not found.');
+        }
+
+        const applicant = await getApplicant(application.getUserId());
+
+        const reviewed = await organiserApplicationDB.reviewApplication({
+            id: applicationId,
+            status: 'REJECTED',
+            reviewedById: adminId,
+            reviewNote: reason,
+        });
+        if (!reviewed) {
+            throw new Error('Application has already been reviewed.');
+        }
+
+        emailService
+            .sendOrganiserApplicationRejectedEmail(
+                applicant.getEmail(),
+                applicant.getFirstName(),
+                reviewed.getBusinessName(),
+                reason
+            )
+            .catch((err: any) => {
+                logger.error({ userId: applicant.getId(), error: err instanceof Error ? err.message : 'Unknown error' }, '📧 Failed to send application rejected email');
+            });
+
+        logSecurityEvent('ORGANISER_APPLICATION_REJECTED', {
+            adminId,
+            targetUserId: applicant.getId(),
+            applicationId,
+        });
+
+        return reviewed;
+    } catch (error) {
+        logger.error({ adminId, applicationId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Reject organiser application error');
+        throw error;
+    }
+};
+
+export default {
+    submitApplication,
+    getMyApplications,
+    getApplications,
+    approveApplication,
+    rejectApplication,
+};
@@ -0,0 +1,193 @@
+import crypto from 'crypto';
+import accountDataDB from '../repository/accountData.db';
+import refreshTokenDB from '../repository/refreshToken.db';
+import securityEventDB from '../repository/securityEvent.db';
+import sessionDB from '../repository/session.db';
+import userDB from '../repository/user.db';
+import { AccountDataExport } from '../types';
+import emailService from '../util/email.service';
+import { logger, logSecurityEvent } from '../util/logger';
+import passwordHasher from '../util/password.hasher';
+import { PeriodicJob } from '../util/periodic.job';
+import profileService from './profile.service';
+
+// Time between the deletion request and the actual erasure, during which the user can change their mind
+const ACCOUNT_DELETION_GRACE_DAYS = parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '14');
+
+const EXPORT_FORMAT = 'travel-booking-account-export/v1';
+
+/**
+ * EXPORT ACCOUNT DATA - Everything stored about the user, as JSON (GDPR Art. 15 and 20)
+ * Threat mitigated: Leaking secrets through the export; password, token and key hashes are never included
+ */
+const exportAccountData = async ({ userId }: { userId: number }): Promise<AccountDataExport> => {
+    try {
+        const [profile, data, securityEvents] = await Promise.all([
+            profileService.getProfile({ userId }),
+            accountDataDB.getAccountData({ userId }),
+            securityEventDB.getSecurityEventsForUser({ userId }),
+        ]);
+        if (!data) {
+            throw new Error('User not found.');
+        }
+
+        logSecurityEvent('ACCOUNT_DATA_EXPORTED', { userId });
+
+        return {
+            format: EXPORT_FORMAT,
+            exportedAt: new Date(),
+            profile,
+            bookings: { events: data.eventsAsClient, trips: data.tripsAsClient },
+            organising: { events: data.eventsAsOrganiser, trips: data.tripsAsOrganiser },
+            sessions: data.sessions,
+            passkeys: data.webauthnCredentials,
+            knownDevices: data.knownDevices,
+            knownNetworks: data.knownNetworks,
+            passwordChangedAt: data.passwordHistory.map((entry) => entry.createdAt),
+            emailChanges: data.emailChangeRequests,
+            organiserApplications: data.organiserApplications,
+            securityEvents: securityEvents.map((event) => ({
+                eventType: event.eventType,
+                details: event.details,
+                occurredAt: event.createdAt,
+            })),
+        };
+    } catch (error) {
+        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Export account data error');
+        throw error;
+    }
+};
+
+/**
+ * Refuse while the user organises events or trips that haven't started yet; attendees rely on them
+ */
+const assertNotOrganisingUpcoming = async (userId: number): Promise<void> => {
+    const { events, trips } = await accountDataDB.countUpcomingOrganisedExperiences({ userId });
+    const total = events + trips;
+    if (total > 0) {
+        logSecurityEvent('ACCOUNT_DELETION_REFUSED', { userId, reason: 'Organises upcoming experiences', events, trips });
+        throw new Error(
+            `You are organising ${total} upcoming experience${total === 1 ? '' : 's'}. ` +
+                'Cancel them or hand them over to another organiser before deleting your account.'
+        );
+    }
+};
+
+/**
+ * REQUEST ACCOUNT DELETION - Schedule the account for deletion after a grace period (GDPR Art. 17)
+ * Threat mitigated: A hijacked session destroying the account; the route requires a step-up, the owner
+ * is emailed, and the deletion can be cancelled until the grace period ends
+ */
+const requestAccountDeletion = async ({
+    userId,
+    currentSessionId,
+}: {
+    userId: number;
+    currentSessionId?: number;
+}): Promise<{ message: string; deletionScheduledAt: Date }> => {
+    try {
+        const user = await userDB.getUserById({ id: userId });
+        if (!user) {
+            throw new Error('User not found.');
+        }
+
+        if (user.getDeletionScheduledAt()) {
+            return {
+                message: 'Your account is already scheduled for deletion.',
+                deletionScheduledAt: user.getDeletionScheduledAt()!,
+            };
+        }
+
+        await assertNotOrganisingUpcoming(userId);
+
+        const deletionScheduledAt = new Date(Date.now() + ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+        await userDB.setDeletionScheduledAt({ id: userId, deletionScheduledAt });
+
+        // Only the session that asked stays logged in, so the owner can still cancel
+        await sessionDB.revokeSessionsForUser({ userId, exceptSessionId: currentSessionId });
+        await refreshTokenDB.revokeRefreshTokensForUser({ userId, exceptSessionId: currentSessionId });
+
+        emailService.sendAccountDeletionScheduledEmail(user.getEmail(), user.getFirstName(), deletionScheduledAt)
+            .catch((err: any) => {
+                logger.error({ userId, error: err instanceof Error ? err.message : 'Unknown error' }, '📧 Failed to send account deletion email');
+            });
+
+        logSecurityEvent('ACCOUNT_DELETION_REQUESTED', { userId, email: user.getEmail(), deletionScheduledAt });
+
+        return {
+            message: `Your account will be deleted on ${deletionScheduledAt.toISOString()}. You can cancel it until then.`,
+            deletionScheduledAt,
+        };
+    } catch (error) {
+        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Request account deletion error');
+        throw error;
+    }
+};
+
+/**
+ * CANCEL ACCOUNT DELETION - Keep the account after all, during the grace period
+ */
+const cancelAccountDeletion = async ({ userId }: { userId: number }): Promise<{ message: string }> => {
+    try {
+        const user = await userDB.getUserById({ id: userId });
+        if (!user?.getDeletionScheduledAt()) {
+            throw new Error('Your account is not scheduled for deletion.');
+        }
+
+        await userDB.setDeletionScheduledAt({ id: userId, deletionScheduledAt: null });
+
+        logSecurityEvent('ACCOUNT_DELETION_CANCELLED', { userId, email: user.getEmail() });
+
+        return {
+            message: 'Account deletion cancelled.',
+        };
+    } catch (error) {
+        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Cancel account deletion error');
+        throw error;
+    }
+};
+
+/**
+ * Anonymise the accounts whose grace period has ended. An account whose owner started organising
+ * an upcoming experience in the meantime is left for a later run.
+ */
+const deleteDueAccounts = async (): Promise<number> => {
+    let deleted = 0;
+    for (const userId of await accountDataDB.getUserIdsDueForDeletion()) {
+        try {
+            await assertNotOrganisingUpcoming(userId);
+
+            // Hash of a random password nobody knows, so the placeholder row can never log in
+            const passwordHash = await passwordHasher.hash(crypto.randomBytes(32).toString('base64url'));
+            await accountDataDB.anonymiseUser({ id: userId, passwordHash });
+            deleted++;
+
+            logSecurityEvent('ACCOUNT_DELETED', { userId });
+        } catch (error) {
+            logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Account deletion error');
+        }
+    }
+    return deleted;
+};
+
+const deletionJob = new PeriodicJob(deleteDueAccounts, 'Failed to delete accounts due for deletion');
+
+/**
+ * Periodically carry out deletions whose grace period has ended
+ */
+const startDeletionJob = (intervalMinutes: number = parseInt(process.env.ACCOUNT_DELETION_JOB_MINUTES || '60')): void => {
+    deletionJob.start(intervalMinutes);
+};
+
+const stopDeletionJob = (): void => {
+    deletionJob.stop();
+};
+
+export default {
+    exportAccountData,
+    requestAccountDeletion,
+    cancelAccountDeletion,
+    deleteDueAccounts,
+    startDeletionJob,
+    stopDeletionJob,
+};
@@ -0,0 +1,295 @@
+import { User } from '../model/user';
+import emailChangeDB from '../repository/emailChange.db';
+import refreshTokenDB from '../repository/refreshToken.db';
+import sessionDB from '../repository/session.db';
+import userDB from '../repository/user.db';
+import { ProfileInput, UserProfile } from '../types';
+import emailService from '../util/email.service';
+import { logger, logSecurityEvent } from '../util/logger';
+import tokenGenerator from '../util/token.generator';
+
+// The confirmation link sent to the new address
+const EMAIL_CHANGE_EXPIRES_HOURS = parseInt(process.env.EMAIL_CHANGE_EXPIRES_HOURS || '24');
+// The revert link sent to the old address, counted from the request
+const EMAIL_CHANGE_REVERT_DAYS = parseInt(process.env.EMAIL_CHANGE_REVERT_DAYS || '7');
+
+const MAX_NAME_LENGTH = 100;
+
+const INVALID_CONFIRM_LINK = 'Invalid or expired email change link.';
+const INVALID_REVERT_LINK = 'Invalid or expired revert link.';
+
+const getUser = async (userId: number): Promise<User> => {
+    const user = await userDB.getUserById({ id: userId });
+    if (!user) {
+        throw new Error('User not found.');
+    }
+    return user;
+};
+
+const toProfile = (user: User, pendingEmail: string | null): UserProfile => ({
+    id: user.getId()!,
+    firstName: user.getFirstName(),
+    lastName: user.getLastName(),
+    email: user.getEmail(),
+    role: user.getRole().getName(),
+    emailVerified: user.getEmailVerified(),
+    mfaEnabled: user.getMfaEnabled(),
+    mfaMethods: user.getMfaMethods(),
+    pendingEmail,
+    deletionScheduledAt: user.getDeletionScheduledAt() ?? null,
+    createdAt: user.getCreatedAt(),
+});
+
+const normaliseName = (value: unknown, field: string): string | undefined => {
+    if (value === undefined) {
+        return undefined;
+    }
+    if (typeof value !== 'string' || !value.trim()) {
+        throw new Error(`${field} must not be empty.`);
+    }
+    if (value.trim().length > MAX_NAME_LENGTH) {
+        throw new Error(`${field} must be at most ${MAX_NAME_LENGTH} characters.`);
+    }
+    return value.trim();
+};
+
+const isEmailAddress = (value: string): boolean => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+
+/**
+ * GET PROFILE - The signed-in user's own account
+ */
+const getProfile = async ({ userId }: { userId: number }): Promise<UserProfile> => {
+    try {
+        const user = await getUser(userId);
+        const pending = await emailChangeDB.getPendingEmailChange({ userId });
+        return toProfile(user, pending?.newEmail ?? null);
+    } catch (error) {
+        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Get profile error');
+        throw error;
+    }
+};
+
+/**
+ * UPDATE PROFILE - Edit the user's own name
+ * Threat mitigated: Mass assignment; only whitelisted fields can be changed, the email address never directly
+ */
+const updateProfile = async ({ userId, input }: { userId: number; input: ProfileInput & Record<string, unknown> }): Promise<UserProfile> => {
+    try {
+        if ('email' in input) {
+            throw new Error('Use POST /users/me/email to change your email address.');
+        }
+
+        const firstName = normaliseName(input.firstName, 'First name');
+        const lastName = normaliseName(input.lastName, 'Last name');
+        if (firstName === undefined && lastName === undefined) {
+            throw new Error('Nothing to update. Provide firstName and/or lastName.');
+        }
+
+        await getUser(userId);
+        const user = await userDB.updateProfile({ id: userId, firstName, lastName });
+        const pending = await emailChangeDB.getPendingEmailChange({ userId });
+
+        logSecurityEvent('PROFILE_UPDATED', {
+            userId,
+            fields: [firstName !== undefined && 'firstName', lastName !== undefined && 'lastName'].filter(Boolean),
+        });
+
+        return toProfile(user!, pending?.newEmail ?? null);
+    } catch (error) {
+        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Update profile error');
+        throw error;
+    }
+};
+
+/**
+ * REQUEST EMAIL CHANGE - Start changing the email address; nothing changes until the new address confirms
+ * Threat mitigated: Account takeover through a hijacked session. The route requires a step-up, the new
+ * address must prove ownership, and the old address is told and can revert the change
+ */
+const requestEmailChange = async ({ userId, newEmail }: { userId: number; newEmail: string }): Promise<{ message: string }> => {
+    try {
+        const user = await getUser(userId);
+
+        const email = typeof newEmail === 'string' ? newEmail.trim() : '';
+        if (!isEmailAddress(email)) {
+            throw new Error('Please provide a valid email address.');
+        }
+        if (email.toLowerCase() === user.getEmail().toLowerCase()) {
+            throw new Error('This is already your email address.');
+        }
+        if (await userDB.getUserByEmail({ email })) {
+            throw new Error('Email already registered. Please use a different email.');
+        }
+
+        // A second change would send its notice to the address the first one set, and the first
+        // one's revert link only works while that address is still in place
+        const revertible = await emailChangeDB.getRevertibleEmailChange({ userId });
+        if (revertible) {
+            throw new Error(
+                `Your email address was changed recently. You can change it again after ${revertible.revertExpiresAt.toISOString()}.`
+            );
+        }
+
+        const confirmToken = tokenGenerator.generateSecureToken();
+        const revertToken = tokenGenerator.generateSecureToken();
+
+        await emailChangeDB.createEmailChangeRequest({
+            userId,
+            oldEmail: user.getEmail(),
+            newEmail: email,
+            confirmTokenHash: tokenGenerator.hashToken(confirmToken),
+            revertTokenHash: tokenGenerator.hashToken(revertToken),
+            expiresAt: tokenGenerator.getExpirationTime(EMAIL_CHANGE_EXPIRES_HOURS * 60),
+            revertExpiresAt: tokenGenerator.getExpirationTime(EMAIL_CHANGE_REVERT_DAYS * 24 * 60),
+        });
+
+        emailService.sendEmailChangeConfirmation(email, confirmToken, user.getFirstName(), EMAIL_CHANGE_EXPIRES_HOURS)
+            .catch((err: any) => {
+                logger.error({ userId, error: err instanceof Error ? err.message : 'Unknown error' }, '📧 Failed to send email change confirmation');
+            });
+        emailService.sendEmailChangeNotice(user.getEmail(), email, revertToken, user.getFirstName(), EMAIL_CHANGE_REVERT_DAYS)
+            .catch((err: any) => {
+                logger.error({ userId, error: err instanceof Error ? err.message : 'Unknown error' }, '📧 Failed to send email change notice');
+            });
+
+        logSecurityEvent('EMAIL_CHANGE_REQUESTED', {
+            userId,
+            oldEmail: user.getEmail(),
+            newEmail: email,
+        });
+
+        return {
+            message: `We sent a confirmation link to ${email}. Your email address changes once you confirm it.`,
+        };
+    } catch (error) {
+        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Request email change error');
+        throw error;
+    }
+};
+
+/**
+ * CONFIRM EMAIL CHANGE - Switch to the new address with the link sent to it
+ * Threat mitigated: Typos and hijacked sessions redirecting the account to an address the owner doesn't control
+ */
+const confirmEmailChange = async ({ token }: { token: string }): Promise<{ message: string }> => {
+    try {
+        const request = token
+            ? await emailChangeDB.getEmailChangeByConfirmTokenHash({ confirmTokenHash: tokenGenerator.hashToken(token) })
+            : null;
+        if (!request || request.confirmedAt) {
+            throw new Error(INVALID_CONFIRM_LINK);
+        }
+
+        if (tokenGenerator.isTokenExpired(request.expiresAt)) {
+            await emailChangeDB.deleteEmailChangeRequest({ id: request.id });
+            throw new Error('Email change link has expired. Please request a new one.');
+        }
+
+        // The address changed some other way in the meantime (e.g. an earlier change was reverted)
+        const user = await getUser(request.userId);
+        if (user.getEmail() !== request.oldEmail) {
+            await emailChangeDB.deleteEmailChangeRequest({ id: request.id });
+            throw new Error(INVALID_CONFIRM_LINK);
+        }
+
+        if (await userDB.getUserByEmail({ email: request.newEmail })) {
+            await emailChangeDB.deleteEmailChangeRequest({ id: request.id });
+            throw new Error('Email already registered. Please use a different email.');
+        }
+
+        await emailChangeDB.confirmEmailChange({ id: request.id, userId: request.userId, newEmail: request.newEmail });
+
+        logSecurityEvent('EMAIL_CHANGED', {
+            userId: request.userId,
+            oldEmail: request.oldEmail,
+            newEmail: request.newEmail,
+        });
+
+        return {
+            message: 'Your email address has been changed. Use it the next time you log in.',
+        };
+    } catch (error) {
+        logger.error({ error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Confirm email change error');
+        throw error;
+    }
+};
+
+/**
+ * REVERT EMAIL CHANGE - Undo an email change with the link sent to the old address
+ * Threat mitigated: Account takeover by changing the email address. Once the change was confirmed,
+ * reverting also logs out every session and requires a new password, sent to the restored address
+ */
+const revertEmailChange = async ({ token }: { token: string }): Promise<{ message: string }> => {
+    try {
+        const request = token
+            ? await emailChangeDB.getEmailChangeByRevertTokenHash({ revertTokenHash: tokenGenerator.hashToken(token) })
+            : null;
+        if (!request || tokenGenerator.isTokenExpired(request.revertExpiresAt)) {
+            throw new Error(INVALID_REVERT_LINK);
+        }
+
+        if (!request.confirmedAt) {
+            await emailChangeDB.deleteEmailChangeRequest({ id: request.id });
+
+            logSecurityEvent('EMAIL_CHANGE_REVERTED', {
+                userId: request.userId,
+                oldEmail: request.oldEmail,
+                newEmail: request.newEmail,
+                confirmed: false,
+            });
+
+            return {
+                message: 'The email change has been cancelled. Your email address stays the same.',
+            };
+        }
+
+        const user = await getUser(request.userId);
+        if (user.getEmail() !== request.newEmail) {
+            throw new Error(INVALID_REVERT_LINK);
+        }
+        const holder = await userDB.getUserByEmail({ email: request.oldEmail });
+        if (holder && holder.getId() !== request.userId) {
+            throw new Error('Your previous email address is now used by another account. Please contact support.');
+        }
+
+        await emailChangeDB.revertEmailChange({ id: request.id, userId: request.userId, oldEmail: request.oldEmail });
+
+        // Whoever changed the address may know the password and hold sessions
+        const resetToken = tokenGenerator.generateSecureToken();
+        await userDB.requirePasswordReset({
+            id: request.userId,
+            token: resetToken,
+            expiresAt: tokenGenerator.getExpirationTime(24 * 60), // 24 hours
+        });
+        const revokedSessions = await sessionDB.revokeSessionsForUser({ userId: request.userId });
+        await refreshTokenDB.revokeRefreshTokensForUser({ userId: request.userId });
+
+        emailService.sendPasswordResetEmail(request.oldEmail, resetToken, user.getFirstName())
+            .catch((err: any) => {
+                logger.error({ userId: request.userId, error: err instanceof Error ? err.message : 'Unknown error' }, '📧 Failed to send password reset email');
+            });
+
+        logSecurityEvent('EMAIL_CHANGE_REVERTED', {
+            userId: request.userId,
+            oldEmail: request.oldEmail,
+            newEmail: request.newEmail,
+            confirmed: true,
+            revokedSessions,
+        });
+
+        return {
+            message: 'Your email address has been restored and every session was logged out. Check your inbox to set a new password.',
+        };
+    } catch (error) {
+        logger.error({ error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Revert email change error');
+        throw error;
+    }
+};
+
+export default {
+    getProfile,
+    updateProfile,
+    requestEmailChange,
+    confirmEmailChange,
+    revertEmailChange,
+};
@@ -0,0 +1,130 @@
+import { Role } from '../model/role';
+import roleDB from '../repository/role.db';
+import { RoleInput } from '../types';
+import { logger, logSecurityEvent } from '../util/logger';
+
+/**
+ * GET ROLES - List every role with its permissions
+ */
+const getAllRoles = async (): Promise<Role[]> => roleDB.getAllRoles();
+
+/**
+ * CREATE ROLE - Add a custom role combining existing permissions
+ * Threat mitigated: Only known permissions can be granted, so a typo can't silently grant nothing
+ */
+const createRole = async ({
+    actorId,
+    role: { name, description, permissions },
+}: {
+    actorId: number;
+    role: RoleInput;
+}): Promise<Role> => {
+    try {
+        const role = new Role({ name, description, permissions: permissions ?? [] });
+
+        if (await roleDB.getRoleByName({ name })) {
+            throw new Error(`Role ${name} already exists.`);
+        }
+
+        const created = await roleDB.createRole(role);
+
+        logSecurityEvent('ROLE_CREATED', {
+            actorId,
+            role: created.getName(),
+            permissions: created.getPermissions(),
+        });
+
+        return created;
+    } catch (error) {
+        logger.error({ actorId, name, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Create role error');
+        throw error;
+    }
+};
+
+/**
+ * UPDATE ROLE - Change the description and permissions of a custom role
+ * Threat mitigated: System roles are immutable, so ADMIN can't be stripped or CLIENT escalated via the API
+ */
+const updateRole = async ({
+    actorId,
+    id,
+    role: { description, permissions },
+}: {
+    actorId: number;
+    id: number;
+    role: Omit<RoleInput, 'name'>;
+}): Promise<Role> => {
+    try {
+        const existing = await roleDB.getRoleById({ id });
+        if (!existing) {
+            throw new Error('Role not found.');
+        }
+        if (existing.getIsSystem()) {
+            throw new Error('System roles cannot be changed.');
+        }
+
+        // Validates the new permission set before anything is written
+        const role = new Role({
+            name: existing.getName(),
+            description: description ?? existing.getDescription(),
+            permissions: permissions ?? existing.getPermissions(),
+        });
+
+        const updated = await roleDB.updateRole({
+            id,
+            description: role.getDescription(),
+            permissions: role.getPermissions(),
+        });
+
+        logSecurityEvent('ROLE_UPDATED', {
+            actorId,
+            role: updated.getName(),
+            previousPermissions: existing.getPermissions(),
+            permissions: updated.getPermissions(),
+        });
+
+        return updated;
+    } catch (error) {
+        logger.error({ actorId, id, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Update role error');
+        throw error;
+    }
+};
+
+/**
+ * DELETE ROLE - Remove a custom role nobody holds any more
+ */
+const deleteRole = async ({ actorId, id }: { actorId: number; id: number }): Promise<{ message: string }> => {
+    try {
+        const existing = await roleDB.getRoleById({ id });
+        if (!existing) {
+            throw new Error('Role not found.');
+        }
+        if (existing.getIsSystem()) {
+            throw new Error('System roles cannot be deleted.');
+        }
+        if ((await roleDB.countUsersWithRole({ id })) > 0) {
+            throw new Error('Role is still assigned to users.');
+        }
+
+        await roleDB.deleteRole({ id });
+
+        logSecurityEvent('ROLE_DELETED', {
+            actorId,
+            role: existing.getName(),
+        });
+
+        return {
+            message: `Role ${existing.getName()} deleted.`,
+        };
+    } catch (error) {
+        logger.error({ actorId, id, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Delete role error');
+        throw error;
+    }
+};
+
+export default {
+    getAllRoles,
+    createRole,
+    updateRole,
+    deleteRole,
+};
@@ -0,0 +1,134 @@
+import { Session } from '../model/session';
+import refreshTokenDB from '../repository/refreshToken.db';
+import sessionDB from '../repository/session.db';
+import { SessionContext } from '../types';
+import { logger, logSecurityEvent } from '../util/logger';
+import tokenGenerator from '../util/token.generator';
+
+// A session lives as long as its refresh tokens: this many days after login
+const SESSION_EXPIRES_DAYS = parseInt(process.env.REFRESH_TOKEN_EXPIRES_DAYS || '30');
+
+// Only write lastSeenAt when it is older than this, not on every request
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * START SESSION - Record a new login with the device it came from
+ */
+const startSession = async ({ userId, context = {} }: { userId: number; context?: SessionContext }): Promise<Session> => {
+    return sessionDB.createSession({
+        userId,
+        userAgent: context.userAgent?.slice(0, 512),
+        ipAddress: context.ipAddress,
+        expiresAt: tokenGenerator.getExpirationTime(SESSION_EXPIRES_DAYS * 24 * 60),
+    });
+};
+
+/**
+ * VALIDATE SESSION - Check the session an access token belongs to is still active
+ * Threat mitigated: Revoking a session invalidates its access tokens right away
+ */
+const validateSession = async ({ sessionId, userId }: { sessionId: number; userId: number }): Promise<boolean> => {
+    const session = await sessionDB.getSessionById({ id: sessionId });
+    if (!session || session.getUserId() !== userId || !session.isActive()) {
+        return false;
+    }
+
+    if (Date.now() - session.getLastSeenAt().getTime() > LAST_SEEN_RESOLUTION_MS) {
+        await sessionDB.updateSessionLastSeen({ id: sessionId });
+    }
+
+    return true;
+};
+
+/**
+ * GET SESSIONS - List the active sessions of a user, flagging the one making the request
+ */
+const getSessions = async ({
+    userId,
+    currentSessionId,
+}: {
+    userId: number;
+    currentSessionId?: number;
+}): Promise<Array<ReturnType<Session['toJSON']> & { current: boolean }>> => {
+    const sessions = await sessionDB.getActiveSessionsByUserId({ userId });
+    return sessions.map((session) => ({
+        ...session.toJSON(),
+        current: session.getId() === currentSessionId,
+    }));
+};
+
+/**
+ * REVOKE SESSION - Log out a single session (device)
+ * Threat mitigated: A user can cut off a lost or unrecognised device
+ */
+const revokeSession = async ({
+    userId,
+    sessionId,
+    reason = 'Revoked by user',
+}: {
+    userId: number;
+    sessionId: number;
+    reason?: string;
+}): Promise<{ message: string }> => {
+    try {
+        const session = await sessionDB.getSessionById({ id: sessionId });
+        // Someone else's session is reported as missing, not as forbidden
+        if (!session || session.getUserId() !== userId || !session.isActive()) {
+            throw new Error('Session not found.');
+        }
+
+        await sessionDB.revokeSession({ id: sessionId });
+        await refreshTokenDB.revokeRefreshTokensForSession({ sessionId });
+
+        logSecurityEvent('SESSION_REVOKED', {
+            userId,
+            sessionId,
+            reason,
+        });
+
+        return {
+            message: 'Session logged out.',
+        };
+    } catch (error) {
+        logger.error({ userId, sessionId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Revoke session error');
+        throw error;
+    }
+};
+
+/**
+ * REVOKE OTHER SESSIONS - Log out everywhere except the current session
+ */
+const revokeOtherSessions = async ({
+    userId,
+    currentSessionId,
+}: {
+    userId: number;
+    currentSessionId: number;
+}): Promise<{ message: string; revoked: number }> => {
+    try {
+        const revoked = await sessionDB.revokeSessionsForUser({ userId, exceptSessionId: currentSessionId });
+        await refreshTokenDB.revokeRefreshTokensForUser({ userId, exceptSessionId: currentSessionId });
+
+        logSecurityEvent('LOGOUT_ALL_SESSIONS', {
+            userId,
+            keptSessionId: currentSessionId,
+            revoked,
+        });
+
+        return {
+            message: 'All other sessions have been logged out.',
+            revoked,
+        };
+    } catch (error) {
+        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Revoke other sessions error');
+        throw error;
+    }
+};
+
+export default {
+    startSession,
+    validateSession,
+    getSessions,
+    revokeSession,
+    revokeOtherSessions,
+};
@@ -1,12 +1,47 @@
-import bcrypt from 'bcrypt';
+import { MfaChallenge, MfaChallengePurpose } from '@prisma/client';
 import userDB from '../repository/user.db';
-import { AuthenticationResponse, UserInput } from '../types';
+import passwordHistoryDB from '../repository/passwordHistory.db';
+import recoveryCodeDB from '../repository/recoveryCode.db';
+import refreshTokenDB from '../repository/refreshToken.db';
+import sessionDB from '../repository/session.db';
+import { AuthenticationResponse, LoginRiskReason, MfaMethod, MfaStatus, SessionContext, UserInput } from '../types';
 import { generateJwtToken } from '../util/jwt';
+import { Session } from '../model/session';
 import { User } from '../model/user';
 import { logger, logSecurityEvent } from '../util/logger';
+import { describeWait, getLockoutPolicy, isLockedOut, registerFailedLogin } from '../util/lockout.policy';
 import emailService from '../util/email.service';
+import breachedPasswords from '../util/breached.passwords';
+import {
+    getPasswordPolicy,
+    getPasswordPolicyProfileForRole,
+    isPasswordPolicyProfile,
+    PASSWORD_POLICY_PROFILES,
+    PasswordPolicy,
+    PasswordPolicyProfile,
+} from '../util/password.policy';
+import passwordHasher from '../util/password.hasher';
 import passwordValidator from '../util/password.validator';
+import secretBox from '../util/secret.box';
+import tokenBlacklist from '../util/token.blacklist';
 import tokenGenerator from '../util/token.generator';
+import totp from '../util/totp';
+import loginRiskService from './loginRisk.service';
+import mfaChallengeService from './mfaChallenge.service';
+import sessionService from './session.service';
+
+// Number of 30-second TOTP steps accepted on either side of the server clock
+const TOTP_DRIFT_WINDOW = parseInt(process.env.TOTP_DRIFT_WINDOW || '1');
+
+const RECOVERY_CODE_COUNT = 10;
+// Email the user once they are down to this many unused recovery codes
+const RECOVERY_CODES_LOW_THRESHOLD = 3;
+
+// How long a completed step-up lets the session perform sensitive operations
+const STEP_UP_MINUTES = parseInt(process.env.STEP_UP_MINUTES || '5');
+
+// Lifetime of an emailed passwordless login link
+const MAGIC_LINK_EXPIRES_MINUTES = parseInt(process.env.MAGIC_LINK_EXPIRES_MINUTES || '15');
 
 const getUserByEmail = async ({ email }: { email: string }): Promise<User> => {
     const user = await userDB.getUserByEmail({ email });
@@ -26,6 +61,128 @@ const getUserById = async ({ id }: { id: number }): Promise<User> => {
     return user;
 };
 
+/**
+ * Issue a refresh token for a session. Every rotation stays in the session
+ * and expires together with it.
+ */
+const issueRefreshToken = async (session: Session): Promise<string> => {
+    const refreshToken = tokenGenerator.generateRefreshToken();
+
+    await refreshTokenDB.createRefreshToken({
+        userId: session.getUserId(),
+        sessionId: session.getId()!,
+        tokenHash: tokenGenerator.hashToken(refreshToken),
+        expiresAt: session.getExpiresAt(),
+    });
+
+    return refreshToken;
+};
+
+/**
+ * Refuse a new password that fails the password policy of the user's role
+ */
+const assertPasswordAllowed = async (user: User, newPassword: string): Promise<void> => {
+    const passwordValidation = await passwordValidator.validate(newPassword, {
+        profile: getPasswordPolicyProfileForRole(user.getRole()),
+        userInputs: [user.getFirstName(), user.getLastName(), user.getEmail()],
+    });
+    if (!passwordValidation.isValid) {
+        throw new Error(passwordValidation.errors.join('. '));
+    }
+};
+
+/**
+ * Refuse a new password that matches the current one or one of the earlier passwords
+ * the password policy remembers
+ */
+const assertPasswordNotReused = async (user: User, newPassword: string): Promise<void> => {
+    const { historySize } = getPasswordPolicy(getPasswordPolicyProfileForRole(user.getRole()));
+    const previous = await passwordHistoryDB.getRecentPasswordHashes({ userId: user.getId()!, take: historySize - 1 });
+
+    for (const hash of [user.getPassword(), ...previous]) {
+        if (await passwordHasher.verify(newPassword, hash)) {
+            throw new Error(
+                historySize > 1
+                    ? `New password must be different from your last ${historySize} passwords.`
+                    : 'New password must be different from current password.'
+            );
+        }
+    }
+};
+
+// Shown to the user in the suspicious login alert
+const LOGIN_RISK_DESCRIPTIONS: Record<LoginRiskReason, string> = {
+    NEW_DEVICE: 'The login came from a device or browser you have not used before',
+    NEW_NETWORK: 'The login came from a network you have not used before',
+    IMPOSSIBLE_TRAVEL: 'The login came from a place too far from your previous login to have travelled in between',
+    FAILED_ATTEMPTS: 'Several wrong passwords were tried on your account before this login',
+};
+
+const ACCOUNT_DISABLED = 'This account has been disabled. Please contact support.';
+
+const buildAuthenticationResponse = async (
+    user: User,
+    session: Session,
+    stepUpUntil?: Date
+): Promise<AuthenticationResponse> => {
+    // Backstop for every login and refresh path: a disabled account never gets a token
+    if (user.isDisabled()) {
+        throw new Error(ACCOUNT_DISABLED);
+    }
+
+    return {
+        token: await generateJwtToken({
+            userId: user.getId()!,
+            email: user.getEmail(),
+            role: user.getRole().getName(),
+            permissions: user.getRole().getPermissions(),
+            sessionId: session.getId()!,
+            stepUpUntil,
+        }),
+        id: user.getId()!,
+        firstName: user.getFirstName(),
+        lastName: user.getLastName(),
+        role: user.getRole().getName(),
+    };
+};
+
+/**
+ * Build the response for a fully authenticated user: starts a new session and returns
+ * its first access JWT and refresh token. Every login path (password, MFA, passkey) returns this.
+ */
+const createAuthenticationResponse = async (
+    user: User,
+    context: SessionContext = {}
+): Promise<AuthenticationResponse> => {
+    const session = await sessionService.startSession({ userId: user.getId()!, context });
+    // The device and network become known only once a login has fully succeeded
+    await loginRiskService.recordLogin({ userId: user.getId()!, context });
+
+    return {
+        ...(await buildAuthenticationResponse(user, session)),
+        refreshToken: await issueRefreshToken(session),
+    };
+};
+
+/**
+ * PASSWORD POLICY - The rules a new password has to meet, so forms can check them as the user types
+ */
+const getPasswordPolicyRules = ({
+    profile = 'standard',
+}: {
+    profile?: string;
+}): PasswordPolicy & { profile: PasswordPolicyProfile; breachCheck: boolean } => {
+    if (!isPasswordPolicyProfile(profile)) {
+        throw new Error(`Unknown password policy profile. Use one of: ${PASSWORD_POLICY_PROFILES.join(', ')}`);
+    }
+
+    return {
+        profile,
+        ...getPasswordPolicy(profile),
+        breachCheck: breachedPasswords.isEnabled(),
+    };
+};
+
 /**
  * SIGNUP - Register a new user with email verification
  * Threat mitigated: Prevents unauthorized account creation, ensures valid emails
@@ -35,13 +192,11 @@ const signup = async ({
     lastName,
     email,
     password,
-    isOrganiser,
 }: {
     firstName: string;
     lastName: string;
     email: string;
     password: string;
-    isOrganiser: boolean;
 }): Promise<{ message: string }> => {
     try {
         // Check if user already exists
@@ -54,28 +209,30 @@ const signup = async ({
             throw new Error('Email already registered. Please use a different email or try logging in.');
         }
 
-        // Validate password policy
-        const passwordValidation = passwordValidator.validate(password);
-        if (!passwordValidation.isValid) {
-            throw new Error(passwordValidation.errors.join('. '));
-        }
-
         // Check if password contains email
         if (passwordValidator.isPasswordContainsEmail(password, email)) {
             throw new Error('Password must not contain your email address');
         }
 
+        // Validate password policy (new accounts are clients, so the standard profile applies)
+        const passwordValidation = await passwordValidator.validate(password, {
+            profile: 'standard',
+            userInputs: [firstName, lastName, email],
+        });
+        if (!passwordValidation.isValid) {
+            throw new Error(passwordValidation.errors.join('. '));
+        }
+
         // Create email verification token (valid for 24 hours)
         const verificationToken = tokenGenerator.generateSecureToken();
         const verificationTokenExp = tokenGenerator.getExpirationTime(24 * 60); // 24 hours
 
         // Create user in database
-        const user = await userDB.createUser({
+        await userDB.createUser({
             firstName,
             lastName,
             email,
             password,
-            isOrganiser,
             emailVerificationToken: verificationToken,
             emailVerificationTokenExp: verificationTokenExp,
         });
@@ -89,7 +246,7 @@ const signup = async ({
 
         logSecurityEvent('SIGNUP', {
             email,
-            role: isOrganiser ? 'ORGANISER' : 'CLIENT',
+            role: 'CLIENT',
         });
 
         return {
@@ -183,486 +340,1144 @@ const resendVerificationEmail = async ({ email }: { email: string }): Promise<{
 };
 
 /**
- * AUTHENTICATE - Login with email and password
- * Threat mitigated: Failed login tracking, account lockout after multiple attempts, MFA
+ * Store a fresh hash of a verified password. Failing to upgrade doesn't fail the login.
  */
-const authenticate = async ({ email, password }: UserInput): Promise<AuthenticationResponse> => {
-
-    const INVALID_CREDENTIALS = 'Invalid email or password.';
-    // bcrypt hash of a long random string, generated once. Never matches a real password.
-    const DUMMY_HASH = '$2b$10$C6UzMDM.H6dfI/f/IKxGhuB1G6dwO2vYTl3yL0jhB3jQ4XwQ9c2P2';
-
+const rehashPassword = async (user: User, password: string): Promise<void> => {
     try {
-        const user = await userDB.getUserByEmail({ email });
-
-        if (!user) {
-            // Equalise timing with the real bcrypt.compare branch below
-            await bcrypt.compare(password, DUMMY_HASH);
-            logSecurityEvent('LOGIN_FAILED', { email, reason: 'No such user' });
-            throw new Error(INVALID_CREDENTIALS);
-        }
-
-        // Check if email is verified
-        if (!user.getEmailVerified()) {
-            logSecurityEvent('LOGIN_FAILED', {
-                userId: user.getId(),
-                email,
-                reason: 'Email not verified',
-            });
-            throw new Error('Please verify your email before logging in. Check your inbox for the verification link.');
-        }
-
-        // Check if account is locked
-        if (user.isAccountLocked()) {
-            logSecurityEvent('LOGIN_FAILED', {
-                userId: user.getId(),
-                email,
-                reason: 'Account locked',
-            });
-            const minutesLeft = Math.ceil((user.getLockedUntil()!.getTime() - new Date().getTime()) / (1000 * 60));
-            throw new Error(`Account is locked due to too many failed login attempts. Try again in ${minutesLeft} minutes.`);
-        }
-
-        const isValidPassword = await bcrypt.compare(password, user.getPassword());
-
-        if (!isValidPassword) {
-            // Increment failed login attempts
-            const newAttempts = user.getFailedLoginAttempts() + 1;
-            const MAX_ATTEMPTS = 5;
-            const LOCKOUT_DURATION_MINUTES = 30;
+        await userDB.updatePasswordHash({ id: user.getId()!, passwordHash: await passwordHasher.hash(password) });
+        logSecurityEvent('PASSWORD_REHASHED', {
+            userId: user.getId(),
+            algorithm: passwordHasher.getAlgorithm(),
+        });
+    } catch (error) {
+        logger.error({ userId: user.getId(), error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Password rehash error');
+    }
+};
 
-            let lockedUntil = null;
-            if (newAttempts >= MAX_ATTEMPTS) {
-                lockedUntil = new Date();
-                lockedUntil.setMinutes(lockedUntil.getMinutes() + LOCKOUT_DURATION_MINUTES);
+/**
+ * Email a link that lifts the lockout, so the owner doesn't have to wait it out
+ */
+const sendUnlockEmail = async (user: User): Promise<void> => {
+    const unlockToken = tokenGenerator.generateSecureToken();
+    const { unlockLinkMinutes } = getLockoutPolicy();
+
+    await userDB.setUnlockToken({
+        id: user.getId()!,
+        token: unlockToken,
+        expiresAt: tokenGenerator.getExpirationTime(unlockLinkMinutes),
+    });
+
+    emailService.sendAccountUnlockEmail(user.getEmail(), unlockToken, user.getFirstName(), unlockLinkMinutes)
+        .catch((err: any) => {
+            logger.error({ email: user.getEmail(), error: err instanceof Error ? err.message : 'Unknown error' }, '📧 Failed to send account unlock email');
+        });
+};
 
-                logSecurityEvent('ACCOUNT_LOCKED', {
-                    userId: user.getId(),
-                    email,
-                    reason: 'Max failed login attempts',
-                });
-            }
+type LoginMethod = 'PASSWORD' | 'MAGIC_LINK';
 
-            await userDB.updateFailedLoginAttempts({
-                id: user.getId()!,
-                attempts: newAttempts,
-                lockedUntil,
-            });
+/**
+ * Refuse a login (of any first factor) for an unverified, disabled or locked out account
+ */
+const assertLoginAllowed = (user: User): void => {
+    const email = user.getEmail();
 
-            logSecurityEvent('FAILED_AUTH', {
-                email,
-                attempts: newAttempts,
-                reason: 'Invalid password',
-            });
+    // Check if email is verified
+    if (!user.getEmailVerified()) {
+        logSecurityEvent('LOGIN_FAILED', {
+            userId: user.getId(),
+            email,
+            reason: 'Email not verified',
+        });
+        throw new Error('Please verify your email before logging in. Check your inbox for the verification link.');
+    }
 
-            if (newAttempts >= MAX_ATTEMPTS) {
-                throw new Error('Too many failed login attempts. Your account has been locked for 30 minutes.');
-            }
+    if (user.isDisabled()) {
+        logSecurityEvent('LOGIN_FAILED', {
+            userId: user.getId(),
+            email,
+            reason: 'Account disabled',
+        });
+        throw new Error(ACCOUNT_DISABLED);
+    }
 
-            throw new Error(INVALID_CREDENTIALS);
+    // Refused while locked out, and during the back-off delay after recent failures
+    if (user.isAccountLocked()) {
+        const lockedOut = isLockedOut(user.getFailedLoginAttempts());
+        logSecurityEvent('LOGIN_FAILED', {
+            userId: user.getId(),
+            email,
+            reason: lockedOut ? 'Account locked' : 'Login delayed',
+        });
+        const wait = describeWait(user.getLockedUntil()!);
+        if (lockedOut) {
+            throw new Error(`Account is locked due to too many failed login attempts. Try again in ${wait}, or use the unlock link we emailed you.`);
         }
+        throw new Error(`Too many failed login attempts. Please wait ${wait} before trying again.`);
+    }
+};
 
-        // Reset failed login attempts on successful authentication
-        await userDB.resetFailedLoginAttempts({ id: user.getId()! });
+/**
+ * Finish a login once the first factor (password or magic link) checked out: score the login,
+ * then either start the MFA step or start the session
+ */
+const completeLogin = async (
+    user: User,
+    context: SessionContext,
+    method: LoginMethod
+): Promise<AuthenticationResponse> => {
+    const email = user.getEmail();
+
+    // Score the login (new device or network, impossible travel, recent failures) before the counter is reset
+    const risk = await loginRiskService.assessLogin({ user, context });
+    if (risk.level !== 'low') {
+        emailService.sendSuspiciousLoginAlert(
+            user.getEmail(),
+            user.getFirstName(),
+            context.ipAddress ?? 'unknown',
+            risk.reasons.map((reason) => LOGIN_RISK_DESCRIPTIONS[reason])
+        ).catch((err: any) => {
+            logger.error({ email: user.getEmail(), error: err instanceof Error ? err.message : 'Unknown error' }, '📧 Failed to send suspicious login alert');
+        });
+    }
 
-        // Check if MFA is enabled - if so, send MFA code
-        if (user.getMfaEnabled()) {
-            const mfaCode = tokenGenerator.generateMFACode();
-            const mfaCodeExp = tokenGenerator.getExpirationTime(10); // 10 minutes
+    // Reset failed login attempts on successful authentication
+    await userDB.resetFailedLoginAttempts({ id: user.getId()! });
+
+    // Start the second factor step when MFA is enabled, or when the login is high risk
+    // (users without MFA then get an emailed code)
+    if (user.getMfaEnabled() || risk.level === 'high') {
+        // The challenge marks this first-factor-verified login; verify-mfa only accepts codes for it.
+        // Authenticator app users only get an email code when they ask for the fallback.
+        const { challengeId, code: mfaCode } = await mfaChallengeService.createChallenge({
+            userId: user.getId()!,
+            purpose: 'LOGIN',
+            withEmailCode: !user.hasTotpEnabled(),
+        });
 
-            await userDB.setMFACode({
-                id: user.getId()!,
-                code: mfaCode,
-                expiresAt: mfaCodeExp,
-            });
+        const mfaMethods = user.hasTotpEnabled() ? user.getMfaMethods() : ['EMAIL' as const];
 
-            // Send MFA email 
+        if (mfaCode) {
             emailService.sendMFAEmail(user.getEmail(), mfaCode, user.getFirstName())
                 .catch((err: any) => {
                     logger.error({ email: user.getEmail(), error: err instanceof Error ? err.message : 'Unknown error' }, '📧 Failed to send MFA email');
                 });
-
-            logSecurityEvent('MFA_INITIATED', {
-                userId: user.getId(),
-                email,
-            });
-
-            return {
-                token: '', // Empty token until MFA is verified
-                id: user.getId()!,
-                firstName: user.getFirstName(),
-                lastName: user.getLastName(),
-                role: user.getIsOrganiser() ? 'ORGANISER' : 'CLIENT',
-                requiresMFA: true,
-            } as any;
         }
 
-        // Log successful authentication
-        logSecurityEvent('LOGIN', {
+        logSecurityEvent('MFA_INITIATED', {
             userId: user.getId(),
             email,
-            role: user.getIsOrganiser() ? 'ORGANISER' : 'CLIENT',
+            mfaMethods,
+            riskLevel: risk.level,
+            method,
         });
 
         return {
-            token: generateJwtToken({ userId: user.getId()!, email, isOrganiser: user.getIsOrganiser() }),
+            token: '', // Empty token until MFA is verified
             id: user.getId()!,
             firstName: user.getFirstName(),
             lastName: user.getLastName(),
-            role: user.getIsOrganiser() ? 'ORGANISER' : 'CLIENT',
+            role: user.getRole().getName(),
+            requiresMFA: true,
+            mfaMethods,
+            mfaChallengeId: challengeId,
         };
-    } catch (error) {
-        logger.error({ email, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Authentication error');
-        throw error;
     }
+
+    // Log successful authentication
+    logSecurityEvent('LOGIN', {
+        userId: user.getId(),
+        email,
+        role: user.getRole().getName(),
+        method,
+    });
+
+    return await createAuthenticationResponse(user, context);
 };
 
 /**
- * VERIFY MFA - Verify MFA code sent via email
- * Threat mitigated: Multi-factor authentication prevents unauthorized access even with password compromise
+ * AUTHENTICATE - Login with email and password
+ * Threat mitigated: Failed login tracking, progressive back-off and lockout, MFA
  */
-const verifyMFA = async ({ userId, mfaCode }: { userId: number; mfaCode: string }): Promise<AuthenticationResponse> => {
+const authenticate = async (
+    { email, password }: UserInput,
+    context: SessionContext = {}
+): Promise<AuthenticationResponse> => {
+
+    const INVALID_CREDENTIALS = 'Invalid email or password.';
+
     try {
-        const user = await getUserById({ id: userId });
+        const user = await userDB.getUserByEmail({ email });
 
-        const storedMfaCode = user.getMfaCode();
-        if (!storedMfaCode) {
-            throw new Error('MFA code not found. Please initiate login again.');
+        if (!user) {
+            // Equalise timing with the real password check below (dummy hash uses the current algorithm)
+            await passwordHasher.verify(password, await passwordHasher.getDummyHash());
+            logSecurityEvent('LOGIN_FAILED', { email, reason: 'No such user' });
+            throw new Error(INVALID_CREDENTIALS);
         }
 
-        // Check if MFA code has expired
-        if (tokenGenerator.isTokenExpired(user.getMfaCodeExp())) {
-            await userDB.clearMFACode({ id: userId });
-            throw new Error('MFA code has expired. Please initiate login again.');
-        }
+        assertLoginAllowed(user);
 
-        // Verify MFA code
-        if (storedMfaCode !== mfaCode) {
-            logSecurityEvent('MFA_VERIFICATION_FAILED', {
-                userId,
-                reason: 'Invalid code',
+        const isValidPassword = await passwordHasher.verify(password, user.getPassword());
+
+        if (!isValidPassword) {
+            // Back off exponentially, then lock for longer each time (see util/lockout.policy)
+            const outcome = registerFailedLogin({
+                failedLoginAttempts: user.getFailedLoginAttempts(),
+                lockoutCount: user.getLockoutCount(),
+                lastFailedLoginAt: user.getLastFailedLoginAt(),
             });
-            throw new Error('Invalid MFA code. Please try again.');
+
+            await userDB.updateFailedLoginAttempts({
+                id: user.getId()!,
+                attempts: outcome.attempts,
+                lockedUntil: outcome.lockedUntil,
+                lockoutCount: outcome.lockoutCount,
+            });
+
+            logSecurityEvent('FAILED_AUTH', {
+                email,
+                attempts: outcome.attempts,
+                reason: 'Invalid password',
+            });
+
+            if (outcome.locked) {
+                logSecurityEvent('ACCOUNT_LOCKED', {
+                    userId: user.getId(),
+                    email,
+                    reason: 'Max failed login attempts',
+                    lockoutCount: outcome.lockoutCount,
+                    lockedUntil: outcome.lockedUntil,
+                });
+
+                await sendUnlockEmail(user);
+
+                throw new Error(
+                    `Too many failed login attempts. Your account has been locked for ${describeWait(outcome.lockedUntil!)}. We've emailed you a link to unlock it.`
+                );
+            }
+
+            throw new Error(INVALID_CREDENTIALS);
         }
 
-        // Clear MFA code
-        await userDB.clearMFACode({ id: userId });
+        // Upgrade a hash made with older settings (e.g. bcrypt) while the plaintext is at hand
+        if (passwordHasher.needsRehash(user.getPassword())) {
+            await rehashPassword(user, password);
+        }
 
-        logSecurityEvent('MFA_VERIFIED', {
-            userId,
-            email: user.getEmail(),
-        });
+        // An administrator forced a reset: the old password is correct but no longer accepted
+        if (user.getPasswordResetRequired()) {
+            logSecurityEvent('LOGIN_FAILED', {
+                userId: user.getId(),
+                email,
+                reason: 'Password reset required',
+            });
+            throw new Error('You must reset your password before logging in. Check your inbox for the reset link.');
+        }
 
-        return {
-            token: generateJwtToken({ userId: user.getId()!, email: user.getEmail(), isOrganiser: user.getIsOrganiser() }),
-            id: user.getId()!,
-            firstName: user.getFirstName(),
-            lastName: user.getLastName(),
-            role: user.getIsOrganiser() ? 'ORGANISER' : 'CLIENT',
-        };
+        return await completeLogin(user, context, 'PASSWORD');
     } catch (error) {
-        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 MFA verification error');
+        logger.error({ email, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Authentication error');
         throw error;
     }
 };
 
 /**
- * FORGOT PASSWORD - Initiate password reset process
- * Threat mitigated: Rate limiting, secure token generation, time-limited reset links
+ * REQUEST MAGIC LINK - Email a single-use link that logs in without the password
+ * Threat mitigated: Account enumeration; the response is the same whether or not the account exists,
+ * and accounts that can't log in (unverified, disabled, locked out) get no link
  */
-const forgotPassword = async ({ email }: { email: string }): Promise<{ message: string }> => {
+const requestMagicLink = async ({ email }: { email: string }): Promise<{ message: string }> => {
+    const response = {
+        message: "If an account exists with that email, we've sent you a login link. Please check your inbox.",
+    };
+
     try {
-        const user = await getUserByEmail({ email });
+        const user = await userDB.getUserByEmail({ email });
+        if (!user) {
+            logSecurityEvent('MAGIC_LINK_REFUSED', { email, reason: 'No such user' });
+            return response;
+        }
 
-        // Generate password reset token (valid for 1 hour)
-        const resetToken = tokenGenerator.generateSecureToken();
-        const resetTokenExp = tokenGenerator.getExpirationTime(60); // 1 hour
+        assertLoginAllowed(user);
 
-        // Store reset token
-        await userDB.setPasswordResetToken({
+        const token = tokenGenerator.generateSecureToken();
+        await userDB.setMagicLinkToken({
             id: user.getId()!,
-            token: resetToken,
-            expiresAt: resetTokenExp,
+            token,
+            expiresAt: tokenGenerator.getExpirationTime(MAGIC_LINK_EXPIRES_MINUTES),
         });
 
-        // Send password reset email (non-blocking - fire and forget)
-        emailService.sendPasswordResetEmail(email, resetToken, user.getFirstName())
+        emailService.sendMagicLinkEmail(user.getEmail(), token, user.getFirstName(), MAGIC_LINK_EXPIRES_MINUTES)
             .catch((err: any) => {
-                logger.error({ email, error: err instanceof Error ? err.message : 'Unknown error' }, '📧 Failed to send password reset email');
+                logger.error({ email, error: err instanceof Error ? err.message : 'Unknown error' }, '📧 Failed to send magic link email');
             });
 
-        logSecurityEvent('PASSWORD_RESET_REQUESTED', {
+        logSecurityEvent('MAGIC_LINK_REQUESTED', {
             userId: user.getId(),
             email,
         });
-
-        return {
-            message: 'Password reset link sent to your email. Please check your inbox.',
-        };
     } catch (error) {
-        logger.error({ error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Forgot password error');
-        // Don't leak if email exists or not
-        return {
-            message: 'If an account exists with that email, you will receive a password reset link.',
-        };
+        logger.error({ email, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Request magic link error');
+        // Don't leak if the account exists or can log in
     }
+
+    return response;
 };
 
 /**
- * RESET PASSWORD - Complete password reset with token verification
- * Threat mitigated: Secure token validation, password policy enforcement
+ * MAGIC LINK LOGIN - Log in with the emailed link
+ * Threat mitigated: Replay and stolen links; the token is single use, short-lived and stored only as a hash,
+ * and the login still goes through the lockout, email verification, risk and MFA checks of a password login
  */
-const resetPassword = async ({
+const loginWithMagicLink = async ({
     token,
-    newPassword,
+    context = {},
 }: {
     token: string;
-    newPassword: string;
-}): Promise<{ message: string }> => {
+    context?: SessionContext;
+}): Promise<AuthenticationResponse> => {
+    const INVALID_LINK = 'Invalid or expired login link.';
+    let userId: number | undefined;
+
     try {
-        const user = await userDB.getUserByPasswordResetToken({ token });
+        const user = token ? await userDB.getUserByMagicLinkToken({ token }) : null;
         if (!user) {
-            throw new Error('Invalid or expired password reset token.');
-        }
-
-        // Check if token has expired
-        if (tokenGenerator.isTokenExpired(user.getPasswordResetTokenExp())) {
-            throw new Error('Password reset token has expired. Please request a new one.');
+            logSecurityEvent('LOGIN_FAILED', { reason: 'Invalid magic link', ipAddress: context.ipAddress });
+            throw new Error(INVALID_LINK);
         }
+        userId = user.getId();
 
-        // Validate new password
-        const passwordValidation = passwordValidator.validate(newPassword);
-        if (!passwordValidation.isValid) {
-            throw new Error(passwordValidation.errors.join('. '));
+        // Used up before any other check, so a link never works twice
+        if (!(await userDB.consumeMagicLinkToken({ id: user.getId()!, token }))) {
+            throw new Error(INVALID_LINK);
         }
 
-        // Check if new password contains email
-        if (passwordValidator.isPasswordContainsEmail(newPassword, user.getEmail())) {
-            throw new Error('New password must not contain your email address');
+        if (tokenGenerator.isTokenExpired(user.getMagicLinkTokenExp())) {
+            throw new Error('Login link has expired. Please request a new one.');
         }
 
-        // Update password
-        await userDB.updatePassword({
-            id: user.getId()!,
-            password: newPassword,
-        });
+        assertLoginAllowed(user);
 
-        logSecurityEvent('PASSWORD_RESET', {
-            userId: user.getId(),
-            email: user.getEmail(),
-        });
+        // An administrator forced a reset; the link must not become a way around it
+        if (user.getPasswordResetRequired()) {
+            logSecurityEvent('LOGIN_FAILED', {
+                userId,
+                email: user.getEmail(),
+                reason: 'Password reset required',
+            });
+            throw new Error('You must reset your password before logging in. Check your inbox for the reset link.');
+        }
 
-        return {
-            message: 'Password reset successfully. You can now log in with your new password.',
-        };
+        return await completeLogin(user, context, 'MAGIC_LINK');
     } catch (error) {
-        logger.error({ error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Reset password error');
+        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Magic link login error');
         throw error;
     }
 };
 
 /**
- * CHANGE PASSWORD - Change password while logged in (requires MFA verification)
- * Threat mitigated: Multi-factor authentication for sensitive operation
+ * TOTP secrets are stored encrypted. Secrets enrolled before that are still plain base32, or
+ * encrypted under the old JWT_SECRET key; they are encrypted again the next time a code from them is accepted.
  */
-const changePassword = async ({
-    userId,
-    currentPassword,
-    newPassword,
+const readTotpSecret = (storedSecret: string): string =>
+    secretBox.isEncrypted(storedSecret) ? secretBox.decrypt(storedSecret) : storedSecret;
+
+/**
+ * Check a second-factor code for a challenge: an authenticator app code, the emailed code,
+ * or a recovery code (which is used up). Returns the method that matched, or null.
+ */
+const verifySecondFactor = async (
+    user: User,
+    mfaChallengeId: string,
+    challenge: MfaChallenge,
+    mfaCode: string
+): Promise<'TOTP' | 'EMAIL' | 'RECOVERY_CODE' | null> => {
+    if (user.hasTotpEnabled()) {
+        const storedSecret = user.getTotpSecret()!;
+        const secret = readTotpSecret(storedSecret);
+        const step = totp.verify(mfaCode, secret, TOTP_DRIFT_WINDOW);
+        // A code is only accepted once, even while it is still inside the drift window.
+        // The stored step is the source of truth, so parallel requests can't both use a code.
+        if (
+            step !== null &&
+            step > (user.getTotpLastUsedStep() ?? -1) &&
+            (await userDB.updateTotpLastUsedStep({ id: user.getId()!, step }))
+        ) {
+            if (!secretBox.isCurrent(storedSecret)) {
+                await userDB.updateTotpSecret({ id: user.getId()!, secret: secretBox.encrypt(secret) });
+            }
+            return 'TOTP';
+        }
+    }
+
+    if (mfaChallengeService.isEmailCodeValid(mfaChallengeId, challenge, mfaCode)) {
+        return 'EMAIL';
+    }
+
+    if (mfaCode && (await redeemRecoveryCode(user, mfaCode))) {
+        return 'RECOVERY_CODE';
+    }
+
+    return null;
+};
+
+/**
+ * VERIFY MFA - Verify the second factor: an authenticator app code or the code sent via email
+ * Threat mitigated: Multi-factor authentication prevents unauthorized access even with password compromise
+ */
+const verifyMFA = async ({
+    mfaChallengeId,
+    mfaCode,
+    context = {},
 }: {
-    userId: number;
-    currentPassword: string;
-    newPassword: string;
-}): Promise<{ message: string }> => {
+    mfaChallengeId: string;
+    mfaCode: string;
+    context?: SessionContext;
+}): Promise<AuthenticationResponse> => {
+    let userId: number | undefined;
+
     try {
+        const challenge = await mfaChallengeService.getChallenge({ challengeId: mfaChallengeId, purpose: 'LOGIN' });
+        userId = challenge.userId;
         const user = await getUserById({ id: userId });
 
-        // Verify current password
-        const isValidPassword = await bcrypt.compare(currentPassword, user.getPassword());
-        if (!isValidPassword) {
-            logSecurityEvent('CHANGE_PASSWORD_FAILED', {
+        await mfaChallengeService.reserveAttempt(challenge);
+        const method = await verifySecondFactor(user, mfaChallengeId, challenge, mfaCode);
+
+        if (!method) {
+            logSecurityEvent('MFA_VERIFICATION_FAILED', {
                 userId,
-                reason: 'Invalid current password',
+                reason: 'Invalid code',
+                attempts: challenge.attempts + 1,
             });
-            throw new Error('Current password is incorrect.');
+            await mfaChallengeService.recordFailedAttempt(challenge);
+            throw new Error('Invalid MFA code. Please try again.');
         }
 
-        // Validate new password
-        const passwordValidation = passwordValidator.validate(newPassword);
-        if (!passwordValidation.isValid) {
-            throw new Error(passwordValidation.errors.join('. '));
+        await mfaChallengeService.completeChallenge(challenge);
+
+        logSecurityEvent('MFA_VERIFIED', {
+            userId,
+            email: user.getEmail(),
+            method,
+        });
+
+        return await createAuthenticationResponse(user, context);
+    } catch (error) {
+        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 MFA verification error');
+        throw error;
+    }
+};
+
+/**
+ * Generate a fresh set of recovery codes, replacing any previous ones.
+ * Only hashes are stored; the plaintext codes are shown to the user once.
+ */
+const issueRecoveryCodes = async (userId: number): Promise<string[]> => {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => tokenGenerator.generateRecoveryCode());
+
+    await recoveryCodeDB.replaceRecoveryCodes({
+        userId,
+        codeHashes: codes.map((code) => tokenGenerator.hashToken(tokenGenerator.normalizeRecoveryCode(code))),
+    });
+
+    logSecurityEvent('MFA_RECOVERY_CODES_GENERATED', {
+        userId,
+    });
+
+    return codes;
+};
+
+/**
+ * Burn a recovery code entered instead of the normal MFA code.
+ * Returns false when the code is unknown or was already used.
+ */
+const redeemRecoveryCode = async (user: User, code: string): Promise<boolean> => {
+    const userId = user.getId()!;
+    const codeHash = tokenGenerator.hashToken(tokenGenerator.normalizeRecoveryCode(code));
+
+    const redeemed = await recoveryCodeDB.useRecoveryCode({ userId, codeHash });
+    if (!redeemed) {
+        return false;
+    }
+
+    const remaining = await recoveryCodeDB.countUnusedRecoveryCodes({ userId });
+
+    logSecurityEvent('MFA_RECOVERY_CODE_USED', {
+        userId,
+        email: user.getEmail(),
+        remaining,
+    });
+
+    if (remaining <= RECOVERY_CODES_LOW_THRESHOLD) {
+        emailService.sendRecoveryCodesLowEmail(user.getEmail(), user.getFirstName(), remaining)
+            .catch((err: any) => {
+                logger.error({ email: user.getEmail(), error: err instanceof Error ? err.message : 'Unknown error' }, '📧 Failed to send recovery codes low email');
+            });
+    }
+
+    return true;
+};
+
+/**
+ * REGENERATE RECOVERY CODES - Replace all recovery codes, e.g. after the user ran low
+ */
+const regenerateRecoveryCodes = async ({ userId }: { userId: number }): Promise<{ recoveryCodes: string[] }> => {
+    try {
+        const user = await getUserById({ id: userId });
+
+        if (!user.getMfaEnabled()) {
+            throw new Error('MFA is not enabled for this account.');
         }
 
-        // Check if new password contains email
-        if (passwordValidator.isPasswordContainsEmail(newPassword, user.getEmail())) {
-            throw new Error('New password must not contain your email address');
+        return {
+            recoveryCodes: await issueRecoveryCodes(userId),
+        };
+    } catch (error) {
+        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Regenerate recovery codes error');
+        throw error;
+    }
+};
+
+/**
+ * SEND MFA EMAIL FALLBACK - Email the pending login code to an authenticator app user
+ * Threat mitigated: Only sends a code for a login that already passed the password check
+ */
+const sendMFAEmailFallback = async ({ mfaChallengeId }: { mfaChallengeId: string }): Promise<{ message: string }> => {
+    let userId: number | undefined;
+
+    try {
+        const challenge = await mfaChallengeService.getChallenge({ challengeId: mfaChallengeId, purpose: 'LOGIN' });
+        userId = challenge.userId;
+        const user = await getUserById({ id: userId });
+
+        if (!user.getMfaMethods().includes('EMAIL') && user.hasTotpEnabled()) {
+            throw new Error('Email codes are not enabled for this account.');
+        }
+
+        const mfaCode = await mfaChallengeService.issueEmailCode(mfaChallengeId, challenge);
+
+        emailService.sendMFAEmail(user.getEmail(), mfaCode, user.getFirstName())
+            .catch((err: any) => {
+                logger.error({ email: user.getEmail(), error: err instanceof Error ? err.message : 'Unknown error' }, '📧 Failed to send MFA email');
+            });
+
+        logSecurityEvent('MFA_EMAIL_FALLBACK', {
+            userId,
+            email: user.getEmail(),
+        });
+
+        return {
+            message: 'MFA code sent to your email.',
+        };
+    } catch (error) {
+        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 MFA email fallback error');
+        throw error;
+    }
+};
+
+/**
+ * ENROLL TOTP - Start authenticator app enrollment
+ * Returns the shared secret and otpauth:// URI; MFA is only switched on after confirmTotp
+ */
+const enrollTotp = async ({ userId }: { userId: number }): Promise<{ secret: string; otpauthUri: string }> => {
+    try {
+        const user = await getUserById({ id: userId });
+
+        if (user.hasTotpEnabled()) {
+            throw new Error('An authenticator app is already enabled for this account.');
         }
 
-        // Check if new password is same as current
-        const isSamePassword = await bcrypt.compare(newPassword, user.getPassword());
-        if (isSamePassword) {
-            throw new Error('New password must be different from current password.');
+        const secret = totp.generateSecret();
+        await userDB.setTotpSecret({ id: userId, secret: secretBox.encrypt(secret) });
+
+        logSecurityEvent('MFA_TOTP_ENROLLMENT_STARTED', {
+            userId,
+        });
+
+        return {
+            secret,
+            otpauthUri: totp.buildOtpAuthUri(secret, user.getEmail()),
+        };
+    } catch (error) {
+        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 TOTP enrollment error');
+        throw error;
+    }
+};
+
+/**
+ * CONFIRM TOTP - Finish enrollment by proving the authenticator app produces valid codes
+ */
+const confirmTotp = async ({
+    userId,
+    code,
+}: {
+    userId: number;
+    code: string;
+}): Promise<{ message: string; recoveryCodes: string[] }> => {
+    try {
+        const user = await getUserById({ id: userId });
+
+        const storedSecret = user.getTotpSecret();
+        if (!storedSecret || user.hasTotpEnabled()) {
+            throw new Error('No authenticator app enrollment in progress.');
         }
 
-        // Send MFA code for password change
-        const mfaCode = tokenGenerator.generateMFACode();
-        const mfaCodeExp = tokenGenerator.getExpirationTime(10); // 10 minutes
+        const step = totp.verify(code, readTotpSecret(storedSecret), TOTP_DRIFT_WINDOW);
+        if (step === null) {
+            logSecurityEvent('MFA_VERIFICATION_FAILED', {
+                userId,
+                reason: 'Invalid TOTP enrollment code',
+            });
+            throw new Error('Invalid authenticator code. Please try again.');
+        }
 
-        await userDB.setMFACode({
-            id: userId,
-            code: mfaCode,
-            expiresAt: mfaCodeExp,
+        await userDB.enableTotp({ id: userId, lastUsedStep: step });
+
+        logSecurityEvent('MFA_TOTP_ENABLED', {
+            userId,
+            email: user.getEmail(),
         });
 
-        // Send MFA email for password change (non-blocking - fire and forget)
-        emailService.sendMFAEmail(user.getEmail(), mfaCode, user.getFirstName())
+        emailService.sendMfaStatusChangedEmail(user.getEmail(), user.getFirstName(), true, 'an authenticator app')
+            .catch((err: any) => {
+                logger.error({ email: user.getEmail(), error: err instanceof Error ? err.message : 'Unknown error' }, '📧 Failed to send MFA status email');
+            });
+
+        return {
+            message: 'Authenticator app enabled. Store your recovery codes somewhere safe: each can be used once if you lose your device.',
+            recoveryCodes: await issueRecoveryCodes(userId),
+        };
+    } catch (error) {
+        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 TOTP confirmation error');
+        throw error;
+    }
+};
+
+/**
+ * Resolve a challenge started by a signed-in user; another user's challenge is treated as unknown
+ */
+const getOwnChallenge = async (userId: number, challengeId: string, purpose: MfaChallengePurpose): Promise<MfaChallenge> => {
+    const challenge = await mfaChallengeService.getChallenge({ challengeId, purpose });
+    if (challenge.userId !== userId) {
+        throw new Error('Invalid or expired MFA challenge. Please start again.');
+    }
+    return challenge;
+};
+
+/**
+ * MFA STATUS - Whether MFA is on, with which methods, and how many recovery codes are left
+ */
+const getMfaStatus = async ({ userId }: { userId: number }): Promise<MfaStatus> => {
+    try {
+        const user = await getUserById({ id: userId });
+
+        return {
+            mfaEnabled: user.getMfaEnabled(),
+            mfaMethods: user.getMfaMethods(),
+            recoveryCodesRemaining: user.getMfaEnabled() ? await recoveryCodeDB.countUnusedRecoveryCodes({ userId }) : 0,
+        };
+    } catch (error) {
+        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 MFA status error');
+        throw error;
+    }
+};
+
+/**
+ * ENABLE MFA - Start turning on MFA with emailed codes; a code is sent to confirm the mailbox works
+ * Threat mitigated: Locking the user out with a second factor they can't receive
+ */
+const startMfaEnable = async ({ userId }: { userId: number }): Promise<{ message: string; mfaChallengeId: string }> => {
+    try {
+        const user = await getUserById({ id: userId });
+
+        if (user.getMfaEnabled()) {
+            throw new Error('MFA is already enabled for this account.');
+        }
+
+        const { challengeId, code: mfaCode } = await mfaChallengeService.createChallenge({
+            userId,
+            purpose: 'ENABLE_MFA',
+            withEmailCode: true,
+        });
+
+        emailService.sendMFAEmail(user.getEmail(), mfaCode!, user.getFirstName())
             .catch((err: any) => {
-                logger.error({ email: user.getEmail(), error: err instanceof Error ? err.message : 'Unknown error' }, '📧 Failed to send MFA email for password change');
+                logger.error({ email: user.getEmail(), error: err instanceof Error ? err.message : 'Unknown error' }, '📧 Failed to send MFA email to enable MFA');
             });
 
-        logSecurityEvent('CHANGE_PASSWORD_MFA_INITIATED', {
+        logSecurityEvent('MFA_ENABLE_INITIATED', {
             userId,
             email: user.getEmail(),
         });
 
         return {
-            message: 'MFA code sent to your email. Please verify to complete password change.',
+            message: 'MFA code sent to your email. Enter it to turn on MFA.',
+            mfaChallengeId: challengeId,
         };
     } catch (error) {
-        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Change password error');
+        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Enable MFA error');
         throw error;
     }
 };
 
 /**
- * VERIFY CHANGE PASSWORD - Verify MFA and complete password change
+ * CONFIRM ENABLE MFA - Turn on MFA with the emailed code and issue recovery codes
  */
-const verifyChangePassword = async ({
+const confirmMfaEnable = async ({
     userId,
+    mfaChallengeId,
     mfaCode,
-    newPassword,
 }: {
     userId: number;
+    mfaChallengeId: string;
     mfaCode: string;
-    newPassword: string;
-}): Promise<{ message: string }> => {
+}): Promise<{ message: string; recoveryCodes: string[] }> => {
     try {
         const user = await getUserById({ id: userId });
+        const challenge = await getOwnChallenge(userId, mfaChallengeId, 'ENABLE_MFA');
 
-        const storedMfaCode = user.getMfaCode();
-        if (!storedMfaCode) {
-            throw new Error('MFA code not found. Please initiate password change again.');
+        await mfaChallengeService.reserveAttempt(challenge);
+        if (!mfaChallengeService.isEmailCodeValid(mfaChallengeId, challenge, mfaCode)) {
+            logSecurityEvent('MFA_VERIFICATION_FAILED', {
+                userId,
+                reason: 'Invalid code to enable MFA',
+                attempts: challenge.attempts + 1,
+            });
+            await mfaChallengeService.recordFailedAttempt(challenge);
+            throw new Error('Invalid MFA code. Please try again.');
         }
 
-        // Check if MFA code has expired
-        if (tokenGenerator.isTokenExpired(user.getMfaCodeExp())) {
-            await userDB.clearMFACode({ id: userId });
-            throw new Error('MFA code has expired. Please initiate password change again.');
-        }
+        await mfaChallengeService.completeChallenge(challenge);
 
-        // Verify MFA code
-        if (storedMfaCode !== mfaCode) {
-            throw new Error('Invalid MFA code. Please try again.');
+        if (user.getMfaEnabled()) {
+            throw new Error('MFA is already enabled for this account.');
         }
 
-        // Validate new password
-        const passwordValidation = passwordValidator.validate(newPassword);
-        if (!passwordValidation.isValid) {
-            throw new Error(passwordValidation.errors.join('. '));
+        await userDB.enableEmailMfa({ id: userId });
+
+        logSecurityEvent('MFA_ENABLED', {
+            userId,
+            email: user.getEmail(),
+            mfaMethods: ['EMAIL'],
+        });
+
+        emailService.sendMfaStatusChangedEmail(user.getEmail(), user.getFirstName(), true, 'codes sent by email')
+            .catch((err: any) => {
+                logger.error({ email: user.getEmail(), error: err instanceof Error ? err.message : 'Unknown error' }, '📧 Failed to send MFA status email');
+            });
+
+        return {
+            message: 'MFA enabled. Store your recovery codes somewhere safe: each can be used once if you cannot receive your codes.',
+            recoveryCodes: await issueRecoveryCodes(userId),
+        };
+    } catch (error) {
+        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Confirm enable MFA error');
+        throw error;
+    }
+};
+
+/**
+ * DISABLE MFA - Turn off MFA; the authenticator app and recovery codes are forgotten
+ * Threat mitigated: An attacker with a stolen session removing the second factor; the route requires a step-up
+ */
+const disableMfa = async ({ userId }: { userId: number }): Promise<{ message: string }> => {
+    try {
+        const user = await getUserById({ id: userId });
+
+        if (!user.getMfaEnabled()) {
+            throw new Error('MFA is not enabled for this account.');
         }
 
-        // Update password and clear MFA code
-        await userDB.updatePassword({ id: userId, password: newPassword });
+        await userDB.disableMfa({ id: userId });
 
-        logSecurityEvent('PASSWORD_CHANGED', {
+        logSecurityEvent('MFA_DISABLED', {
             userId,
             email: user.getEmail(),
+            mfaMethods: user.getMfaMethods(),
         });
 
+        emailService.sendMfaStatusChangedEmail(user.getEmail(), user.getFirstName(), false)
+            .catch((err: any) => {
+                logger.error({ email: user.getEmail(), error: err instanceof Error ? err.message : 'Unknown error' }, '📧 Failed to send MFA status email');
+            });
+
         return {
-            message: 'Password changed successfully.',
+            message: 'MFA disabled.',
         };
     } catch (error) {
-        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Verify change password error');
+        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Disable MFA error');
         throw error;
     }
 };
 
 /**
- * REMEMBER ME - Create a remember me token for persistent login
- * Threat mitigated: Secure token generation, proper expiration, can be revoked
+ * STEP-UP - Start re-authenticating before a sensitive operation: check the password, then ask
+ * for a second-factor code (authenticator app, or a code sent by email)
+ * Threat mitigated: A stolen session or unattended browser being enough to take over the account
  */
-const createRememberMeToken = async ({ userId }: { userId: number }): Promise<{ rememberMeToken: string }> => {
+const startStepUp = async ({
+    userId,
+    currentPassword,
+}: {
+    userId: number;
+    currentPassword: string;
+}): Promise<{ message: string; mfaChallengeId: string; mfaMethods: MfaMethod[] }> => {
     try {
         const user = await getUserById({ id: userId });
 
-        const token = tokenGenerator.generateRememberMeToken();
-        const expiresAt = tokenGenerator.getExpirationTime(30 * 24 * 60); // 30 days
+        if (!currentPassword || !(await passwordHasher.verify(currentPassword, user.getPassword()))) {
+            logSecurityEvent('STEP_UP_FAILED', {
+                userId,
+                reason: 'Invalid current password',
+            });
+            throw new Error('Current password is incorrect.');
+        }
 
-        await userDB.createRememberMeToken({
+        // Authenticator app users confirm with a code from the app (or a recovery code)
+        const { challengeId, code: mfaCode } = await mfaChallengeService.createChallenge({
             userId,
-            token,
-            expiresAt,
+            purpose: 'STEP_UP',
+            withEmailCode: !user.hasTotpEnabled(),
         });
 
-        logSecurityEvent('REMEMBER_ME_TOKEN_CREATED', {
+        if (mfaCode) {
+            emailService.sendMFAEmail(user.getEmail(), mfaCode, user.getFirstName())
+                .catch((err: any) => {
+                    logger.error({ email: user.getEmail(), error: err instanceof Error ? err.message : 'Unknown error' }, '📧 Failed to send MFA email for step-up');
+                });
+        }
+
+        const mfaMethods: MfaMethod[] = user.hasTotpEnabled() ? ['TOTP'] : ['EMAIL'];
+
+        logSecurityEvent('STEP_UP_INITIATED', {
             userId,
+            email: user.getEmail(),
+            mfaMethods,
         });
 
         return {
-            rememberMeToken: token,
+            message: mfaCode
+                ? 'MFA code sent to your email. Enter it to confirm your identity.'
+                : 'Enter a code from your authenticator app to confirm your identity.',
+            mfaChallengeId: challengeId,
+            mfaMethods,
         };
     } catch (error) {
-        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Create remember me token error');
+        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Step-up error');
         throw error;
     }
 };
 
 /**
- * VERIFY REMEMBER ME TOKEN - Validate and use remember me token
+ * VERIFY STEP-UP - Check the second-factor code and return an access token for the same session
+ * carrying a short-lived step-up claim, which sensitive routes require (see requireStepUp)
+ */
+const verifyStepUp = async ({
+    userId,
+    sessionId,
+    mfaChallengeId,
+    mfaCode,
+}: {
+    userId: number;
+    sessionId: number;
+    mfaChallengeId: string;
+    mfaCode: string;
+}): Promise<AuthenticationResponse & { stepUpUntil: Date }> => {
+    try {
+        const user = await getUserById({ id: userId });
+        const challenge = await getOwnChallenge(userId, mfaChallengeId, 'STEP_UP');
+
+        await mfaChallengeService.reserveAttempt(challenge);
+        const method = await verifySecondFactor(user, mfaChallengeId, challenge, mfaCode);
+        if (!method) {
+            logSecurityEvent('STEP_UP_FAILED', {
+                userId,
+                reason: 'Invalid code',
+                attempts: challenge.attempts + 1,
+            });
+            await mfaChallengeService.recordFailedAttempt(challenge);
+            throw new Error('Invalid MFA code. Please try again.');
+        }
+
+        await mfaChallengeService.completeChallenge(challenge);
+
+        const session = await sessionDB.getSessionById({ id: sessionId });
+        if (!session || session.getUserId() !== userId) {
+            throw new Error('Session has been logged out.');
+        }
+
+        const stepUpUntil = new Date(Date.now() + STEP_UP_MINUTES * 60 * 1000);
+
+        logSecurityEvent('STEP_UP_COMPLETED', {
+            userId,
+            sessionId,
+            method,
+            stepUpUntil,
+        });
+
+        return {
+            ...(await buildAuthenticationResponse(user, session, stepUpUntil)),
+            stepUpUntil,
+        };
+    } catch (error) {
+        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Verify step-up error');
+        throw error;
+    }
+};
+
+/**
+ * FORGOT PASSWORD - Initiate password reset process
+ * Threat mitigated: Rate limiting, secure token generation, time-limited reset links
+ */
+const forgotPassword = async ({ email }: { email: string }): Promise<{ message: string }> => {
+    try {
+        const user = await getUserByEmail({ email });
+
+        // Generate password reset token (valid for 1 hour)
+        const resetToken = tokenGenerator.generateSecureToken();
+        const resetTokenExp = tokenGenerator.getExpirationTime(60); // 1 hour
+
+        // Store reset token
+        await userDB.setPasswordResetToken({
+            id: user.getId()!,
+            token: resetToken,
+            expiresAt: resetTokenExp,
+        });
+
+        // Send password reset email (non-blocking - fire and forget)
+        emailService.sendPasswordResetEmail(email, resetToken, user.getFirstName())
+            .catch((err: any) => {
+                logger.error({ email, error: err instanceof Error ? err.message : 'Unknown error' }, '📧 Failed to send password reset email');
+            });
+
+        logSecurityEvent('PASSWORD_RESET_REQUESTED', {
+            userId: user.getId(),
+            email,
+        });
+
+        return {
+            message: 'Password reset link sent to your email. Please check your inbox.',
+        };
+    } catch (error) {
+        logger.error({ error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Forgot password error');
+        // Don't leak if email exists or not
+        return {
+            message: 'If an account exists with that email, you will receive a password reset link.',
+        };
+    }
+};
+
+/**
+ * RESET PASSWORD - Complete password reset with token verification
+ * Threat mitigated: Secure token validation, password policy enforcement
  */
-const verifyRememberMeToken = async ({ token }: { token: string }): Promise<AuthenticationResponse> => {
+const resetPassword = async ({
+    token,
+    newPassword,
+}: {
+    token: string;
+    newPassword: string;
+}): Promise<{ message: string }> => {
     try {
-        const rememberMeToken = await userDB.getRememberMeToken({ token });
-        if (!rememberMeToken) {
-            throw new Error('Invalid remember me token.');
+        const user = await userDB.getUserByPasswordResetToken({ token });
+        if (!user) {
+            throw new Error('Invalid or expired password reset token.');
         }
 
         // Check if token has expired
-        if (new Date() > new Date(rememberMeToken.expiresAt)) {
-            await userDB.deleteRememberMeToken({ token });
-            throw new Error('Remember me token has expired.');
+        if (tokenGenerator.isTokenExpired(user.getPasswordResetTokenExp())) {
+            throw new Error('Password reset token has expired. Please request a new one.');
+        }
+
+        // Check if new password contains email
+        if (passwordValidator.isPasswordContainsEmail(newPassword, user.getEmail())) {
+            throw new Error('New password must not contain your email address');
         }
 
-        const user = await getUserById({ id: rememberMeToken.userId });
+        // Validate new password against the policy for the user's role
+        await assertPasswordAllowed(user, newPassword);
+
+        await assertPasswordNotReused(user, newPassword);
+
+        // Update password
+        await userDB.updatePassword({
+            id: user.getId()!,
+            password: newPassword,
+            historySize: getPasswordPolicy(getPasswordPolicyProfileForRole(user.getRole())).historySize - 1,
+        });
 
-        logSecurityEvent('REMEMBER_ME_LOGIN', {
+        logSecurityEvent('PASSWORD_RESET', {
             userId: user.getId(),
             email: user.getEmail(),
         });
 
         return {
-            token: generateJwtToken({ userId: user.getId()!, email: user.getEmail(), isOrganiser: user.getIsOrganiser() }),
-            id: user.getId()!,
-            firstName: user.getFirstName(),
-            lastName: user.getLastName(),
-            role: user.getIsOrganiser() ? 'ORGANISER' : 'CLIENT',
+            message: 'Password reset successfully. You can now log in with your new password.',
         };
     } catch (error) {
-        logger.error({ error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Verify remember me token error');
+        logger.error({ error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Reset password error');
         throw error;
     }
 };
 
 /**
- * LOGOUT - Revoke all remember me tokens for complete logout
+ * UNLOCK ACCOUNT - Lift a lockout with the link emailed when the account was locked
+ * Threat mitigated: Attackers locking the owner out of a known email address; owning the mailbox is enough to get back in
  */
-const logout = async ({ userId }: { userId: number }): Promise<void> => {
+const unlockAccount = async ({ token }: { token: string }): Promise<{ message: string }> => {
     try {
-        await userDB.deleteAllRememberMeTokens({ userId });
-        logSecurityEvent('LOGOUT_ALL_SESSIONS', {
+        const user = await userDB.getUserByUnlockToken({ token });
+        if (!user) {
+            throw new Error('Invalid or expired unlock link.');
+        }
+
+        if (tokenGenerator.isTokenExpired(user.getUnlockTokenExp())) {
+            throw new Error('Unlock link has expired. Log in again after the lockout ends, or reset your password.');
+        }
+
+        await userDB.resetFailedLoginAttempts({ id: user.getId()! });
+
+        logSecurityEvent('ACCOUNT_UNLOCKED', {
+            userId: user.getId(),
+            email: user.getEmail(),
+        });
+
+        return {
+            message: 'Your account has been unlocked. You can now log in.',
+        };
+    } catch (error) {
+        logger.error({ error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Unlock account error');
+        throw error;
+    }
+};
+
+/**
+ * CHANGE PASSWORD - Change password while logged in
+ * Threat mitigated: A stolen session changing the password; the route requires a step-up
+ */
+const changePassword = async ({
+    userId,
+    newPassword,
+}: {
+    userId: number;
+    newPassword: string;
+}): Promise<{ message: string }> => {
+    try {
+        const user = await getUserById({ id: userId });
+
+        // Check if new password contains email
+        if (passwordValidator.isPasswordContainsEmail(newPassword, user.getEmail())) {
+            throw new Error('New password must not contain your email address');
+        }
+
+        // Validate new password against the policy for the user's role
+        await assertPasswordAllowed(user, newPassword);
+
+        // Check the new password isn't the current or a recently used one
+        await assertPasswordNotReused(user, newPassword);
+
+        // Update password
+        await userDB.updatePassword({
+            id: userId,
+            password: newPassword,
+            historySize: getPasswordPolicy(getPasswordPolicyProfileForRole(user.getRole())).historySize - 1,
+        });
+
+        logSecurityEvent('PASSWORD_CHANGED', {
             userId,
+            email: user.getEmail(),
         });
+
+        return {
+            message: 'Password changed successfully.',
+        };
+    } catch (error) {
+        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Change password error');
+        throw error;
+    }
+};
+
+/**
+ * REFRESH - Exchange a refresh token for a new access token and a new refresh token
+ * Threat mitigated: Stolen refresh tokens. Each token works once; presenting an already
+ * used token means two parties hold the session, so the whole session is revoked.
+ */
+const refreshAccessToken = async ({ refreshToken }: { refreshToken: string }): Promise<AuthenticationResponse> => {
+    const INVALID_REFRESH_TOKEN = 'Invalid refresh token. Please log in again.';
+
+    try {
+        if (!refreshToken) {
+            throw new Error(INVALID_REFRESH_TOKEN);
+        }
+
+        const storedToken = await refreshTokenDB.getRefreshTokenByHash({
+            tokenHash: tokenGenerator.hashToken(refreshToken),
+        });
+        if (!storedToken || storedToken.revokedAt) {
+            throw new Error(INVALID_REFRESH_TOKEN);
+        }
+
+        const session = Session.from(storedToken.session);
+        if (tokenGenerator.isTokenExpired(storedToken.expiresAt) || !session.isActive()) {
+            throw new Error('Your session has expired. Please log in again.');
+        }
+
+        const claimed = !storedToken.usedAt && (await refreshTokenDB.markRefreshTokenUsed({ id: storedToken.id }));
+        if (!claimed) {
+            logSecurityEvent('REFRESH_TOKEN_REUSE_DETECTED', {
+                userId: storedToken.userId,
+                sessionId: session.getId(),
+                reason: 'Refresh token replayed, session revoked',
+            });
+            await sessionService.revokeSession({
+                userId: storedToken.userId,
+                sessionId: session.getId()!,
+                reason: 'Refresh token reuse',
+            });
+            throw new Error(INVALID_REFRESH_TOKEN);
+        }
+
+        const user = await getUserById({ id: storedToken.userId });
+        const newRefreshToken = await issueRefreshToken(session);
+
+        logSecurityEvent('TOKEN_REFRESHED', {
+            userId: user.getId(),
+            sessionId: session.getId(),
+        });
+
+        return {
+            ...(await buildAuthenticationResponse(user, session)),
+            refreshToken: newRefreshToken,
+        };
+    } catch (error) {
+        logger.error({ error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Refresh token error');
+        throw error;
+    }
+};
+
+/**
+ * LOGOUT - Revoke the current access token and end the session it belongs to
+ * Threat mitigated: A stolen access token stops working immediately instead of at expiry
+ */
+const logout = async ({
+    userId,
+    sessionId,
+    jti,
+    exp,
+}: {
+    userId: number;
+    sessionId?: number;
+    jti?: string;
+    exp?: number;
+}): Promise<void> => {
+    try {
+        if (jti && exp) {
+            await tokenBlacklist.revoke(jti, exp);
+        }
+        if (sessionId) {
+            await sessionService.revokeSession({ userId, sessionId, reason: 'Logout' });
+        }
     } catch (error) {
         logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 Logout error');
         throw error;
@@ -672,16 +1487,29 @@ const logout = async ({ userId }: { userId: number }): Promise<void> => {
 export default {
     getUserByEmail,
     getUserById,
+    createAuthenticationResponse,
+    getPasswordPolicyRules,
     signup,
     verifyEmail,
     resendVerificationEmail,
     authenticate,
+    requestMagicLink,
+    loginWithMagicLink,
     verifyMFA,
+    sendMFAEmailFallback,
+    enrollTotp,
+    confirmTotp,
+    regenerateRecoveryCodes,
+    getMfaStatus,
+    startMfaEnable,
+    confirmMfaEnable,
+    disableMfa,
+    startStepUp,
+    verifyStepUp,
     forgotPassword,
     resetPassword,
+    unlockAccount,
     changePassword,
-    verifyChangePassword,
-    createRememberMeToken,
-    verifyRememberMeToken,
+    refreshAccessToken,
     logout,
 };
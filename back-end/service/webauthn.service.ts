@@ -0,0 +1,374 @@
+import {
+    AuthenticationResponseJSON,
+    AuthenticatorTransportFuture,
+    PublicKeyCredentialCreationOptionsJSON,
+    PublicKeyCredentialRequestOptionsJSON,
+    RegistrationResponseJSON,
+    VerifiedAuthenticationResponse,
+    VerifiedRegistrationResponse,
+    generateAuthenticationOptions,
+    generateRegistrationOptions,
+    verifyAuthenticationResponse,
+    verifyRegistrationResponse,
+} from '@simplewebauthn/server';
+import { WebAuthnCeremony } from '@prisma/client';
+import userDB from '../repository/user.db';
+import webauthnDB from '../repository/webauthn.db';
+import webauthnChallengeDB from '../repository/webauthnChallenge.db';
+import { AuthenticationResponse, SessionContext } from '../types';
+import { logger, logSecurityEvent } from '../util/logger';
+import tokenGenerator from '../util/token.generator';
+import userService from './user.service';
+
+const CHALLENGE_MINUTES = 5;
+
+// Options are returned with the opaque id the client sends back with the authenticator's response
+type WithChallengeId<T> = T & { challengeId: string };
+
+// Relying party configuration: the RP ID is the domain the passkeys are bound to
+const getRelyingParty = () => ({
+    rpID: process.env.WEBAUTHN_RP_ID || 'localhost',
+    rpName: process.env.WEBAUTHN_RP_NAME || 'Travel Booking',
+    origin: process.env.WEBAUTHN_ORIGIN || process.env.FRONTEND_URL || 'http://localhost:8200',
+});
+
+/**
+ * Store the challenge of a new ceremony and return the opaque id that refers to it.
+ * Every ceremony gets its own row, so starting a login can't break a pending registration.
+ */
+const storeChallenge = async ({
+    userId,
+    ceremony,
+    challenge,
+}: {
+    userId: number;
+    ceremony: WebAuthnCeremony;
+    challenge: string;
+}): Promise<string> => {
+    const challengeId = tokenGenerator.generateSecureToken();
+    await webauthnChallengeDB.createChallenge({
+        challengeIdHash: tokenGenerator.hashToken(challengeId),
+        userId,
+        ceremony,
+        challenge,
+        expiresAt: tokenGenerator.getExpirationTime(CHALLENGE_MINUTES),
+    });
+    return challengeId;
+};
+
+/**
+ * Use up a challenge. Returns the expected challenge only when it belongs to this user
+ * and ceremony and hasn't expired; it is deleted whatever the outcome.
+ */
+const consumeChallenge = async ({
+    challengeId,
+    userId,
+    ceremony,
+}: {
+    challengeId: string;
+    userId: number;
+    ceremony: WebAuthnCeremony;
+}): Promise<string | null> => {
+    if (!challengeId || typeof challengeId !== 'string') return null;
+
+    const stored = await webauthnChallengeDB.consumeChallenge({
+        challengeIdHash: tokenGenerator.hashToken(challengeId),
+    });
+    if (!stored || stored.userId !== userId || stored.ceremony !== ceremony) return null;
+    if (tokenGenerator.isTokenExpired(stored.expiresAt)) return null;
+
+    return stored.challenge;
+};
+
+/**
+ * REGISTRATION OPTIONS - Start adding a passkey to the logged in account
+ */
+const getRegistrationOptions = async ({
+    userId,
+}: {
+    userId: number;
+}): Promise<WithChallengeId<PublicKeyCredentialCreationOptionsJSON>> => {
+    try {
+        const user = await userService.getUserById({ id: userId });
+        const { rpID, rpName } = getRelyingParty();
+
+        const existingCredentials = await webauthnDB.getCredentialsByUserId({ userId });
+
+        const options = await generateRegistrationOptions({
+            rpName,
+            rpID,
+            userName: user.getEmail(),
+            userID: new TextEncoder().encode(String(userId)),
+            userDisplayName: user.getFullName(),
+            attestationType: 'none',
+            // Don't let the same authenticator be registered twice
+            excludeCredentials: existingCredentials.map((credential) => ({
+                id: credential.credentialId,
+                transports: credential.transports as AuthenticatorTransportFuture[],
+            })),
+            authenticatorSelection: {
+                residentKey: 'preferred',
+                userVerification: 'required',
+            },
+        });
+
+        const challengeId = await storeChallenge({
+            userId,
+            ceremony: WebAuthnCeremony.REGISTRATION,
+            challenge: options.challenge,
+        });
+
+        return { ...options, challengeId };
+    } catch (error) {
+        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 WebAuthn registration options error');
+        throw error;
+    }
+};
+
+/**
+ * VERIFY REGISTRATION - Store the passkey once the authenticator's attestation checks out
+ * Threat mitigated: Challenge binding prevents replay, origin/RP ID checks prevent phishing
+ */
+const verifyRegistration = async ({
+    userId,
+    challengeId,
+    response,
+}: {
+    userId: number;
+    challengeId: string;
+    response: RegistrationResponseJSON;
+}): Promise<{ message: string }> => {
+    try {
+        const user = await userService.getUserById({ id: userId });
+        const { rpID, origin } = getRelyingParty();
+
+        const expectedChallenge = await consumeChallenge({
+            challengeId,
+            userId,
+            ceremony: WebAuthnCeremony.REGISTRATION,
+        });
+        if (!expectedChallenge) {
+            throw new Error('Passkey registration has expired. Please try again.');
+        }
+
+        let verification: VerifiedRegistrationResponse | null = null;
+        try {
+            verification = await verifyRegistrationResponse({
+                response,
+                expectedChallenge,
+                expectedOrigin: origin,
+                expectedRPID: rpID,
+                requireUserVerification: true,
+            });
+        } catch (error) {
+            logger.warn({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 WebAuthn registration rejected');
+        }
+
+        if (!verification?.verified) {
+            logSecurityEvent('WEBAUTHN_REGISTRATION_FAILED', {
+                userId,
+                reason: 'Attestation verification failed',
+            });
+            throw new Error('Passkey registration could not be verified.');
+        }
+
+        const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+
+        await webauthnDB.createCredential({
+            userId,
+            credentialId: credential.id,
+            publicKey: credential.publicKey,
+            counter: credential.counter,
+            transports: credential.transports ?? [],
+            deviceType: credentialDeviceType,
+            backedUp: credentialBackedUp,
+        });
+
+        logSecurityEvent('WEBAUTHN_CREDENTIAL_REGISTERED', {
+            userId,
+            email: user.getEmail(),
+            deviceType: credentialDeviceType,
+        });
+
+        return {
+            message: 'Passkey registered successfully. You can now use it to log in.',
+        };
+    } catch (error) {
+        logger.error({ userId, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 WebAuthn registration error');
+        throw error;
+    }
+};
+
+/**
+ * AUTHENTICATION OPTIONS - Start a passwordless login
+ * Unknown emails get a challenge id too, but allowCredentials lists the passkeys of an existing
+ * account, so the response does show which emails have passkeys. The login limiter slows down
+ * enumeration through this route.
+ */
+const getAuthenticationOptions = async ({
+    email,
+}: {
+    email: string;
+}): Promise<WithChallengeId<PublicKeyCredentialRequestOptionsJSON>> => {
+    try {
+        const { rpID } = getRelyingParty();
+        const user = await userDB.getUserByEmail({ email });
+        const credentials = user ? await webauthnDB.getCredentialsByUserId({ userId: user.getId()! }) : [];
+
+        const options = await generateAuthenticationOptions({
+            rpID,
+            allowCredentials: credentials.map((credential) => ({
+                id: credential.credentialId,
+                transports: credential.transports as AuthenticatorTransportFuture[],
+            })),
+            userVerification: 'required',
+        });
+
+        // Nothing is stored for unknown emails, the id just can't be used to log in
+        const challengeId = user
+            ? await storeChallenge({
+                  userId: user.getId()!,
+                  ceremony: WebAuthnCeremony.AUTHENTICATION,
+                  challenge: options.challenge,
+              })
+            : tokenGenerator.generateSecureToken();
+
+        return { ...options, challengeId };
+    } catch (error) {
+        logger.error({ email, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 WebAuthn authentication options error');
+        throw error;
+    }
+};
+
+/**
+ * VERIFY AUTHENTICATION - Passwordless login with a passkey
+ * A user-verifying passkey is possession plus PIN/biometric, so no extra MFA step is needed.
+ * Threat mitigated: Phishing-resistant login, sign counter detects cloned authenticators
+ */
+const verifyAuthentication = async ({
+    email,
+    challengeId,
+    response,
+    context = {},
+}: {
+    email: string;
+    challengeId: string;
+    response: AuthenticationResponseJSON;
+    context?: SessionContext;
+}): Promise<AuthenticationResponse> => {
+    const INVALID_PASSKEY = 'Passkey login failed.';
+
+    try {
+        const { rpID, origin } = getRelyingParty();
+
+        const user = await userDB.getUserByEmail({ email });
+        if (!user) {
+            logSecurityEvent('LOGIN_FAILED', { email, reason: 'No such user', method: 'WEBAUTHN' });
+            throw new Error(INVALID_PASSKEY);
+        }
+
+        const expectedChallenge = await consumeChallenge({
+            challengeId,
+            userId: user.getId()!,
+            ceremony: WebAuthnCeremony.AUTHENTICATION,
+        });
+        if (!expectedChallenge) {
+            throw new Error('Passkey login has expired. Please try again.');
+        }
+
+        const credential = await webauthnDB.getCredentialByCredentialId({ credentialId: response?.id });
+        if (!credential || credential.userId !== user.getId()) {
+            logSecurityEvent('LOGIN_FAILED', {
+                userId: user.getId(),
+                email,
+                reason: 'Unknown passkey',
+                method: 'WEBAUTHN',
+            });
+            throw new Error(INVALID_PASSKEY);
+        }
+
+        if (!user.getEmailVerified()) {
+            logSecurityEvent('LOGIN_FAILED', {
+                userId: user.getId(),
+                email,
+                reason: 'Email not verified',
+                method: 'WEBAUTHN',
+            });
+            throw new Error('Please verify your email before logging in. Check your inbox for the verification link.');
+        }
+
+        if (user.isDisabled()) {
+            logSecurityEvent('LOGIN_FAILED', {
+                userId: user.getId(),
+                email,
+                reason: 'Account disabled',
+                method: 'WEBAUTHN',
+            });
+            throw new Error('This account has been disabled. Please contact support.');
+        }
+
+        if (user.isAccountLocked()) {
+            logSecurityEvent('LOGIN_FAILED', {
+                userId: user.getId(),
+                email,
+                reason: 'Account locked',
+                method: 'WEBAUTHN',
+            });
+            throw new Error('Account is locked. Please try again later.');
+        }
+
+        let verification: VerifiedAuthenticationResponse | null = null;
+        try {
+            verification = await verifyAuthenticationResponse({
+                response,
+                expectedChallenge,
+                expectedOrigin: origin,
+                expectedRPID: rpID,
+                credential: {
+                    id: credential.credentialId,
+                    publicKey: new Uint8Array(credential.publicKey),
+                    counter: credential.counter,
+                    transports: credential.transports as AuthenticatorTransportFuture[],
+                },
+                requireUserVerification: true,
+            });
+        } catch (error) {
+            // Also thrown when the sign counter went backwards (possible cloned authenticator)
+            logger.warn({ userId: user.getId(), error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 WebAuthn assertion rejected');
+        }
+
+        if (!verification?.verified) {
+            logSecurityEvent('LOGIN_FAILED', {
+                userId: user.getId(),
+                email,
+                reason: 'Invalid passkey assertion',
+                method: 'WEBAUTHN',
+            });
+            throw new Error(INVALID_PASSKEY);
+        }
+
+        await webauthnDB.updateCredentialCounter({
+            id: credential.id,
+            counter: verification.authenticationInfo.newCounter,
+        });
+
+        logSecurityEvent('LOGIN', {
+            userId: user.getId(),
+            email,
+            role: user.getRole().getName(),
+            method: 'WEBAUTHN',
+        });
+
+        return await userService.createAuthenticationResponse(user, context);
+    } catch (error) {
+        logger.error({ email, error: error instanceof Error ? error.message : 'Unknown error' }, '🔐 WebAuthn authentication error');
+        throw error;
+    }
+};
+
+export default {
+    getRegistrationOptions,
+    verifyRegistration,
+    getAuthenticationOptions,
+    verifyAuthentication,
+};
@@ -0,0 +1,68 @@
+import { Role as RolePrisma, User as UserPrisma } from '@prisma/client';
+import { SYSTEM_ROLES } from '../../model/role';
+import { User } from '../../model/user';
+
+type SystemRoleName = keyof typeof SYSTEM_ROLES;
+
+type UserPrismaWithRole = UserPrisma & { role: RolePrisma };
+
+const SYSTEM_ROLE_IDS: Record<SystemRoleName, number> = { ADMIN: 1, ORGANISER: 2, CLIENT: 3 };
+
+/**
+ * A system role as Prisma returns it
+ */
+const buildRolePrisma = (name: SystemRoleName, overrides: Partial<RolePrisma> = {}): RolePrisma => ({
+    id: SYSTEM_ROLE_IDS[name],
+    name,
+    description: null,
+    permissions: [...SYSTEM_ROLES[name]],
+    isSystem: true,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides,
+});
+
+/**
+ * A user row with its role, as the repositories get it from Prisma: a verified client
+ * without MFA, a lockout or pending tokens. Tests override the fields they are about.
+ */
+const buildUserPrisma = (overrides: Partial<UserPrismaWithRole> = {}): UserPrismaWithRole => {
+    const role = overrides.role ?? buildRolePrisma('CLIENT');
+    return {
+        id: 1,
+        firstName: 'John',
+        lastName: 'Doe',
+        email: 'john@example.com',
+        password: 'Hashed-Password-123!',
+        createdAt: new Date('2024-01-01T00:00:00Z'),
+        updatedAt: new Date('2024-01-01T00:00:00Z'),
+        emailVerified: true,
+        emailVerificationTokenHash: null,
+        emailVerificationTokenExp: null,
+        passwordResetTokenHash: null,
+        passwordResetTokenExp: null,
+        passwordResetRequired: false,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        lastFailedLoginAt: null,
+        lockoutCount: 0,
+        unlockTokenHash: null,
+        unlockTokenExp: null,
+        magicLinkTokenHash: null,
+        magicLinkTokenExp: null,
+        disabledAt: null,
+        deletionScheduledAt: null,
+        deletedAt: null,
+        mfaEnabled: false,
+        mfaMethods: [],
+        totpSecret: null,
+        totpLastUsedStep: null,
+        ...overrides,
+        role,
+        roleId: role.id,
+    };
+};
+
+const buildUser = (overrides: Partial<UserPrismaWithRole> = {}): User => User.from(buildUserPrisma(overrides));
+
+export { UserPrismaWithRole, buildRolePrisma, buildUserPrisma, buildUser };
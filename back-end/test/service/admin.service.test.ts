@@ -0,0 +1,146 @@
+import adminService from '../../service/admin.service';
+import userDB from '../../repository/user.db';
+import eventDB from '../../repository/event.db';
+import tripDB from '../../repository/trip.db';
+import roleDB from '../../repository/role.db';
+import sessionDB from '../../repository/session.db';
+import refreshTokenDB from '../../repository/refreshToken.db';
+import emailService from '../../util/email.service';
+import jwtKeyring, { InMemorySigningKeyStore } from '../../util/jwt.keyring';
+import jwt from 'jsonwebtoken';
+import { Role } from '../../model/role';
+import { buildRolePrisma, buildUser, UserPrismaWithRole } from '../fixtures/user.fixture';
+
+jest.mock('../../repository/user.db');
+jest.mock('../../repository/event.db');
+jest.mock('../../repository/trip.db');
+jest.mock('../../repository/role.db');
+jest.mock('../../repository/session.db');
+jest.mock('../../repository/refreshToken.db');
+jest.mock('../../util/email.service');
+
+describe('Admin Service', () => {
+    const organiserRole = Role.from(buildRolePrisma('ORGANISER'));
+
+    // The user the administrator acts on
+    const buildTargetUser = (overrides: Partial<UserPrismaWithRole> = {}) =>
+        buildUser({ id: 5, firstName: 'Jan', lastName: 'Peeters', email: 'jan@example.com', ...overrides });
+
+    beforeAll(() => {
+        process.env.DATA_ENCRYPTION_KEY = '0123456789abcdef'.repeat(4);
+        jwtKeyring.useStore(new InMemorySigningKeyStore());
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (emailService.sendPasswordResetEmail as jest.Mock).mockResolvedValue(undefined);
+        (eventDB.countEventsByOrganiserId as jest.Mock).mockResolvedValue(0);
+        (tripDB.countTripsByOrganiserId as jest.Mock).mockResolvedValue(0);
+    });
+
+    it('should report account status without secrets', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(
+            buildTargetUser({
+                failedLoginAttempts: 5,
+                lockedUntil: new Date(Date.now() + 60 * 1000),
+                totpSecret: 'encrypted-totp-secret',
+            })
+        );
+
+        const status = await adminService.getUserStatus({ adminId: 1, userId: 5 });
+
+        expect(status).toMatchObject({ id: 5, role: 'CLIENT', locked: true, failedLoginAttempts: 5 });
+        expect(JSON.stringify(status)).not.toContain('encrypted-totp-secret');
+        expect(status).not.toHaveProperty('password');
+    });
+
+    it('should log the user out everywhere when disabling an account', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildTargetUser());
+        (userDB.setDisabledAt as jest.Mock).mockResolvedValue(buildTargetUser({ disabledAt: new Date() }));
+        (sessionDB.revokeSessionsForUser as jest.Mock).mockResolvedValue(2);
+
+        const status = await adminService.disableUser({ adminId: 1, userId: 5 });
+
+        expect(status.disabledAt).not.toBeNull();
+        expect(sessionDB.revokeSessionsForUser).toHaveBeenCalledWith({ userId: 5 });
+        expect(refreshTokenDB.revokeRefreshTokensForUser).toHaveBeenCalledWith({ userId: 5 });
+    });
+
+    it('should not let an admin disable their own account', async () => {
+        await expect(adminService.disableUser({ adminId: 1, userId: 1 })).rejects.toThrow(
+            'You cannot disable your own account.'
+        );
+        expect(userDB.setDisabledAt).not.toHaveBeenCalled();
+    });
+
+    it('should email a reset link when forcing a password reset', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildTargetUser());
+
+        await adminService.forcePasswordReset({ adminId: 1, userId: 5 });
+
+        expect(userDB.requirePasswordReset).toHaveBeenCalledWith(expect.objectContaining({ id: 5 }));
+        expect(emailService.sendPasswordResetEmail).toHaveBeenCalledWith('jan@example.com', expect.any(String), 'Jan');
+        expect(sessionDB.revokeSessionsForUser).toHaveBeenCalledWith({ userId: 5 });
+    });
+
+    it('should change the role of a user', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildTargetUser());
+        (roleDB.getRoleByName as jest.Mock).mockResolvedValue(organiserRole);
+        (userDB.updateUserRole as jest.Mock).mockResolvedValue(
+            buildTargetUser({ role: buildRolePrisma('ORGANISER') })
+        );
+
+        const status = await adminService.changeRole({ adminId: 1, userId: 5, roleName: 'ORGANISER' });
+
+        expect(userDB.updateUserRole).toHaveBeenCalledWith({ id: 5, roleId: 2 });
+        expect(status.role).toBe('ORGANISER');
+    });
+
+    it('should not demote the last administrator', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildTargetUser({ role: buildRolePrisma('ADMIN') }));
+        (roleDB.getRoleByName as jest.Mock).mockResolvedValue(organiserRole);
+        (roleDB.countUsersWithRole as jest.Mock).mockResolvedValue(1);
+
+        await expect(adminService.changeRole({ adminId: 1, userId: 5, roleName: 'ORGANISER' })).rejects.toThrow(
+            'The last administrator cannot be demoted.'
+        );
+        expect(userDB.updateUserRole).not.toHaveBeenCalled();
+    });
+
+    it('should not demote an organiser who still organises experiences', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildTargetUser({ role: buildRolePrisma('ORGANISER') }));
+        (roleDB.getRoleByName as jest.Mock).mockResolvedValue(
+            Role.from(buildRolePrisma('CLIENT'))
+        );
+        (eventDB.countEventsByOrganiserId as jest.Mock).mockResolvedValue(2);
+
+        await expect(adminService.changeRole({ adminId: 1, userId: 5, roleName: 'CLIENT' })).rejects.toThrow(
+            'This user still organises experiences.'
+        );
+        expect(userDB.updateUserRole).not.toHaveBeenCalled();
+    });
+
+    it('should issue a short-lived impersonation token naming the administrator', async () => {
+        const organiser = buildTargetUser({ role: buildRolePrisma('ORGANISER') });
+        const admin = buildUser({ email: 'admin@example.com', role: buildRolePrisma('ADMIN') });
+        (userDB.getUserById as jest.Mock).mockImplementation(async ({ id }) => (id === 1 ? admin : organiser));
+
+        const result = await adminService.impersonateUser({ adminId: 1, sessionId: 9, userId: 5, reason: 'Ticket 4821' });
+
+        const claims = jwt.decode(result.token) as jwt.JwtPayload;
+        expect(claims).toMatchObject({ userId: 5, role: 'ORGANISER', sid: 9, act: { sub: '1', email: 'admin@example.com' } });
+        expect(claims.exp! - claims.iat!).toBe(15 * 60);
+        expect(result.user.id).toBe(5);
+    });
+
+    it('should not impersonate administrators or without a reason', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildTargetUser({ role: buildRolePrisma('ADMIN') }));
+
+        await expect(
+            adminService.impersonateUser({ adminId: 1, sessionId: 9, userId: 5, reason: 'Ticket 4821' })
+        ).rejects.toThrow('Administrators cannot be impersonated.');
+        await expect(
+            adminService.impersonateUser({ adminId: 1, sessionId: 9, userId: 5, reason: '  ' })
+        ).rejects.toThrow('Please give a reason');
+    });
+});
@@ -0,0 +1,111 @@
+import loginRiskService from '../../service/loginRisk.service';
+import knownDeviceDB from '../../repository/knownDevice.db';
+import knownNetworkDB from '../../repository/knownNetwork.db';
+import geoip from '../../util/geoip';
+import { buildUser } from '../fixtures/user.fixture';
+
+jest.mock('../../repository/knownDevice.db');
+jest.mock('../../repository/knownNetwork.db');
+jest.mock('../../util/geoip', () => ({
+    ...jest.requireActual('../../util/geoip'),
+    __esModule: true,
+    default: { lookup: jest.fn() },
+}));
+
+const BRUSSELS = { country: 'BE', latitude: 50.85, longitude: 4.35 };
+const SYDNEY = { country: 'AU', latitude: -33.87, longitude: 151.21 };
+
+describe('Login Risk Service', () => {
+    const context = { userAgent: 'Mozilla/5.0 Firefox', ipAddress: '203.0.113.7' };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (knownDeviceDB.countKnownDevices as jest.Mock).mockResolvedValue(3);
+        (knownDeviceDB.isKnownDevice as jest.Mock).mockResolvedValue(true);
+        (knownNetworkDB.isKnownNetwork as jest.Mock).mockResolvedValue(true);
+        (knownNetworkDB.getLastKnownNetwork as jest.Mock).mockResolvedValue(null);
+        (geoip.lookup as jest.Mock).mockResolvedValue(null);
+    });
+
+    it('should group addresses by network prefix', () => {
+        expect(loginRiskService.getIpPrefix('203.0.113.7')).toBe('203.0.113.0/24');
+        expect(loginRiskService.getIpPrefix('::ffff:203.0.113.7')).toBe('203.0.113.0/24');
+        expect(loginRiskService.getIpPrefix('2001:db8:abcd:12::1')).toBe('2001:db8:abcd::/48');
+        expect(loginRiskService.getIpPrefix('2001:db8::1')).toBe('2001:db8:0::/48');
+        expect(loginRiskService.getIpPrefix(undefined)).toBeUndefined();
+    });
+
+    it('should rate a login from a known device and network as low risk', async () => {
+        const risk = await loginRiskService.assessLogin({ user: buildUser(), context });
+
+        expect(risk).toEqual({ level: 'low', score: 0, reasons: [] });
+    });
+
+    it('should not flag the very first login as new', async () => {
+        (knownDeviceDB.countKnownDevices as jest.Mock).mockResolvedValue(0);
+        (knownDeviceDB.isKnownDevice as jest.Mock).mockResolvedValue(false);
+        (knownNetworkDB.isKnownNetwork as jest.Mock).mockResolvedValue(false);
+
+        const risk = await loginRiskService.assessLogin({ user: buildUser(), context });
+
+        expect(risk.level).toBe('low');
+    });
+
+    it('should rate a new device as medium risk', async () => {
+        (knownDeviceDB.isKnownDevice as jest.Mock).mockResolvedValue(false);
+
+        const risk = await loginRiskService.assessLogin({ user: buildUser(), context });
+
+        expect(risk.level).toBe('medium');
+        expect(risk.reasons).toEqual(['NEW_DEVICE']);
+    });
+
+    it('should rate impossible travel as high risk', async () => {
+        (knownNetworkDB.isKnownNetwork as jest.Mock).mockResolvedValue(false);
+        (knownNetworkDB.getLastKnownNetwork as jest.Mock).mockResolvedValue({
+            ipPrefix: '198.51.100.0/24',
+            ...BRUSSELS,
+            lastSeenAt: new Date(Date.now() - 2 * 60 * 60 * 1000),
+        });
+        (geoip.lookup as jest.Mock).mockResolvedValue(SYDNEY);
+
+        const risk = await loginRiskService.assessLogin({ user: buildUser(), context });
+
+        expect(risk.level).toBe('high');
+        expect(risk.reasons).toEqual(['NEW_NETWORK', 'IMPOSSIBLE_TRAVEL']);
+    });
+
+    it('should allow the same trip given enough time', async () => {
+        (knownNetworkDB.isKnownNetwork as jest.Mock).mockResolvedValue(false);
+        (knownNetworkDB.getLastKnownNetwork as jest.Mock).mockResolvedValue({
+            ipPrefix: '198.51.100.0/24',
+            ...BRUSSELS,
+            lastSeenAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000),
+        });
+        (geoip.lookup as jest.Mock).mockResolvedValue(SYDNEY);
+
+        const risk = await loginRiskService.assessLogin({ user: buildUser(), context });
+
+        expect(risk.reasons).toEqual(['NEW_NETWORK']);
+    });
+
+    it('should count a burst of failed attempts before the login', async () => {
+        (knownDeviceDB.isKnownDevice as jest.Mock).mockResolvedValue(false);
+
+        const risk = await loginRiskService.assessLogin({ user: buildUser({ failedLoginAttempts: 4 }), context });
+
+        expect(risk.level).toBe('high');
+        expect(risk.reasons).toEqual(['NEW_DEVICE', 'FAILED_ATTEMPTS']);
+    });
+
+    it('should remember the device and network of a completed login', async () => {
+        (geoip.lookup as jest.Mock).mockResolvedValue(BRUSSELS);
+
+        await loginRiskService.recordLogin({ userId: 1, context });
+
+        expect(knownDeviceDB.recordKnownDevice).toHaveBeenCalledWith(
+            expect.objectContaining({ userId: 1, userAgent: 'Mozilla/5.0 Firefox' })
+        );
+        expect(knownNetworkDB.recordKnownNetwork).toHaveBeenCalledWith({ userId: 1, ipPrefix: '203.0.113.0/24', ...BRUSSELS });
+    });
+});
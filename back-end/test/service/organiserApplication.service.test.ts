@@ -0,0 +1,132 @@
+import organiserApplicationService from '../../service/organiserApplication.service';
+import organiserApplicationDB from '../../repository/organiserApplication.db';
+import roleDB from '../../repository/role.db';
+import userDB from '../../repository/user.db';
+import emailService from '../../util/email.service';
+import { OrganiserApplication } from '../../model/organiserApplication';
+import { Role } from '../../model/role';
+import { buildRolePrisma, buildUser, UserPrismaWithRole } from '../fixtures/user.fixture';
+
+jest.mock('../../repository/organiserApplication.db');
+jest.mock('../../repository/role.db');
+jest.mock('../../repository/user.db');
+jest.mock('../../util/email.service');
+
+describe('Organiser Application Service', () => {
+    const organiserRole = Role.from(buildRolePrisma('ORGANISER'));
+
+    const buildApplicant = (overrides: Partial<UserPrismaWithRole> = {}) =>
+        buildUser({ id: 5, firstName: 'Jan', lastName: 'Peeters', email: 'jan@example.com', ...overrides });
+
+    const buildApplication = (overrides: Record<string, unknown> = {}) =>
+        new OrganiserApplication({
+            id: 9,
+            userId: 5,
+            businessName: 'Ardennen Avonturen',
+            motivation: 'We have been organising hiking weekends for years.',
+            contactEmail: 'info@ardennen-avonturen.be',
+            ...overrides,
+        });
+
+    const input = {
+        businessName: 'Ardennen Avonturen',
+        motivation: 'We have been organising hiking weekends for years.',
+        contactEmail: 'info@ardennen-avonturen.be',
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (emailService.sendOrganiserApplicationApprovedEmail as jest.Mock).mockResolvedValue(undefined);
+        (emailService.sendOrganiserApplicationRejectedEmail as jest.Mock).mockResolvedValue(undefined);
+    });
+
+    it('should let a client submit an application', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildApplicant());
+        (organiserApplicationDB.getApplicationsByUserId as jest.Mock).mockResolvedValue([]);
+        (organiserApplicationDB.createApplication as jest.Mock).mockImplementation(async (application) => application);
+
+        const application = await organiserApplicationService.submitApplication({ userId: 5, application: input });
+
+        expect(application.getStatus()).toBe('PENDING');
+        expect(userDB.updateUserRole).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a second application while one is pending', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildApplicant());
+        (organiserApplicationDB.getApplicationsByUserId as jest.Mock).mockResolvedValue([buildApplication()]);
+
+        await expect(
+            organiserApplicationService.submitApplication({ userId: 5, application: input })
+        ).rejects.toThrow('You already have an application waiting for review.');
+        expect(organiserApplicationDB.createApplication).not.toHaveBeenCalled();
+    });
+
+    it('should grant the organiser role and email the applicant on approval', async () => {
+        (organiserApplicationDB.getApplicationById as jest.Mock).mockResolvedValue(buildApplication());
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildApplicant());
+        (roleDB.getRoleByName as jest.Mock).mockResolvedValue(organiserRole);
+        (organiserApplicationDB.approveApplication as jest.Mock).mockResolvedValue(
+            buildApplication({ status: 'APPROVED' })
+        );
+
+        const application = await organiserApplicationService.approveApplication({ adminId: 1, applicationId: 9 });
+
+        expect(application.getStatus()).toBe('APPROVED');
+        expect(organiserApplicationDB.approveApplication).toHaveBeenCalledWith({
+            id: 9,
+            reviewedById: 1,
+            reviewNote: undefined,
+            roleId: 2,
+        });
+        expect(organiserApplicationDB.reviewApplication).not.toHaveBeenCalled();
+        expect(userDB.updateUserRole).not.toHaveBeenCalled();
+        expect(emailService.sendOrganiserApplicationApprovedEmail).toHaveBeenCalledWith(
+            'jan@example.com',
+            'Jan',
+            'Ardennen Avonturen'
+        );
+    });
+
+    it('should not grant anything when the application was already reviewed', async () => {
+        (organiserApplicationDB.getApplicationById as jest.Mock).mockResolvedValue(buildApplication());
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildApplicant());
+        (roleDB.getRoleByName as jest.Mock).mockResolvedValue(organiserRole);
+        (organiserApplicationDB.approveApplication as jest.Mock).mockResolvedValue(null);
+
+        await expect(
+            organiserApplicationService.approveApplication({ adminId: 1, applicationId: 9 })
+        ).rejects.toThrow('Application has already been reviewed.');
+        expect(emailService.sendOrganiserApplicationApprovedEmail).not.toHaveBeenCalled();
+    });
+
+    it('should approve without changing the role of someone who can already organise', async () => {
+        (organiserApplicationDB.getApplicationById as jest.Mock).mockResolvedValue(buildApplication());
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildApplicant({ role: buildRolePrisma('ADMIN') }));
+        (roleDB.getRoleByName as jest.Mock).mockResolvedValue(organiserRole);
+        (organiserApplicationDB.approveApplication as jest.Mock).mockResolvedValue(
+            buildApplication({ status: 'APPROVED' })
+        );
+
+        await organiserApplicationService.approveApplication({ adminId: 1, applicationId: 9 });
+
+        expect(organiserApplicationDB.approveApplication).toHaveBeenCalledWith(expect.objectContaining({ roleId: undefined }));
+    });
+
+    it('should email the reason when rejecting', async () => {
+        (organiserApplicationDB.getApplicationById as jest.Mock).mockResolvedValue(buildApplication());
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildApplicant());
+        (organiserApplicationDB.reviewApplication as jest.Mock).mockResolvedValue(
+            buildApplication({ status: 'REJECTED', reviewNote: 'Incomplete details' })
+        );
+
+        await organiserApplicationService.rejectApplication({ adminId: 1, applicationId: 9, reason: 'Incomplete details' });
+
+        expect(userDB.updateUserRole).not.toHaveBeenCalled();
+        expect(emailService.sendOrganiserApplicationRejectedEmail).toHaveBeenCalledWith(
+            'jan@example.com',
+            'Jan',
+            'Ardennen Avonturen',
+            'Incomplete details'
+        );
+    });
+});
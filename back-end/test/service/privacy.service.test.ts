@@ -0,0 +1,97 @@
+import privacyService from '../../service/privacy.service';
+import accountDataDB from '../../repository/accountData.db';
+import emailChangeDB from '../../repository/emailChange.db';
+import refreshTokenDB from '../../repository/refreshToken.db';
+import securityEventDB from '../../repository/securityEvent.db';
+import sessionDB from '../../repository/session.db';
+import userDB from '../../repository/user.db';
+import emailService from '../../util/email.service';
+import bcrypt from 'bcrypt';
+import { buildUser, UserPrismaWithRole } from '../fixtures/user.fixture';
+
+jest.mock('../../repository/accountData.db');
+jest.mock('../../repository/emailChange.db');
+jest.mock('../../repository/refreshToken.db');
+jest.mock('../../repository/securityEvent.db');
+jest.mock('../../repository/session.db');
+jest.mock('../../repository/user.db');
+jest.mock('../../util/email.service');
+
+describe('Privacy Service', () => {
+    const PASSWORD = 'Current#Secret-Phrase42';
+
+    const buildUserWithPassword = async (overrides: Partial<UserPrismaWithRole> = {}) =>
+        buildUser({ password: await bcrypt.hash(PASSWORD, 4), ...overrides });
+
+    const accountData = {
+        id: 1,
+        eventsAsClient: [{ id: 3, name: 'Jazz Night', date: new Date('2026-12-01'), location: 'Leuven' }],
+        tripsAsClient: [],
+        eventsAsOrganiser: [],
+        tripsAsOrganiser: [],
+        sessions: [{ id: 7, userAgent: 'Firefox', ipAddress: '203.0.113.5', createdAt: new Date(), refreshTokens: [] }],
+        knownDevices: [],
+        knownNetworks: [],
+        webauthnCredentials: [],
+        passwordHistory: [{ createdAt: new Date('2026-01-01') }],
+        emailChangeRequests: [],
+        organiserApplications: [],
+    };
+
+    beforeEach(async () => {
+        jest.clearAllMocks();
+        (userDB.getUserById as jest.Mock).mockResolvedValue(await buildUserWithPassword());
+        (emailChangeDB.getPendingEmailChange as jest.Mock).mockResolvedValue(null);
+        (accountDataDB.getAccountData as jest.Mock).mockResolvedValue(accountData);
+        (accountDataDB.countUpcomingOrganisedExperiences as jest.Mock).mockResolvedValue({ events: 0, trips: 0 });
+        (securityEventDB.getSecurityEventsForUser as jest.Mock).mockResolvedValue([
+            { id: 1, userId: 1, eventType: 'LOGIN_SUCCESS', details: { userId: 1 }, createdAt: new Date() },
+        ]);
+        (emailService.sendAccountDeletionScheduledEmail as jest.Mock).mockResolvedValue(undefined);
+    });
+
+    it('should export the profile, bookings, sessions and security events without secrets', async () => {
+        const data = await privacyService.exportAccountData({ userId: 1 });
+
+        expect(data.profile).toMatchObject({ id: 1, email: 'john@example.com' });
+        expect(data.bookings.events).toHaveLength(1);
+        expect(data.sessions[0]).toMatchObject({ id: 7, userAgent: 'Firefox' });
+        expect(data.securityEvents).toEqual([expect.objectContaining({ eventType: 'LOGIN_SUCCESS' })]);
+        expect(JSON.stringify(data)).not.toContain('$2b$');
+    });
+
+    it('should refuse deletion while the user organises upcoming experiences', async () => {
+        (accountDataDB.countUpcomingOrganisedExperiences as jest.Mock).mockResolvedValue({ events: 1, trips: 1 });
+
+        await expect(
+            privacyService.requestAccountDeletion({ userId: 1 })
+        ).rejects.toThrow('You are organising 2 upcoming experiences.');
+        expect(userDB.setDeletionScheduledAt).not.toHaveBeenCalled();
+    });
+
+    it('should schedule deletion after the grace period and log out other sessions', async () => {
+        const result = await privacyService.requestAccountDeletion({ userId: 1, currentSessionId: 7 });
+
+        const { deletionScheduledAt } = (userDB.setDeletionScheduledAt as jest.Mock).mock.calls[0][0];
+        const days = (deletionScheduledAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+        expect(days).toBeGreaterThan(13.9);
+        expect(days).toBeLessThanOrEqual(14);
+        expect(result.deletionScheduledAt).toEqual(deletionScheduledAt);
+        expect(sessionDB.revokeSessionsForUser).toHaveBeenCalledWith({ userId: 1, exceptSessionId: 7 });
+        expect(refreshTokenDB.revokeRefreshTokensForUser).toHaveBeenCalledWith({ userId: 1, exceptSessionId: 7 });
+        expect(emailService.sendAccountDeletionScheduledEmail).toHaveBeenCalledWith('john@example.com', 'John', deletionScheduledAt);
+    });
+
+    it('should anonymise accounts whose grace period has ended, skipping those organising upcoming experiences', async () => {
+        (accountDataDB.getUserIdsDueForDeletion as jest.Mock).mockResolvedValue([1, 2]);
+        (accountDataDB.countUpcomingOrganisedExperiences as jest.Mock).mockImplementation(async ({ userId }) =>
+            userId === 2 ? { events: 1, trips: 0 } : { events: 0, trips: 0 }
+        );
+
+        const deleted = await privacyService.deleteDueAccounts();
+
+        expect(deleted).toBe(1);
+        expect(accountDataDB.anonymiseUser).toHaveBeenCalledTimes(1);
+        expect(accountDataDB.anonymiseUser).toHaveBeenCalledWith({ id: 1, passwordHash: expect.any(String) });
+    });
+});
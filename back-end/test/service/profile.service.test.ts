@@ -0,0 +1,137 @@
+import profileService from '../../service/profile.service';
+import emailChangeDB from '../../repository/emailChange.db';
+import refreshTokenDB from '../../repository/refreshToken.db';
+import sessionDB from '../../repository/session.db';
+import userDB from '../../repository/user.db';
+import emailService from '../../util/email.service';
+import tokenGenerator from '../../util/token.generator';
+import bcrypt from 'bcrypt';
+import { buildUser, UserPrismaWithRole } from '../fixtures/user.fixture';
+
+jest.mock('../../repository/emailChange.db');
+jest.mock('../../repository/refreshToken.db');
+jest.mock('../../repository/session.db');
+jest.mock('../../repository/user.db');
+jest.mock('../../util/email.service');
+
+describe('Profile Service', () => {
+    const PASSWORD = 'Current#Secret-Phrase42';
+
+    const buildUserWithPassword = async (overrides: Partial<UserPrismaWithRole> = {}) =>
+        buildUser({ password: await bcrypt.hash(PASSWORD, 4), ...overrides });
+
+    const buildRequest = (overrides: Record<string, unknown> = {}) => ({
+        id: 4,
+        userId: 1,
+        oldEmail: 'john@example.com',
+        newEmail: 'john.doe@example.org',
+        confirmTokenHash: tokenGenerator.hashToken('confirm-token'),
+        revertTokenHash: tokenGenerator.hashToken('revert-token'),
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        revertExpiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+        confirmedAt: null,
+        createdAt: new Date(),
+        ...overrides,
+    });
+
+    beforeEach(async () => {
+        jest.clearAllMocks();
+        (userDB.getUserById as jest.Mock).mockResolvedValue(await buildUserWithPassword());
+        (userDB.getUserByEmail as jest.Mock).mockResolvedValue(null);
+        (emailChangeDB.getPendingEmailChange as jest.Mock).mockResolvedValue(null);
+        (emailChangeDB.getRevertibleEmailChange as jest.Mock).mockResolvedValue(null);
+        (emailService.sendEmailChangeConfirmation as jest.Mock).mockResolvedValue(undefined);
+        (emailService.sendEmailChangeNotice as jest.Mock).mockResolvedValue(undefined);
+        (emailService.sendPasswordResetEmail as jest.Mock).mockResolvedValue(undefined);
+    });
+
+    it('should update only the name fields', async () => {
+        (userDB.updateProfile as jest.Mock).mockResolvedValue(await buildUserWithPassword({ firstName: 'Johnny' }));
+
+        const profile = await profileService.updateProfile({ userId: 1, input: { firstName: '  Johnny ' } });
+
+        expect(userDB.updateProfile).toHaveBeenCalledWith({ id: 1, firstName: 'Johnny', lastName: undefined });
+        expect(profile).toMatchObject({ firstName: 'Johnny', email: 'john@example.com', pendingEmail: null });
+        expect(profile).not.toHaveProperty('password');
+    });
+
+    it('should refuse to change the email address through the profile', async () => {
+        await expect(
+            profileService.updateProfile({ userId: 1, input: { firstName: 'John', email: 'evil@example.com' } })
+        ).rejects.toThrow('Use POST /users/me/email');
+        expect(userDB.updateProfile).not.toHaveBeenCalled();
+    });
+
+    it('should email both addresses and keep the old one until the change is confirmed', async () => {
+        await profileService.requestEmailChange({ userId: 1, newEmail: 'john.doe@example.org' });
+
+        const stored = (emailChangeDB.createEmailChangeRequest as jest.Mock).mock.calls[0][0];
+        const [, confirmToken] = (emailService.sendEmailChangeConfirmation as jest.Mock).mock.calls[0];
+        const [oldEmail, newEmail, revertToken] = (emailService.sendEmailChangeNotice as jest.Mock).mock.calls[0];
+
+        expect(stored).toMatchObject({ userId: 1, oldEmail: 'john@example.com', newEmail: 'john.doe@example.org' });
+        expect(stored.confirmTokenHash).toBe(tokenGenerator.hashToken(confirmToken));
+        expect(stored.revertTokenHash).toBe(tokenGenerator.hashToken(revertToken));
+        expect([oldEmail, newEmail]).toEqual(['john@example.com', 'john.doe@example.org']);
+        expect(emailChangeDB.confirmEmailChange).not.toHaveBeenCalled();
+    });
+
+    it('should switch the email address with a valid confirmation link', async () => {
+        (emailChangeDB.getEmailChangeByConfirmTokenHash as jest.Mock).mockResolvedValue(buildRequest());
+
+        await profileService.confirmEmailChange({ token: 'confirm-token' });
+
+        expect(emailChangeDB.confirmEmailChange).toHaveBeenCalledWith({ id: 4, userId: 1, newEmail: 'john.doe@example.org' });
+    });
+
+    it('should reject an expired confirmation link', async () => {
+        (emailChangeDB.getEmailChangeByConfirmTokenHash as jest.Mock).mockResolvedValue(
+            buildRequest({ expiresAt: new Date(Date.now() - 1000) })
+        );
+
+        await expect(profileService.confirmEmailChange({ token: 'confirm-token' })).rejects.toThrow('expired');
+        expect(emailChangeDB.confirmEmailChange).not.toHaveBeenCalled();
+        expect(emailChangeDB.deleteEmailChangeRequest).toHaveBeenCalledWith({ id: 4 });
+    });
+
+    it('should cancel a pending change from the revert link', async () => {
+        (emailChangeDB.getEmailChangeByRevertTokenHash as jest.Mock).mockResolvedValue(buildRequest());
+
+        const result = await profileService.revertEmailChange({ token: 'revert-token' });
+
+        expect(result.message).toContain('cancelled');
+        expect(emailChangeDB.deleteEmailChangeRequest).toHaveBeenCalledWith({ id: 4 });
+        expect(sessionDB.revokeSessionsForUser).not.toHaveBeenCalled();
+    });
+
+    it('should restore the old address, log out everywhere and require a new password after a confirmed change', async () => {
+        (emailChangeDB.getEmailChangeByRevertTokenHash as jest.Mock).mockResolvedValue(buildRequest({ confirmedAt: new Date() }));
+        (userDB.getUserById as jest.Mock).mockResolvedValue(await buildUserWithPassword({ email: 'john.doe@example.org' }));
+
+        await profileService.revertEmailChange({ token: 'revert-token' });
+
+        expect(emailChangeDB.revertEmailChange).toHaveBeenCalledWith({ id: 4, userId: 1, oldEmail: 'john@example.com' });
+        expect(userDB.requirePasswordReset).toHaveBeenCalledWith(expect.objectContaining({ id: 1 }));
+        expect(sessionDB.revokeSessionsForUser).toHaveBeenCalledWith({ userId: 1 });
+        expect(refreshTokenDB.revokeRefreshTokensForUser).toHaveBeenCalledWith({ userId: 1 });
+        expect(emailService.sendPasswordResetEmail).toHaveBeenCalledWith('john@example.com', expect.any(String), 'John');
+    });
+
+    it('should refuse a second change while the confirmed one can be reverted, keeping its revert link working', async () => {
+        const confirmed = buildRequest({ confirmedAt: new Date() });
+        (userDB.getUserById as jest.Mock).mockResolvedValue(await buildUserWithPassword({ email: 'john.doe@example.org' }));
+        (emailChangeDB.getRevertibleEmailChange as jest.Mock).mockResolvedValue(confirmed);
+
+        await expect(
+            profileService.requestEmailChange({ userId: 1, newEmail: 'attacker@example.net' })
+        ).rejects.toThrow('Your email address was changed recently.');
+        expect(emailChangeDB.createEmailChangeRequest).not.toHaveBeenCalled();
+        expect(emailService.sendEmailChangeNotice).not.toHaveBeenCalled();
+
+        (emailChangeDB.getEmailChangeByRevertTokenHash as jest.Mock).mockResolvedValue(confirmed);
+        await profileService.revertEmailChange({ token: 'revert-token' });
+
+        expect(emailChangeDB.revertEmailChange).toHaveBeenCalledWith({ id: 4, userId: 1, oldEmail: 'john@example.com' });
+        expect(sessionDB.revokeSessionsForUser).toHaveBeenCalledWith({ userId: 1 });
+    });
+});
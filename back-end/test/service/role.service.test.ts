@@ -0,0 +1,83 @@
+import roleService from '../../service/role.service';
+import roleDB from '../../repository/role.db';
+import { Role, SYSTEM_ROLES } from '../../model/role';
+
+jest.mock('../../repository/role.db');
+
+describe('Role Service', () => {
+    const customRole = new Role({
+        id: 4,
+        name: 'SUPPORT',
+        permissions: ['event:read', 'user:read'],
+    });
+    const clientRole = new Role({
+        id: 3,
+        name: 'CLIENT',
+        permissions: [...SYSTEM_ROLES.CLIENT],
+        isSystem: true,
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('should create a custom role', async () => {
+        (roleDB.getRoleByName as jest.Mock).mockResolvedValue(null);
+        (roleDB.createRole as jest.Mock).mockImplementation(async (role: Role) => role);
+
+        const role = await roleService.createRole({
+            actorId: 1,
+            role: { name: 'SUPPORT', permissions: ['event:read', 'user:read'] },
+        });
+
+        expect(role.getName()).toBe('SUPPORT');
+        expect(role.getIsSystem()).toBe(false);
+    });
+
+    it('should reject unknown permissions', async () => {
+        await expect(
+            roleService.createRole({
+                actorId: 1,
+                role: { name: 'SUPPORT', permissions: ['everything'] },
+            }),
+        ).rejects.toThrow('Unknown permission(s): everything');
+        expect(roleDB.createRole).not.toHaveBeenCalled();
+    });
+
+    it('should not change system roles', async () => {
+        (roleDB.getRoleById as jest.Mock).mockResolvedValue(clientRole);
+
+        await expect(
+            roleService.updateRole({
+                actorId: 1,
+                id: 3,
+                role: { permissions: [...SYSTEM_ROLES.ADMIN] },
+            }),
+        ).rejects.toThrow('System roles cannot be changed.');
+        expect(roleDB.updateRole).not.toHaveBeenCalled();
+    });
+
+    it('should not delete a role that is still assigned', async () => {
+        (roleDB.getRoleById as jest.Mock).mockResolvedValue(customRole);
+        (roleDB.countUsersWithRole as jest.Mock).mockResolvedValue(2);
+
+        await expect(roleService.deleteRole({ actorId: 1, id: 4 })).rejects.toThrow(
+            'Role is still assigned to users.',
+        );
+        expect(roleDB.deleteRole).not.toHaveBeenCalled();
+    });
+
+    it('should load a stored role that holds a permission this version does not know', () => {
+        const role = Role.from({
+            id: 4,
+            name: 'SUPPORT',
+            description: null,
+            permissions: ['event:read', 'booking:refund'],
+            isSystem: false,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+        });
+
+        expect(role.getPermissions()).toEqual(['event:read']);
+    });
+});
@@ -0,0 +1,85 @@
+import sessionService from '../../service/session.service';
+import sessionDB from '../../repository/session.db';
+import refreshTokenDB from '../../repository/refreshToken.db';
+import { Session } from '../../model/session';
+
+jest.mock('../../repository/session.db');
+jest.mock('../../repository/refreshToken.db');
+
+describe('Session Service', () => {
+    const buildSession = (overrides: Record<string, unknown> = {}) =>
+        new Session({
+            id: 7,
+            userId: 1,
+            userAgent: 'Mozilla/5.0',
+            ipAddress: '203.0.113.10',
+            createdAt: new Date(),
+            lastSeenAt: new Date(),
+            expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+            ...overrides,
+        });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('should flag the session making the request as current', async () => {
+        (sessionDB.getActiveSessionsByUserId as jest.Mock).mockResolvedValue([
+            buildSession(),
+            buildSession({ id: 8, userAgent: 'curl/8.0' }),
+        ]);
+
+        const sessions = await sessionService.getSessions({ userId: 1, currentSessionId: 8 });
+
+        expect(sessions.map((session) => [session.id, session.current])).toEqual([
+            [7, false],
+            [8, true],
+        ]);
+    });
+
+    it('should revoke a session together with its refresh tokens', async () => {
+        (sessionDB.getSessionById as jest.Mock).mockResolvedValue(buildSession());
+
+        await sessionService.revokeSession({ userId: 1, sessionId: 7 });
+
+        expect(sessionDB.revokeSession).toHaveBeenCalledWith({ id: 7 });
+        expect(refreshTokenDB.revokeRefreshTokensForSession).toHaveBeenCalledWith({ sessionId: 7 });
+    });
+
+    it("should not revoke another user's session", async () => {
+        (sessionDB.getSessionById as jest.Mock).mockResolvedValue(buildSession({ userId: 2 }));
+
+        await expect(sessionService.revokeSession({ userId: 1, sessionId: 7 })).rejects.toThrow(
+            'Session not found'
+        );
+        expect(sessionDB.revokeSession).not.toHaveBeenCalled();
+    });
+
+    it('should keep the current session when logging out all others', async () => {
+        (sessionDB.revokeSessionsForUser as jest.Mock).mockResolvedValue(3);
+
+        const result = await sessionService.revokeOtherSessions({ userId: 1, currentSessionId: 7 });
+
+        expect(result.revoked).toBe(3);
+        expect(sessionDB.revokeSessionsForUser).toHaveBeenCalledWith({ userId: 1, exceptSessionId: 7 });
+        expect(refreshTokenDB.revokeRefreshTokensForUser).toHaveBeenCalledWith({ userId: 1, exceptSessionId: 7 });
+    });
+
+    it('should reject access tokens of a revoked session', async () => {
+        (sessionDB.getSessionById as jest.Mock).mockResolvedValue(buildSession({ revokedAt: new Date() }));
+
+        expect(await sessionService.validateSession({ sessionId: 7, userId: 1 })).toBe(false);
+    });
+
+    it('should only update last seen time once per minute', async () => {
+        (sessionDB.getSessionById as jest.Mock).mockResolvedValue(buildSession());
+        expect(await sessionService.validateSession({ sessionId: 7, userId: 1 })).toBe(true);
+        expect(sessionDB.updateSessionLastSeen).not.toHaveBeenCalled();
+
+        (sessionDB.getSessionById as jest.Mock).mockResolvedValue(
+            buildSession({ lastSeenAt: new Date(Date.now() - 5 * 60 * 1000) })
+        );
+        expect(await sessionService.validateSession({ sessionId: 7, userId: 1 })).toBe(true);
+        expect(sessionDB.updateSessionLastSeen).toHaveBeenCalledWith({ id: 7 });
+    });
+});
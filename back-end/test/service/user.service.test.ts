@@ -1,11 +1,70 @@
 import userService from '../../service/user.service';
 import userDB from '../../repository/user.db';
+import recoveryCodeDB from '../../repository/recoveryCode.db';
+import refreshTokenDB from '../../repository/refreshToken.db';
+import sessionDB from '../../repository/session.db';
+import mfaChallengeDB from '../../repository/mfaChallenge.db';
+import knownDeviceDB from '../../repository/knownDevice.db';
+import knownNetworkDB from '../../repository/knownNetwork.db';
+import passwordHistoryDB from '../../repository/passwordHistory.db';
 import emailService from '../../util/email.service';
+import database from '../../repository/database';
+import totp from '../../util/totp';
+import tokenGenerator from '../../util/token.generator';
+import secretBox from '../../util/secret.box';
+import jwtKeyring, { InMemorySigningKeyStore } from '../../util/jwt.keyring';
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Session } from '../../model/session';
+import { UserInput } from '../../types';
+import { buildUser, UserPrismaWithRole } from '../fixtures/user.fixture';
 
 // Mock the database and email modules
 jest.mock('../../repository/user.db');
+jest.mock('../../repository/recoveryCode.db');
+jest.mock('../../repository/refreshToken.db');
+jest.mock('../../repository/session.db');
+jest.mock('../../repository/mfaChallenge.db');
+jest.mock('../../repository/knownDevice.db');
+jest.mock('../../repository/knownNetwork.db');
+jest.mock('../../repository/passwordHistory.db');
 jest.mock('../../util/email.service');
 
+// Just enough of the user table for the token storage tests, which run the real user repository
+jest.mock('../../repository/database', () => {
+    const { SYSTEM_ROLES } = jest.requireActual('../../model/role');
+    const rows: Record<string, unknown>[] = [];
+    const matches = (row: Record<string, unknown>, where: Record<string, unknown>) =>
+        Object.entries(where).every(([key, value]) => row[key] === value);
+
+    const user = {
+        rows,
+        create: jest.fn(async ({ data }) => {
+            const { role, ...fields } = data;
+            const row = {
+                id: rows.length + 1,
+                ...fields,
+                role: { name: role.connect.name, permissions: [...SYSTEM_ROLES.CLIENT] },
+            };
+            rows.push(row);
+            return row;
+        }),
+        findUnique: jest.fn(async ({ where }) => rows.find((row) => matches(row, where)) ?? null),
+        findUniqueOrThrow: jest.fn(async ({ where }) => rows.find((row) => matches(row, where))),
+        update: jest.fn(async ({ where, data }) => Object.assign(rows.find((row) => matches(row, where))!, data)),
+    };
+    const passwordHistory = {
+        create: jest.fn(),
+        findMany: jest.fn(async () => []),
+        deleteMany: jest.fn(),
+    };
+    const database: Record<string, unknown> = { user, passwordHistory };
+    database.$transaction = jest.fn(async (work) => work(database));
+
+    return { __esModule: true, default: database };
+});
+
 describe('User Signup Service', () => {
     beforeEach(() => {
         jest.clearAllMocks();
@@ -21,7 +80,6 @@ describe('User Signup Service', () => {
             firstName: 'John',
             lastName: 'Doe',
             email: 'john@example.com',
-            isOrganiser: false,
         });
 
         // Mock email service
@@ -31,8 +89,7 @@ describe('User Signup Service', () => {
             firstName: 'John',
             lastName: 'Doe',
             email: 'john@example.com',
-            password: 'SecurePass123!',
-            isOrganiser: false,
+            password: 'Velvet#Harbor-Lantern42',
         });
 
         expect(result.message).toContain('Account created successfully');
@@ -53,7 +110,6 @@ describe('User Signup Service', () => {
                 lastName: 'Doe',
                 email: 'existing@example.com',
                 password: 'SecurePass123!',
-                isOrganiser: false,
             })
         ).rejects.toThrow('Email already registered');
     });
@@ -67,7 +123,6 @@ describe('User Signup Service', () => {
                 lastName: 'Doe',
                 email: 'john@example.com',
                 password: 'Short1!',
-                isOrganiser: false,
             })
         ).rejects.toThrow();
     });
@@ -81,7 +136,6 @@ describe('User Signup Service', () => {
                 lastName: 'Doe',
                 email: 'john@example.com',
                 password: 'securepass123!',
-                isOrganiser: false,
             })
         ).rejects.toThrow();
     });
@@ -95,7 +149,6 @@ describe('User Signup Service', () => {
                 lastName: 'Doe',
                 email: 'john@example.com',
                 password: 'SECUREPASS123!',
-                isOrganiser: false,
             })
         ).rejects.toThrow();
     });
@@ -109,7 +162,6 @@ describe('User Signup Service', () => {
                 lastName: 'Doe',
                 email: 'john@example.com',
                 password: 'SecurePass!',
-                isOrganiser: false,
             })
         ).rejects.toThrow();
     });
@@ -123,7 +175,6 @@ describe('User Signup Service', () => {
                 lastName: 'Doe',
                 email: 'john@example.com',
                 password: 'SecurePass123',
-                isOrganiser: false,
             })
         ).rejects.toThrow();
     });
@@ -137,37 +188,795 @@ describe('User Signup Service', () => {
                 lastName: 'Doe',
                 email: 'john@example.com',
                 password: 'JohnSecurePass123!',
-                isOrganiser: false,
             })
         ).rejects.toThrow('must not contain');
     });
 
-    it('should allow signup with organiser flag', async () => {
+    it('should always create new accounts as clients', async () => {
         (userDB.getUserByEmail as jest.Mock).mockResolvedValue(null);
-        
-        (userDB.createUser as jest.Mock).mockResolvedValue({
-            id: 2,
+        (emailService.sendVerificationEmail as jest.Mock).mockResolvedValue(undefined);
+
+        await userService.signup({
             firstName: 'Jane',
             lastName: 'Smith',
             email: 'jane@example.com',
-            isOrganiser: true,
+            password: 'Velvet#Harbor-Lantern42',
+            ...({ role: 'ADMIN', isOrganiser: true } as object),
         });
 
-        (emailService.sendVerificationEmail as jest.Mock).mockResolvedValue(undefined);
+        const createUserInput = (userDB.createUser as jest.Mock).mock.calls[0][0];
+        expect(createUserInput).not.toHaveProperty('role');
+        expect(createUserInput).not.toHaveProperty('isOrganiser');
+    });
+});
 
-        const result = await userService.signup({
-            firstName: 'Jane',
-            lastName: 'Smith',
-            email: 'jane@example.com',
+describe('User MFA Service', () => {
+    const TOTP_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+    const buildMfaUser = (overrides: Partial<UserPrismaWithRole> = {}) =>
+        buildUser({ mfaEnabled: true, mfaMethods: ['EMAIL', 'TOTP'], totpSecret: secretBox.encrypt(TOTP_SECRET), ...overrides });
+
+    const CHALLENGE_ID = 'opaque-challenge-id';
+
+    const buildChallenge = (overrides: Record<string, unknown> = {}) => ({
+        id: 3,
+        challengeIdHash: tokenGenerator.hashToken(CHALLENGE_ID),
+        userId: 1,
+        purpose: 'LOGIN',
+        codeHash: tokenGenerator.hashToken(`${CHALLENGE_ID}:123456`),
+        attempts: 0,
+        expiresAt: new Date(Date.now() + 10 * 60 * 1000),
+        createdAt: new Date(),
+        ...overrides,
+    });
+
+    beforeAll(() => {
+        jwtKeyring.useStore(new InMemorySigningKeyStore());
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        process.env.DATA_ENCRYPTION_KEY = '0123456789abcdef'.repeat(4);
+        process.env.JWT_EXPIRES_MINUTES = '15';
+        (sessionDB.createSession as jest.Mock).mockResolvedValue(
+            new Session({ id: 7, userId: 1, createdAt: new Date(), lastSeenAt: new Date(), expiresAt: new Date() })
+        );
+        (mfaChallengeDB.getChallengeByIdHash as jest.Mock).mockResolvedValue(buildChallenge());
+        (mfaChallengeDB.deleteChallenge as jest.Mock).mockResolvedValue(true);
+        (mfaChallengeDB.reserveChallengeAttempt as jest.Mock).mockResolvedValue(true);
+        (userDB.updateTotpLastUsedStep as jest.Mock).mockResolvedValue(true);
+        (knownDeviceDB.countKnownDevices as jest.Mock).mockResolvedValue(0);
+        (emailService.sendMFAEmail as jest.Mock).mockResolvedValue(undefined);
+        (emailService.sendSuspiciousLoginAlert as jest.Mock).mockResolvedValue(undefined);
+        (emailService.sendMfaStatusChangedEmail as jest.Mock).mockResolvedValue(undefined);
+    });
+
+    it('should accept a valid authenticator app code', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildMfaUser());
+        // Take the step before the call, so a 30 second boundary in between can't fail the test
+        const step = totp.getTimeStep();
+
+        const result = await userService.verifyMFA({ mfaChallengeId: CHALLENGE_ID, mfaCode: totp.generateCode(TOTP_SECRET, step) });
+
+        expect(result.token).toBeTruthy();
+        expect(userDB.updateTotpLastUsedStep).toHaveBeenCalledWith({ id: 1, step });
+        expect(userDB.updateTotpSecret).not.toHaveBeenCalled();
+        expect(mfaChallengeDB.deleteChallenge).toHaveBeenCalledWith({ id: 3 });
+    });
+
+    it('should accept a secret stored before encryption and encrypt it', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildMfaUser({ totpSecret: TOTP_SECRET }));
+
+        await userService.verifyMFA({ mfaChallengeId: CHALLENGE_ID, mfaCode: totp.generateCode(TOTP_SECRET) });
+
+        const { secret } = (userDB.updateTotpSecret as jest.Mock).mock.calls[0][0];
+        expect(secret).not.toContain(TOTP_SECRET);
+        expect(secretBox.decrypt(secret)).toBe(TOTP_SECRET);
+    });
+
+    it('should encrypt a secret stored under the old JWT_SECRET key again with DATA_ENCRYPTION_KEY', async () => {
+        const legacyKey = crypto.createHash('sha256').update('old-jwt-secret').digest();
+        const iv = crypto.randomBytes(12);
+        const cipher = crypto.createCipheriv('aes-256-gcm', legacyKey, iv);
+        const ciphertext = Buffer.concat([cipher.update(TOTP_SECRET, 'utf8'), cipher.final()]);
+        const legacySecret = [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64url')).join('.');
+        process.env.JWT_SECRET = 'old-jwt-secret';
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildMfaUser({ totpSecret: legacySecret }));
+
+        try {
+            await userService.verifyMFA({ mfaChallengeId: CHALLENGE_ID, mfaCode: totp.generateCode(TOTP_SECRET) });
+        } finally {
+            delete process.env.JWT_SECRET;
+        }
+
+        const { secret } = (userDB.updateTotpSecret as jest.Mock).mock.calls[0][0];
+        expect(secretBox.isCurrent(secret)).toBe(true);
+        expect(secretBox.decrypt(secret)).toBe(TOTP_SECRET);
+    });
+
+    it('should reject a replayed authenticator app code', async () => {
+        const step = totp.getTimeStep();
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildMfaUser({ totpLastUsedStep: step }));
+
+        await expect(
+            userService.verifyMFA({ mfaChallengeId: CHALLENGE_ID, mfaCode: totp.generateCode(TOTP_SECRET, step) })
+        ).rejects.toThrow('Invalid MFA code');
+    });
+
+    it('should reject a code that a parallel request has just used', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildMfaUser());
+        (recoveryCodeDB.useRecoveryCode as jest.Mock).mockResolvedValue(false);
+        // The user was loaded before the other request stored the step
+        (userDB.updateTotpLastUsedStep as jest.Mock).mockResolvedValue(false);
+
+        await expect(
+            userService.verifyMFA({ mfaChallengeId: CHALLENGE_ID, mfaCode: totp.generateCode(TOTP_SECRET) })
+        ).rejects.toThrow('Invalid MFA code');
+        expect(mfaChallengeDB.deleteChallenge).not.toHaveBeenCalled();
+    });
+
+    it('should still accept the email code as a fallback', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildMfaUser());
+
+        const result = await userService.verifyMFA({ mfaChallengeId: CHALLENGE_ID, mfaCode: '123456' });
+
+        expect(result.token).toBeTruthy();
+        expect(userDB.updateTotpLastUsedStep).not.toHaveBeenCalled();
+    });
+
+    it('should not email the code at login when an authenticator app is enabled', async () => {
+        (userDB.getUserByEmail as jest.Mock).mockResolvedValue(
+            buildMfaUser({ password: await bcrypt.hash('SecurePass123!', 4) })
+        );
+
+        const result = await userService.authenticate({
+            email: 'john@example.com',
             password: 'SecurePass123!',
-            isOrganiser: true,
-        });
+        } as UserInput);
 
-        expect(result.message).toContain('Account created successfully');
-        expect(userDB.createUser).toHaveBeenCalledWith(
+        expect(result.requiresMFA).toBe(true);
+        expect(result.mfaMethods).toEqual(['EMAIL', 'TOTP']);
+        expect(result.mfaChallengeId).toBeTruthy();
+        expect(result).not.toHaveProperty('userId');
+        expect(mfaChallengeDB.createChallenge).toHaveBeenCalledWith(
             expect.objectContaining({
-                isOrganiser: true,
+                challengeIdHash: tokenGenerator.hashToken(result.mfaChallengeId!),
+                purpose: 'LOGIN',
+                codeHash: undefined,
+            })
+        );
+        expect(emailService.sendMFAEmail).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown challenge id', async () => {
+        (mfaChallengeDB.getChallengeByIdHash as jest.Mock).mockResolvedValue(null);
+
+        await expect(userService.verifyMFA({ mfaChallengeId: 'guessed', mfaCode: '123456' })).rejects.toThrow(
+            'Invalid or expired MFA challenge'
+        );
+        expect(userDB.getUserById).not.toHaveBeenCalled();
+    });
+
+    it('should destroy the challenge after too many wrong codes', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildMfaUser());
+        (recoveryCodeDB.useRecoveryCode as jest.Mock).mockResolvedValue(false);
+        (mfaChallengeDB.getChallengeByIdHash as jest.Mock).mockResolvedValue(buildChallenge({ attempts: 4 }));
+
+        await expect(
+            userService.verifyMFA({ mfaChallengeId: CHALLENGE_ID, mfaCode: '654321' })
+        ).rejects.toThrow('Too many invalid codes');
+        expect(mfaChallengeDB.deleteChallenge).toHaveBeenCalledWith({ id: 3 });
+    });
+
+    it('should not check a code once the attempts of the challenge are used up', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildMfaUser());
+        // Other requests took the remaining attempts after this one loaded the challenge
+        (mfaChallengeDB.reserveChallengeAttempt as jest.Mock).mockResolvedValue(false);
+
+        await expect(
+            userService.verifyMFA({ mfaChallengeId: CHALLENGE_ID, mfaCode: totp.generateCode(TOTP_SECRET) })
+        ).rejects.toThrow('Too many invalid codes');
+        expect(mfaChallengeDB.reserveChallengeAttempt).toHaveBeenCalledWith({ id: 3, maxAttempts: 5 });
+        expect(userDB.updateTotpLastUsedStep).not.toHaveBeenCalled();
+        expect(recoveryCodeDB.useRecoveryCode).not.toHaveBeenCalled();
+        expect(mfaChallengeDB.deleteChallenge).toHaveBeenCalledWith({ id: 3 });
+    });
+
+    it('should refuse to log in to a disabled account', async () => {
+        (userDB.getUserByEmail as jest.Mock).mockResolvedValue(
+            buildMfaUser({ password: await bcrypt.hash('SecurePass123!', 4), disabledAt: new Date() })
+        );
+
+        await expect(
+            userService.authenticate({ email: 'john@example.com', password: 'SecurePass123!' } as UserInput)
+        ).rejects.toThrow('This account has been disabled');
+        expect(mfaChallengeDB.createChallenge).not.toHaveBeenCalled();
+    });
+
+    it('should refuse the old password after an administrator forced a reset', async () => {
+        (userDB.getUserByEmail as jest.Mock).mockResolvedValue(
+            buildMfaUser({ password: await bcrypt.hash('SecurePass123!', 4), passwordResetRequired: true })
+        );
+
+        await expect(
+            userService.authenticate({ email: 'john@example.com', password: 'SecurePass123!' } as UserInput)
+        ).rejects.toThrow('You must reset your password before logging in');
+    });
+
+    it('should upgrade a bcrypt hash to argon2id after a successful login', async () => {
+        (userDB.getUserByEmail as jest.Mock).mockResolvedValue(
+            buildMfaUser({ password: await bcrypt.hash('SecurePass123!', 4) })
+        );
+
+        await userService.authenticate({ email: 'john@example.com', password: 'SecurePass123!' } as UserInput);
+
+        expect(userDB.updatePasswordHash).toHaveBeenCalledWith({
+            id: 1,
+            passwordHash: expect.stringMatching(/^\$argon2id\$/),
+        });
+    });
+
+    it('should force an emailed MFA code on a high-risk login without MFA', async () => {
+        (userDB.getUserByEmail as jest.Mock).mockResolvedValue(
+            buildMfaUser({ password: await bcrypt.hash('SecurePass123!', 4), mfaEnabled: false, mfaMethods: [], totpSecret: null })
+        );
+        (knownDeviceDB.countKnownDevices as jest.Mock).mockResolvedValue(2);
+        (knownDeviceDB.isKnownDevice as jest.Mock).mockResolvedValue(false);
+        (knownNetworkDB.isKnownNetwork as jest.Mock).mockResolvedValue(false);
+        (mfaChallengeDB.createChallenge as jest.Mock).mockResolvedValue(buildChallenge());
+
+        const result = await userService.authenticate(
+            { email: 'john@example.com', password: 'SecurePass123!' } as UserInput,
+            { userAgent: 'New Browser', ipAddress: '203.0.113.7' }
+        );
+
+        expect(result.requiresMFA).toBe(true);
+        expect(result.mfaMethods).toEqual(['EMAIL']);
+        expect(emailService.sendMFAEmail).toHaveBeenCalled();
+        expect(emailService.sendSuspiciousLoginAlert).toHaveBeenCalled();
+        expect(sessionDB.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should alert on a medium-risk login but let it through', async () => {
+        (userDB.getUserByEmail as jest.Mock).mockResolvedValue(
+            buildMfaUser({ password: await bcrypt.hash('SecurePass123!', 4), mfaEnabled: false, mfaMethods: [], totpSecret: null })
+        );
+        (knownDeviceDB.countKnownDevices as jest.Mock).mockResolvedValue(2);
+        (knownDeviceDB.isKnownDevice as jest.Mock).mockResolvedValue(false);
+        (knownNetworkDB.isKnownNetwork as jest.Mock).mockResolvedValue(true);
+
+        const result = await userService.authenticate(
+            { email: 'john@example.com', password: 'SecurePass123!' } as UserInput,
+            { userAgent: 'New Browser', ipAddress: '203.0.113.7' }
+        );
+
+        expect(result.token).toBeTruthy();
+        expect(emailService.sendSuspiciousLoginAlert).toHaveBeenCalledWith(
+            'john@example.com',
+            'John',
+            '203.0.113.7',
+            ['The login came from a device or browser you have not used before']
+        );
+        expect(knownDeviceDB.recordKnownDevice).toHaveBeenCalled();
+    });
+
+    it('should store the TOTP secret encrypted when enrolling', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(
+            buildMfaUser({ mfaEnabled: false, mfaMethods: [], totpSecret: null })
+        );
+
+        const { secret } = await userService.enrollTotp({ userId: 1 });
+
+        const stored = (userDB.setTotpSecret as jest.Mock).mock.calls[0][0].secret;
+        expect(stored).not.toBe(secret);
+        expect(secretBox.decrypt(stored)).toBe(secret);
+    });
+
+    it('should only enable TOTP after a valid confirmation code', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(
+            buildMfaUser({ mfaEnabled: false, mfaMethods: [] })
+        );
+
+        await expect(userService.confirmTotp({ userId: 1, code: '000000' })).rejects.toThrow(
+            'Invalid authenticator code'
+        );
+        expect(userDB.enableTotp).not.toHaveBeenCalled();
+
+        const step = totp.getTimeStep();
+        const result = await userService.confirmTotp({ userId: 1, code: totp.generateCode(TOTP_SECRET, step) });
+        expect(userDB.enableTotp).toHaveBeenCalledWith({ id: 1, lastUsedStep: step });
+        expect(result.recoveryCodes).toHaveLength(10);
+    });
+
+    it('should store only hashes of the generated recovery codes', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildMfaUser());
+
+        const { recoveryCodes } = await userService.regenerateRecoveryCodes({ userId: 1 });
+
+        const { codeHashes } = (recoveryCodeDB.replaceRecoveryCodes as jest.Mock).mock.calls[0][0];
+        expect(codeHashes).toHaveLength(recoveryCodes.length);
+        expect(codeHashes).not.toContain(recoveryCodes[0]);
+        expect(codeHashes).toContain(tokenGenerator.hashToken(recoveryCodes[0].replace('-', '')));
+    });
+
+    it('should accept and burn a recovery code in place of the MFA code', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildMfaUser());
+        (recoveryCodeDB.useRecoveryCode as jest.Mock).mockResolvedValue(true);
+        (recoveryCodeDB.countUnusedRecoveryCodes as jest.Mock).mockResolvedValue(7);
+
+        const result = await userService.verifyMFA({ mfaChallengeId: CHALLENGE_ID, mfaCode: 'K7XQ2-M9DFP' });
+
+        expect(result.token).toBeTruthy();
+        expect(recoveryCodeDB.useRecoveryCode).toHaveBeenCalledWith({
+            userId: 1,
+            codeHash: tokenGenerator.hashToken('k7xq2m9dfp'),
+        });
+        expect(emailService.sendRecoveryCodesLowEmail).not.toHaveBeenCalled();
+    });
+
+    it('should email the user when few recovery codes are left', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildMfaUser());
+        (recoveryCodeDB.useRecoveryCode as jest.Mock).mockResolvedValue(true);
+        (recoveryCodeDB.countUnusedRecoveryCodes as jest.Mock).mockResolvedValue(2);
+        (emailService.sendRecoveryCodesLowEmail as jest.Mock).mockResolvedValue(undefined);
+
+        await userService.verifyMFA({ mfaChallengeId: CHALLENGE_ID, mfaCode: 'k7xq2-m9dfp' });
+
+        expect(emailService.sendRecoveryCodesLowEmail).toHaveBeenCalledWith('john@example.com', 'John', 2);
+    });
+
+    it('should reject a recovery code that was already used', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildMfaUser());
+        (recoveryCodeDB.useRecoveryCode as jest.Mock).mockResolvedValue(false);
+
+        await expect(userService.verifyMFA({ mfaChallengeId: CHALLENGE_ID, mfaCode: 'k7xq2-m9dfp' })).rejects.toThrow(
+            'Invalid MFA code'
+        );
+    });
+
+    it('should enable emailed MFA codes with the confirmation code and notify the user', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildMfaUser({ mfaEnabled: false, mfaMethods: [], totpSecret: null }));
+        (mfaChallengeDB.getChallengeByIdHash as jest.Mock).mockResolvedValue(buildChallenge({ purpose: 'ENABLE_MFA' }));
+
+        const result = await userService.confirmMfaEnable({ userId: 1, mfaChallengeId: CHALLENGE_ID, mfaCode: '123456' });
+
+        expect(userDB.enableEmailMfa).toHaveBeenCalledWith({ id: 1 });
+        expect(result.recoveryCodes).toHaveLength(10);
+        expect(emailService.sendMfaStatusChangedEmail).toHaveBeenCalledWith('john@example.com', 'John', true, expect.any(String));
+    });
+
+    it('should not enable MFA with a login challenge', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildMfaUser({ mfaEnabled: false, mfaMethods: [], totpSecret: null }));
+
+        await expect(
+            userService.confirmMfaEnable({ userId: 1, mfaChallengeId: CHALLENGE_ID, mfaCode: '123456' })
+        ).rejects.toThrow('Invalid or expired MFA challenge');
+        expect(userDB.enableEmailMfa).not.toHaveBeenCalled();
+    });
+
+    it('should require the current password to start a step-up', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildMfaUser({ password: await bcrypt.hash('SecurePass123!', 4) }));
+
+        await expect(
+            userService.startStepUp({ userId: 1, currentPassword: 'WrongPass123!' })
+        ).rejects.toThrow('Current password is incorrect.');
+        expect(mfaChallengeDB.createChallenge).not.toHaveBeenCalled();
+    });
+
+    it('should return a token with a short-lived step-up claim for the same session', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildMfaUser());
+        (mfaChallengeDB.getChallengeByIdHash as jest.Mock).mockResolvedValue(buildChallenge({ purpose: 'STEP_UP', codeHash: null }));
+        (sessionDB.getSessionById as jest.Mock).mockResolvedValue(
+            new Session({ id: 7, userId: 1, createdAt: new Date(), lastSeenAt: new Date(), expiresAt: new Date() })
+        );
+
+        const result = await userService.verifyStepUp({
+            userId: 1,
+            sessionId: 7,
+            mfaChallengeId: CHALLENGE_ID,
+            mfaCode: totp.generateCode(TOTP_SECRET),
+        });
+
+        const claims = jwt.decode(result.token) as jwt.JwtPayload;
+        expect(claims.sid).toBe(7);
+        expect(claims.stepUpUntil).toBe(Math.floor(result.stepUpUntil.getTime() / 1000));
+        expect(result.stepUpUntil.getTime()).toBeGreaterThan(Date.now());
+        expect(result.refreshToken).toBeUndefined();
+        expect(sessionDB.createSession).not.toHaveBeenCalled();
+        expect(mfaChallengeDB.deleteChallenge).toHaveBeenCalledWith({ id: 3 });
+    });
+
+    it('should not accept a login challenge for a step-up', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildMfaUser());
+
+        await expect(
+            userService.verifyStepUp({ userId: 1, sessionId: 7, mfaChallengeId: CHALLENGE_ID, mfaCode: '123456' })
+        ).rejects.toThrow('Invalid or expired MFA challenge');
+        expect(sessionDB.getSessionById).not.toHaveBeenCalled();
+    });
+
+    it('should disable MFA and notify the user', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildMfaUser());
+
+        await userService.disableMfa({ userId: 1 });
+
+        expect(userDB.disableMfa).toHaveBeenCalledWith({ id: 1 });
+        expect(emailService.sendMfaStatusChangedEmail).toHaveBeenCalledWith('john@example.com', 'John', false);
+    });
+});
+
+describe('Password History', () => {
+    const CURRENT_PASSWORD = 'Current#Secret-Phrase42';
+    const OLD_PASSWORD = 'Earlier#Secret-Phrase17';
+    const NEW_PASSWORD = 'Brand-New#Phrase93';
+
+    beforeEach(async () => {
+        jest.clearAllMocks();
+        (userDB.getUserByPasswordResetToken as jest.Mock).mockResolvedValue(
+            buildUser({
+                password: await bcrypt.hash(CURRENT_PASSWORD, 4),
+                passwordResetTokenExp: new Date(Date.now() + 60 * 60 * 1000),
             })
         );
+        (passwordHistoryDB.getRecentPasswordHashes as jest.Mock).mockResolvedValue([await bcrypt.hash(OLD_PASSWORD, 4)]);
+    });
+
+    it('should reject a reset to one of the last N passwords', async () => {
+        await expect(userService.resetPassword({ token: 'reset-token', newPassword: OLD_PASSWORD })).rejects.toThrow(
+            'New password must be different from your last 5 passwords.'
+        );
+        expect(passwordHistoryDB.getRecentPasswordHashes).toHaveBeenCalledWith({ userId: 1, take: 4 });
+        expect(userDB.updatePassword).not.toHaveBeenCalled();
+    });
+
+    it('should reject a reset to the current password', async () => {
+        await expect(userService.resetPassword({ token: 'reset-token', newPassword: CURRENT_PASSWORD })).rejects.toThrow(
+            'New password must be different from your last 5 passwords.'
+        );
+    });
+
+    it('should keep the replaced password in the history on reset', async () => {
+        await userService.resetPassword({ token: 'reset-token', newPassword: NEW_PASSWORD });
+
+        expect(userDB.updatePassword).toHaveBeenCalledWith({ id: 1, password: NEW_PASSWORD, historySize: 4 });
+    });
+});
+
+describe('Progressive Lockout', () => {
+    const PASSWORD = 'Current#Secret-Phrase42';
+
+    const buildUserWithPassword = async (overrides: Partial<UserPrismaWithRole> = {}) =>
+        buildUser({ password: await bcrypt.hash(PASSWORD, 4), ...overrides });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (emailService.sendAccountUnlockEmail as jest.Mock).mockResolvedValue(undefined);
+    });
+
+    it('should lock the account and email an unlock link at the threshold', async () => {
+        (userDB.getUserByEmail as jest.Mock).mockResolvedValue(
+            await buildUserWithPassword({ failedLoginAttempts: 9, lastFailedLoginAt: new Date() })
+        );
+
+        await expect(
+            userService.authenticate({ email: 'john@example.com', password: 'Wrong#Secret-Phrase42' } as UserInput)
+        ).rejects.toThrow('Your account has been locked for 15 minutes');
+
+        expect(userDB.updateFailedLoginAttempts).toHaveBeenCalledWith(
+            expect.objectContaining({ id: 1, attempts: 10, lockoutCount: 1, lockedUntil: expect.any(Date) })
+        );
+        expect(userDB.setUnlockToken).toHaveBeenCalledWith(expect.objectContaining({ id: 1, token: expect.any(String) }));
+        expect(emailService.sendAccountUnlockEmail).toHaveBeenCalledWith(
+            'john@example.com',
+            (userDB.setUnlockToken as jest.Mock).mock.calls[0][0].token,
+            'John',
+            60
+        );
+    });
+
+    it('should ask to wait out a back-off delay without checking the password', async () => {
+        (userDB.getUserByEmail as jest.Mock).mockResolvedValue(
+            await buildUserWithPassword({ failedLoginAttempts: 5, lockedUntil: new Date(Date.now() + 4000) })
+        );
+
+        await expect(
+            userService.authenticate({ email: 'john@example.com', password: PASSWORD } as UserInput)
+        ).rejects.toThrow('Please wait 4 seconds before trying again');
+        expect(userDB.updateFailedLoginAttempts).not.toHaveBeenCalled();
+    });
+
+    it('should lift the lockout with a valid unlock link', async () => {
+        (userDB.getUserByUnlockToken as jest.Mock).mockResolvedValue(
+            await buildUserWithPassword({ failedLoginAttempts: 10, lockoutCount: 1, unlockTokenExp: new Date(Date.now() + 60 * 1000) })
+        );
+
+        const result = await userService.unlockAccount({ token: 'unlock-token' });
+
+        expect(result.message).toContain('unlocked');
+        expect(userDB.resetFailedLoginAttempts).toHaveBeenCalledWith({ id: 1 });
+    });
+
+    it('should reject an expired unlock link', async () => {
+        (userDB.getUserByUnlockToken as jest.Mock).mockResolvedValue(
+            await buildUserWithPassword({ failedLoginAttempts: 10, unlockTokenExp: new Date(Date.now() - 1000) })
+        );
+
+        await expect(userService.unlockAccount({ token: 'unlock-token' })).rejects.toThrow('Unlock link has expired');
+        expect(userDB.resetFailedLoginAttempts).not.toHaveBeenCalled();
+    });
+});
+
+describe('Magic Link Login', () => {
+    const buildMagicLinkUser = (overrides: Partial<UserPrismaWithRole> = {}) =>
+        buildUser({
+            magicLinkTokenHash: tokenGenerator.hashToken('magic-token'),
+            magicLinkTokenExp: new Date(Date.now() + 15 * 60 * 1000),
+            ...overrides,
+        });
+
+    beforeAll(() => {
+        jwtKeyring.useStore(new InMemorySigningKeyStore());
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        process.env.DATA_ENCRYPTION_KEY = '0123456789abcdef'.repeat(4);
+        process.env.JWT_EXPIRES_MINUTES = '15';
+        (sessionDB.createSession as jest.Mock).mockResolvedValue(
+            new Session({ id: 7, userId: 1, createdAt: new Date(), lastSeenAt: new Date(), expiresAt: new Date() })
+        );
+        (userDB.consumeMagicLinkToken as jest.Mock).mockResolvedValue(true);
+        (knownDeviceDB.countKnownDevices as jest.Mock).mockResolvedValue(0);
+        (emailService.sendMagicLinkEmail as jest.Mock).mockResolvedValue(undefined);
+        (emailService.sendMFAEmail as jest.Mock).mockResolvedValue(undefined);
+        (emailService.sendSuspiciousLoginAlert as jest.Mock).mockResolvedValue(undefined);
+    });
+
+    it('should email a login link whose hash is stored', async () => {
+        (userDB.getUserByEmail as jest.Mock).mockResolvedValue(buildMagicLinkUser());
+
+        await userService.requestMagicLink({ email: 'john@example.com' });
+
+        const { token } = (userDB.setMagicLinkToken as jest.Mock).mock.calls[0][0];
+        expect(emailService.sendMagicLinkEmail).toHaveBeenCalledWith('john@example.com', token, 'John', 15);
+    });
+
+    it('should answer the same for unknown and locked out accounts without sending a link', async () => {
+        (userDB.getUserByEmail as jest.Mock)
+            .mockResolvedValueOnce(buildMagicLinkUser())
+            .mockResolvedValueOnce(null)
+            .mockResolvedValueOnce(buildMagicLinkUser({ failedLoginAttempts: 10, lockedUntil: new Date(Date.now() + 60 * 1000) }));
+
+        const known = await userService.requestMagicLink({ email: 'john@example.com' });
+        const unknown = await userService.requestMagicLink({ email: 'nobody@example.com' });
+        const locked = await userService.requestMagicLink({ email: 'john@example.com' });
+
+        expect(unknown).toEqual(known);
+        expect(locked).toEqual(known);
+        expect(userDB.setMagicLinkToken).toHaveBeenCalledTimes(1);
+    });
+
+    it('should log in with a valid link and use it up', async () => {
+        (userDB.getUserByMagicLinkToken as jest.Mock).mockResolvedValue(buildMagicLinkUser());
+
+        const result = await userService.loginWithMagicLink({ token: 'magic-token' });
+
+        expect(result.token).toBeTruthy();
+        expect(result.refreshToken).toBeTruthy();
+        expect(userDB.consumeMagicLinkToken).toHaveBeenCalledWith({ id: 1, token: 'magic-token' });
+    });
+
+    it('should reject a link that was already used', async () => {
+        (userDB.getUserByMagicLinkToken as jest.Mock).mockResolvedValue(buildMagicLinkUser());
+        (userDB.consumeMagicLinkToken as jest.Mock).mockResolvedValue(false);
+
+        await expect(userService.loginWithMagicLink({ token: 'magic-token' })).rejects.toThrow('Invalid or expired login link.');
+        expect(sessionDB.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should reject an expired link', async () => {
+        (userDB.getUserByMagicLinkToken as jest.Mock).mockResolvedValue(
+            buildMagicLinkUser({ magicLinkTokenExp: new Date(Date.now() - 1000) })
+        );
+
+        await expect(userService.loginWithMagicLink({ token: 'magic-token' })).rejects.toThrow('Login link has expired');
+        expect(sessionDB.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should still require MFA when it is enabled', async () => {
+        (userDB.getUserByMagicLinkToken as jest.Mock).mockResolvedValue(
+            buildMagicLinkUser({ mfaEnabled: true, mfaMethods: ['EMAIL'] })
+        );
+
+        const result = await userService.loginWithMagicLink({ token: 'magic-token' });
+
+        expect(result.requiresMFA).toBe(true);
+        expect(result.token).toBe('');
+        expect(mfaChallengeDB.createChallenge).toHaveBeenCalledWith(expect.objectContaining({ purpose: 'LOGIN' }));
+        expect(sessionDB.createSession).not.toHaveBeenCalled();
+    });
+});
+
+describe('Refresh Token Service', () => {
+    const REFRESH_TOKEN = 'a'.repeat(64);
+    const SESSION_EXPIRES_AT = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+    const buildSession = (overrides: Record<string, unknown> = {}) => ({
+        id: 7,
+        userId: 1,
+        userAgent: 'Mozilla/5.0',
+        ipAddress: '203.0.113.10',
+        createdAt: new Date(),
+        lastSeenAt: new Date(),
+        expiresAt: SESSION_EXPIRES_AT,
+        revokedAt: null,
+        ...overrides,
+    });
+
+    const buildStoredToken = (overrides: Record<string, unknown> = {}) => ({
+        id: 5,
+        userId: 1,
+        sessionId: 7,
+        tokenHash: tokenGenerator.hashToken(REFRESH_TOKEN),
+        usedAt: null,
+        revokedAt: null,
+        expiresAt: SESSION_EXPIRES_AT,
+        createdAt: new Date(),
+        session: buildSession(),
+        ...overrides,
+    });
+
+    beforeAll(() => {
+        jwtKeyring.useStore(new InMemorySigningKeyStore());
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        process.env.DATA_ENCRYPTION_KEY = '0123456789abcdef'.repeat(4);
+        process.env.JWT_EXPIRES_MINUTES = '15';
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildUser());
+        (sessionDB.getSessionById as jest.Mock).mockResolvedValue(Session.from(buildSession()));
+    });
+
+    it('should rotate the refresh token within the same session', async () => {
+        (refreshTokenDB.getRefreshTokenByHash as jest.Mock).mockResolvedValue(buildStoredToken());
+        (refreshTokenDB.markRefreshTokenUsed as jest.Mock).mockResolvedValue(true);
+
+        const result = await userService.refreshAccessToken({ refreshToken: REFRESH_TOKEN });
+
+        expect(result.token).toBeTruthy();
+        expect(result.refreshToken).toBeTruthy();
+        expect(result.refreshToken).not.toBe(REFRESH_TOKEN);
+        expect(refreshTokenDB.markRefreshTokenUsed).toHaveBeenCalledWith({ id: 5 });
+        expect(refreshTokenDB.createRefreshToken).toHaveBeenCalledWith({
+            userId: 1,
+            sessionId: 7,
+            tokenHash: tokenGenerator.hashToken(result.refreshToken!),
+            expiresAt: SESSION_EXPIRES_AT,
+        });
+    });
+
+    it('should revoke the whole session when a used refresh token is replayed', async () => {
+        (refreshTokenDB.getRefreshTokenByHash as jest.Mock).mockResolvedValue(
+            buildStoredToken({ usedAt: new Date() })
+        );
+
+        await expect(userService.refreshAccessToken({ refreshToken: REFRESH_TOKEN })).rejects.toThrow(
+            'Invalid refresh token'
+        );
+        expect(sessionDB.revokeSession).toHaveBeenCalledWith({ id: 7 });
+        expect(refreshTokenDB.revokeRefreshTokensForSession).toHaveBeenCalledWith({ sessionId: 7 });
+        expect(refreshTokenDB.createRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should treat losing a concurrent refresh race as reuse', async () => {
+        (refreshTokenDB.getRefreshTokenByHash as jest.Mock).mockResolvedValue(buildStoredToken());
+        (refreshTokenDB.markRefreshTokenUsed as jest.Mock).mockResolvedValue(false);
+
+        await expect(userService.refreshAccessToken({ refreshToken: REFRESH_TOKEN })).rejects.toThrow(
+            'Invalid refresh token'
+        );
+        expect(sessionDB.revokeSession).toHaveBeenCalledWith({ id: 7 });
+    });
+
+    it('should reject a refresh token whose session was logged out', async () => {
+        (refreshTokenDB.getRefreshTokenByHash as jest.Mock).mockResolvedValue(
+            buildStoredToken({ session: buildSession({ revokedAt: new Date() }) })
+        );
+
+        await expect(userService.refreshAccessToken({ refreshToken: REFRESH_TOKEN })).rejects.toThrow(
+            'Your session has expired'
+        );
+        expect(refreshTokenDB.markRefreshTokenUsed).not.toHaveBeenCalled();
+    });
+
+    it('should start a session carrying the device details on login', async () => {
+        (sessionDB.createSession as jest.Mock).mockResolvedValue(Session.from(buildSession()));
+
+        const result = await userService.createAuthenticationResponse(
+            await userService.getUserById({ id: 1 }),
+            { userAgent: 'Mozilla/5.0', ipAddress: '203.0.113.10' }
+        );
+
+        expect(sessionDB.createSession).toHaveBeenCalledWith(
+            expect.objectContaining({ userId: 1, userAgent: 'Mozilla/5.0', ipAddress: '203.0.113.10' })
+        );
+        expect(JSON.parse(Buffer.from(result.token.split('.')[1], 'base64url').toString()).sid).toBe(7);
+    });
+});
+
+describe('Verification and Reset Tokens', () => {
+    const PASSWORD = 'Quiet#Harbour-Lantern42';
+    const NEW_PASSWORD = 'Brand-New#Phrase93';
+    const { rows } = database.user as unknown as { rows: Record<string, unknown>[] };
+    const actualUserDB = jest.requireActual('../../repository/user.db').default;
+
+    beforeEach(async () => {
+        jest.clearAllMocks();
+        rows.length = 0;
+        // Run the real repository functions against the in-memory table
+        for (const name of [
+            'getUserByEmail',
+            'createUser',
+            'getUserByVerificationToken',
+            'verifyEmail',
+            'setPasswordResetToken',
+            'getUserByPasswordResetToken',
+            'updatePassword',
+        ]) {
+            (userDB[name as keyof typeof userDB] as jest.Mock).mockImplementation(actualUserDB[name]);
+        }
+        (passwordHistoryDB.getRecentPasswordHashes as jest.Mock).mockResolvedValue([]);
+        (emailService.sendVerificationEmail as jest.Mock).mockResolvedValue(undefined);
+        (emailService.sendPasswordResetEmail as jest.Mock).mockResolvedValue(undefined);
+
+        await userService.signup({ firstName: 'John', lastName: 'Doe', email: 'john@example.com', password: PASSWORD });
+    });
+
+    const stored = () => rows[0];
+
+    it('should store only the hash of the verification token', async () => {
+        const token = (emailService.sendVerificationEmail as jest.Mock).mock.calls[0][1];
+
+        expect(stored().emailVerificationTokenHash).toBe(tokenGenerator.hashToken(token));
+        expect(JSON.stringify(stored())).not.toContain(token);
+    });
+
+    it('should verify an email by the hash of the token, only once', async () => {
+        const token = (emailService.sendVerificationEmail as jest.Mock).mock.calls[0][1];
+
+        await expect(userService.verifyEmail({ token: stored().emailVerificationTokenHash as string })).rejects.toThrow(
+            'Invalid or expired verification token.'
+        );
+
+        await userService.verifyEmail({ token });
+        expect(stored().emailVerified).toBe(true);
+        expect(stored().emailVerificationTokenHash).toBeNull();
+
+        await expect(userService.verifyEmail({ token })).rejects.toThrow('Invalid or expired verification token.');
+    });
+
+    it('should store only the hash of the password reset token', async () => {
+        await userService.forgotPassword({ email: 'john@example.com' });
+        const token = (emailService.sendPasswordResetEmail as jest.Mock).mock.calls[0][1];
+
+        expect(stored().passwordResetTokenHash).toBe(tokenGenerator.hashToken(token));
+        expect(JSON.stringify(stored())).not.toContain(token);
+    });
+
+    it('should reset a password by the hash of the token, only once', async () => {
+        await userService.forgotPassword({ email: 'john@example.com' });
+        const token = (emailService.sendPasswordResetEmail as jest.Mock).mock.calls[0][1];
+
+        await expect(
+            userService.resetPassword({ token: stored().passwordResetTokenHash as string, newPassword: NEW_PASSWORD })
+        ).rejects.toThrow('Invalid or expired password reset token.');
+
+        await userService.resetPassword({ token, newPassword: NEW_PASSWORD });
+        expect(stored().passwordResetTokenHash).toBeNull();
+
+        await expect(userService.resetPassword({ token, newPassword: 'Another#Fresh-Phrase77' })).rejects.toThrow(
+            'Invalid or expired password reset token.'
+        );
     });
 });
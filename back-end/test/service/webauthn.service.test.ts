@@ -0,0 +1,329 @@
+import crypto from 'crypto';
+import { isoCBOR } from '@simplewebauthn/server/helpers';
+import webauthnService from '../../service/webauthn.service';
+import userDB from '../../repository/user.db';
+import webauthnDB from '../../repository/webauthn.db';
+import webauthnChallengeDB from '../../repository/webauthnChallenge.db';
+import sessionDB from '../../repository/session.db';
+import { Session } from '../../model/session';
+import jwtKeyring, { InMemorySigningKeyStore } from '../../util/jwt.keyring';
+import { buildRolePrisma, buildUser } from '../fixtures/user.fixture';
+
+jest.mock('../../repository/user.db');
+jest.mock('../../repository/webauthn.db');
+jest.mock('../../repository/webauthnChallenge.db');
+jest.mock('../../repository/refreshToken.db');
+jest.mock('../../repository/session.db');
+jest.mock('../../repository/knownDevice.db');
+jest.mock('../../repository/knownNetwork.db');
+
+const RP_ID = 'localhost';
+const ORIGIN = 'http://localhost:8200';
+
+/**
+ * Minimal software authenticator: a P-256 key pair that produces "none" attestations
+ * and ES256 assertions exactly like a platform authenticator would.
+ */
+class SoftwareAuthenticator {
+    private keyPair = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    readonly credentialId = crypto.randomBytes(16);
+    signCount = 0;
+
+    get id(): string {
+        return this.credentialId.toString('base64url');
+    }
+
+    createCredential(challenge: string, origin: string = ORIGIN) {
+        const clientDataJSON = this.clientData('webauthn.create', challenge, origin);
+
+        const jwk = this.keyPair.publicKey.export({ format: 'jwk' });
+        const cosePublicKey = isoCBOR.encode(
+            new Map<number, number | Uint8Array>([
+                [1, 2], // kty: EC2
+                [3, -7], // alg: ES256
+                [-1, 1], // crv: P-256
+                [-2, Buffer.from(jwk.x!, 'base64url')],
+                [-3, Buffer.from(jwk.y!, 'base64url')],
+            ])
+        );
+
+        const credentialIdLength = Buffer.alloc(2);
+        credentialIdLength.writeUInt16BE(this.credentialId.length);
+        const authData = Buffer.concat([
+            this.authDataHeader(0x45), // UP + UV + AT
+            Buffer.alloc(16), // AAGUID
+            credentialIdLength,
+            this.credentialId,
+            Buffer.from(cosePublicKey),
+        ]);
+
+        const attestationObject = isoCBOR.encode(
+            new Map<string, string | Uint8Array | Map<string, string>>([
+                ['fmt', 'none'],
+                ['attStmt', new Map<string, string>()],
+                ['authData', authData],
+            ])
+        );
+
+        return {
+            id: this.id,
+            rawId: this.id,
+            type: 'public-key' as const,
+            response: {
+                clientDataJSON: clientDataJSON.toString('base64url'),
+                attestationObject: Buffer.from(attestationObject).toString('base64url'),
+                transports: ['internal' as const],
+            },
+            clientExtensionResults: {},
+        };
+    }
+
+    getAssertion(challenge: string, origin: string = ORIGIN) {
+        this.signCount++;
+        const clientDataJSON = this.clientData('webauthn.get', challenge, origin);
+        const authData = this.authDataHeader(0x05); // UP + UV
+
+        const signature = crypto.sign(
+            'sha256',
+            Buffer.concat([authData, crypto.createHash('sha256').update(clientDataJSON).digest()]),
+            this.keyPair.privateKey
+        );
+
+        return {
+            id: this.id,
+            rawId: this.id,
+            type: 'public-key' as const,
+            response: {
+                clientDataJSON: clientDataJSON.toString('base64url'),
+                authenticatorData: authData.toString('base64url'),
+                signature: signature.toString('base64url'),
+            },
+            clientExtensionResults: {},
+        };
+    }
+
+    private clientData(type: string, challenge: string, origin: string): Buffer {
+        return Buffer.from(JSON.stringify({ type, challenge, origin, crossOrigin: false }));
+    }
+
+    private authDataHeader(flags: number): Buffer {
+        const counter = Buffer.alloc(4);
+        counter.writeUInt32BE(this.signCount);
+        return Buffer.concat([
+            crypto.createHash('sha256').update(RP_ID).digest(),
+            Buffer.from([flags]),
+            counter,
+        ]);
+    }
+}
+
+describe('WebAuthn Service', () => {
+    const buildOrganiser = () =>
+        buildUser({
+            firstName: 'Liesbeth',
+            lastName: 'Van Houten',
+            email: 'liesbeth@example.com',
+            role: buildRolePrisma('ORGANISER'),
+        });
+
+    let authenticator: SoftwareAuthenticator;
+    let storedCredential: Record<string, unknown>;
+    let storedChallenges: Map<string, Record<string, unknown>>;
+
+    // Run a full registration ceremony and keep what the service stored
+    const register = async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildOrganiser());
+        (webauthnDB.getCredentialsByUserId as jest.Mock).mockResolvedValue([]);
+
+        const options = await webauthnService.getRegistrationOptions({ userId: 1 });
+
+        (webauthnDB.createCredential as jest.Mock).mockImplementation(async (data) => {
+            storedCredential = { id: 10, ...data, publicKey: Buffer.from(data.publicKey) };
+            return storedCredential;
+        });
+
+        await webauthnService.verifyRegistration({
+            userId: 1,
+            challengeId: options.challengeId,
+            response: authenticator.createCredential(options.challenge),
+        });
+    };
+
+    const startLogin = async () => {
+        (userDB.getUserByEmail as jest.Mock).mockResolvedValue(buildOrganiser());
+        (webauthnDB.getCredentialsByUserId as jest.Mock).mockResolvedValue([storedCredential]);
+
+        const options = await webauthnService.getAuthenticationOptions({ email: 'liesbeth@example.com' });
+
+        (webauthnDB.getCredentialByCredentialId as jest.Mock).mockResolvedValue(storedCredential);
+
+        return options;
+    };
+
+    beforeAll(() => {
+        jwtKeyring.useStore(new InMemorySigningKeyStore());
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        process.env.WEBAUTHN_RP_ID = RP_ID;
+        process.env.WEBAUTHN_ORIGIN = ORIGIN;
+        process.env.DATA_ENCRYPTION_KEY = '0123456789abcdef'.repeat(4);
+        process.env.JWT_EXPIRES_MINUTES = '15';
+        (sessionDB.createSession as jest.Mock).mockResolvedValue(
+            new Session({ id: 7, userId: 1, createdAt: new Date(), lastSeenAt: new Date(), expiresAt: new Date() })
+        );
+        authenticator = new SoftwareAuthenticator();
+
+        // Keep challenges in memory the way the table would, so ceremonies really are separate
+        storedChallenges = new Map();
+        (webauthnChallengeDB.createChallenge as jest.Mock).mockImplementation(async (data) => {
+            storedChallenges.set(data.challengeIdHash, { id: storedChallenges.size + 1, ...data });
+        });
+        (webauthnChallengeDB.consumeChallenge as jest.Mock).mockImplementation(async ({ challengeIdHash }) => {
+            const challenge = storedChallenges.get(challengeIdHash) ?? null;
+            storedChallenges.delete(challengeIdHash);
+            return challenge;
+        });
+    });
+
+    it('should register a passkey from a software authenticator', async () => {
+        await register();
+
+        expect(webauthnChallengeDB.createChallenge).toHaveBeenCalledWith(
+            expect.objectContaining({ userId: 1, ceremony: 'REGISTRATION' })
+        );
+        expect(storedChallenges.size).toBe(0);
+        expect(webauthnDB.createCredential).toHaveBeenCalledWith(
+            expect.objectContaining({
+                userId: 1,
+                credentialId: authenticator.id,
+                counter: 0,
+                transports: ['internal'],
+            })
+        );
+    });
+
+    it('should reject a registration made for another origin', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildOrganiser());
+        (webauthnDB.getCredentialsByUserId as jest.Mock).mockResolvedValue([]);
+        const options = await webauthnService.getRegistrationOptions({ userId: 1 });
+
+        await expect(
+            webauthnService.verifyRegistration({
+                userId: 1,
+                challengeId: options.challengeId,
+                response: authenticator.createCredential(options.challenge, 'https://phishing.example'),
+            })
+        ).rejects.toThrow('could not be verified');
+        expect(webauthnDB.createCredential).not.toHaveBeenCalled();
+    });
+
+    it('should log in with a registered passkey and return an authentication response', async () => {
+        await register();
+        const options = await startLogin();
+
+        const result = await webauthnService.verifyAuthentication({
+            email: 'liesbeth@example.com',
+            challengeId: options.challengeId,
+            response: authenticator.getAssertion(options.challenge),
+        });
+
+        expect(result.token).toBeTruthy();
+        expect(result).toEqual(
+            expect.objectContaining({ id: 1, firstName: 'Liesbeth', lastName: 'Van Houten', role: 'ORGANISER' })
+        );
+        expect(webauthnDB.updateCredentialCounter).toHaveBeenCalledWith({ id: 10, counter: 1 });
+    });
+
+    it('should reject an assertion signed for a different challenge', async () => {
+        await register();
+        const options = await startLogin();
+
+        await expect(
+            webauthnService.verifyAuthentication({
+                email: 'liesbeth@example.com',
+                challengeId: options.challengeId,
+                response: authenticator.getAssertion('some-other-challenge'),
+            })
+        ).rejects.toThrow('Passkey login failed');
+        expect(webauthnDB.updateCredentialCounter).not.toHaveBeenCalled();
+    });
+
+    it('should reject an assertion from a cloned authenticator with a stale sign counter', async () => {
+        await register();
+        storedCredential.counter = 5;
+        const options = await startLogin();
+
+        await expect(
+            webauthnService.verifyAuthentication({
+                email: 'liesbeth@example.com',
+                challengeId: options.challengeId,
+                response: authenticator.getAssertion(options.challenge),
+            })
+        ).rejects.toThrow('Passkey login failed');
+    });
+
+    it('should keep a pending registration working when a login is started for the same account', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildOrganiser());
+        (webauthnDB.getCredentialsByUserId as jest.Mock).mockResolvedValue([]);
+        const registration = await webauthnService.getRegistrationOptions({ userId: 1 });
+
+        // Anyone who knows the email can start a login
+        (userDB.getUserByEmail as jest.Mock).mockResolvedValue(buildOrganiser());
+        await webauthnService.getAuthenticationOptions({ email: 'liesbeth@example.com' });
+
+        await webauthnService.verifyRegistration({
+            userId: 1,
+            challengeId: registration.challengeId,
+            response: authenticator.createCredential(registration.challenge),
+        });
+
+        expect(webauthnDB.createCredential).toHaveBeenCalled();
+    });
+
+    it('should not accept a registration challenge for a login', async () => {
+        await register();
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildOrganiser());
+        const registration = await webauthnService.getRegistrationOptions({ userId: 1 });
+        (userDB.getUserByEmail as jest.Mock).mockResolvedValue(buildOrganiser());
+        (webauthnDB.getCredentialByCredentialId as jest.Mock).mockResolvedValue(storedCredential);
+
+        await expect(
+            webauthnService.verifyAuthentication({
+                email: 'liesbeth@example.com',
+                challengeId: registration.challengeId,
+                response: authenticator.getAssertion(registration.challenge),
+            })
+        ).rejects.toThrow('Passkey login has expired');
+        expect(webauthnDB.updateCredentialCounter).not.toHaveBeenCalled();
+    });
+
+    it('should not accept a login challenge twice', async () => {
+        await register();
+        const options = await startLogin();
+        await webauthnService.verifyAuthentication({
+            email: 'liesbeth@example.com',
+            challengeId: options.challengeId,
+            response: authenticator.getAssertion(options.challenge),
+        });
+
+        await expect(
+            webauthnService.verifyAuthentication({
+                email: 'liesbeth@example.com',
+                challengeId: options.challengeId,
+                response: authenticator.getAssertion(options.challenge),
+            })
+        ).rejects.toThrow('Passkey login has expired');
+    });
+
+    it('should return a challenge id without storing anything for an unknown email', async () => {
+        (userDB.getUserByEmail as jest.Mock).mockResolvedValue(null);
+
+        const options = await webauthnService.getAuthenticationOptions({ email: 'nobody@example.com' });
+
+        expect(options.challenge).toBeTruthy();
+        expect(options.challengeId).toBeTruthy();
+        expect(webauthnChallengeDB.createChallenge).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,148 @@
+import { Request, Response } from 'express';
+import { Role, SYSTEM_ROLES } from '../../model/role';
+import { User } from '../../model/user';
+import userDB from '../../repository/user.db';
+import { forbidImpersonation, requirePermission, requireStepUp } from '../../util/authorization';
+
+jest.mock('../../repository/user.db');
+
+describe('requirePermission', () => {
+    const buildUser = (roleName: keyof typeof SYSTEM_ROLES) =>
+        new User({
+            id: 1,
+            firstName: 'Jane',
+            lastName: 'Doe',
+            email: 'jane@example.com',
+            password: 'Str0ng&Secure!Pass',
+            role: new Role({
+                name: roleName,
+                permissions: [...SYSTEM_ROLES[roleName]],
+                isSystem: true,
+            }),
+        } as ConstructorParameters<typeof User>[0]);
+
+    const buildResponse = () => {
+        const res = { status: jest.fn(), json: jest.fn() };
+        res.status.mockReturnValue(res);
+        return res;
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('should let a user through when their role grants the permission', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildUser('ORGANISER'));
+        const res = buildResponse();
+        const next = jest.fn();
+
+        await requirePermission('event:create')(
+            { auth: { userId: 1 } } as unknown as Request,
+            res as unknown as Response,
+            next,
+        );
+
+        expect(next).toHaveBeenCalledWith();
+        expect(res.status).not.toHaveBeenCalled();
+    });
+
+    it('should answer 403 when a permission is missing', async () => {
+        (userDB.getUserById as jest.Mock).mockResolvedValue(buildUser('CLIENT'));
+        const res = buildResponse();
+        const next = jest.fn();
+
+        await requirePermission('event:create')(
+            { auth: { userId: 1 } } as unknown as Request,
+            res as unknown as Response,
+            next,
+        );
+
+        expect(res.status).toHaveBeenCalledWith(403);
+        expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should answer 401 without an authenticated user', async () => {
+        const res = buildResponse();
+        const next = jest.fn();
+
+        await requirePermission('event:read')({} as Request, res as unknown as Response, next);
+
+        expect(res.status).toHaveBeenCalledWith(401);
+        expect(userDB.getUserById).not.toHaveBeenCalled();
+    });
+});
+
+describe('requireStepUp', () => {
+    const buildResponse = () => {
+        const res = { status: jest.fn(), json: jest.fn(), setHeader: jest.fn() };
+        res.status.mockReturnValue(res);
+        return res;
+    };
+
+    const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+    it('should let a user through with a step-up that has not expired', () => {
+        const res = buildResponse();
+        const next = jest.fn();
+
+        requireStepUp()(
+            { auth: { userId: 1, stepUpUntil: nowInSeconds() + 60 } } as unknown as Request,
+            res as unknown as Response,
+            next,
+        );
+
+        expect(next).toHaveBeenCalledWith();
+        expect(res.status).not.toHaveBeenCalled();
+    });
+
+    it('should ask for a step-up without one or once it expired', () => {
+        for (const stepUpUntil of [undefined, nowInSeconds() - 1]) {
+            const res = buildResponse();
+            const next = jest.fn();
+
+            requireStepUp()(
+                { auth: { userId: 1, stepUpUntil } } as unknown as Request,
+                res as unknown as Response,
+                next,
+            );
+
+            expect(res.status).toHaveBeenCalledWith(401);
+            expect(res.setHeader).toHaveBeenCalledWith('WWW-Authenticate', expect.stringContaining('insufficient_user_authentication'));
+            expect(next).not.toHaveBeenCalled();
+        }
+    });
+
+    it('should refuse impersonation tokens', () => {
+        const res = buildResponse();
+        const next = jest.fn();
+
+        requireStepUp()(
+            { auth: { userId: 5, stepUpUntil: nowInSeconds() + 60, act: { sub: '1' } } } as unknown as Request,
+            res as unknown as Response,
+            next,
+        );
+
+        expect(res.status).toHaveBeenCalledWith(403);
+        expect(next).not.toHaveBeenCalled();
+    });
+});
+
+describe('forbidImpersonation', () => {
+    const buildResponse = () => {
+        const res = { status: jest.fn(), json: jest.fn() };
+        res.status.mockReturnValue(res);
+        return res;
+    };
+
+    it('should answer 403 to an impersonation token and let the user themselves through', () => {
+        const res = buildResponse();
+        const next = jest.fn();
+
+        forbidImpersonation()({ auth: { userId: 5, act: { sub: '1' } } } as unknown as Request, res as unknown as Response, next);
+        expect(res.status).toHaveBeenCalledWith(403);
+        expect(next).not.toHaveBeenCalled();
+
+        forbidImpersonation()({ auth: { userId: 5 } } as unknown as Request, res as unknown as Response, next);
+        expect(next).toHaveBeenCalledWith();
+    });
+});
@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import breachedPasswords from '../../util/breached.passwords';
+import passwordValidator from '../../util/password.validator';
+
+const sha1 = (password: string) => crypto.createHash('sha1').update(password).digest('hex').toUpperCase();
+
+// Write a dataset in the downloader's format: sorted SHA1:COUNT lines
+const writeDataset = (file: string, entries: Record<string, number>) => {
+    const lines = Object.entries(entries)
+        .map(([password, count]) => `${sha1(password)}:${count}`)
+        .sort();
+    fs.writeFileSync(file, lines.join('\r\n') + '\r\n');
+};
+
+describe('Breached Passwords', () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hibp-'));
+        file = path.join(dir, 'pwned-passwords.txt');
+        writeDataset(file, {
+            'Summer2024!Breached': 42,
+            'Another$Leaked1Pass': 3,
+            'Rarely#Seen9Password': 1,
+        });
+        breachedPasswords.useFile(file);
+        await breachedPasswords.prepareIndex();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        delete process.env.HIBP_MIN_COUNT;
+        breachedPasswords.useFile(undefined);
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should find a password that is in the dataset', async () => {
+        expect(await breachedPasswords.isBreached('Summer2024!Breached')).toBe(true);
+        expect(await breachedPasswords.isBreached('Another$Leaked1Pass')).toBe(true);
+    });
+
+    it('should not flag a password that is not in the dataset', async () => {
+        expect(await breachedPasswords.isBreached('Unique&Unseen7Phrase')).toBe(false);
+    });
+
+    it('should store the lookup index next to the dataset', async () => {
+        expect(fs.existsSync(`${file}.idx`)).toBe(true);
+    });
+
+    it('should ignore passwords seen fewer than HIBP_MIN_COUNT times', async () => {
+        process.env.HIBP_MIN_COUNT = '2';
+
+        expect(await breachedPasswords.isBreached('Rarely#Seen9Password')).toBe(false);
+        expect(await breachedPasswords.isBreached('Summer2024!Breached')).toBe(true);
+    });
+
+    it('should pick up a replaced dataset', async () => {
+        expect(await breachedPasswords.isBreached('Unique&Unseen7Phrase')).toBe(false);
+
+        writeDataset(file, { 'Unique&Unseen7Phrase': 7 });
+        fs.utimesSync(file, new Date(), new Date(Date.now() + 1000));
+        jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 2 * 60 * 1000);
+        await breachedPasswords.prepareIndex();
+
+        expect(await breachedPasswords.isBreached('Unique&Unseen7Phrase')).toBe(true);
+        expect(await breachedPasswords.isBreached('Summer2024!Breached')).toBe(false);
+    });
+
+    it('should not block passwords while the index is being built', async () => {
+        const other = path.join(dir, 'other-passwords.txt');
+        writeDataset(other, { 'Unique&Unseen7Phrase': 7 });
+        breachedPasswords.useFile(other);
+
+        expect(await breachedPasswords.isBreached('Unique&Unseen7Phrase')).toBe(false);
+
+        await breachedPasswords.prepareIndex();
+        expect(await breachedPasswords.isBreached('Unique&Unseen7Phrase')).toBe(true);
+    });
+
+    it('should not block passwords when the dataset is missing', async () => {
+        breachedPasswords.useFile(path.join(dir, 'missing.txt'));
+
+        expect(await breachedPasswords.isBreached('Summer2024!Breached')).toBe(false);
+    });
+
+    it('should make the password validator reject breached passwords', async () => {
+        const result = await passwordValidator.validate('Summer2024!Breached');
+
+        expect(result.isValid).toBe(false);
+        expect(result.errors.join(' ')).toMatch(/has appeared in a data breach/);
+    });
+});
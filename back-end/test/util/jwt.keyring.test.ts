@@ -0,0 +1,94 @@
+import jwt from 'jsonwebtoken';
+import jwtKeyring, { InMemorySigningKeyStore } from '../../util/jwt.keyring';
+import { generateJwtToken } from '../../util/jwt';
+
+describe('JWT Keyring', () => {
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    const payload = { userId: 1, email: 'john@example.com', role: 'CLIENT', permissions: ['event:read'], sessionId: 7 };
+
+    let store: InMemorySigningKeyStore;
+
+    const verify = async (token: string) => {
+        const { header } = jwt.decode(token, { complete: true })!;
+        const key = await jwtKeyring.getVerificationKey(header.kid);
+        if (!key) {
+            throw new Error('Unknown kid');
+        }
+        return jwt.verify(token, key, { algorithms: jwtKeyring.getSupportedAlgorithms() }) as jwt.JwtPayload;
+    };
+
+    beforeEach(() => {
+        store = new InMemorySigningKeyStore();
+        jwtKeyring.useStore(store);
+        process.env.DATA_ENCRYPTION_KEY = '0123456789abcdef'.repeat(4);
+        process.env.JWT_SIGNING_ALGORITHM = 'RS256';
+        process.env.JWT_KEY_ROTATION_DAYS = '30';
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should sign with RS256 and a kid that resolves to the verification key', async () => {
+        const token = await generateJwtToken(payload);
+        const { header } = jwt.decode(token, { complete: true })!;
+
+        expect(header.alg).toBe('RS256');
+        expect(header.kid).toBeTruthy();
+        expect((await verify(token)).sid).toBe(7);
+    });
+
+    it('should support ES256 keys', async () => {
+        process.env.JWT_SIGNING_ALGORITHM = 'ES256';
+
+        const token = await generateJwtToken(payload);
+
+        expect(jwt.decode(token, { complete: true })!.header.alg).toBe('ES256');
+        expect((await verify(token)).userId).toBe(1);
+    });
+
+    it('should reject tokens signed with the shared secret', async () => {
+        await generateJwtToken(payload);
+        const { kid } = (await jwtKeyring.getJwks()).keys[0];
+        const forged = jwt.sign(payload, 'test-secret', { algorithm: 'HS256', keyid: kid as string });
+
+        await expect(verify(forged)).rejects.toThrow();
+    });
+
+    it('should publish only public key material in the JWKS', async () => {
+        await generateJwtToken(payload);
+
+        const { keys } = await jwtKeyring.getJwks();
+
+        expect(keys).toHaveLength(1);
+        expect(keys[0]).toEqual(expect.objectContaining({ kty: 'RSA', alg: 'RS256', use: 'sig' }));
+        expect(keys[0]).not.toHaveProperty('d');
+    });
+
+    it('should store private keys encrypted', async () => {
+        await generateJwtToken(payload);
+
+        const [stored] = await store.loadUnexpired();
+
+        expect(stored.publicKey).toContain('BEGIN PUBLIC KEY');
+        expect(stored.privateKey).not.toContain('PRIVATE KEY');
+    });
+
+    it('should rotate keys and keep verifying tokens of the retired key until it expires', async () => {
+        jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+        const oldToken = await generateJwtToken(payload);
+
+        // Just past retirement: the old key no longer signs but its tokens may still be valid
+        jest.setSystemTime(Date.now() + 30 * DAY_MS + 60 * 1000);
+        const newToken = await generateJwtToken(payload);
+
+        const kid = (token: string) => jwt.decode(token, { complete: true })!.header.kid;
+        expect(kid(newToken)).not.toBe(kid(oldToken));
+        expect(await jwtKeyring.getVerificationKey(kid(oldToken))).toBeDefined();
+        expect((await jwtKeyring.getJwks()).keys).toHaveLength(2);
+
+        jest.setSystemTime(Date.now() + 60 * 60 * 1000);
+        expect(await jwtKeyring.getVerificationKey(kid(oldToken))).toBeUndefined();
+        expect(await jwtKeyring.getVerificationKey(kid(newToken))).toBeDefined();
+    });
+});
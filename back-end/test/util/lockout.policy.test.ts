@@ -0,0 +1,59 @@
+import { describeWait, isLockedOut, registerFailedLogin } from '../../util/lockout.policy';
+
+describe('Lockout Policy', () => {
+    const now = new Date('2026-01-01T12:00:00Z');
+    const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000);
+    const secondsFromNow = (date: Date | null) => (date ? (date.getTime() - now.getTime()) / 1000 : null);
+
+    it('should let the first few failures through without a delay', () => {
+        const outcome = registerFailedLogin({ failedLoginAttempts: 2, lockoutCount: 0, lastFailedLoginAt: minutesAgo(1) }, now);
+
+        expect(outcome).toEqual({ attempts: 3, lockoutCount: 0, lockedUntil: null, locked: false });
+    });
+
+    it('should double the delay for every further failure up to the cap', () => {
+        const delays = [3, 4, 5, 6].map((failedLoginAttempts) =>
+            secondsFromNow(registerFailedLogin({ failedLoginAttempts, lockoutCount: 0, lastFailedLoginAt: minutesAgo(1) }, now).lockedUntil)
+        );
+
+        expect(delays).toEqual([1, 2, 4, 8]);
+
+        process.env.LOCKOUT_MAX_DELAY_SECONDS = '5';
+        try {
+            const capped = registerFailedLogin({ failedLoginAttempts: 8, lockoutCount: 0, lastFailedLoginAt: minutesAgo(1) }, now);
+            expect(secondsFromNow(capped.lockedUntil)).toBe(5);
+        } finally {
+            delete process.env.LOCKOUT_MAX_DELAY_SECONDS;
+        }
+    });
+
+    it('should lock for longer after every lockout', () => {
+        const first = registerFailedLogin({ failedLoginAttempts: 9, lockoutCount: 0, lastFailedLoginAt: minutesAgo(1) }, now);
+        const second = registerFailedLogin({ failedLoginAttempts: 19, lockoutCount: 1, lastFailedLoginAt: minutesAgo(1) }, now);
+        const capped = registerFailedLogin({ failedLoginAttempts: 99, lockoutCount: 9, lastFailedLoginAt: minutesAgo(1) }, now);
+
+        expect(first).toMatchObject({ attempts: 10, lockoutCount: 1, locked: true });
+        expect(secondsFromNow(first.lockedUntil)).toBe(15 * 60);
+        expect(secondsFromNow(second.lockedUntil)).toBe(30 * 60);
+        expect(secondsFromNow(capped.lockedUntil)).toBe(24 * 60 * 60);
+    });
+
+    it('should start over after a quiet period', () => {
+        const outcome = registerFailedLogin({ failedLoginAttempts: 9, lockoutCount: 3, lastFailedLoginAt: minutesAgo(25 * 60) }, now);
+
+        expect(outcome).toEqual({ attempts: 1, lockoutCount: 0, lockedUntil: null, locked: false });
+    });
+
+    it('should tell a lockout from a back-off delay', () => {
+        expect(isLockedOut(10)).toBe(true);
+        expect(isLockedOut(20)).toBe(true);
+        expect(isLockedOut(5)).toBe(false);
+        expect(isLockedOut(0)).toBe(false);
+    });
+
+    it('should describe the wait in seconds or minutes', () => {
+        expect(describeWait(new Date(now.getTime() + 1000), now)).toBe('1 second');
+        expect(describeWait(new Date(now.getTime() + 45 * 1000), now)).toBe('45 seconds');
+        expect(describeWait(new Date(now.getTime() + 15 * 60 * 1000), now)).toBe('15 minutes');
+    });
+});
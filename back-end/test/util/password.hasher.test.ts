@@ -0,0 +1,57 @@
+import bcrypt from 'bcrypt';
+import passwordHasher from '../../util/password.hasher';
+
+describe('Password Hasher', () => {
+    afterEach(() => {
+        delete process.env.PASSWORD_HASH_ALGORITHM;
+        delete process.env.ARGON2_TIME_COST;
+        delete process.env.BCRYPT_COST;
+    });
+
+    it('should hash with argon2id by default, recording the parameters in the hash', async () => {
+        const hash = await passwordHasher.hash('Velvet#Harbor-Lantern42');
+
+        expect(hash).toMatch(/^\$argon2id\$v=19\$m=19456,t=2,p=1\$/);
+        expect(await passwordHasher.verify('Velvet#Harbor-Lantern42', hash)).toBe(true);
+        expect(await passwordHasher.verify('Wrong#Harbor-Lantern42', hash)).toBe(false);
+        expect(passwordHasher.needsRehash(hash)).toBe(false);
+    });
+
+    it('should still verify legacy bcrypt hashes and flag them for rehashing', async () => {
+        const hash = await bcrypt.hash('Velvet#Harbor-Lantern42', 4);
+
+        expect(await passwordHasher.verify('Velvet#Harbor-Lantern42', hash)).toBe(true);
+        expect(passwordHasher.needsRehash(hash)).toBe(true);
+    });
+
+    it('should flag argon2id hashes made with other parameters for rehashing', async () => {
+        process.env.ARGON2_TIME_COST = '1';
+        const hash = await passwordHasher.hash('Velvet#Harbor-Lantern42');
+        delete process.env.ARGON2_TIME_COST;
+
+        expect(passwordHasher.needsRehash(hash)).toBe(true);
+    });
+
+    it('should hash with bcrypt at the configured cost when selected', async () => {
+        process.env.PASSWORD_HASH_ALGORITHM = 'bcrypt';
+        process.env.BCRYPT_COST = '4';
+
+        const hash = await passwordHasher.hash('Velvet#Harbor-Lantern42');
+
+        expect(hash).toMatch(/^\$2b\$04\$/);
+        expect(passwordHasher.needsRehash(hash)).toBe(false);
+    });
+
+    it('should make the dummy hash with the current algorithm', async () => {
+        expect(await passwordHasher.getDummyHash()).toMatch(/^\$argon2id\$/);
+
+        process.env.PASSWORD_HASH_ALGORITHM = 'bcrypt';
+        process.env.BCRYPT_COST = '4';
+
+        expect(await passwordHasher.getDummyHash()).toMatch(/^\$2b\$04\$/);
+    });
+
+    it('should not match unknown hash formats', async () => {
+        expect(await passwordHasher.verify('Velvet#Harbor-Lantern42', 'plaintext')).toBe(false);
+    });
+});
@@ -0,0 +1,117 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Role, SYSTEM_ROLES } from '../../model/role';
+import { getPasswordPolicy, getPasswordPolicyProfileForRole, reloadPasswordPolicies } from '../../util/password.policy';
+import { estimateStrength } from '../../util/password.strength';
+import passwordValidator from '../../util/password.validator';
+
+describe('Password Strength', () => {
+    it('should score a long passphrase of uncommon words as strong', () => {
+        expect(estimateStrength('correct horse battery staple').score).toBe(4);
+    });
+
+    it.each([
+        ['Password2024!', 'Avoid common words and passwords'],
+        ['qwertyuiop1!A', 'Avoid keyboard patterns such as qwerty'],
+        ['abcdefgh12345', 'Avoid sequences such as abc or 123'],
+        ['aaaaaaaaaaaa', 'Avoid repeated characters or words'],
+        ['Xy!25-12-1990', 'Avoid dates and years'],
+    ])('should score %s as weak', (password, warning) => {
+        const strength = estimateStrength(password);
+
+        expect(strength.score).toBeLessThanOrEqual(1);
+        expect(strength.warnings).toContain(warning);
+    });
+
+    it("should penalise the user's own name and email", () => {
+        const withoutContext = estimateStrength('Jonathan.Verbeke#7');
+        const withContext = estimateStrength('Jonathan.Verbeke#7', ['Jonathan', 'Verbeke', 'jonathan.verbeke@example.com']);
+
+        expect(withContext.entropyBits).toBeLessThan(withoutContext.entropyBits);
+        expect(withContext.warnings).toContain('Avoid using your name or email address');
+    });
+});
+
+describe('Password Policy', () => {
+    afterEach(() => {
+        delete process.env.PASSWORD_POLICY_FILE;
+        reloadPasswordPolicies();
+    });
+
+    it('should accept a long passphrase without digits or symbols', async () => {
+        const result = await passwordValidator.validate('correct horse battery staple');
+
+        expect(result.errors).toEqual([]);
+        expect(result.isValid).toBe(true);
+    });
+
+    it('should reject a password that meets the character rules but is easy to guess', async () => {
+        const result = await passwordValidator.validate('Summer2024!Password');
+
+        expect(result.isValid).toBe(false);
+        expect(result.errors[0]).toMatch(/^Password is too easy to guess/);
+    });
+
+    it('should reject an overlong password without estimating its strength', async () => {
+        const started = Date.now();
+        const result = await passwordValidator.validate('Aa1!'.repeat(20000));
+
+        expect(result.isValid).toBe(false);
+        expect(result.errors).toEqual([expect.stringMatching(/^Password must not exceed \d+ characters$/)]);
+        expect(Date.now() - started).toBeLessThan(500);
+    });
+
+    it('should apply the stricter privileged profile', async () => {
+        const standard = await passwordValidator.validate('Velvet#Harb7x', { profile: 'standard' });
+        const privileged = await passwordValidator.validate('Velvet#Harb7x', { profile: 'privileged' });
+
+        expect(standard.isValid).toBe(true);
+        expect(privileged.isValid).toBe(false);
+        expect(privileged.errors).toContain('Password must be at least 14 characters long');
+    });
+
+    it('should give roles with more than client permissions the privileged profile', () => {
+        const role = (name: keyof typeof SYSTEM_ROLES) => new Role({ name, permissions: [...SYSTEM_ROLES[name]] });
+
+        expect(getPasswordPolicyProfileForRole(role('CLIENT'))).toBe('standard');
+        expect(getPasswordPolicyProfileForRole(role('ORGANISER'))).toBe('privileged');
+        expect(getPasswordPolicyProfileForRole(role('ADMIN'))).toBe('privileged');
+    });
+
+    const withPolicyFile = (overrides: unknown, check: () => void) => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'policy-'));
+        const file = path.join(dir, 'password-policy.json');
+        fs.writeFileSync(file, JSON.stringify(overrides));
+        process.env.PASSWORD_POLICY_FILE = file;
+        reloadPasswordPolicies();
+
+        try {
+            check();
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    };
+
+    it('should read profile overrides from PASSWORD_POLICY_FILE', () => {
+        withPolicyFile({ standard: { minLength: 16, historySize: 8 } }, () => {
+            expect(getPasswordPolicy('standard')).toMatchObject({ minLength: 16, historySize: 8, requireUppercase: true });
+            expect(getPasswordPolicy('privileged').minLength).toBe(14);
+        });
+    });
+
+    it.each([
+        [{ standard: { historySize: 0 } }, 'standard.historySize must be a whole number of at least 1'],
+        [{ privileged: { minLength: -4 } }, 'privileged.minLength must be a whole number of at least 1'],
+        [{ standard: { minLength: 40, maxLength: 32 } }, 'standard.maxLength must not be smaller than minLength'],
+        [{ standard: { minLength: '16' } }, 'standard.minLength must be a whole number of at least 1'],
+        [{ standard: { minStrengthScore: 5 } }, 'standard.minStrengthScore must be a whole number from 0 to 4'],
+        [{ standard: { requireSpecial: 'no' } }, 'standard.requireSpecial must be true or false'],
+        [{ standard: { minLenght: 16 } }, 'standard.minLenght is not a password policy setting'],
+        [{ standard: 16 }, 'standard must be an object of settings'],
+    ])('should refuse the invalid policy file %j', (overrides, error) => {
+        withPolicyFile(overrides, () => {
+            expect(() => getPasswordPolicy('standard')).toThrow(error);
+        });
+    });
+});
@@ -0,0 +1,54 @@
+import { PeriodicJob } from '../../util/periodic.job';
+import { logger } from '../../util/logger';
+
+describe('Periodic Job', () => {
+    const MINUTE_MS = 60 * 1000;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+    });
+
+    it('should run on every interval until stopped', () => {
+        const run = jest.fn().mockResolvedValue(undefined);
+        const job = new PeriodicJob(run, 'Job failed');
+
+        job.start(5);
+        job.start(5);
+        jest.advanceTimersByTime(10 * MINUTE_MS);
+        job.stop();
+        jest.advanceTimersByTime(10 * MINUTE_MS);
+
+        expect(run).toHaveBeenCalledTimes(2);
+    });
+
+    it('should run straight away when asked to', () => {
+        const run = jest.fn().mockResolvedValue(undefined);
+        const job = new PeriodicJob(run, 'Job failed');
+
+        job.start(5, { runNow: true });
+        job.stop();
+
+        expect(run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should log a failed run and keep going', async () => {
+        const error = jest.spyOn(logger, 'error').mockImplementation(() => undefined);
+        const run = jest.fn().mockRejectedValue(new Error('database is down'));
+        const job = new PeriodicJob(run, 'Job failed');
+
+        job.start(5);
+        jest.advanceTimersByTime(5 * MINUTE_MS);
+        await Promise.resolve();
+        jest.advanceTimersByTime(5 * MINUTE_MS);
+        await Promise.resolve();
+        job.stop();
+
+        expect(run).toHaveBeenCalledTimes(2);
+        expect(error).toHaveBeenCalledWith({ error: 'database is down' }, 'Job failed');
+    });
+});
@@ -0,0 +1,123 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import mfaChallengeDB from '../../repository/mfaChallenge.db';
+import tokenGenerator from '../../util/token.generator';
+import rateLimiter, { InMemoryRateLimitStore } from '../../util/rate.limiter';
+
+jest.mock('../../repository/mfaChallenge.db');
+
+describe('Rate Limiter', () => {
+    let server: Server;
+    let baseUrl: string;
+
+    const post = (path: string, body: object = {}) =>
+        fetch(`${baseUrl}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        });
+
+    beforeAll(async () => {
+        const app = express();
+        app.use(express.json());
+        // Stand-in for express-jwt: a userId header signs the request in
+        app.use((req: Request, res: Response, next: NextFunction) => {
+            const userId = req.get('x-user-id');
+            if (userId) {
+                (req as { auth?: { userId: number } }).auth = { userId: Number(userId) };
+            }
+            next();
+        });
+
+        const ok = (req: Request, res: Response) => res.status(200).json({ ok: true });
+        app.post('/ip', rateLimiter.create('test-ip', { windowMs: 60 * 1000, limits: { ip: 2 }, message: 'Slow down' }), ok);
+        app.post('/email', rateLimiter.create('test-email', { windowMs: 60 * 1000, limits: { ip: 100, email: 2 }, message: 'Slow down' }), ok);
+        app.post('/account', rateLimiter.create('test-account', { windowMs: 60 * 1000, limits: { account: 1 }, message: 'Slow down' }), ok);
+        app.post('/ip-email', rateLimiter.create('test-ip-email', { windowMs: 60 * 1000, limits: { ipEmail: 1 }, message: 'Slow down' }), ok);
+
+        server = app.listen(0);
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => {
+        server.close();
+    });
+
+    beforeEach(() => {
+        rateLimiter.useStore(new InMemoryRateLimitStore());
+    });
+
+    it('should refuse requests over the per-IP limit with a JSON error and Retry-After', async () => {
+        expect((await post('/ip')).status).toBe(200);
+        expect((await post('/ip')).status).toBe(200);
+
+        const response = await post('/ip');
+
+        expect(response.status).toBe(429);
+        expect(Number(response.headers.get('retry-after'))).toBeGreaterThan(0);
+        expect(Number(response.headers.get('retry-after'))).toBeLessThanOrEqual(60);
+        expect(await response.json()).toEqual({
+            status: 'too many requests',
+            message: 'Slow down',
+            retryAfter: Number(response.headers.get('retry-after')),
+        });
+    });
+
+    it('should count per email address regardless of case', async () => {
+        expect((await post('/email', { email: 'john@example.com' })).status).toBe(200);
+        expect((await post('/email', { email: 'John@Example.com ' })).status).toBe(200);
+
+        expect((await post('/email', { email: 'john@example.com' })).status).toBe(429);
+        expect((await post('/email', { email: 'jane@example.com' })).status).toBe(200);
+    });
+
+    it('should count per account and skip requests that are not signed in', async () => {
+        const asUser = (userId: number) =>
+            fetch(`${baseUrl}/account`, { method: 'POST', headers: { 'x-user-id': String(userId) } });
+
+        expect((await asUser(1)).status).toBe(200);
+        expect((await asUser(1)).status).toBe(429);
+        expect((await asUser(2)).status).toBe(200);
+        expect((await post('/account')).status).toBe(200);
+        expect((await post('/account')).status).toBe(200);
+    });
+
+    it('should count per email address and client address together', async () => {
+        expect((await post('/ip-email', { email: 'john@example.com' })).status).toBe(200);
+        expect((await post('/ip-email', { email: 'john@example.com' })).status).toBe(429);
+        expect((await post('/ip-email', { email: 'jane@example.com' })).status).toBe(200);
+        expect((await post('/ip-email')).status).toBe(200);
+    });
+
+    it('should count MFA attempts before sign-in against the account the challenge belongs to', async () => {
+        (mfaChallengeDB.getChallengeByIdHash as jest.Mock).mockImplementation(async ({ challengeIdHash }) =>
+            challengeIdHash === tokenGenerator.hashToken('unknown') ? null : { id: 3, userId: 1 }
+        );
+
+        expect((await post('/account', { mfaChallengeId: 'first-challenge' })).status).toBe(200);
+        expect((await post('/account', { mfaChallengeId: 'second-challenge' })).status).toBe(429);
+        expect((await post('/account', { mfaChallengeId: 'unknown' })).status).toBe(200);
+    });
+
+    it('should start a new window once the previous one has ended', async () => {
+        const store = new InMemoryRateLimitStore();
+
+        await store.increment('key', 60 * 1000);
+        expect((await store.increment('key', 60 * 1000)).hits).toBe(2);
+
+        await store.increment('expired', -1);
+        expect((await store.increment('expired', 60 * 1000)).hits).toBe(1);
+    });
+
+    it('should purge counters whose window has ended', async () => {
+        const store = new InMemoryRateLimitStore();
+        rateLimiter.useStore(store);
+
+        await store.increment('expired', -1000);
+        await store.increment('current', 60 * 1000);
+
+        expect(await rateLimiter.purgeExpired()).toBe(1);
+        expect((await store.increment('current', 60 * 1000)).hits).toBe(2);
+    });
+});
@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+import secretBox from '../../util/secret.box';
+
+describe('Secret Box', () => {
+    const KEY = '0123456789abcdef'.repeat(4);
+
+    const encryptWithJwtSecret = (plaintext: string, jwtSecret: string): string => {
+        const key = crypto.createHash('sha256').update(jwtSecret).digest();
+        const iv = crypto.randomBytes(12);
+        const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+        const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+        return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64url')).join('.');
+    };
+
+    beforeEach(() => {
+        process.env.DATA_ENCRYPTION_KEY = KEY;
+        delete process.env.JWT_SECRET;
+    });
+
+    it('should decrypt what it encrypted', () => {
+        const payload = secretBox.encrypt('top secret');
+
+        expect(payload).not.toContain('top secret');
+        expect(secretBox.decrypt(payload)).toBe('top secret');
+        expect(secretBox.isCurrent(payload)).toBe(true);
+    });
+
+    it('should refuse to start without a valid DATA_ENCRYPTION_KEY', () => {
+        delete process.env.DATA_ENCRYPTION_KEY;
+        expect(() => secretBox.assertConfigured()).toThrow('DATA_ENCRYPTION_KEY must be set');
+
+        process.env.DATA_ENCRYPTION_KEY = 'too-short';
+        expect(() => secretBox.assertConfigured()).toThrow('DATA_ENCRYPTION_KEY must be set');
+    });
+
+    it('should not derive the key from JWT_SECRET', () => {
+        process.env.JWT_SECRET = 'jwt-secret';
+        const payload = secretBox.encrypt('top secret');
+
+        delete process.env.JWT_SECRET;
+
+        expect(secretBox.decrypt(payload)).toBe('top secret');
+        expect(() => secretBox.decrypt(encryptWithJwtSecret('top secret', 'jwt-secret'))).toThrow();
+    });
+
+    it('should read values encrypted under the old JWT_SECRET key while it is still set', () => {
+        process.env.JWT_SECRET = 'jwt-secret';
+        const legacy = encryptWithJwtSecret('top secret', 'jwt-secret');
+
+        expect(secretBox.decrypt(legacy)).toBe('top secret');
+        expect(secretBox.isCurrent(legacy)).toBe(false);
+    });
+
+    it('should reject a payload that has been tampered with', () => {
+        const [iv, authTag] = secretBox.encrypt('top secret').split('.');
+        const tampered = [iv, authTag, Buffer.from('other secret').toString('base64url')].join('.');
+
+        expect(() => secretBox.decrypt(tampered)).toThrow();
+    });
+});
@@ -0,0 +1,43 @@
+import tokenBlacklist, { InMemoryTokenBlacklistStore } from '../../util/token.blacklist';
+import jwtKeyring, { InMemorySigningKeyStore } from '../../util/jwt.keyring';
+import { generateJwtToken } from '../../util/jwt';
+import jwt from 'jsonwebtoken';
+
+describe('Token Blacklist', () => {
+    const inOneMinute = () => Math.floor(Date.now() / 1000) + 60;
+    const oneMinuteAgo = () => Math.floor(Date.now() / 1000) - 60;
+
+    beforeEach(() => {
+        tokenBlacklist.useStore(new InMemoryTokenBlacklistStore());
+        jwtKeyring.useStore(new InMemorySigningKeyStore());
+        process.env.DATA_ENCRYPTION_KEY = '0123456789abcdef'.repeat(4);
+    });
+
+    it('should give every access token a unique jti', async () => {
+        const payload = { userId: 1, email: 'john@example.com', role: 'CLIENT', permissions: ['event:read'], sessionId: 1 };
+
+        const first = jwt.decode(await generateJwtToken(payload)) as jwt.JwtPayload;
+        const second = jwt.decode(await generateJwtToken(payload)) as jwt.JwtPayload;
+
+        expect(first.jti).toBeTruthy();
+        expect(first.jti).not.toBe(second.jti);
+    });
+
+    it('should report a revoked jti as revoked', async () => {
+        await tokenBlacklist.revoke('jti-1', inOneMinute());
+
+        expect(await tokenBlacklist.isRevoked('jti-1')).toBe(true);
+        expect(await tokenBlacklist.isRevoked('jti-2')).toBe(false);
+    });
+
+    it('should purge entries for tokens that have expired', async () => {
+        await tokenBlacklist.revoke('expired', oneMinuteAgo());
+        await tokenBlacklist.revoke('still-valid', inOneMinute());
+
+        const purged = await tokenBlacklist.purgeExpired();
+
+        expect(purged).toBe(1);
+        expect(await tokenBlacklist.isRevoked('expired')).toBe(false);
+        expect(await tokenBlacklist.isRevoked('still-valid')).toBe(true);
+    });
+});
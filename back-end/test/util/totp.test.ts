@@ -0,0 +1,58 @@
+import totp from '../../util/totp';
+
+// Shared secret from the RFC 6238 appendix B test vectors ("12345678901234567890")
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TOTP', () => {
+    it('should match the RFC 6238 SHA-1 test vectors', () => {
+        expect(totp.generateCode(RFC_SECRET, totp.getTimeStep(59 * 1000))).toBe('287082');
+        expect(totp.generateCode(RFC_SECRET, totp.getTimeStep(1111111109 * 1000))).toBe('081804');
+        expect(totp.generateCode(RFC_SECRET, totp.getTimeStep(1234567890 * 1000))).toBe('005924');
+    });
+
+    it('should generate a base32 secret of 160 bits', () => {
+        const secret = totp.generateSecret();
+
+        expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+        expect(totp.generateSecret()).not.toBe(secret);
+    });
+
+    it('should build an otpauth URI for authenticator apps', () => {
+        const uri = totp.buildOtpAuthUri(RFC_SECRET, 'john@example.com');
+
+        expect(uri).toMatch(/^otpauth:\/\/totp\//);
+        expect(uri).toContain('john%40example.com');
+        expect(uri).toContain(`secret=${RFC_SECRET}`);
+        expect(uri).toContain('digits=6');
+        expect(uri).toContain('period=30');
+    });
+
+    it('should accept a code from the current time step', () => {
+        const now = Date.now();
+        const code = totp.generateCode(RFC_SECRET, totp.getTimeStep(now));
+
+        expect(totp.verify(code, RFC_SECRET, 1, now)).toBe(totp.getTimeStep(now));
+    });
+
+    it('should accept codes within the drift window', () => {
+        const now = Date.now();
+        const previous = totp.generateCode(RFC_SECRET, totp.getTimeStep(now) - 1);
+        const next = totp.generateCode(RFC_SECRET, totp.getTimeStep(now) + 1);
+
+        expect(totp.verify(previous, RFC_SECRET, 1, now)).toBe(totp.getTimeStep(now) - 1);
+        expect(totp.verify(next, RFC_SECRET, 1, now)).toBe(totp.getTimeStep(now) + 1);
+    });
+
+    it('should reject codes outside the drift window', () => {
+        const now = Date.now();
+        const old = totp.generateCode(RFC_SECRET, totp.getTimeStep(now) - 3);
+
+        expect(totp.verify(old, RFC_SECRET, 1, now)).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+        expect(totp.verify('', RFC_SECRET)).toBeNull();
+        expect(totp.verify('12345', RFC_SECRET)).toBeNull();
+        expect(totp.verify('abcdef', RFC_SECRET)).toBeNull();
+    });
+});
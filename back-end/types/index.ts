@@ -4,15 +4,117 @@ type UserInput = {
     lastName: string;
     email: string;
     password: string;
-    isOrganiser: boolean;
 };
 
+type MfaMethod = 'EMAIL' | 'TOTP';
+
 type AuthenticationResponse = {
     token: string;
+    refreshToken?: string;
+    id: number;
+    firstName: string;
+    lastName: string;
+    role: string;
+    requiresMFA?: boolean;
+    mfaMethods?: MfaMethod[];
+    // Opaque id of the pending second-factor step, sent back with the code
+    mfaChallengeId?: string;
+};
+
+// The user's own MFA settings
+type MfaStatus = {
+    mfaEnabled: boolean;
+    mfaMethods: MfaMethod[];
+    recoveryCodesRemaining: number;
+};
+
+// Where a login came from, recorded on its session
+type SessionContext = {
+    userAgent?: string;
+    ipAddress?: string;
+};
+
+type LoginRiskLevel = 'low' | 'medium' | 'high';
+
+type LoginRiskReason = 'NEW_DEVICE' | 'NEW_NETWORK' | 'IMPOSSIBLE_TRAVEL' | 'FAILED_ATTEMPTS';
+
+// Outcome of scoring a login: medium alerts the user, high also forces an email MFA step
+type LoginRiskAssessment = {
+    level: LoginRiskLevel;
+    score: number;
+    reasons: LoginRiskReason[];
+};
+
+// The signed-in user's own account, as shown on their profile page
+type UserProfile = {
+    id: number;
+    firstName: string;
+    lastName: string;
+    email: string;
+    role: string;
+    emailVerified: boolean;
+    mfaEnabled: boolean;
+    mfaMethods: MfaMethod[];
+    // New address of an email change that is waiting for confirmation
+    pendingEmail: string | null;
+    // When the account will be deleted, if the user asked for that
+    deletionScheduledAt: Date | null;
+    createdAt?: Date;
+};
+
+// Machine-readable copy of everything stored about a user (GDPR Art. 15 and 20)
+type AccountDataExport = {
+    format: string;
+    exportedAt: Date;
+    profile: UserProfile;
+    bookings: { events: object[]; trips: object[] };
+    organising: { events: object[]; trips: object[] };
+    // Login sessions and the metadata of their (remember-me) refresh tokens
+    sessions: object[];
+    passkeys: object[];
+    knownDevices: object[];
+    knownNetworks: object[];
+    passwordChangedAt: Date[];
+    emailChanges: object[];
+    organiserApplications: object[];
+    securityEvents: Array<{ eventType: string; details: unknown; occurredAt: Date }>;
+};
+
+// Fields users may edit themselves; the email address has its own confirmed flow
+type ProfileInput = {
+    firstName?: string;
+    lastName?: string;
+};
+
+// Account state shown to administrators; never includes secrets or token values
+type UserAccountStatus = {
     id: number;
     firstName: string;
     lastName: string;
-    role: 'ORGANISER' | 'CLIENT';
+    email: string;
+    role: string;
+    emailVerified: boolean;
+    failedLoginAttempts: number;
+    lockedUntil: Date | null;
+    locked: boolean;
+    mfaEnabled: boolean;
+    mfaMethods: MfaMethod[];
+    passwordResetRequired: boolean;
+    disabledAt: Date | null;
+    createdAt?: Date;
+};
+
+type OrganiserApplicationInput = {
+    businessName: string;
+    motivation: string;
+    contactEmail: string;
+    contactPhone?: string;
+};
+
+type RoleInput = {
+    name: string;
+    description?: string;
+    permissions?: string[];
 };
 
 type ExperienceInput = {
@@ -34,17 +136,17 @@ type Experience = {
         firstName: string;
         lastName: string;
         email: string;
-        isOrganiser: boolean;
+        role: string;
     };
     attendees: {
         id: number;
         firstName: string;
         lastName: string;
         email: string;
-        isOrganiser: boolean;
+        role: string;
     }[];
     createdAt: Date;
     updatedAt: Date;
 };
 
-export { UserInput, AuthenticationResponse, ExperienceInput, Experience };
+export { UserInput, MfaMethod, AuthenticationResponse, MfaStatus, SessionContext, LoginRiskLevel, LoginRiskReason, LoginRiskAssessment, UserProfile, ProfileInput, AccountDataExport, UserAccountStatus, OrganiserApplicationInput, RoleInput, ExperienceInput, Experience };
@@ -0,0 +1,116 @@
+import { NextFunction, Request, Response } from 'express';
+import { Permission } from '../model/role';
+import userDB from '../repository/user.db';
+import { logSecurityEvent } from './logger';
+
+/**
+ * Router middleware: only let the request through when the authenticated user's role
+ * grants every listed permission.
+ *
+ * The role is read from the database rather than from the JWT's role claims, so a role
+ * change (promotion, demotion, edited custom role) applies to the very next request.
+ */
+const requirePermission = (...permissions: Permission[]) => {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        const userId = (req as { auth?: { userId?: number } }).auth?.userId;
+        if (!userId) {
+            return res.status(401).json({ status: 'unauthorized', message: 'Authentication required' });
+        }
+
+        try {
+            const user = await userDB.getUserById({ id: userId });
+            const missing = permissions.filter((permission) => !user?.hasPermission(permission));
+
+            if (!user || missing.length > 0) {
+                logSecurityEvent('PRIVILEGE_ESCALATION', {
+                    userId,
+                    role: user?.getRole().getName(),
+                    reason: 'Missing permission',
+                    missing,
+                    method: req.method,
+                    url: req.originalUrl,
+                });
+                return res.status(403).json({
+                    status: 'forbidden',
+                    message: 'You do not have permission to perform this action',
+                });
+            }
+
+            next();
+        } catch (error) {
+            next(error);
+        }
+    };
+};
+
+type ImpersonationClaims = { userId?: number; act?: { sub?: string } };
+
+/**
+ * Answer 403 when the access token is an impersonation token (it has an `act` claim naming
+ * the administrator). Returns whether the request was rejected.
+ */
+const rejectImpersonation = (req: Request, res: Response): boolean => {
+    const auth = (req as { auth?: ImpersonationClaims }).auth;
+    if (!auth?.act) {
+        return false;
+    }
+
+    logSecurityEvent('IMPERSONATION_ACTION_BLOCKED', {
+        userId: auth.userId,
+        adminId: Number(auth.act.sub),
+        method: req.method,
+        url: req.originalUrl,
+    });
+    res.status(403).json({
+        status: 'forbidden',
+        message: 'This action is not available while impersonating a user.',
+    });
+    return true;
+};
+
+/**
+ * Router middleware for actions an administrator must never take on a user's behalf
+ * (credentials, MFA, sessions, account deletion): refuse them for impersonation tokens.
+ */
+const forbidImpersonation = () => {
+    return (req: Request, res: Response, next: NextFunction) => {
+        if (!rejectImpersonation(req, res)) {
+            next();
+        }
+    };
+};
+
+/**
+ * Router middleware for sensitive operations: only let the request through when the access
+ * token carries an unexpired step-up claim, i.e. the user re-entered their password and a
+ * second-factor code a few minutes ago (POST /users/step-up).
+ *
+ * Answers 401 with `insufficient_user_authentication` (RFC 9470) otherwise, so clients know
+ * to step up rather than to log in again. Impersonation tokens are always refused.
+ */
+const requireStepUp = () => {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const auth = (req as { auth?: { userId?: number; stepUpUntil?: number } }).auth;
+        if (!auth?.userId) {
+            return res.status(401).json({ status: 'unauthorized', message: 'Authentication required' });
+        }
+        if (rejectImpersonation(req, res)) {
+            return;
+        }
+
+        if (!auth.stepUpUntil || auth.stepUpUntil * 1000 <= Date.now()) {
+            res.setHeader(
+                'WWW-Authenticate',
+                'Bearer error="insufficient_user_authentication", error_description="Recent re-authentication required"'
+            );
+            return res.status(401).json({
+                status: 'step-up required',
+                message: 'Please confirm your identity to continue.',
+            });
+        }
+
+        next();
+    };
+};
+
+export { requirePermission, requireStepUp, forbidImpersonation };
@@ -0,0 +1,249 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { logger } from './logger';
+
+// Hashes are grouped by their first 5 hex characters, as in the HIBP range API: 16^5 ranges
+const PREFIX_LENGTH = 5;
+const RANGE_COUNT = 16 ** PREFIX_LENGTH;
+
+// Re-check the data file for updates at most this often
+const FILE_CHECK_INTERVAL_MS = 60 * 1000;
+
+type RangeIndex = {
+    // Byte offset where each range starts; offsets[RANGE_COUNT] is the end of the file
+    offsets: Float64Array;
+    size: number;
+    mtimeMs: number;
+};
+
+/**
+ * Offline breached-password lookup against a Have I Been Pwned dataset on disk.
+ *
+ * The data file holds one `SHA1:COUNT` line per hash (uppercase hex), sorted by hash: every
+ * HIBP range response concatenated with its 5-character prefix, as written by the official
+ * haveibeenpwned-downloader. An index of where each prefix range starts is built once and
+ * stored next to the file (`<file>.idx`), so a lookup reads only the one range its prefix
+ * falls in. Replacing the file with a newer download is picked up without a restart.
+ *
+ * Scanning a full dataset takes minutes, so the index is built in the background (from
+ * startup, see prepareIndex) and never inside a request; lookups fail open until it is ready.
+ */
+class BreachedPasswords {
+    private file: string | undefined = process.env.HIBP_PASSWORDS_FILE || undefined;
+    private index: RangeIndex | null = null;
+    private building: Promise<void> | null = null;
+    private checkedAt = 0;
+
+    /**
+     * Point the check at another data file (e.g. a small fixture in tests), or disable it with undefined
+     */
+    useFile(file: string | undefined): void {
+        this.file = file;
+        this.index = null;
+        this.checkedAt = 0;
+    }
+
+    /**
+     * Load or build the index ahead of the first lookup. Called at startup without awaiting;
+     * resolves once the index is ready (or could not be built, which is logged).
+     */
+    async prepareIndex(): Promise<void> {
+        if (!this.file) {
+            return;
+        }
+
+        try {
+            await this.refreshIndex();
+            await this.building;
+        } catch (err: any) {
+            logger.error({ file: this.file, error: err.message }, 'Could not prepare breached password index');
+        }
+    }
+
+    isEnabled(): boolean {
+        return !!this.file;
+    }
+
+    /**
+     * Whether the password appears in the dataset at least HIBP_MIN_COUNT times.
+     * Fails open (returns false) when no dataset is configured, it can't be read or its index
+     * is still being built, so the file never blocks signups; the other password rules still apply.
+     */
+    async isBreached(password: string): Promise<boolean> {
+        if (!this.file) {
+            return false;
+        }
+
+        try {
+            const index = await this.getIndex();
+            if (!index) {
+                return false;
+            }
+
+            const hash = crypto.createHash('sha1').update(password, 'utf8').digest('hex').toUpperCase();
+            const count = await this.lookup(index, hash);
+            return count >= parseInt(process.env.HIBP_MIN_COUNT || '1');
+        } catch (err: any) {
+            logger.error({ file: this.file, error: err.message }, 'Breached password lookup failed');
+            return false;
+        }
+    }
+
+    private async lookup(index: RangeIndex, hash: string): Promise<number> {
+        const range = parseInt(hash.slice(0, PREFIX_LENGTH), 16);
+        const start = index.offsets[range];
+        const length = index.offsets[range + 1] - start;
+        if (length <= 0) {
+            return 0;
+        }
+
+        const buffer = Buffer.alloc(length);
+        const handle = await fs.promises.open(this.file!, 'r');
+        try {
+            await handle.read(buffer, 0, length, start);
+        } finally {
+            await handle.close();
+        }
+
+        for (const line of buffer.toString('ascii').split('\n')) {
+            const [lineHash, count] = line.trim().split(':');
+            if (lineHash?.toUpperCase() === hash) {
+                return parseInt(count) || 1;
+            }
+        }
+        return 0;
+    }
+
+    private async getIndex(): Promise<RangeIndex | null> {
+        if (this.index && Date.now() - this.checkedAt < FILE_CHECK_INTERVAL_MS) {
+            return this.index;
+        }
+        return this.refreshIndex();
+    }
+
+    /**
+     * Use the current or stored index when it still matches the file. Otherwise start building
+     * one in the background and return null for now; concurrent callers share that one build.
+     */
+    private async refreshIndex(): Promise<RangeIndex | null> {
+        if (this.building) {
+            return null;
+        }
+
+        const file = this.file!;
+        const stat = await fs.promises.stat(file);
+        this.checkedAt = Date.now();
+
+        if (this.index && this.index.size === stat.size && this.index.mtimeMs === stat.mtimeMs) {
+            return this.index;
+        }
+
+        const stored = await this.readStoredIndex(file, stat);
+        if (stored) {
+            this.index = stored;
+            return stored;
+        }
+
+        // The old offsets don't fit the new file, so don't use them while building
+        this.index = null;
+        if (!this.building) {
+            this.building = this.rebuildIndex(file, stat).finally(() => {
+                this.building = null;
+            });
+        }
+        return null;
+    }
+
+    private async rebuildIndex(file: string, stat: fs.Stats): Promise<void> {
+        try {
+            logger.info({ file }, '🔎 Building breached password index');
+            const index = await this.buildIndex(file, stat);
+            await this.writeStoredIndex(file, index).catch((err: any) =>
+                logger.warn({ file, error: err.message }, 'Could not store breached password index')
+            );
+            logger.info({ file, size: stat.size }, '🔎 Breached password index ready');
+
+            // The file may have been switched (useFile) while this one was scanned
+            if (this.file === file) {
+                this.index = index;
+            }
+        } catch (err: any) {
+            logger.error({ file, error: err.message }, 'Could not build breached password index');
+        }
+    }
+
+    /**
+     * Scan the data file once, recording the byte offset of the first line of every range
+     */
+    private buildIndex(file: string, stat: fs.Stats): Promise<RangeIndex> {
+        return new Promise((resolve, reject) => {
+            const offsets = new Float64Array(RANGE_COUNT + 1).fill(-1);
+            let position = 0;
+            let atLineStart = true;
+            let prefix = '';
+            let lineStart = 0;
+
+            const stream = fs.createReadStream(file, { highWaterMark: 1024 * 1024 });
+            stream.on('data', (chunk: string | Buffer) => {
+                const bytes = chunk as Buffer;
+                for (let i = 0; i < bytes.length; i++) {
+                    const byte = bytes[i];
+                    if (byte === 0x0a) {
+                        atLineStart = true;
+                        prefix = '';
+                        continue;
+                    }
+                    if (atLineStart) {
+                        atLineStart = false;
+                        lineStart = position + i;
+                    }
+                    if (prefix.length < PREFIX_LENGTH) {
+                        prefix += String.fromCharCode(byte);
+                        if (prefix.length === PREFIX_LENGTH) {
+                            const range = parseInt(prefix, 16);
+                            if (!Number.isNaN(range) && offsets[range] === -1) {
+                                offsets[range] = lineStart;
+                            }
+                        }
+                    }
+                }
+                position += bytes.length;
+            });
+            stream.on('error', reject);
+            stream.on('end', () => {
+                // Empty ranges start (and end) where the next range starts
+                offsets[RANGE_COUNT] = position;
+                for (let range = RANGE_COUNT - 1; range >= 0; range--) {
+                    if (offsets[range] === -1) {
+                        offsets[range] = offsets[range + 1];
+                    }
+                }
+                resolve({ offsets, size: stat.size, mtimeMs: stat.mtimeMs });
+            });
+        });
+    }
+
+    // Stored index layout: [size, mtimeMs, ...offsets] as float64
+    private async readStoredIndex(file: string, stat: fs.Stats): Promise<RangeIndex | null> {
+        try {
+            const buffer = await fs.promises.readFile(`${file}.idx`);
+            const values = new Float64Array(buffer.buffer, buffer.byteOffset, buffer.byteLength / 8);
+            if (values.length !== RANGE_COUNT + 3 || values[0] !== stat.size || values[1] !== stat.mtimeMs) {
+                return null;
+            }
+            return { offsets: values.slice(2), size: stat.size, mtimeMs: stat.mtimeMs };
+        } catch {
+            return null;
+        }
+    }
+
+    private async writeStoredIndex(file: string, index: RangeIndex): Promise<void> {
+        const values = new Float64Array(RANGE_COUNT + 3);
+        values[0] = index.size;
+        values[1] = index.mtimeMs;
+        values.set(index.offsets, 2);
+        await fs.promises.writeFile(`${file}.idx`, Buffer.from(values.buffer));
+    }
+}
+
+export default new BreachedPasswords();
@@ -78,6 +78,143 @@ class EmailService {
         logger.info({ email }, '📧 Password reset email sent');
     }
 
+    /**
+     * Send a link that unlocks an account locked after too many failed logins
+     */
+    async sendAccountUnlockEmail(email: string, token: string, firstName: string, expiresInMinutes: number): Promise<void> {
+        const unlockLink = `${process.env.FRONTEND_URL}/unlock-account?token=${token}`;
+
+        const html = `
+            <h2>Your Account Has Been Locked</h2>
+            <p>Hi ${this.escapeHtml(firstName)},</p>
+            <p>Your account was locked after too many failed login attempts. If that was you, click the link below to unlock it right away:</p>
+            <a href="${unlockLink}" style="display: inline-block; padding: 10px 20px; background-color: #007bff; color: white; text-decoration: none; border-radius: 5px;">
+                Unlock Account
+            </a>
+            <p>This link will expire in ${expiresInMinutes} minutes.</p>
+            <p>If it wasn't you, someone may be trying to guess your password. Leave the account locked and consider changing your password.</p>
+            <p>For security reasons, never share this link with anyone.</p>
+        `;
+
+        await this.sendEmail({
+            to: email,
+            subject: 'Your Account Has Been Locked',
+            html,
+        });
+
+        logger.info({ email }, '📧 Account unlock email sent');
+    }
+
+    /**
+     * Send a single-use passwordless login link
+     */
+    async sendMagicLinkEmail(email: string, token: string, firstName: string, expiresInMinutes: number): Promise<void> {
+        const loginLink = `${process.env.FRONTEND_URL}/magic-link?token=${token}`;
+
+        const html = `
+            <h2>Your Login Link</h2>
+            <p>Hi ${this.escapeHtml(firstName)},</p>
+            <p>Click the link below to log in without your password:</p>
+            <a href="${loginLink}" style="display: inline-block; padding: 10px 20px; background-color: #007bff; color: white; text-decoration: none; border-radius: 5px;">
+                Log In
+            </a>
+            <p>This link will expire in ${expiresInMinutes} minutes and works only once.</p>
+            <p>If you did not request this, please ignore this email. Nobody can log in without the link.</p>
+            <p>For security reasons, never share this link with anyone.</p>
+        `;
+
+        await this.sendEmail({
+            to: email,
+            subject: 'Your Login Link',
+            html,
+        });
+
+        logger.info({ email }, '📧 Magic link email sent');
+    }
+
+    /**
+     * Ask the new address to confirm an email change
+     */
+    async sendEmailChangeConfirmation(newEmail: string, token: string, firstName: string, expiresInHours: number): Promise<void> {
+        const confirmLink = `${process.env.FRONTEND_URL}/confirm-email-change?token=${token}`;
+
+        const html = `
+            <h2>Confirm Your New Email Address</h2>
+            <p>Hi ${this.escapeHtml(firstName)},</p>
+            <p>You asked to use this address for your account. Click the link below to confirm the change:</p>
+            <a href="${confirmLink}" style="display: inline-block; padding: 10px 20px; background-color: #007bff; color: white; text-decoration: none; border-radius: 5px;">
+                Confirm Email Address
+            </a>
+            <p>This link will expire in ${expiresInHours} hours. Until then your account keeps using your current address.</p>
+            <p>If you did not request this, please ignore this email.</p>
+        `;
+
+        await this.sendEmail({
+            to: newEmail,
+            subject: 'Confirm Your New Email Address',
+            html,
+        });
+
+        logger.info({ email: newEmail }, '📧 Email change confirmation sent');
+    }
+
+    /**
+     * Tell the current address about a requested email change, with a link to undo it
+     */
+    async sendEmailChangeNotice(
+        oldEmail: string,
+        newEmail: string,
+        revertToken: string,
+        firstName: string,
+        revertWithinDays: number
+    ): Promise<void> {
+        const revertLink = `${process.env.FRONTEND_URL}/revert-email-change?token=${revertToken}`;
+
+        const html = `
+            <h2>Your Email Address Is Being Changed</h2>
+            <p>Hi ${this.escapeHtml(firstName)},</p>
+            <p>Someone asked to change the email address of your account to <strong>${this.escapeHtml(newEmail)}</strong>.
+            The change takes effect once it is confirmed from that address.</p>
+            <p>If this wasn't you, click the link below. It cancels the change, or restores this address and logs out
+            every session if the change was already confirmed:</p>
+            <a href="${revertLink}" style="display: inline-block; padding: 10px 20px; background-color: #dc3545; color: white; text-decoration: none; border-radius: 5px;">
+                This Wasn't Me
+            </a>
+            <p>This link will work for ${revertWithinDays} days.</p>
+        `;
+
+        await this.sendEmail({
+            to: oldEmail,
+            subject: 'Your Email Address Is Being Changed',
+            html,
+        });
+
+        logger.info({ email: oldEmail }, '📧 Email change notice sent');
+    }
+
+    /**
+     * Confirm that the account will be deleted, and until when that can be cancelled
+     */
+    async sendAccountDeletionScheduledEmail(email: string, firstName: string, deletionScheduledAt: Date): Promise<void> {
+        const html = `
+            <h2>Your Account Will Be Deleted</h2>
+            <p>Hi ${this.escapeHtml(firstName)},</p>
+            <p>We received your request to delete your account. It will be deleted on
+            <strong>${deletionScheduledAt.toUTCString()}</strong>.</p>
+            <p>Until then you can still log in and cancel the deletion from your profile.
+            After that your personal data is erased and cannot be recovered.</p>
+            <p>If you did not request this, log in, cancel the deletion and change your password immediately.</p>
+        `;
+
+        await this.sendEmail({
+            to: email,
+            subject: 'Your Account Will Be Deleted',
+            html,
+        });
+
+        logger.info({ email }, '📧 Account deletion email sent');
+    }
+
     /**
      * Send MFA code via email
      */
@@ -100,15 +237,68 @@ class EmailService {
         logger.info({ email }, '📧 MFA email sent');
     }
 
+    /**
+     * Tell the user that two-factor authentication was turned on or off for their account
+     */
+    async sendMfaStatusChangedEmail(email: string, firstName: string, enabled: boolean, method?: string): Promise<void> {
+        const html = enabled
+            ? `
+            <h2>Two-Factor Authentication Enabled</h2>
+            <p>Hi ${this.escapeHtml(firstName)},</p>
+            <p>Two-factor authentication was just turned on for your account${method ? ` using ${this.escapeHtml(method)}` : ''}. From now on you will need a second code to log in.</p>
+            <p>If you did not do this, change your password immediately and contact support.</p>
+        `
+            : `
+            <h2>Two-Factor Authentication Disabled</h2>
+            <p>Hi ${this.escapeHtml(firstName)},</p>
+            <p>Two-factor authentication was just turned off for your account. Your password alone is now enough to log in, and your recovery codes no longer work.</p>
+            <p>If you did not do this, change your password immediately, turn two-factor authentication back on and contact support.</p>
+        `;
+
+        await this.sendEmail({
+            to: email,
+            subject: enabled ? 'Two-factor authentication enabled' : 'Two-factor authentication disabled',
+            html,
+        });
+
+        logger.info({ email, enabled }, '📧 MFA status change email sent');
+    }
+
+    /**
+     * Warn that the user is running out of MFA recovery codes
+     */
+    async sendRecoveryCodesLowEmail(email: string, firstName: string, remaining: number): Promise<void> {
+        const html = `
+            <h2>MFA Recovery Code Used</h2>
+            <p>Hi ${this.escapeHtml(firstName)},</p>
+            <p>A recovery code was just used to log in to your account instead of your second factor.</p>
+            <p>You have <strong>${remaining}</strong> recovery code${remaining === 1 ? '' : 's'} left.</p>
+            <p>Please generate a new set of recovery codes from your account settings before you run out.</p>
+            <p>If you did not just log in, change your password immediately and contact support.</p>
+        `;
+
+        await this.sendEmail({
+            to: email,
+            subject: 'You are running low on recovery codes',
+            html,
+        });
+
+        logger.info({ email }, '📧 Recovery codes low email sent');
+    }
+
     /**
      * Send suspicious login alert
      */
-    async sendSuspiciousLoginAlert(email: string, firstName: string, ipAddress: string): Promise<void> {
+    async sendSuspiciousLoginAlert(email: string, firstName: string, ipAddress: string, reasons: string[] = []): Promise<void> {
+        const reasonList = reasons.length
+            ? `<p><strong>Why we noticed:</strong></p><ul>${reasons.map((reason) => `<li>${this.escapeHtml(reason)}</li>`).join('')}</ul>`
+            : '';
         const html = `
             <h2>Unusual Login Activity Detected</h2>
-            <p>Hi ${firstName},</p>
+            <p>Hi ${this.escapeHtml(firstName)},</p>
             <p>We detected an unusual login attempt to your account from:</p>
-            <p><strong>IP Address:</strong> ${ipAddress}</p>
+            <p><strong>IP Address:</strong> ${this.escapeHtml(ipAddress)}</p>
+            ${reasonList}
             <p>If this was you, you can ignore this email.</p>
             <p>If you did not make this login attempt, please:</p>
             <ol>
@@ -127,6 +317,62 @@ class EmailService {
         logger.warn({ email }, '📧 Suspicious login alert sent');
     }
 
+    /**
+     * Tell an applicant their organiser application was approved
+     */
+    async sendOrganiserApplicationApprovedEmail(email: string, firstName: string, businessName: string): Promise<void> {
+        const html = `
+            <h2>Your Organiser Application Was Approved</h2>
+            <p>Hi ${this.escapeHtml(firstName)},</p>
+            <p>Good news: your application to organise experiences as <strong>${this.escapeHtml(businessName)}</strong> has been approved.</p>
+            <p>You can start creating experiences right away, no need to log in again.</p>
+        `;
+
+        await this.sendEmail({
+            to: email,
+            subject: 'Your organiser application was approved',
+            html,
+        });
+
+        logger.info({ email }, '📧 Organiser application approved email sent');
+    }
+
+    /**
+     * Tell an applicant their organiser application was rejected, with the reviewer's reason if given
+     */
+    async sendOrganiserApplicationRejectedEmail(
+        email: string,
+        firstName: string,
+        businessName: string,
+        reason?: string
+    ): Promise<void> {
+        const html = `
+            <h2>Your Organiser Application</h2>
+            <p>Hi ${this.escapeHtml(firstName)},</p>
+            <p>Unfortunately your application to organise experiences as <strong>${this.escapeHtml(businessName)}</strong> was not approved.</p>
+            ${reason ? `<p><strong>Reason:</strong> ${this.escapeHtml(reason)}</p>` : ''}
+            <p>You are welcome to submit a new application.</p>
+        `;
+
+        await this.sendEmail({
+            to: email,
+            subject: 'Your organiser application was not approved',
+            html,
+        });
+
+        logger.info({ email }, '📧 Organiser application rejected email sent');
+    }
+
+    // User-supplied text (names, business names, review notes) must not inject markup into emails
+    private escapeHtml(value: string): string {
+        return value
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#39;');
+    }
+
     /**
      * Generic email sending method
      */
@@ -0,0 +1,79 @@
+import maxmind, { CityResponse, Reader } from 'maxmind';
+import { logger } from './logger';
+
+type GeoLocation = {
+    country?: string;
+    latitude: number;
+    longitude: number;
+};
+
+/**
+ * Offline IP geolocation from a MaxMind City database (GeoLite2-City.mmdb or compatible),
+ * so no IP address ever leaves the server. The file is watched and reloaded when replaced.
+ */
+class GeoIp {
+    private file: string | undefined = process.env.GEOIP_DB_FILE || undefined;
+    private reader: Promise<Reader<CityResponse> | null> | null = null;
+
+    /**
+     * Point lookups at another database file, or disable them with undefined
+     */
+    useFile(file: string | undefined): void {
+        this.file = file;
+        this.reader = null;
+    }
+
+    isEnabled(): boolean {
+        return !!this.file;
+    }
+
+    /**
+     * Approximate location of an IP address, or null when unknown or no database is configured
+     */
+    async lookup(ipAddress: string | undefined): Promise<GeoLocation | null> {
+        if (!this.file || !ipAddress || !maxmind.validate(ipAddress)) {
+            return null;
+        }
+
+        const reader = await this.getReader();
+        const result = reader?.get(ipAddress);
+        if (!result?.location) {
+            return null;
+        }
+
+        return {
+            country: result.country?.iso_code,
+            latitude: result.location.latitude,
+            longitude: result.location.longitude,
+        };
+    }
+
+    private getReader(): Promise<Reader<CityResponse> | null> {
+        if (!this.reader) {
+            const file = this.file!;
+            this.reader = maxmind
+                .open<CityResponse>(file, { watchForUpdates: true, watchForUpdatesNonPersistent: true })
+                .catch((err: any) => {
+                    logger.error({ file, error: err.message }, 'Could not open GeoIP database');
+                    return null;
+                });
+        }
+        return this.reader;
+    }
+}
+
+/**
+ * Great-circle distance between two points in kilometres
+ */
+const distanceKm = (from: { latitude: number; longitude: number }, to: { latitude: number; longitude: number }): number => {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const dLat = toRadians(to.latitude - from.latitude);
+    const dLon = toRadians(to.longitude - from.longitude);
+    const a =
+        Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+    return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+export { GeoLocation, distanceKm };
+export default new GeoIp();
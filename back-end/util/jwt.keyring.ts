@@ -0,0 +1,246 @@
+import crypto, { KeyObject } from 'crypto';
+import signingKeyDB from '../repository/signingKey.db';
+import { logger } from './logger';
+import { PeriodicJob } from './periodic.job';
+import secretBox from './secret.box';
+
+type SigningAlgorithm = 'RS256' | 'ES256';
+
+// EdDSA is not supported by jsonwebtoken / express-jwt, so only RSA and ECDSA keys are offered
+const SUPPORTED_ALGORITHMS: SigningAlgorithm[] = ['RS256', 'ES256'];
+
+/**
+ * A signing key as persisted: PEM encoded, with the private key encrypted at rest
+ */
+type StoredSigningKey = {
+    kid: string;
+    algorithm: string;
+    publicKey: string;
+    privateKey: string;
+    retiresAt: Date;
+    expiresAt: Date;
+};
+
+type LoadedSigningKey = {
+    kid: string;
+    algorithm: SigningAlgorithm;
+    publicKey: KeyObject;
+    privateKey: KeyObject;
+    retiresAt: Date;
+    expiresAt: Date;
+};
+
+/**
+ * Storage backend for signing keys
+ */
+interface SigningKeyStore {
+    save(key: StoredSigningKey): Promise<void>;
+    loadUnexpired(): Promise<StoredSigningKey[]>;
+    purgeExpired(): Promise<number>;
+}
+
+/**
+ * Default store: the keys survive restarts, and every API instance signs with and accepts the same ones
+ */
+class PrismaSigningKeyStore implements SigningKeyStore {
+    async save(key: StoredSigningKey): Promise<void> {
+        await signingKeyDB.createSigningKey(key);
+    }
+
+    async loadUnexpired(): Promise<StoredSigningKey[]> {
+        return signingKeyDB.getUnexpiredSigningKeys();
+    }
+
+    async purgeExpired(): Promise<number> {
+        return signingKeyDB.deleteExpiredSigningKeys();
+    }
+}
+
+/**
+ * Keeps signing keys in memory. Meant for tests: in production every restart would start a new key
+ * and reject the tokens signed before it.
+ */
+class InMemorySigningKeyStore implements SigningKeyStore {
+    private keys: StoredSigningKey[] = [];
+
+    async save(key: StoredSigningKey): Promise<void> {
+        this.keys.unshift(key);
+    }
+
+    async loadUnexpired(): Promise<StoredSigningKey[]> {
+        return this.keys.filter((key) => key.expiresAt > new Date());
+    }
+
+    async purgeExpired(): Promise<number> {
+        const before = this.keys.length;
+        this.keys = this.keys.filter((key) => key.expiresAt >= new Date());
+        return before - this.keys.length;
+    }
+}
+
+/**
+ * Keyring for asymmetric JWT signing.
+ *
+ * Tokens are signed with the newest key and carry its id in the `kid` header.
+ * A key is used for signing for JWT_KEY_ROTATION_DAYS, after which a new key takes
+ * over; the retired key keeps verifying until the last token it signed has expired.
+ * Public keys are published as a JWKS so other services can verify without being able to sign.
+ */
+class JwtKeyring {
+    private store: SigningKeyStore = new PrismaSigningKeyStore();
+    private keys: LoadedSigningKey[] = [];
+    private loadedAt = 0;
+    private rotating: Promise<LoadedSigningKey> | null = null;
+    private rotationJob = new PeriodicJob(
+        () => this.getSigningKey().then(() => this.store.purgeExpired()),
+        'JWT signing key rotation failed'
+    );
+
+    // Re-read the store this often, so keys rotated by another instance are picked up
+    private cacheMs = 60 * 1000;
+    // Minimum time between reloads triggered by an unknown kid
+    private unknownKidReloadMs = 10 * 1000;
+
+    /**
+     * Change where signing keys are kept, forgetting the keys loaded from the previous store
+     */
+    useStore(store: SigningKeyStore): void {
+        this.store = store;
+        this.keys = [];
+        this.loadedAt = 0;
+    }
+
+    getAlgorithm(): SigningAlgorithm {
+        const algorithm = (process.env.JWT_SIGNING_ALGORITHM || 'RS256') as SigningAlgorithm;
+        if (!SUPPORTED_ALGORITHMS.includes(algorithm)) {
+            throw new Error(`Unsupported JWT_SIGNING_ALGORITHM "${algorithm}". Use one of: ${SUPPORTED_ALGORITHMS.join(', ')}`);
+        }
+        return algorithm;
+    }
+
+    getSupportedAlgorithms(): SigningAlgorithm[] {
+        return [...SUPPORTED_ALGORITHMS];
+    }
+
+    /**
+     * The key new tokens are signed with. Rotates when the current key is due for retirement.
+     */
+    async getSigningKey(): Promise<LoadedSigningKey> {
+        const algorithm = this.getAlgorithm();
+        const keys = await this.getKeys();
+        const current = keys.find((key) => key.algorithm === algorithm && key.retiresAt > new Date());
+
+        return current ?? this.rotate();
+    }
+
+    /**
+     * Public key for a `kid`, or undefined when the key is unknown or expired
+     */
+    async getVerificationKey(kid: string | undefined): Promise<KeyObject | undefined> {
+        if (!kid) {
+            return undefined;
+        }
+
+        let key = (await this.getKeys()).find((candidate) => candidate.kid === kid);
+        if (!key && Date.now() - this.loadedAt > this.unknownKidReloadMs) {
+            key = (await this.getKeys(true)).find((candidate) => candidate.kid === kid);
+        }
+
+        return key && key.expiresAt > new Date() ? key.publicKey : undefined;
+    }
+
+    /**
+     * Public keys of every key that can still verify tokens, as a JSON Web Key Set
+     */
+    async getJwks(): Promise<{ keys: Record<string, unknown>[] }> {
+        const keys = await this.getKeys();
+        return {
+            keys: keys.map((key) => ({
+                ...key.publicKey.export({ format: 'jwk' }),
+                kid: key.kid,
+                alg: key.algorithm,
+                use: 'sig',
+            })),
+        };
+    }
+
+    /**
+     * Generate a new signing key and make it the current one
+     */
+    async rotate(): Promise<LoadedSigningKey> {
+        // Concurrent callers share one rotation instead of each creating a key
+        if (!this.rotating) {
+            this.rotating = this.createKey().finally(() => {
+                this.rotating = null;
+            });
+        }
+        return this.rotating;
+    }
+
+    /**
+     * Check hourly whether the current key is due for rotation and drop expired keys
+     */
+    startRotation(intervalMinutes: number = 60): void {
+        this.rotationJob.start(intervalMinutes, { runNow: true });
+    }
+
+    stopRotation(): void {
+        this.rotationJob.stop();
+    }
+
+    private async createKey(): Promise<LoadedSigningKey> {
+        const algorithm = this.getAlgorithm();
+        const { publicKey, privateKey } =
+            algorithm === 'RS256'
+                ? crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+                : crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+        const rotationDays = parseInt(process.env.JWT_KEY_ROTATION_DAYS || '30');
+        const tokenLifetimeMinutes = parseInt(process.env.JWT_EXPIRES_MINUTES || '15');
+        const retiresAt = new Date(Date.now() + rotationDays * 24 * 60 * 60 * 1000);
+        // Keep verifying until the last token signed before retirement has expired (plus clock skew)
+        const expiresAt = new Date(retiresAt.getTime() + (tokenLifetimeMinutes + 5) * 60 * 1000);
+
+        const key: LoadedSigningKey = {
+            kid: crypto.randomBytes(16).toString('base64url'),
+            algorithm,
+            publicKey,
+            privateKey,
+            retiresAt,
+            expiresAt,
+        };
+
+        await this.store.save({
+            kid: key.kid,
+            algorithm,
+            publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+            privateKey: secretBox.encrypt(privateKey.export({ type: 'pkcs8', format: 'pem' }).toString()),
+            retiresAt,
+            expiresAt,
+        });
+
+        this.keys = [key, ...this.keys];
+        logger.info({ kid: key.kid, algorithm, retiresAt }, '🔑 Rotated JWT signing key');
+
+        return key;
+    }
+
+    private async getKeys(forceReload: boolean = false): Promise<LoadedSigningKey[]> {
+        if (forceReload || Date.now() - this.loadedAt > this.cacheMs) {
+            const stored = await this.store.loadUnexpired();
+            this.keys = stored.map((key) => ({
+                kid: key.kid,
+                algorithm: key.algorithm as SigningAlgorithm,
+                publicKey: crypto.createPublicKey(key.publicKey),
+                privateKey: crypto.createPrivateKey(secretBox.decrypt(key.privateKey)),
+                retiresAt: key.retiresAt,
+                expiresAt: key.expiresAt,
+            }));
+            this.loadedAt = Date.now();
+        }
+        return this.keys;
+    }
+}
+
+export { SigningKeyStore, StoredSigningKey, PrismaSigningKeyStore, InMemorySigningKeyStore };
+export default new JwtKeyring();
@@ -1,13 +1,54 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
+import jwtKeyring from './jwt.keyring';
 
-const generateJwtToken = ({ userId, email, isOrganiser }: { userId: number; email: string; isOrganiser: boolean }): string => {
-    const options = {
-        expiresIn: `${process.env.JWT_EXPIRES_HOURS}h`,
-        issuer: 'travel_booking_app',
-    };
-
+const generateJwtToken = async ({
+    userId,
+    email,
+    role,
+    permissions,
+    sessionId,
+    stepUpUntil,
+    actor,
+    expiresInMinutes = Number(process.env.JWT_EXPIRES_MINUTES || 15),
+}: {
+    userId: number;
+    email: string;
+    role: string;
+    permissions: string[];
+    sessionId: number;
+    stepUpUntil?: Date;
+    // The administrator acting as this user, for impersonation tokens
+    actor?: { userId: number; email: string };
+    expiresInMinutes?: number;
+}): Promise<string> => {
     try {
-        return jwt.sign({ userId, email, isOrganiser }, process.env.JWT_SECRET!, options);
+        // Signed with the keyring's current private key; verifiers look up the public key by kid
+        const signingKey = await jwtKeyring.getSigningKey();
+
+        const options: jwt.SignOptions = {
+            algorithm: signingKey.algorithm,
+            keyid: signingKey.kid,
+            // Access tokens are short-lived; clients renew them with a refresh token
+            expiresIn: `${expiresInMinutes}m`,
+            issuer: 'travel_booking_app',
+            // Unique token id, so a single token can be revoked without storing the token itself
+            jwtid: crypto.randomUUID(),
+        };
+
+        // sid ties the token to its session, so revoking the session revokes the token.
+        // Role claims are informational for clients and other services; the API itself
+        // checks permissions against the user's current role (see requirePermission).
+        // stepUpUntil (seconds since epoch) marks a recent step-up; see requireStepUp.
+        // act (RFC 8693) names the administrator behind an impersonation token; see forbidImpersonation.
+        const claims: jwt.JwtPayload = { userId, email, role, permissions, sid: sessionId };
+        if (stepUpUntil) {
+            claims.stepUpUntil = Math.floor(stepUpUntil.getTime() / 1000);
+        }
+        if (actor) {
+            claims.act = { sub: String(actor.userId), email: actor.email };
+        }
+        return jwt.sign(claims, signingKey.privateKey, options);
     } catch (error) {
         console.log(error);
         throw new Error('Error generating JWT token, see server log for details.');
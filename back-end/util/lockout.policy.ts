@@ -0,0 +1,105 @@
+/**
+ * Progressive lockout after failed password logins.
+ *
+ * The first few failures are free. After that every failure makes the next attempt wait, twice as
+ * long each time up to a cap, and every `lockoutThreshold` failures lock the account, each lockout
+ * twice as long as the one before. Counters start over after a quiet period without failures,
+ * after a successful login, and when the owner unlocks the account through the emailed link,
+ * so an attacker can delay but not indefinitely lock out a known email address.
+ */
+type LockoutPolicy = {
+    // Failures allowed before any delay
+    freeAttempts: number;
+    // Delay after the first failure past the free ones, doubled for each further failure
+    baseDelaySeconds: number;
+    maxDelaySeconds: number;
+    // Failures (including the free ones) that lock the account
+    lockoutThreshold: number;
+    // Length of the first lockout, doubled for each further lockout
+    baseLockoutMinutes: number;
+    maxLockoutMinutes: number;
+    // Counters reset when no failure was seen for this long
+    resetAfterHours: number;
+    // How long the emailed unlock link stays valid
+    unlockLinkMinutes: number;
+};
+
+type FailedLoginState = {
+    failedLoginAttempts: number;
+    lockoutCount: number;
+    lastFailedLoginAt?: Date;
+};
+
+type FailedLoginOutcome = {
+    attempts: number;
+    lockoutCount: number;
+    // Login is refused until then; null when the next attempt may follow right away
+    lockedUntil: Date | null;
+    // Whether this failure locked the account, rather than only delaying the next attempt
+    locked: boolean;
+};
+
+const getLockoutPolicy = (): LockoutPolicy => ({
+    freeAttempts: parseInt(process.env.LOCKOUT_FREE_ATTEMPTS || '3'),
+    baseDelaySeconds: parseInt(process.env.LOCKOUT_BASE_DELAY_SECONDS || '1'),
+    maxDelaySeconds: parseInt(process.env.LOCKOUT_MAX_DELAY_SECONDS || '60'),
+    lockoutThreshold: parseInt(process.env.LOCKOUT_THRESHOLD || '10'),
+    baseLockoutMinutes: parseInt(process.env.LOCKOUT_BASE_MINUTES || '15'),
+    maxLockoutMinutes: parseInt(process.env.LOCKOUT_MAX_MINUTES || '1440'),
+    resetAfterHours: parseInt(process.env.LOCKOUT_RESET_AFTER_HOURS || '24'),
+    unlockLinkMinutes: parseInt(process.env.LOCKOUT_UNLOCK_LINK_MINUTES || '60'),
+});
+
+/**
+ * Counters and lock after one more failed password
+ */
+const registerFailedLogin = (state: FailedLoginState, now: Date = new Date()): FailedLoginOutcome => {
+    const policy = getLockoutPolicy();
+    const quiet =
+        !state.lastFailedLoginAt ||
+        now.getTime() - state.lastFailedLoginAt.getTime() > policy.resetAfterHours * 60 * 60 * 1000;
+
+    const attempts = (quiet ? 0 : state.failedLoginAttempts) + 1;
+    const lockoutCount = quiet ? 0 : state.lockoutCount;
+
+    // Failures since the last lockout ended
+    const position = ((attempts - 1) % policy.lockoutThreshold) + 1;
+
+    if (position === policy.lockoutThreshold) {
+        const minutes = Math.min(policy.baseLockoutMinutes * 2 ** lockoutCount, policy.maxLockoutMinutes);
+        return {
+            attempts,
+            lockoutCount: lockoutCount + 1,
+            lockedUntil: new Date(now.getTime() + minutes * 60 * 1000),
+            locked: true,
+        };
+    }
+
+    if (position > policy.freeAttempts) {
+        const seconds = Math.min(policy.baseDelaySeconds * 2 ** (position - policy.freeAttempts - 1), policy.maxDelaySeconds);
+        return { attempts, lockoutCount, lockedUntil: new Date(now.getTime() + seconds * 1000), locked: false };
+    }
+
+    return { attempts, lockoutCount, lockedUntil: null, locked: false };
+};
+
+/**
+ * Whether a refusal at this many failures is a lockout rather than a back-off delay
+ */
+const isLockedOut = (failedLoginAttempts: number): boolean => {
+    return failedLoginAttempts > 0 && failedLoginAttempts % getLockoutPolicy().lockoutThreshold === 0;
+};
+
+/**
+ * "45 seconds" or "15 minutes" until the given time
+ */
+const describeWait = (until: Date, now: Date = new Date()): string => {
+    const seconds = Math.max(1, Math.ceil((until.getTime() - now.getTime()) / 1000));
+    if (seconds < 60) {
+        return `${seconds} second${seconds === 1 ? '' : 's'}`;
+    }
+    const minutes = Math.ceil(seconds / 60);
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
+
+export { LockoutPolicy, FailedLoginState, FailedLoginOutcome, getLockoutPolicy, registerFailedLogin, isLockedOut, describeWait };
@@ -90,9 +90,27 @@ export const httpLogger = pinoHttp({
     customErrorMessage: (req: any, res: any, err: any) => {
         return `${req.method} ${req.url} - ${res.statusCode} - ${err.message}`;
     },
+    // Tag requests made with an impersonation token (evaluated when the response is logged,
+    // after JWT verification has set req.auth)
+    customProps: (req: any) => {
+        const act = req.auth?.act;
+        return act ? { impersonation: { adminId: Number(act.sub), userId: req.auth.userId } } : {};
+    },
     redact: REDACT_FIELDS,
 });
 
+type SecurityEventListener = (eventType: string, details: Record<string, any>, occurredAt: Date) => void;
+
+const securityEventListeners: SecurityEventListener[] = [];
+
+/**
+ * Also hand every security event to `listener` (e.g. to keep a per-user audit trail).
+ * Listeners must not throw or block; the event is logged either way.
+ */
+export const onSecurityEvent = (listener: SecurityEventListener): void => {
+    securityEventListeners.push(listener);
+};
+
 /**
  * Log security events (authentication, authorization, suspicious activity)
  */
@@ -101,26 +119,71 @@ export const logSecurityEvent = (
         | 'LOGIN' 
         | 'LOGOUT' 
         | 'LOGOUT_ALL_SESSIONS'
+        | 'SESSION_REVOKED'
         | 'FAILED_AUTH' 
         | 'UNAUTHORIZED' 
         | 'PRIVILEGE_ESCALATION'
+        | 'ROLE_CREATED'
+        | 'ROLE_UPDATED'
+        | 'ROLE_DELETED'
+        | 'ADMIN_USERS_LISTED'
+        | 'ADMIN_USER_VIEWED'
+        | 'ADMIN_USER_UNLOCKED'
+        | 'ADMIN_PASSWORD_RESET_FORCED'
+        | 'ADMIN_MFA_RESET'
+        | 'ADMIN_USER_DISABLED'
+        | 'ADMIN_USER_ENABLED'
+        | 'ADMIN_ROLE_CHANGED'
+        | 'ADMIN_IMPERSONATION_STARTED'
+        | 'ADMIN_IMPERSONATION_ENDED'
+        | 'IMPERSONATION_ACTION_BLOCKED'
+        | 'ORGANISER_APPLICATION_SUBMITTED'
+        | 'ORGANISER_APPLICATION_APPROVED'
+        | 'ORGANISER_APPLICATION_REJECTED'
         | 'SIGNUP'
         | 'SIGNUP_FAILED'
         | 'EMAIL_VERIFICATION_FAILED'
         | 'EMAIL_VERIFIED'
         | 'VERIFICATION_EMAIL_RESENT'
         | 'LOGIN_FAILED'
+        | 'SUSPICIOUS_LOGIN'
         | 'ACCOUNT_LOCKED'
+        | 'ACCOUNT_UNLOCKED'
+        | 'MAGIC_LINK_REQUESTED'
+        | 'MAGIC_LINK_REFUSED'
         | 'MFA_INITIATED'
         | 'MFA_VERIFICATION_FAILED'
         | 'MFA_VERIFIED'
+        | 'MFA_CHALLENGE_LOCKED'
+        | 'MFA_EMAIL_FALLBACK'
+        | 'MFA_TOTP_ENROLLMENT_STARTED'
+        | 'MFA_TOTP_ENABLED'
+        | 'MFA_ENABLE_INITIATED'
+        | 'MFA_ENABLED'
+        | 'MFA_DISABLED'
+        | 'MFA_RECOVERY_CODES_GENERATED'
+        | 'MFA_RECOVERY_CODE_USED'
+        | 'WEBAUTHN_CREDENTIAL_REGISTERED'
+        | 'WEBAUTHN_REGISTRATION_FAILED'
         | 'PASSWORD_RESET_REQUESTED'
         | 'PASSWORD_RESET'
-        | 'CHANGE_PASSWORD_FAILED'
-        | 'CHANGE_PASSWORD_MFA_INITIATED'
+        | 'STEP_UP_INITIATED'
+        | 'STEP_UP_FAILED'
+        | 'STEP_UP_COMPLETED'
         | 'PASSWORD_CHANGED'
-        | 'REMEMBER_ME_TOKEN_CREATED'
-        | 'REMEMBER_ME_LOGIN',
+        | 'PASSWORD_REHASHED'
+        | 'PROFILE_UPDATED'
+        | 'EMAIL_CHANGE_REQUESTED'
+        | 'EMAIL_CHANGED'
+        | 'EMAIL_CHANGE_REVERTED'
+        | 'ACCOUNT_DATA_EXPORTED'
+        | 'ACCOUNT_DELETION_REQUESTED'
+        | 'ACCOUNT_DELETION_CANCELLED'
+        | 'ACCOUNT_DELETION_REFUSED'
+        | 'ACCOUNT_DELETED'
+        | 'TOKEN_REFRESHED'
+        | 'REFRESH_TOKEN_REUSE_DETECTED'
+        | 'RATE_LIMIT_EXCEEDED',
     details: {
         userId?: number;
         email?: string;
@@ -139,6 +202,15 @@ export const logSecurityEvent = (
         },
         `🔐 Security Event: ${eventType}`
     );
+
+    const occurredAt = new Date();
+    for (const listener of securityEventListeners) {
+        try {
+            listener(eventType, details, occurredAt);
+        } catch (err: any) {
+            logger.error({ eventType, error: err.message }, 'Security event listener failed');
+        }
+    }
 };
 
 export default logger;
@@ -0,0 +1,93 @@
+import argon2 from 'argon2';
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+
+type HashAlgorithm = 'argon2id' | 'bcrypt';
+
+const SUPPORTED_ALGORITHMS: HashAlgorithm[] = ['argon2id', 'bcrypt'];
+
+/**
+ * Password hashing.
+ *
+ * Every hash is self-describing: argon2id hashes are PHC strings
+ * (`$argon2id$v=19$m=19456,t=2,p=1$salt$hash`) and bcrypt hashes carry their cost (`$2b$12$...`),
+ * so hashes made with older settings keep verifying. `needsRehash` tells when a hash is not
+ * made with the current algorithm and parameters; the caller re-hashes on the next login.
+ */
+class PasswordHasher {
+    // Hash of a random string with the current settings, for equalising login timing
+    private dummyHash: { settings: string; hash: Promise<string> } | null = null;
+
+    getAlgorithm(): HashAlgorithm {
+        const algorithm = (process.env.PASSWORD_HASH_ALGORITHM || 'argon2id') as HashAlgorithm;
+        if (!SUPPORTED_ALGORITHMS.includes(algorithm)) {
+            throw new Error(`Unsupported PASSWORD_HASH_ALGORITHM "${algorithm}". Use one of: ${SUPPORTED_ALGORITHMS.join(', ')}`);
+        }
+        return algorithm;
+    }
+
+    async hash(password: string): Promise<string> {
+        if (this.getAlgorithm() === 'bcrypt') {
+            return bcrypt.hash(password, this.getBcryptCost());
+        }
+        return argon2.hash(password, { type: argon2.argon2id, ...this.getArgon2Options() });
+    }
+
+    /**
+     * Check a password against a hash of any supported algorithm
+     */
+    async verify(password: string, hash: string): Promise<boolean> {
+        if (hash.startsWith('$argon2')) {
+            try {
+                return await argon2.verify(hash, password);
+            } catch {
+                return false;
+            }
+        }
+        if (/^\$2[aby]\$/.test(hash)) {
+            return bcrypt.compare(password, hash);
+        }
+        return false;
+    }
+
+    /**
+     * Whether a hash was made with another algorithm or other parameters than the current ones
+     */
+    needsRehash(hash: string): boolean {
+        if (this.getAlgorithm() === 'bcrypt') {
+            return !/^\$2[aby]\$/.test(hash) || bcrypt.getRounds(hash) !== this.getBcryptCost();
+        }
+        if (!hash.startsWith('$argon2id$')) {
+            return true;
+        }
+        return argon2.needsRehash(hash, this.getArgon2Options());
+    }
+
+    /**
+     * A hash with the current settings that never matches a real password. Verifying against it
+     * when a user doesn't exist costs the same as verifying a real password.
+     */
+    getDummyHash(): Promise<string> {
+        const settings = JSON.stringify([this.getAlgorithm(), this.getBcryptCost(), this.getArgon2Options()]);
+        if (!this.dummyHash || this.dummyHash.settings !== settings) {
+            this.dummyHash = { settings, hash: this.hash(crypto.randomBytes(32).toString('base64url')) };
+        }
+        return this.dummyHash.hash;
+    }
+
+    // OWASP minimums: argon2id with 19 MiB, 2 iterations, 1 lane; bcrypt cost 12
+    private getArgon2Options(): { memoryCost: number; timeCost: number; parallelism: number } {
+        return {
+            memoryCost: parseInt(process.env.ARGON2_MEMORY_KIB || '19456'),
+            timeCost: parseInt(process.env.ARGON2_TIME_COST || '2'),
+            parallelism: parseInt(process.env.ARGON2_PARALLELISM || '1'),
+        };
+    }
+
+    private getBcryptCost(): number {
+        return parseInt(process.env.BCRYPT_COST || '12');
+    }
+}
+
+export { HashAlgorithm };
+export default new PasswordHasher();
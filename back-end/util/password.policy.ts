@@ -0,0 +1,167 @@
+import fs from 'fs';
+import { Role, SYSTEM_ROLES } from '../model/role';
+import { logger } from './logger';
+
+/**
+ * Password rules that are configuration rather than code
+ */
+type PasswordPolicy = {
+    minLength: number;
+    maxLength: number;
+    // Character classes a password must contain...
+    requireUppercase: boolean;
+    requireLowercase: boolean;
+    requireNumber: boolean;
+    requireSpecial: boolean;
+    // ...unless it is a passphrase of at least this many characters
+    passphraseMinLength: number;
+    // Minimum strength score (0-4) from the pattern-based estimate
+    minStrengthScore: number;
+    // A new password may not match the current one or any of the ones before it, up to this many in total
+    historySize: number;
+};
+
+type PasswordPolicyProfile = 'standard' | 'privileged';
+
+const PASSWORD_POLICY_PROFILES: PasswordPolicyProfile[] = ['standard', 'privileged'];
+
+/**
+ * Built-in profiles: `standard` for clients, `privileged` for accounts that can do more than
+ * browse (organisers, administrators, custom roles with extra permissions).
+ * Any field can be overridden per profile in the JSON file at PASSWORD_POLICY_FILE.
+ */
+const DEFAULT_POLICIES: Record<PasswordPolicyProfile, PasswordPolicy> = {
+    standard: {
+        minLength: 12,
+        maxLength: 128,
+        requireUppercase: true,
+        requireLowercase: true,
+        requireNumber: true,
+        requireSpecial: true,
+        passphraseMinLength: 20,
+        minStrengthScore: 3,
+        historySize: 5,
+    },
+    privileged: {
+        minLength: 14,
+        maxLength: 128,
+        requireUppercase: true,
+        requireLowercase: true,
+        requireNumber: true,
+        requireSpecial: true,
+        passphraseMinLength: 24,
+        minStrengthScore: 4,
+        historySize: 10,
+    },
+};
+
+let policies: Record<PasswordPolicyProfile, PasswordPolicy> | null = null;
+
+const loadPolicies = (): Record<PasswordPolicyProfile, PasswordPolicy> => {
+    const file = process.env.PASSWORD_POLICY_FILE;
+    if (!file) {
+        return DEFAULT_POLICIES;
+    }
+
+    const overrides = JSON.parse(fs.readFileSync(file, 'utf8')) as Partial<Record<PasswordPolicyProfile, Partial<PasswordPolicy>>>;
+    if (!isObject(overrides)) {
+        throw new Error(`Invalid password policy in ${file}: expected an object with a key per profile`);
+    }
+    const unknown = Object.keys(overrides).filter((profile) => !isPasswordPolicyProfile(profile));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown password policy profile(s) in ${file}: ${unknown.join(', ')}`);
+    }
+    const notObjects = PASSWORD_POLICY_PROFILES.filter((profile) => profile in overrides && !isObject(overrides[profile]));
+    if (notObjects.length > 0) {
+        throw new Error(`Invalid password policy in ${file}: ${notObjects.join(', ')} must be an object of settings`);
+    }
+
+    const loaded = {
+        standard: { ...DEFAULT_POLICIES.standard, ...overrides.standard },
+        privileged: { ...DEFAULT_POLICIES.privileged, ...overrides.privileged },
+    };
+    const errors = PASSWORD_POLICY_PROFILES.flatMap((profile) =>
+        validatePolicy(loaded[profile], overrides[profile] ?? {}).map((error) => `${profile}.${error}`)
+    );
+    if (errors.length > 0) {
+        throw new Error(`Invalid password policy in ${file}: ${errors.join('; ')}`);
+    }
+
+    logger.info({ file }, '🔐 Loaded password policy');
+    return loaded;
+};
+
+/**
+ * Check a policy after overrides are applied, so a typo in the file stops the server
+ * instead of silently weakening (or breaking) password checks
+ */
+const validatePolicy = (policy: PasswordPolicy, overrides: Partial<PasswordPolicy>): string[] => {
+    const errors = Object.keys(overrides)
+        .filter((field) => !(field in DEFAULT_POLICIES.standard))
+        .map((field) => `${field} is not a password policy setting`);
+
+    const isCount = (value: unknown, min: number, max = Number.MAX_SAFE_INTEGER) =>
+        Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+    if (!isCount(policy.minLength, 1)) {
+        errors.push('minLength must be a whole number of at least 1');
+    }
+    if (!isCount(policy.maxLength, 1)) {
+        errors.push('maxLength must be a whole number of at least 1');
+    } else if (isCount(policy.minLength, 1) && policy.maxLength < policy.minLength) {
+        errors.push('maxLength must not be smaller than minLength');
+    }
+    if (!isCount(policy.passphraseMinLength, 1)) {
+        errors.push('passphraseMinLength must be a whole number of at least 1');
+    }
+    if (!isCount(policy.minStrengthScore, 0, 4)) {
+        errors.push('minStrengthScore must be a whole number from 0 to 4');
+    }
+    // The current password always counts, so the history can't be smaller than one
+    if (!isCount(policy.historySize, 1)) {
+        errors.push('historySize must be a whole number of at least 1');
+    }
+    (['requireUppercase', 'requireLowercase', 'requireNumber', 'requireSpecial'] as const)
+        .filter((field) => typeof policy[field] !== 'boolean')
+        .forEach((field) => errors.push(`${field} must be true or false`));
+
+    return errors;
+};
+
+const isObject = (value: unknown): value is object => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPasswordPolicyProfile = (value: string): value is PasswordPolicyProfile => {
+    return (PASSWORD_POLICY_PROFILES as string[]).includes(value);
+};
+
+const getPasswordPolicy = (profile: PasswordPolicyProfile = 'standard'): PasswordPolicy => {
+    if (!policies) {
+        policies = loadPolicies();
+    }
+    return policies[profile];
+};
+
+/**
+ * Re-read PASSWORD_POLICY_FILE on next use
+ */
+const reloadPasswordPolicies = (): void => {
+    policies = null;
+};
+
+/**
+ * The profile that applies to a role: anything beyond what a client may do gets the stricter one
+ */
+const getPasswordPolicyProfileForRole = (role: Role): PasswordPolicyProfile => {
+    const clientPermissions: readonly string[] = SYSTEM_ROLES.CLIENT;
+    return role.getPermissions().every((permission) => clientPermissions.includes(permission)) ? 'standard' : 'privileged';
+};
+
+export {
+    PasswordPolicy,
+    PasswordPolicyProfile,
+    PASSWORD_POLICY_PROFILES,
+    isPasswordPolicyProfile,
+    getPasswordPolicy,
+    reloadPasswordPolicies,
+    getPasswordPolicyProfileForRole,
+};
@@ -0,0 +1,228 @@
+/**
+ * Pattern-based password strength estimate, in the spirit of zxcvbn.
+ *
+ * A password is covered by the cheapest combination of recognisable patterns (dictionary
+ * words, keyboard walks, sequences, repeats, dates) and single brute-forced characters.
+ * The sum of their costs in bits is the entropy estimate; a passphrase of uncommon words
+ * scores high without needing digits or symbols, while `Password2024!` scores low.
+ */
+
+type PatternKind = 'dictionary' | 'user_input' | 'keyboard' | 'sequence' | 'repeat' | 'date';
+
+type PatternMatch = {
+    kind: PatternKind;
+    start: number;
+    end: number; // exclusive
+    bits: number;
+};
+
+type PasswordStrength = {
+    // 0 (trivial) to 4 (strong)
+    score: 0 | 1 | 2 | 3 | 4;
+    entropyBits: number;
+    warnings: string[];
+};
+
+// Most common password fragments and words; any of these costs a guesser only a few bits
+const COMMON_WORDS = [
+    'password', 'passw0rd', 'pass', 'qwerty', 'letmein', 'welcome', 'admin', 'administrator', 'login',
+    'master', 'secret', 'secure', 'security', 'access', 'default', 'changeme', 'trustno', 'iloveyou',
+    'love', 'lovely', 'hello', 'monkey', 'dragon', 'shadow', 'sunshine', 'princess', 'football',
+    'baseball', 'soccer', 'hockey', 'batman', 'superman', 'starwars', 'pokemon', 'computer', 'internet',
+    'freedom', 'whatever', 'michael', 'jennifer', 'jordan', 'thomas', 'charlie', 'ashley', 'bailey',
+    'jessica', 'daniel', 'andrew', 'robert', 'matthew', 'summer', 'winter', 'spring', 'autumn',
+    'january', 'february', 'march', 'april', 'june', 'july', 'august', 'september', 'october',
+    'november', 'december', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday',
+    'sunday', 'travel', 'booking', 'holiday', 'vacation', 'flower', 'cookie', 'cheese', 'coffee',
+    'chocolate', 'orange', 'banana', 'apple', 'purple', 'yellow', 'silver', 'golden', 'diamond',
+    'tiger', 'lion', 'eagle', 'killer', 'ninja', 'pepper', 'ginger', 'maggie', 'buster', 'hunter',
+    'ranger', 'angel', 'jesus', 'god', 'blessed', 'family', 'forever', 'friend', 'happy', 'money',
+    'magic', 'music', 'guitar', 'test', 'testing', 'user', 'guest', 'root', 'abc', 'xyz',
+    'welkom', 'wachtwoord', 'belgie', 'belgium', 'brussels', 'antwerp', 'leuven', 'ghent', 'brugge',
+];
+
+const KEYBOARD_ROWS = ['`1234567890-=', 'qwertyuiop[]\\', "asdfghjkl;'", 'zxcvbnm,./', 'azertyuiop', 'qsdfghjklm', 'wxcvbn'];
+
+// Undo common character substitutions before dictionary matching (p@ssw0rd → password)
+const LEET: Record<string, string> = { '@': 'a', '4': 'a', '8': 'b', '3': 'e', '1': 'i', '!': 'i', '0': 'o', '$': 's', '5': 's', '7': 't', '2': 'z' };
+
+const WARNINGS: Record<PatternKind, string> = {
+    dictionary: 'Avoid common words and passwords',
+    user_input: 'Avoid using your name or email address',
+    keyboard: 'Avoid keyboard patterns such as qwerty',
+    sequence: 'Avoid sequences such as abc or 123',
+    repeat: 'Avoid repeated characters or words',
+    date: 'Avoid dates and years',
+};
+
+const log2 = (value: number) => Math.log(value) / Math.log(2);
+
+/**
+ * Bits needed to brute force one character, from the character classes the password uses
+ */
+const characterBits = (password: string): number => {
+    let pool = 0;
+    if (/[a-z]/.test(password)) pool += 26;
+    if (/[A-Z]/.test(password)) pool += 26;
+    if (/\d/.test(password)) pool += 10;
+    if (/[^a-zA-Z\d]/.test(password)) pool += 33;
+    return log2(Math.max(pool, 10));
+};
+
+const findWords = (password: string, words: string[], kind: PatternKind, baseBits: number): PatternMatch[] => {
+    const matches: PatternMatch[] = [];
+    const lower = password.toLowerCase();
+    const unleet = Array.from(lower, (char) => LEET[char] ?? char).join('');
+
+    for (const word of words) {
+        if (word.length < 3) {
+            continue;
+        }
+        for (const [candidate, substituted] of [[lower, false], [unleet, true]] as const) {
+            let index = candidate.indexOf(word);
+            while (index !== -1) {
+                const original = password.slice(index, index + word.length);
+                const capitalised = original !== original.toLowerCase() ? 1 : 0;
+                matches.push({
+                    kind,
+                    start: index,
+                    end: index + word.length,
+                    bits: baseBits + capitalised + (substituted && original.toLowerCase() !== word ? 1 : 0),
+                });
+                index = candidate.indexOf(word, index + 1);
+            }
+        }
+    }
+    return matches;
+};
+
+const findKeyboardWalks = (password: string): PatternMatch[] => {
+    const matches: PatternMatch[] = [];
+    const lower = password.toLowerCase();
+    const rows = [...KEYBOARD_ROWS, ...KEYBOARD_ROWS.map((row) => Array.from(row).reverse().join(''))];
+
+    for (let start = 0; start < lower.length; start++) {
+        for (const row of rows) {
+            let length = 0;
+            while (start + length < lower.length && row.includes(lower.slice(start, start + length + 1))) {
+                length++;
+            }
+            if (length >= 4) {
+                matches.push({ kind: 'keyboard', start, end: start + length, bits: log2(rows.length * 10) + log2(length) });
+            }
+        }
+    }
+    return matches;
+};
+
+const findSequences = (password: string): PatternMatch[] => {
+    const matches: PatternMatch[] = [];
+    const step = (i: number) => password.charCodeAt(i) - password.charCodeAt(i - 1);
+    let start = 0;
+
+    // abcd, 4321: runs where every character is one more (or one less) than the previous
+    for (let i = 1; i <= password.length; i++) {
+        const continues = i < password.length && Math.abs(step(i)) === 1 && (i - start < 2 || step(i) === step(i - 1));
+        if (!continues) {
+            if (i - start >= 3) {
+                matches.push({ kind: 'sequence', start, end: i, bits: 4 + log2(i - start) });
+            }
+            start = i < password.length && Math.abs(step(i)) === 1 ? i - 1 : i;
+        }
+    }
+    return matches;
+};
+
+const findRepeats = (password: string, charBits: number): PatternMatch[] => {
+    const matches: PatternMatch[] = [];
+    // aaaa, or a repeated chunk: abcabc, 1212
+    const repeat = /(.+?)\1+/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = repeat.exec(password)) !== null) {
+        const unit = match[1];
+        if (match[0].length >= 3) {
+            matches.push({
+                kind: 'repeat',
+                start: match.index,
+                end: match.index + match[0].length,
+                bits: unit.length * charBits + log2(match[0].length / unit.length),
+            });
+        }
+    }
+    return matches;
+};
+
+const findDates = (password: string): PatternMatch[] => {
+    const matches: PatternMatch[] = [];
+    const patterns: Array<[RegExp, number]> = [
+        // 25-12-1990, 25/12/90, 1990-12-25, 25121990
+        [/(?:[0-3]?\d[-/.][01]?\d[-/.](?:19|20)?\d{2})|(?:(?:19|20)\d{2}[-/.]?[01]\d[-/.]?[0-3]\d)|(?:[0-3]\d[01]\d(?:19|20)\d{2})/g, log2(365 * 100)],
+        // A year on its own
+        [/(?:19|20)\d{2}/g, log2(200)],
+    ];
+
+    for (const [pattern, bits] of patterns) {
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(password)) !== null) {
+            matches.push({ kind: 'date', start: match.index, end: match.index + match[0].length, bits });
+        }
+    }
+    return matches;
+};
+
+/**
+ * Estimate how hard a password is to guess.
+ * `userInputs` are strings an attacker would try first, such as the user's name and email.
+ */
+const estimateStrength = (password: string, userInputs: string[] = []): PasswordStrength => {
+    const charBits = characterBits(password);
+    const inputs = userInputs
+        .flatMap((input) => input.toLowerCase().split(/[^a-z0-9]+/))
+        .filter((part) => part.length >= 3);
+
+    const matches = [
+        ...findWords(password, COMMON_WORDS, 'dictionary', log2(COMMON_WORDS.length)),
+        ...findWords(password, inputs, 'user_input', 1),
+        ...findKeyboardWalks(password),
+        ...findSequences(password),
+        ...findRepeats(password, charBits),
+        ...findDates(password),
+    ];
+
+    // Cheapest cover of the password: cost[i] is the minimum bits to produce its first i characters
+    const cost = new Array<number>(password.length + 1).fill(Infinity);
+    const via = new Array<PatternMatch | null>(password.length + 1).fill(null);
+    cost[0] = 0;
+    for (let i = 1; i <= password.length; i++) {
+        cost[i] = cost[i - 1] + charBits;
+        for (const match of matches) {
+            if (match.end === i && cost[match.start] + match.bits < cost[i]) {
+                cost[i] = cost[match.start] + match.bits;
+                via[i] = match;
+            }
+        }
+    }
+
+    const used = new Set<PatternKind>();
+    for (let i = password.length; i > 0; ) {
+        const match = via[i];
+        if (match) {
+            used.add(match.kind);
+            i = match.start;
+        } else {
+            i--;
+        }
+    }
+
+    const entropyBits = Math.round(cost[password.length] * 10) / 10;
+    const score = entropyBits < 25 ? 0 : entropyBits < 35 ? 1 : entropyBits < 45 ? 2 : entropyBits < 60 ? 3 : 4;
+
+    return {
+        score,
+        entropyBits,
+        warnings: Array.from(used, (kind) => WARNINGS[kind]),
+    };
+};
+
+export { PasswordStrength, estimateStrength };
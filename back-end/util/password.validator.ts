@@ -1,120 +1,82 @@
-import { logger } from './logger';
+import breachedPasswords from './breached.passwords';
+import { getPasswordPolicy, PasswordPolicyProfile } from './password.policy';
+import { estimateStrength, PasswordStrength } from './password.strength';
 
 interface PasswordValidationResult {
     isValid: boolean;
     errors: string[];
+    strength: PasswordStrength;
 }
 
 class PasswordValidator {
-    private minLength = 12;
-    private maxLength = 128;
-    
     /**
-     * Validate password against security policy
-     * Requirements:
-     * - Minimum 12 characters
-     * - Maximum 128 characters
-     * - At least one uppercase letter
-     * - At least one lowercase letter
-     * - At least one number
-     * - At least one special character
-     * - No common patterns or dictionary words (basic check)
+     * Validate password against the password policy of a profile (see password.policy.ts):
+     * - Length limits
+     * - Character classes (not required for long passphrases)
+     * - Minimum strength score: no common words, keyboard walks, sequences, repeats or dates
+     *   carrying most of the password, nor the user's own name or email (`userInputs`)
+     * - Not found in the offline breached password dataset (HIBP_PASSWORDS_FILE)
      */
-    validate(password: string): PasswordValidationResult {
+    async validate(
+        password: string,
+        { profile = 'standard', userInputs = [] }: { profile?: PasswordPolicyProfile; userInputs?: string[] } = {}
+    ): Promise<PasswordValidationResult> {
         const errors: string[] = [];
+        const policy = getPasswordPolicy(profile);
 
         if (!password) {
             errors.push('Password is required');
-            return { isValid: false, errors };
+            return { isValid: false, errors, strength: estimateStrength('') };
         }
 
         // Check length
-        if (password.length < this.minLength) {
-            errors.push(`Password must be at least ${this.minLength} characters long`);
+        if (password.length < policy.minLength) {
+            errors.push(`Password must be at least ${policy.minLength} characters long`);
         }
 
-        if (password.length > this.maxLength) {
-            errors.push(`Password must not exceed ${this.maxLength} characters`);
+        // Stop here: estimating the strength of a huge input would tie up the event loop
+        if (password.length > policy.maxLength) {
+            errors.push(`Password must not exceed ${policy.maxLength} characters`);
+            return { isValid: false, errors, strength: estimateStrength('') };
         }
 
-        // Check uppercase
-        if (!/[A-Z]/.test(password)) {
-            errors.push('Password must contain at least one uppercase letter');
-        }
+        // Character classes only apply to passwords shorter than a passphrase
+        if (password.length < policy.passphraseMinLength) {
+            if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+                errors.push('Password must contain at least one uppercase letter');
+            }
 
-        // Check lowercase
-        if (!/[a-z]/.test(password)) {
-            errors.push('Password must contain at least one lowercase letter');
-        }
+            if (policy.requireLowercase && !/[a-z]/.test(password)) {
+                errors.push('Password must contain at least one lowercase letter');
+            }
 
-        // Check number
-        if (!/\d/.test(password)) {
-            errors.push('Password must contain at least one number');
-        }
+            if (policy.requireNumber && !/\d/.test(password)) {
+                errors.push('Password must contain at least one number');
+            }
 
-        // Check special character
-        if (!/[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/.test(password)) {
-            errors.push('Password must contain at least one special character (!@#$%^&*)');
+            if (policy.requireSpecial && !/[^a-zA-Z\d\s]/.test(password)) {
+                errors.push('Password must contain at least one special character (!@#$%^&*)');
+            }
         }
 
-        // Check for common weak patterns
-        if (this.isCommonPassword(password)) {
-            errors.push('Password is too common or predictable');
+        // Check how easy the password is to guess
+        const strength = estimateStrength(password, userInputs);
+        if (strength.score < policy.minStrengthScore) {
+            errors.push(['Password is too easy to guess', ...strength.warnings].join('. '));
         }
 
-        // Check for sequential characters (aaa, 123, abc, etc.)
-        if (this.hasSequentialCharacters(password)) {
-            errors.push('Password contains too many sequential characters');
+        // Check against passwords exposed in known breaches
+        if (await breachedPasswords.isBreached(password)) {
+            errors.push('This password has appeared in a data breach and cannot be used. Please choose a different password');
         }
 
-        // Check if password contains email or username (if provided)
-        // This would need to be checked at service level with email/username context
-
         return {
             isValid: errors.length === 0,
             errors,
+            strength,
         };
     }
 
-    /**
-     * Check if password is on common passwords list
-     */
-    private isCommonPassword(password: string): boolean {
-        const commonPasswords = [
-            'password', 'password123', '123456', '12345678', 'qwerty',
-            'abc123', 'monkey', '1234567', 'letmein', 'trustno1',
-            'dragon', 'baseball', '111111', 'iloveyou', 'master',
-            'sunshine', 'ashley', 'bailey', 'passw0rd', 'shadow',
-        ];
-
-        const lowerPassword = password.toLowerCase();
-        return commonPasswords.some(common => lowerPassword.includes(common));
-    }
-
-    /**
-     * Check for sequential characters (aaa, 123, abc, etc.)
-     */
-    private hasSequentialCharacters(password: string): boolean {
-        let sequentialCount = 1;
-        
-        for (let i = 1; i < password.length; i++) {
-            const current = password.charCodeAt(i);
-            const previous = password.charCodeAt(i - 1);
-            
-            // Check if characters are sequential (differ by 1 in ASCII)
-            if (Math.abs(current - previous) === 1) {
-                sequentialCount++;
-                if (sequentialCount >= 4) {
-                    return true;
-                }
-            } else {
-                sequentialCount = 1;
-            }
-        }
-        
-        return false;
-    }
-
     /**
      * Check if password contains email or username
      */
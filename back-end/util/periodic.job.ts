@@ -0,0 +1,40 @@
+import { logger } from './logger';
+
+/**
+ * Background job that runs on an interval inside the API process.
+ * A failed run is logged and the next one goes ahead as planned; the timer doesn't keep
+ * the process alive, so shutting down never waits for a job.
+ */
+class PeriodicJob {
+    private timer: NodeJS.Timeout | null = null;
+
+    constructor(private readonly run: () => Promise<unknown>, private readonly failureMessage: string) {}
+
+    /**
+     * Start running every `intervalMinutes`, and straight away with `runNow`. Does nothing when already started.
+     */
+    start(intervalMinutes: number, { runNow = false }: { runNow?: boolean } = {}): void {
+        if (this.timer) {
+            return;
+        }
+
+        if (runNow) {
+            this.runOnce();
+        }
+        this.timer = setInterval(() => this.runOnce(), intervalMinutes * 60 * 1000);
+        this.timer.unref();
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private runOnce(): void {
+        this.run().catch((err: any) => logger.error({ error: err.message }, this.failureMessage));
+    }
+}
+
+export { PeriodicJob };
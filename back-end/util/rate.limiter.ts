@@ -0,0 +1,238 @@
+import { Request, RequestHandler, Response } from 'express';
+import rateLimit, { IncrementResponse, ipKeyGenerator, Options, RateLimitInfo, Store } from 'express-rate-limit';
+import mfaChallengeDB from '../repository/mfaChallenge.db';
+import rateLimitDB from '../repository/rateLimit.db';
+import { logger, logSecurityEvent } from './logger';
+import { PeriodicJob } from './periodic.job';
+import tokenGenerator from './token.generator';
+
+/**
+ * Storage backend for rate limit counters.
+ * Each key counts hits in a fixed window that starts with its first hit.
+ */
+interface RateLimitStore {
+    increment(key: string, windowMs: number): Promise<{ hits: number; resetAt: Date }>;
+    decrement(key: string): Promise<void>;
+    reset(key: string): Promise<void>;
+    purgeExpired(): Promise<number>;
+}
+
+/**
+ * Default store: hits on every API instance count towards the same limit, and a restart doesn't reset it
+ */
+class PrismaRateLimitStore implements RateLimitStore {
+    async increment(key: string, windowMs: number): Promise<{ hits: number; resetAt: Date }> {
+        return rateLimitDB.incrementCounter({ key, windowMs });
+    }
+
+    async decrement(key: string): Promise<void> {
+        await rateLimitDB.decrementCounter({ key });
+    }
+
+    async reset(key: string): Promise<void> {
+        await rateLimitDB.deleteCounter({ key });
+    }
+
+    async purgeExpired(): Promise<number> {
+        return rateLimitDB.deleteExpiredCounters();
+    }
+}
+
+/**
+ * Counts in a Map. Meant for tests: in production each instance would allow the full limit on its own.
+ */
+class InMemoryRateLimitStore implements RateLimitStore {
+    private counters = new Map<string, { hits: number; resetAt: Date }>();
+
+    async increment(key: string, windowMs: number): Promise<{ hits: number; resetAt: Date }> {
+        const now = new Date();
+        const current = this.counters.get(key);
+        const counter =
+            current && current.resetAt > now
+                ? { hits: current.hits + 1, resetAt: current.resetAt }
+                : { hits: 1, resetAt: new Date(now.getTime() + windowMs) };
+        this.counters.set(key, counter);
+        return { ...counter };
+    }
+
+    async decrement(key: string): Promise<void> {
+        const counter = this.counters.get(key);
+        if (counter && counter.hits > 0) {
+            counter.hits--;
+        }
+    }
+
+    async reset(key: string): Promise<void> {
+        this.counters.delete(key);
+    }
+
+    async purgeExpired(): Promise<number> {
+        const now = new Date();
+        let purged = 0;
+        for (const [key, counter] of this.counters) {
+            if (counter.resetAt < now) {
+                this.counters.delete(key);
+                purged++;
+            }
+        }
+        return purged;
+    }
+}
+
+/**
+ * What a limit is counted per:
+ * - ip: the client address (IPv6 grouped per /56, so one host can't rotate through its range)
+ * - email: the email address in the request body, however many addresses it comes from
+ * - ipEmail: the email address in the request body from one client address, so requests from
+ *   elsewhere can't use up the limit of the address's owner
+ * - account: the signed-in user, or before sign-in the user the MFA challenge in the body belongs to
+ */
+type RateLimitKeyType = 'ip' | 'email' | 'ipEmail' | 'account';
+
+type RateLimitOptions = {
+    windowMs: number;
+    // Maximum hits per window for each key type that applies
+    limits: Partial<Record<RateLimitKeyType, number>>;
+    message: string;
+};
+
+/**
+ * Connects an express-rate-limit instance to whichever store the rate limiter currently uses
+ */
+class SharedStore implements Store {
+    localKeys = false;
+    private windowMs = 0;
+
+    constructor(private readonly rateLimiter: RateLimiter, readonly prefix: string) {}
+
+    init(options: Options): void {
+        this.windowMs = options.windowMs;
+    }
+
+    async increment(key: string): Promise<IncrementResponse> {
+        const { hits, resetAt } = await this.rateLimiter.getStore().increment(this.prefix + key, this.windowMs);
+        return { totalHits: hits, resetTime: resetAt };
+    }
+
+    async decrement(key: string): Promise<void> {
+        await this.rateLimiter.getStore().decrement(this.prefix + key);
+    }
+
+    async resetKey(key: string): Promise<void> {
+        await this.rateLimiter.getStore().reset(this.prefix + key);
+    }
+}
+
+// Hashed so counters never hold email addresses
+const hashEmail = (req: Request): string | undefined => {
+    const email = req.body?.email;
+    return typeof email === 'string' && email.trim() ? tokenGenerator.hashToken(email.trim().toLowerCase()) : undefined;
+};
+
+const KEY_GENERATORS: Record<RateLimitKeyType, (req: Request) => Promise<string | undefined> | string | undefined> = {
+    ip: (req) => ipKeyGenerator(req.ip ?? ''),
+    email: hashEmail,
+    ipEmail: (req) => {
+        const email = hashEmail(req);
+        return email ? `${ipKeyGenerator(req.ip ?? '')}:${email}` : undefined;
+    },
+    account: async (req) => {
+        const userId = (req as { auth?: { userId?: number } }).auth?.userId;
+        if (userId) {
+            return String(userId);
+        }
+
+        // Second login step (/verify-mfa, /mfa/email-fallback): nobody is signed in yet
+        const challengeId = req.body?.mfaChallengeId;
+        if (typeof challengeId !== 'string' || !challengeId) {
+            return undefined;
+        }
+        const challenge = await mfaChallengeDB.getChallengeByIdHash({ challengeIdHash: tokenGenerator.hashToken(challengeId) });
+        return challenge ? String(challenge.userId) : undefined;
+    },
+};
+
+/**
+ * Rate limits for sensitive endpoints.
+ * A limit can count per IP, per email address and per account at once; a request is refused
+ * as soon as any of them is exhausted, with a JSON error and a Retry-After header.
+ */
+class RateLimiter {
+    private store: RateLimitStore = new PrismaRateLimitStore();
+    private purgeJob = new PeriodicJob(() => this.purgeExpired(), 'Failed to purge rate limit counters');
+
+    /**
+     * Change where counters are kept; limiters already made by create() count in the new store from their next request
+     */
+    useStore(store: RateLimitStore): void {
+        this.store = store;
+    }
+
+    getStore(): RateLimitStore {
+        return this.store;
+    }
+
+    /**
+     * Middleware enforcing a named limit; spread it into the route's handlers.
+     * Key types that don't apply to a request (no email in the body, not signed in) are skipped.
+     */
+    create(name: string, { windowMs, limits, message }: RateLimitOptions): RequestHandler[] {
+        return (Object.keys(limits) as RateLimitKeyType[]).map((keyType) => {
+            // Resolved once per request, as both skip and keyGenerator need it and it may take a lookup
+            const keys = new WeakMap<Request, Promise<string | undefined>>();
+            const resolveKey = (req: Request): Promise<string | undefined> => {
+                if (!keys.has(req)) {
+                    keys.set(req, Promise.resolve(KEY_GENERATORS[keyType](req)));
+                }
+                return keys.get(req)!;
+            };
+
+            return rateLimit({
+                windowMs,
+                limit: limits[keyType],
+                standardHeaders: true,
+                legacyHeaders: false,
+                store: new SharedStore(this, `${name}:${keyType}:`),
+                skip: async (req) => (await resolveKey(req)) === undefined,
+                keyGenerator: async (req) => (await resolveKey(req))!,
+                handler: (req: Request, res: Response) => {
+                    const resetTime = (req as Request & { rateLimit?: RateLimitInfo }).rateLimit?.resetTime;
+                    const retryAfter = Math.max(1, Math.ceil(((resetTime?.getTime() ?? Date.now() + windowMs) - Date.now()) / 1000));
+
+                    logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+                        limit: name,
+                        keyType,
+                        userId: (req as { auth?: { userId?: number } }).auth?.userId,
+                        ipAddress: req.ip,
+                        path: req.originalUrl,
+                    });
+
+                    res.set('Retry-After', String(retryAfter));
+                    res.status(429).json({ status: 'too many requests', message, retryAfter });
+                },
+            });
+        });
+    }
+
+    async purgeExpired(): Promise<number> {
+        const purged = await this.store.purgeExpired();
+        if (purged > 0) {
+            logger.info({ purged }, '🧹 Purged expired rate limit counters');
+        }
+        return purged;
+    }
+
+    /**
+     * Periodically remove counters whose window has ended
+     */
+    startPurging(intervalMinutes: number = parseInt(process.env.RATE_LIMIT_PURGE_MINUTES || '60')): void {
+        this.purgeJob.start(intervalMinutes);
+    }
+
+    stopPurging(): void {
+        this.purgeJob.stop();
+    }
+}
+
+export { RateLimitStore, RateLimitKeyType, PrismaRateLimitStore, InMemoryRateLimitStore };
+export default new RateLimiter();
@@ -0,0 +1,83 @@
+import crypto from 'crypto';
+
+/**
+ * Encryption of secrets kept in the database (JWT private keys, TOTP secrets).
+ * AES-256-GCM under DATA_ENCRYPTION_KEY; a payload is "iv.authTag.ciphertext" in base64url,
+ * so a stolen database dump alone doesn't reveal them.
+ *
+ * Values written before DATA_ENCRYPTION_KEY existed were encrypted under sha256(JWT_SECRET).
+ * They can still be read while JWT_SECRET is set, and should be encrypted again (see isCurrent).
+ */
+class SecretBox {
+    /**
+     * Fail fast at startup instead of on the first encrypt or decrypt
+     */
+    assertConfigured(): void {
+        this.getEncryptionKey();
+    }
+
+    encrypt(plaintext: string): string {
+        const iv = crypto.randomBytes(12);
+        const cipher = crypto.createCipheriv('aes-256-gcm', this.getEncryptionKey(), iv);
+        const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+        return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64url')).join('.');
+    }
+
+    /**
+     * Throws when the payload was not encrypted with a known key or has been tampered with
+     */
+    decrypt(payload: string): string {
+        const legacyKey = this.getLegacyKey();
+        try {
+            return this.decryptWith(this.getEncryptionKey(), payload);
+        } catch (error) {
+            if (!legacyKey) {
+                throw error;
+            }
+            return this.decryptWith(legacyKey, payload);
+        }
+    }
+
+    /**
+     * Whether a stored value is an encrypted payload rather than a secret saved in plain text
+     */
+    isEncrypted(value: string): boolean {
+        return value.split('.').length === 3;
+    }
+
+    /**
+     * Whether a stored value is encrypted under the current DATA_ENCRYPTION_KEY
+     */
+    isCurrent(value: string): boolean {
+        if (!this.isEncrypted(value)) {
+            return false;
+        }
+        try {
+            this.decryptWith(this.getEncryptionKey(), value);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private getEncryptionKey(): Buffer {
+        const key = process.env.DATA_ENCRYPTION_KEY;
+        if (!key || !/^[0-9a-fA-F]{64}$/.test(key)) {
+            throw new Error('DATA_ENCRYPTION_KEY must be set to 64 hex characters (openssl rand -hex 32)');
+        }
+        return Buffer.from(key, 'hex');
+    }
+
+    private getLegacyKey(): Buffer | null {
+        return process.env.JWT_SECRET ? crypto.createHash('sha256').update(process.env.JWT_SECRET).digest() : null;
+    }
+
+    private decryptWith(key: Buffer, payload: string): string {
+        const [iv, authTag, ciphertext] = payload.split('.').map((part) => Buffer.from(part, 'base64url'));
+        const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+        decipher.setAuthTag(authTag);
+        return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+    }
+}
+
+export default new SecretBox();
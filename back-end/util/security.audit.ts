@@ -0,0 +1,60 @@
+import securityEventDB from '../repository/securityEvent.db';
+import { logger, onSecurityEvent } from './logger';
+import { PeriodicJob } from './periodic.job';
+
+/**
+ * Per-user audit trail.
+ * Security events about a user (their own logins and changes, and administrator actions on their
+ * account) are kept in the database so they can be included in the user's data export.
+ * Entries are removed after SECURITY_EVENT_RETENTION_DAYS and together with the account.
+ */
+class SecurityAuditTrail {
+    private recording = false;
+    private purgeJob = new PeriodicJob(() => this.purgeExpired(), 'Failed to purge security events');
+
+    /**
+     * Start recording the security events logged from now on
+     */
+    startRecording(): void {
+        if (this.recording) {
+            return;
+        }
+        this.recording = true;
+
+        onSecurityEvent((eventType, details, occurredAt) => {
+            // Administrator actions are about the target user, not the administrator
+            const userId = typeof details.targetUserId === 'number' ? details.targetUserId : details.userId;
+            if (typeof userId !== 'number') {
+                return;
+            }
+
+            securityEventDB
+                .recordSecurityEvent({ userId, eventType, details: JSON.parse(JSON.stringify(details)), createdAt: occurredAt })
+                .catch((err: any) => logger.error({ eventType, userId, error: err.message }, 'Failed to record security event'));
+        });
+    }
+
+    async purgeExpired(): Promise<number> {
+        const retentionDays = parseInt(process.env.SECURITY_EVENT_RETENTION_DAYS || '365');
+        const purged = await securityEventDB.deleteSecurityEventsBefore({
+            before: new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000),
+        });
+        if (purged > 0) {
+            logger.info({ purged }, '🧹 Purged old security events');
+        }
+        return purged;
+    }
+
+    /**
+     * Periodically remove events older than the retention period
+     */
+    startPurging(intervalMinutes: number = 24 * 60): void {
+        this.purgeJob.start(intervalMinutes);
+    }
+
+    stopPurging(): void {
+        this.purgeJob.stop();
+    }
+}
+
+export default new SecurityAuditTrail();
@@ -1,7 +1,7 @@
 // Execute: npx ts-node util/seed.ts
 
 import { PrismaClient } from '@prisma/client';
-import bcrypt from 'bcrypt';
+import passwordHasher from './password.hasher';
 import { addDays, addHours } from 'date-fns';
 
 const prisma = new PrismaClient();
@@ -12,14 +12,25 @@ const main = async () => {
     await prisma.trip.deleteMany();
     await prisma.user.deleteMany();
 
+    // Create the administrator account
+    await prisma.user.create({
+        data: {
+            firstName: 'Wout',
+            lastName: 'Verhaegen',
+            email: 'admin@travelbooking.be',
+            password: await passwordHasher.hash('admin123'),
+            role: { connect: { name: 'ADMIN' } },
+        },
+    });
+
     // Create Organiser Users (Belgian Dutch names)
     const organiser1 = await prisma.user.create({
         data: {
             firstName: 'Liesbeth',
             lastName: 'Van Houten',
             email: 'liesbeth.vanhouten@belgische-reizen.be',
-            password: await bcrypt.hash('liesbeth123', 12),
-            isOrganiser: true,
+            password: await passwordHasher.hash('liesbeth123'),
+            role: { connect: { name: 'ORGANISER' } },
         },
     });
 
@@ -28,8 +39,8 @@ const main = async () => {
             firstName: 'Pieter',
             lastName: 'De Vries',
             email: 'pieter.devries@avontuurtochten.be',
-            password: await bcrypt.hash('pieter123', 12),
-            isOrganiser: true,
+            password: await passwordHasher.hash('pieter123'),
+            role: { connect: { name: 'ORGANISER' } },
         },
     });
 
@@ -38,8 +49,8 @@ const main = async () => {
             firstName: 'Marieke',
             lastName: 'Janssens',
             email: 'marieke.janssens@stadtrips.be',
-            password: await bcrypt.hash('marieke123', 12),
-            isOrganiser: true,
+            password: await passwordHasher.hash('marieke123'),
+            role: { connect: { name: 'ORGANISER' } },
         },
     });
 
@@ -49,8 +60,8 @@ const main = async () => {
             firstName: 'Jan',
             lastName: 'Peeters',
             email: 'jan.peeters@telenet.be',
-            password: await bcrypt.hash('jan123', 12),
-            isOrganiser: false,
+            password: await passwordHasher.hash('jan123'),
+            role: { connect: { name: 'CLIENT' } },
         },
     });
 
@@ -59,8 +70,8 @@ const main = async () => {
             firstName: 'Els',
             lastName: 'Van Den Berg',
             email: 'els.vandenberg@skynet.be',
-            password: await bcrypt.hash('els123', 12),
-            isOrganiser: false,
+            password: await passwordHasher.hash('els123'),
+            role: { connect: { name: 'CLIENT' } },
         },
     });
 
@@ -69,8 +80,8 @@ const main = async () => {
             firstName: 'Koen',
             lastName: 'Willems',
             email: 'koen.willems@proximus.be',
-            password: await bcrypt.hash('koen123', 12),
-            isOrganiser: false,
+            password: await passwordHasher.hash('koen123'),
+            role: { connect: { name: 'CLIENT' } },
         },
     });
 
@@ -79,8 +90,8 @@ const main = async () => {
             firstName: 'Sofie',
             lastName: 'Mertens',
             email: 'sofie.mertens@gmail.com',
-            password: await bcrypt.hash('sofie123', 12),
-            isOrganiser: false,
+            password: await passwordHasher.hash('sofie123'),
+            role: { connect: { name: 'CLIENT' } },
         },
     });
 
@@ -89,8 +100,8 @@ const main = async () => {
             firstName: 'Thomas',
             lastName: 'Claes',
             email: 'thomas.claes@outlook.be',
-            password: await bcrypt.hash('thomas123', 12),
-            isOrganiser: false,
+            password: await passwordHasher.hash('thomas123'),
+            role: { connect: { name: 'CLIENT' } },
         },
     });
 
@@ -99,8 +110,8 @@ const main = async () => {
             firstName: 'Annelies',
             lastName: 'Van Damme',
             email: 'annelies.vandamme@hotmail.be',
-            password: await bcrypt.hash('annelies123', 12),
-            isOrganiser: false,
+            password: await passwordHasher.hash('annelies123'),
+            role: { connect: { name: 'CLIENT' } },
         },
     });
 
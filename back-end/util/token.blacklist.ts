@@ -0,0 +1,107 @@
+import revokedTokenDB from '../repository/revokedToken.db';
+import { logger } from './logger';
+import { PeriodicJob } from './periodic.job';
+
+/**
+ * Storage backend for revoked access tokens.
+ * Entries are keyed by the token's jti and only need to live until the token expires.
+ */
+interface TokenBlacklistStore {
+    revoke(jti: string, expiresAt: Date): Promise<void>;
+    isRevoked(jti: string): Promise<boolean>;
+    purgeExpired(): Promise<number>;
+}
+
+/**
+ * Default store: a token logged out on one API instance is refused by all of them, also after a restart
+ */
+class PrismaTokenBlacklistStore implements TokenBlacklistStore {
+    async revoke(jti: string, expiresAt: Date): Promise<void> {
+        await revokedTokenDB.revokeToken({ jti, expiresAt });
+    }
+
+    async isRevoked(jti: string): Promise<boolean> {
+        return revokedTokenDB.isTokenRevoked({ jti });
+    }
+
+    async purgeExpired(): Promise<number> {
+        return revokedTokenDB.deleteExpiredRevokedTokens();
+    }
+}
+
+/**
+ * Keeps revoked jtis in a Map. Meant for tests: in production a restart would bring logged out tokens back.
+ */
+class InMemoryTokenBlacklistStore implements TokenBlacklistStore {
+    private entries = new Map<string, Date>();
+
+    async revoke(jti: string, expiresAt: Date): Promise<void> {
+        this.entries.set(jti, expiresAt);
+    }
+
+    async isRevoked(jti: string): Promise<boolean> {
+        return this.entries.has(jti);
+    }
+
+    async purgeExpired(): Promise<number> {
+        const now = new Date();
+        let purged = 0;
+        for (const [jti, expiresAt] of this.entries) {
+            if (expiresAt < now) {
+                this.entries.delete(jti);
+                purged++;
+            }
+        }
+        return purged;
+    }
+}
+
+/**
+ * Access-token revocation list.
+ * Logged out tokens are recorded by jti until they would have expired on their own,
+ * so the list never holds raw JWTs and stays bounded.
+ */
+class TokenBlacklist {
+    private store: TokenBlacklistStore = new PrismaTokenBlacklistStore();
+    private purgeJob = new PeriodicJob(() => this.purgeExpired(), 'Failed to purge revoked tokens');
+
+    /**
+     * Change where revoked jtis are kept; tests use InMemoryTokenBlacklistStore
+     */
+    useStore(store: TokenBlacklistStore): void {
+        this.store = store;
+    }
+
+    /**
+     * Revoke a token until its expiry (`exp` claim, in seconds since the epoch)
+     */
+    async revoke(jti: string, exp: number): Promise<void> {
+        await this.store.revoke(jti, new Date(exp * 1000));
+    }
+
+    async isRevoked(jti: string): Promise<boolean> {
+        return this.store.isRevoked(jti);
+    }
+
+    async purgeExpired(): Promise<number> {
+        const purged = await this.store.purgeExpired();
+        if (purged > 0) {
+            logger.info({ purged }, '🧹 Purged expired revoked tokens');
+        }
+        return purged;
+    }
+
+    /**
+     * Periodically remove entries for tokens that have expired anyway
+     */
+    startPurging(intervalMinutes: number = parseInt(process.env.TOKEN_BLACKLIST_PURGE_MINUTES || '60')): void {
+        this.purgeJob.start(intervalMinutes);
+    }
+
+    stopPurging(): void {
+        this.purgeJob.stop();
+    }
+}
+
+export { TokenBlacklistStore, PrismaTokenBlacklistStore, InMemoryTokenBlacklistStore };
+export default new TokenBlacklist();
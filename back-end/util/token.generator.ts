@@ -20,9 +20,29 @@ class TokenGenerator {
     }
 
     /**
-     * Generate a remember me token
+     * Generate a one-time MFA recovery code, e.g. "k7xq2-m9dfp".
+     * Lowercase base32 without look-alike characters so it can be read from paper.
      */
-    generateRememberMeToken(): string {
+    generateRecoveryCode(): string {
+        const alphabet = 'abcdefghjkmnpqrstuvwxyz23456789';
+        let code = '';
+        for (let i = 0; i < 10; i++) {
+            code += alphabet[crypto.randomInt(alphabet.length)];
+        }
+        return `${code.slice(0, 5)}-${code.slice(5)}`;
+    }
+
+    /**
+     * Normalise user input of a recovery code before hashing (case, dashes, spaces)
+     */
+    normalizeRecoveryCode(code: string): string {
+        return code.toLowerCase().replace(/[\s-]/g, '');
+    }
+
+    /**
+     * Generate a refresh token
+     */
+    generateRefreshToken(): string {
         return crypto.randomBytes(64).toString('base64url');
     }
 
@@ -34,10 +54,13 @@ class TokenGenerator {
     }
 
     /**
-     * Verify if a plaintext token matches a hashed token
+     * Verify if a plaintext token matches a hashed token.
+     * Compares in constant time so response timing reveals nothing about the stored hash.
      */
     verifyToken(plainToken: string, hashedToken: string): boolean {
-        return this.hashToken(plainToken) === hashedToken;
+        const candidate = Buffer.from(this.hashToken(plainToken), 'hex');
+        const expected = Buffer.from(hashedToken, 'hex');
+        return candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected);
     }
 
     /**
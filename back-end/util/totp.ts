@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * RFC 6238 time-based one-time passwords for authenticator apps
+ * (Google Authenticator, Authy, 1Password, ...).
+ *
+ * Parameters are the defaults every authenticator app supports:
+ * HMAC-SHA1, 6 digits, 30 second time step.
+ */
+class Totp {
+    private digits = 6;
+    private stepSeconds = 30;
+    private issuer = process.env.TOTP_ISSUER || 'Travel Booking';
+
+    /**
+     * Generate a new random shared secret (160 bits, as recommended by RFC 4226),
+     * base32 encoded so it can be typed into an authenticator app by hand.
+     */
+    generateSecret(): string {
+        return this.base32Encode(crypto.randomBytes(20));
+    }
+
+    /**
+     * Build the otpauth:// URI that authenticator apps read from a QR code
+     */
+    buildOtpAuthUri(secret: string, accountName: string): string {
+        const label = encodeURIComponent(`${this.issuer}:${accountName}`);
+        const params = new URLSearchParams({
+            secret,
+            issuer: this.issuer,
+            algorithm: 'SHA1',
+            digits: this.digits.toString(),
+            period: this.stepSeconds.toString(),
+        });
+        return `otpauth://totp/${label}?${params.toString()}`;
+    }
+
+    /**
+     * Current time step counter (number of periods since the Unix epoch)
+     */
+    getTimeStep(timestamp: number = Date.now()): number {
+        return Math.floor(timestamp / 1000 / this.stepSeconds);
+    }
+
+    /**
+     * Generate the code for a given time step
+     */
+    generateCode(secret: string, timeStep: number = this.getTimeStep()): string {
+        const counter = Buffer.alloc(8);
+        counter.writeUInt32BE(Math.floor(timeStep / 0x100000000), 0);
+        counter.writeUInt32BE(timeStep % 0x100000000, 4);
+
+        const hmac = crypto.createHmac('sha1', this.base32Decode(secret)).update(counter).digest();
+
+        // Dynamic truncation (RFC 4226 section 5.3)
+        const offset = hmac[hmac.length - 1] & 0x0f;
+        const binary =
+            ((hmac[offset] & 0x7f) << 24) |
+            ((hmac[offset + 1] & 0xff) << 16) |
+            ((hmac[offset + 2] & 0xff) << 8) |
+            (hmac[offset + 3] & 0xff);
+
+        return (binary % 10 ** this.digits).toString().padStart(this.digits, '0');
+    }
+
+    /**
+     * Verify a code, allowing `window` time steps of clock drift on either side.
+     * Returns the matched time step so callers can reject replays of the same code,
+     * or null when the code does not match.
+     */
+    verify(code: string, secret: string, window: number = 1, timestamp: number = Date.now()): number | null {
+        if (!code || !/^\d+$/.test(code) || code.length !== this.digits) {
+            return null;
+        }
+
+        const currentStep = this.getTimeStep(timestamp);
+        let matchedStep: number | null = null;
+
+        // Check every step in the window (no early exit) to keep timing constant
+        for (let drift = -window; drift <= window; drift++) {
+            const step = currentStep + drift;
+            const expected = Buffer.from(this.generateCode(secret, step));
+            if (crypto.timingSafeEqual(expected, Buffer.from(code)) && matchedStep === null) {
+                matchedStep = step;
+            }
+        }
+
+        return matchedStep;
+    }
+
+    private base32Encode(buffer: Buffer): string {
+        let bits = 0;
+        let value = 0;
+        let output = '';
+
+        for (const byte of buffer) {
+            value = (value << 8) | byte;
+            bits += 8;
+            while (bits >= 5) {
+                output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+                bits -= 5;
+            }
+        }
+        if (bits > 0) {
+            output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+        }
+
+        return output;
+    }
+
+    private base32Decode(input: string): Buffer {
+        const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+        let bits = 0;
+        let value = 0;
+        const bytes: number[] = [];
+
+        for (const char of cleaned) {
+            const index = BASE32_ALPHABET.indexOf(char);
+            if (index === -1) {
+                throw new Error('Invalid base32 character in TOTP secret');
+            }
+            value = (value << 5) | index;
+            bits += 5;
+            if (bits >= 8) {
+                bytes.push((value >>> (bits - 8)) & 0xff);
+                bits -= 8;
+            }
+        }
+
+        return Buffer.from(bytes);
+    }
+}
+
+export default new Totp();
@@ -75,6 +75,7 @@ const UserLoginForm: React.FC = () => {
           JSON.stringify({
             id: user.id,
             token: user.token,
+            refreshToken: user.refreshToken,
             firstName: user.firstName,
             lastName: user.lastName,
             role: user.role,
@@ -1,18 +1,62 @@
 import classNames from "classnames";
 import { useRouter } from "next/router";
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import UserService from "@services/UserService";
-import { StatusMessage } from "@types";
+import { PasswordPolicy, StatusMessage } from "@types";
 import { useTranslation } from "next-i18next";
 
+// Used until the server's policy has loaded; the server enforces its own rules either way
+const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  profile: "standard",
+  minLength: 12,
+  maxLength: 128,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumber: true,
+  requireSpecial: true,
+  passphraseMinLength: 20,
+  minStrengthScore: 3,
+  historySize: 5,
+  breachCheck: false,
+};
+
+type PasswordRule = {
+  key: string;
+  message: string;
+  met: (pwd: string) => boolean;
+};
+
+// The rules of the policy that apply to this password (character classes are waived for passphrases)
+const getPasswordRules = (policy: PasswordPolicy, pwd: string): PasswordRule[] => {
+  const rules: PasswordRule[] = [
+    { key: "length", message: "passwordMinLength", met: (value) => value.length >= policy.minLength },
+  ];
+  if (pwd.length >= policy.passphraseMinLength) {
+    return rules;
+  }
+  if (policy.requireUppercase) {
+    rules.push({ key: "uppercase", message: "passwordUppercase", met: (value) => /[A-Z]/.test(value) });
+  }
+  if (policy.requireLowercase) {
+    rules.push({ key: "lowercase", message: "passwordLowercase", met: (value) => /[a-z]/.test(value) });
+  }
+  if (policy.requireNumber) {
+    rules.push({ key: "number", message: "passwordNumber", met: (value) => /\d/.test(value) });
+  }
+  if (policy.requireSpecial) {
+    rules.push({ key: "special", message: "passwordSpecial", met: (value) => /[^a-zA-Z\d\s]/.test(value) });
+  }
+  return rules;
+};
+
 const UserSignupForm: React.FC = () => {
   const [firstName, setFirstName] = useState("");
   const [lastName, setLastName] = useState("");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
-  const [isOrganiser, setIsOrganiser] = useState(false);
   const [passwordStrength, setPasswordStrength] = useState<"weak" | "medium" | "strong">("weak");
+  const [passwordPolicy, setPasswordPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
 
   const [firstNameError, setFirstNameError] = useState<string | null>(null);
   const [lastNameError, setLastNameError] = useState<string | null>(null);
@@ -24,17 +68,23 @@ const UserSignupForm: React.FC = () => {
   const router = useRouter();
   const { t } = useTranslation();
 
-  const validatePassword = (pwd: string) => {
-    const hasUppercase = /[A-Z]/.test(pwd);
-    const hasLowercase = /[a-z]/.test(pwd);
-    const hasNumber = /\d/.test(pwd);
-    const hasSpecial = /[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/.test(pwd);
-    const isLongEnough = pwd.length >= 12;
+  useEffect(() => {
+    UserService.getPasswordPolicy()
+      .then((response) => (response.ok ? response.json() : null))
+      .then((policy: PasswordPolicy | null) => {
+        if (policy) setPasswordPolicy(policy);
+      })
+      .catch(() => {
+        // Keep the defaults; the server still validates on submit
+      });
+  }, []);
 
-    const strength = [hasUppercase, hasLowercase, hasNumber, hasSpecial, isLongEnough].filter(Boolean).length;
+  const validatePassword = (pwd: string) => {
+    const rules = getPasswordRules(passwordPolicy, pwd);
+    const unmet = rules.filter((rule) => !rule.met(pwd)).length;
 
-    if (strength <= 2) return "weak";
-    if (strength <= 3) return "medium";
+    if (unmet > 1) return "weak";
+    if (unmet === 1 || pwd.length < passwordPolicy.minLength + 4) return "medium";
     return "strong";
   };
 
@@ -81,23 +131,12 @@ const UserSignupForm: React.FC = () => {
       result = false;
     }
 
+    const unmetPasswordRule = getPasswordRules(passwordPolicy, password).find((rule) => !rule.met(password));
     if (!password || password.trim() === "") {
       setPasswordError(t("signup.validate.passwordRequired"));
       result = false;
-    } else if (password.length < 12) {
-      setPasswordError(t("signup.validate.passwordMinLength"));
-      result = false;
-    } else if (!/[A-Z]/.test(password)) {
-      setPasswordError(t("signup.validate.passwordUppercase"));
-      result = false;
-    } else if (!/[a-z]/.test(password)) {
-      setPasswordError(t("signup.validate.passwordLowercase"));
-      result = false;
-    } else if (!/\d/.test(password)) {
-      setPasswordError(t("signup.validate.passwordNumber"));
-      result = false;
-    } else if (!/[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/.test(password)) {
-      setPasswordError(t("signup.validate.passwordSpecial"));
+    } else if (unmetPasswordRule) {
+      setPasswordError(t(`signup.validate.${unmetPasswordRule.message}`, { count: passwordPolicy.minLength }));
       result = false;
     } else if (password.includes(email.split("@")[0])) {
       setPasswordError(t("signup.validate.passwordEmail"));
@@ -127,7 +166,6 @@ const UserSignupForm: React.FC = () => {
         lastName,
         email,
         password,
-        isOrganiser,
       });
 
       if (response.status === 201) {
@@ -152,7 +190,7 @@ const UserSignupForm: React.FC = () => {
           }]);
         } else if (errorMessage.includes("Password must be at least")) {
           setStatusMessages([{ 
-            message: "Password must be at least 12 characters long.", 
+            message: `Password must be at least ${passwordPolicy.minLength} characters long.`, 
             type: "error" 
           }]);
         } else if (errorMessage.includes("uppercase")) {
@@ -309,21 +347,11 @@ const UserSignupForm: React.FC = () => {
                   {t(`signup.passwordStrength.${passwordStrength}`)}
                 </p>
                 <ul className="text-xs mt-2 space-y-1">
-                  <li className={/[A-Z]/.test(password) ? "text-green-600" : "text-gray-400"}>
-                    ✓ {t("signup.passwordRequirements.uppercase")}
-                  </li>
-                  <li className={/[a-z]/.test(password) ? "text-green-600" : "text-gray-400"}>
-                    ✓ {t("signup.passwordRequirements.lowercase")}
-                  </li>
-                  <li className={/\d/.test(password) ? "text-green-600" : "text-gray-400"}>
-                    ✓ {t("signup.passwordRequirements.number")}
-                  </li>
-                  <li className={/[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/.test(password) ? "text-green-600" : "text-gray-400"}>
-                    ✓ {t("signup.passwordRequirements.special")}
-                  </li>
-                  <li className={password.length >= 12 ? "text-green-600" : "text-gray-400"}>
-                    ✓ {t("signup.passwordRequirements.length")}
-                  </li>
+                  {getPasswordRules(passwordPolicy, password).map((rule) => (
+                    <li key={rule.key} className={rule.met(password) ? "text-green-600" : "text-gray-400"}>
+                      ✓ {t(`signup.passwordRequirements.${rule.key}`, { count: passwordPolicy.minLength })}
+                    </li>
+                  ))}
                 </ul>
               </div>
             )}
@@ -351,18 +379,6 @@ const UserSignupForm: React.FC = () => {
             {confirmPasswordError && <p className="text-red-500 text-sm mt-1">{confirmPasswordError}</p>}
           </div>
 
-          <div className="mb-6">
-            <label className="flex items-center">
-              <input
-                type="checkbox"
-                className="w-4 h-4 text-blue-600"
-                checked={isOrganiser}
-                onChange={(e) => setIsOrganiser(e.target.checked)}
-              />
-              <span className="ml-2 text-sm">{t("signup.isOrganiser")}</span>
-            </label>
-          </div>
-
           <button
             className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-md transition"
             type="submit"
@@ -1,28 +1,22 @@
 import { Experience } from "@types";
-
-const getToken = (): string => {
-  const loggedInUserString = sessionStorage.getItem("loggedInUser");
-  return loggedInUserString ? JSON.parse(loggedInUserString).token : "";
-};
+import UserService from "./UserService";
 
 const getAllExperiences = () => {
-  return fetch(process.env.NEXT_PUBLIC_API_URL + "/events", {
+  return UserService.fetchWithAuth(process.env.NEXT_PUBLIC_API_URL + "/events", {
     method: "GET",
     headers: {
       "Content-Type": "application/json",
-      Authorization: `Bearer ${getToken()}`,
     },
   });
 };
 
 const getExperiencesByOrganiser = (organiserId: number) => {
-  return fetch(
+  return UserService.fetchWithAuth(
     process.env.NEXT_PUBLIC_API_URL + `/events/organiser/${organiserId}`,
     {
       method: "GET",
       headers: {
         "Content-Type": "application/json",
-        Authorization: `Bearer ${getToken()}`,
       },
     }
   );
@@ -34,11 +28,10 @@ const createExperience = (experience: {
   date: string;
   location: string;
 }) => {
-  return fetch(process.env.NEXT_PUBLIC_API_URL + "/events", {
+  return UserService.fetchWithAuth(process.env.NEXT_PUBLIC_API_URL + "/events", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
-      Authorization: `Bearer ${getToken()}`,
     },
     body: JSON.stringify(experience),
   });
@@ -1,4 +1,4 @@
-import { User } from "@types";
+import { LoggedInUser, User } from "@types";
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || "/api";
 
@@ -7,7 +7,6 @@ const signupUser = (userData: {
   lastName: string;
   email: string;
   password: string;
-  isOrganiser: boolean;
 }) => {
   return fetch(`${API_URL}/users/signup`, {
     method: "POST",
@@ -18,6 +17,10 @@ const signupUser = (userData: {
   });
 };
 
+const getPasswordPolicy = (profile: "standard" | "privileged" = "standard") => {
+  return fetch(`${API_URL}/users/password-policy?profile=${profile}`);
+};
+
 const verifyEmail = (token: string) => {
   return fetch(`${API_URL}/users/verify-email`, {
     method: "POST",
@@ -48,13 +51,13 @@ const loginUser = (credentials: { email: string; password: string }) => {
   });
 };
 
-const verifyMFA = (userId: number, mfaCode: string) => {
+const verifyMFA = (mfaChallengeId: string, mfaCode: string) => {
   return fetch(`${API_URL}/users/verify-mfa`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
     },
-    body: JSON.stringify({ userId, mfaCode }),
+    body: JSON.stringify({ mfaChallengeId, mfaCode }),
   });
 };
 
@@ -78,48 +81,124 @@ const resetPassword = (token: string, newPassword: string) => {
   });
 };
 
-const changePassword = (currentPassword: string, newPassword: string, token: string) => {
-  return fetch(`${API_URL}/users/change-password`, {
+const startStepUp = (currentPassword: string, token: string) => {
+  return fetch(`${API_URL}/users/step-up`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
       Authorization: `Bearer ${token}`,
     },
-    body: JSON.stringify({ currentPassword, newPassword }),
+    body: JSON.stringify({ currentPassword }),
   });
 };
 
-const verifyChangePassword = (mfaCode: string, newPassword: string, token: string) => {
-  return fetch(`${API_URL}/users/verify-change-password`, {
+const verifyStepUp = (mfaChallengeId: string, mfaCode: string, token: string) => {
+  return fetch(`${API_URL}/users/step-up/verify`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
       Authorization: `Bearer ${token}`,
     },
-    body: JSON.stringify({ mfaCode, newPassword }),
+    body: JSON.stringify({ mfaChallengeId, mfaCode }),
   });
 };
 
-const createRememberMeToken = (token: string) => {
-  return fetch(`${API_URL}/users/remember-me`, {
+// token must come from verifyStepUp
+const changePassword = (newPassword: string, token: string) => {
+  return fetch(`${API_URL}/users/change-password`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
       Authorization: `Bearer ${token}`,
     },
+    body: JSON.stringify({ newPassword }),
   });
 };
 
-const loginWithToken = (rememberMeToken: string) => {
-  return fetch(`${API_URL}/users/login-with-token`, {
+const refreshAccessToken = (refreshToken: string) => {
+  return fetch(`${API_URL}/users/refresh`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
     },
-    body: JSON.stringify({ rememberMeToken }),
+    body: JSON.stringify({ refreshToken }),
   });
 };
 
+// Refresh this long before the access token expires, so a request never carries a stale token
+const REFRESH_MARGIN_SECONDS = 30;
+
+// Only one refresh at a time: the back-end treats a refresh token that is used twice as
+// stolen and logs the whole session out
+let pendingRefresh: Promise<string | null> | null = null;
+
+const getStoredUser = (): LoggedInUser | null => {
+  const loggedInUserString = sessionStorage.getItem("loggedInUser");
+  return loggedInUserString ? JSON.parse(loggedInUserString) : null;
+};
+
+const expiresSoon = (token: string): boolean => {
+  try {
+    const { exp } = JSON.parse(atob(token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")));
+    return typeof exp === "number" && exp - REFRESH_MARGIN_SECONDS <= Date.now() / 1000;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Swap the stored refresh token for a new access/refresh pair. Resolves to the new access
+ * token, or null (and forgets the user) when the session can't be renewed.
+ */
+const refreshStoredTokens = (): Promise<string | null> => {
+  if (!pendingRefresh) {
+    pendingRefresh = (async () => {
+      const loggedInUser = getStoredUser();
+      if (!loggedInUser?.refreshToken) {
+        return null;
+      }
+
+      const response = await refreshAccessToken(loggedInUser.refreshToken);
+      if (!response.ok) {
+        sessionStorage.removeItem("loggedInUser");
+        return null;
+      }
+
+      const { token, refreshToken } = await response.json();
+      sessionStorage.setItem("loggedInUser", JSON.stringify({ ...loggedInUser, token, refreshToken }));
+      return token as string;
+    })().finally(() => {
+      pendingRefresh = null;
+    });
+  }
+  return pendingRefresh;
+};
+
+/**
+ * fetch with the logged-in user's access token, refreshed shortly before it expires, and
+ * retried once with a fresh token when the API answers 401
+ */
+const fetchWithAuth = async (url: string, init: RequestInit = {}) => {
+  const send = (token: string) =>
+    fetch(url, {
+      ...init,
+      headers: { ...init.headers, Authorization: `Bearer ${token}` },
+    });
+
+  let token = getStoredUser()?.token ?? "";
+  if (token && expiresSoon(token)) {
+    token = (await refreshStoredTokens()) ?? token;
+  }
+
+  const response = await send(token);
+  if (response.status !== 401 || !getStoredUser()?.refreshToken) {
+    return response;
+  }
+
+  const refreshed = await refreshStoredTokens();
+  return refreshed ? send(refreshed) : response;
+};
+
 const logoutUser = (token: string) => {
   return fetch(`${API_URL}/users/logout`, {
     method: "POST",
@@ -132,16 +211,18 @@ const logoutUser = (token: string) => {
 
 const UserService = {
   signupUser,
+  getPasswordPolicy,
   verifyEmail,
   resendVerificationEmail,
   loginUser,
   verifyMFA,
   forgotPassword,
   resetPassword,
+  startStepUp,
+  verifyStepUp,
   changePassword,
-  verifyChangePassword,
-  createRememberMeToken,
-  loginWithToken,
+  refreshAccessToken,
+  fetchWithAuth,
   logoutUser,
 };
 
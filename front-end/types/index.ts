@@ -24,7 +24,6 @@ export type User = {
   lastName: string;
   email: string;
   password: string;
-  isOrganiser: boolean;
 };
 
 export type StatusMessage = {
@@ -35,7 +34,22 @@ export type StatusMessage = {
 export type LoggedInUser = {
   id: number;
   token: string;
+  refreshToken?: string;
   firstName: string;
   lastName: string;
-  role: "ORGANISER" | "CLIENT";
+  role: string;
+};
+
+export type PasswordPolicy = {
+  profile: "standard" | "privileged";
+  minLength: number;
+  maxLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSpecial: boolean;
+  passphraseMinLength: number;
+  minStrengthScore: number;
+  historySize: number;
+  breachCheck: boolean;
 };